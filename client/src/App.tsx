@@ -11,9 +11,15 @@ import ProviderDashboard from "@/pages/provider-dashboard";
 import ServiceCategories from "@/pages/service-categories";
 import ServiceProviderProfile from "@/pages/service-provider-profile";
 import ProfilePage from "@/pages/profile-page";
+import ReviewModeration from "@/pages/review-moderation";
+import AdminConsole from "@/pages/admin-console";
 import { ProtectedRoute } from "./lib/protected-route";
 import { AuthProvider } from "./hooks/use-auth";
+import { NotificationsProvider } from "./hooks/use-notifications";
 import VerifyEmailPage from "./pages/verify-email";
+import ResetPasswordPage from "./pages/reset-password";
+import VerifyLoginPage from "./pages/verify-login";
+import TwoFactorLoginPage from "./pages/two-factor-login";
 
 // Wrapper component for AuthPage to handle route props
 const AuthPageWrapper = () => <AuthPage />;
@@ -28,7 +34,13 @@ function Router() {
       <ProtectedRoute path="/client-dashboard" component={ClientDashboard} />
       <ProtectedRoute path="/provider-dashboard" component={ProviderDashboard} />
       <ProtectedRoute path="/profile" component={ProfilePage} />
+      <ProtectedRoute path="/moderation/reviews" component={ReviewModeration} />
+      <ProtectedRoute path="/admin" component={AdminConsole} />
+      <ProtectedRoute path="/admin/:section" component={AdminConsole} />
       <Route path="/verify-email" component={VerifyEmailPage} />
+      <Route path="/reset-password" component={ResetPasswordPage} />
+      <Route path="/verify-login" component={VerifyLoginPage} />
+      <Route path="/login/two-factor" component={TwoFactorLoginPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -38,10 +50,12 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <AuthProvider>
-        <TooltipProvider>
-          <Toaster />
-          <Router />
-        </TooltipProvider>
+        <NotificationsProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Router />
+          </TooltipProvider>
+        </NotificationsProvider>
       </AuthProvider>
     </QueryClientProvider>
   );
@@ -0,0 +1,192 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useInfiniteQuery, useMutation } from "@tanstack/react-query";
+import { Conversation, Message } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2, Send, Check, CheckCheck } from "lucide-react";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type MessagePage = {
+  messages: Message[];
+  nextCursor: number | null;
+};
+
+interface ChatPanelProps {
+  serviceRequestId: number;
+}
+
+// How often to check for new messages while the panel is open
+const POLL_INTERVAL = 5000;
+
+export default function ChatPanel({ serviceRequestId }: ChatPanelProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [body, setBody] = useState("");
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  // Open (or create) the thread for this service request
+  const { data: conversation, isLoading: conversationLoading } = useQuery<Conversation>({
+    queryKey: ["/api/conversations", "service-request", serviceRequestId],
+    queryFn: async () => {
+      const res = await apiRequest("POST", "/api/conversations", { serviceRequestId });
+      return await res.json();
+    },
+  });
+
+  const messagesKey = ["/api/conversations", conversation?.id, "messages"];
+
+  const {
+    data,
+    isLoading: messagesLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: messagesKey,
+    queryFn: async ({ pageParam }) => {
+      const params = pageParam ? `?before=${pageParam}` : "";
+      const res = await fetch(`/api/conversations/${conversation!.id}/messages${params}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(await res.text());
+      return (await res.json()) as MessagePage;
+    },
+    initialPageParam: null as number | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!conversation,
+    refetchInterval: POLL_INTERVAL,
+  });
+
+  // Pages come back newest first; show them oldest first
+  const messages = (data?.pages ?? []).flatMap((page) => page.messages).reverse();
+  const latestMessageId = messages[messages.length - 1]?.id;
+  const hasUnread = messages.some((message) => message.senderId !== user?.id && !message.readAt);
+
+  const markReadMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `/api/conversations/${conversation!.id}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/conversations"] });
+    },
+  });
+
+  const sendMessageMutation = useMutation({
+    mutationFn: async (text: string) => {
+      const res = await apiRequest("POST", `/api/conversations/${conversation!.id}/messages`, { body: text });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setBody("");
+      queryClient.invalidateQueries({ queryKey: messagesKey });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to send message",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Scroll to the newest message when one arrives
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [latestMessageId]);
+
+  // Send read receipts for anything the other participant wrote
+  useEffect(() => {
+    if (conversation && hasUnread && !markReadMutation.isPending) {
+      markReadMutation.mutate();
+    }
+  }, [conversation, hasUnread]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = body.trim();
+    if (!text) return;
+    sendMessageMutation.mutate(text);
+  };
+
+  if (conversationLoading || messagesLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col gap-4">
+      <ScrollArea className="h-80 rounded-md border p-4">
+        {hasNextPage && (
+          <div className="flex justify-center mb-4">
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+            >
+              {isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Load older messages
+            </Button>
+          </div>
+        )}
+
+        {messages.length === 0 ? (
+          <p className="text-sm text-neutral-500 text-center py-8">No messages yet. Say hello!</p>
+        ) : (
+          <div className="flex flex-col gap-3">
+            {messages.map((message) => {
+              const isOwn = message.senderId === user?.id;
+              return (
+                <div key={message.id} className={`flex ${isOwn ? "justify-end" : "justify-start"}`}>
+                  <div
+                    className={`max-w-[75%] rounded-lg px-3 py-2 text-sm ${
+                      isOwn ? "bg-primary text-primary-foreground" : "bg-neutral-100 text-neutral-900"
+                    }`}
+                  >
+                    <p className="whitespace-pre-wrap break-words">{message.body}</p>
+                    <div className={`flex items-center gap-1 mt-1 text-xs ${isOwn ? "opacity-80" : "text-neutral-500"}`}>
+                      {message.createdAt && new Date(message.createdAt).toLocaleString()}
+                      {isOwn && (message.readAt
+                        ? <CheckCheck className="h-3 w-3" aria-label="Read" />
+                        : <Check className="h-3 w-3" aria-label="Sent" />)}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <div ref={bottomRef} />
+      </ScrollArea>
+
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <Textarea
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              handleSubmit(e);
+            }
+          }}
+          placeholder="Write a message..."
+          maxLength={2000}
+          rows={2}
+          className="resize-none"
+        />
+        <Button type="submit" disabled={!body.trim() || sendMessageMutation.isPending}>
+          {sendMessageMutation.isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Send className="h-4 w-4" />
+          )}
+        </Button>
+      </form>
+    </div>
+  );
+}
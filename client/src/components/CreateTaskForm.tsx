@@ -30,6 +30,7 @@ const taskFormSchema = z.object({
   title: z.string().min(5, "Title must be at least 5 characters"),
   description: z.string().min(10, "Description must be at least 10 characters"),
   location: z.string().min(3, "Location is required"),
+  postalCode: z.string().regex(/^\d{5}(-\d{4})?$/, "Enter a valid ZIP code"),
   categoryId: z.string().min(1, "Category is required"),
   budget: z.string().optional(),
 });
@@ -85,6 +86,7 @@ export default function CreateTaskForm({ onSuccess }: CreateTaskFormProps) {
       title: "",
       description: "",
       location: "",
+      postalCode: "",
       categoryId: "",
       budget: "",
     },
@@ -181,6 +183,20 @@ export default function CreateTaskForm({ onSuccess }: CreateTaskFormProps) {
           )}
         />
         
+        <FormField
+          control={form.control}
+          name="postalCode"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>ZIP Code</FormLabel>
+              <FormControl>
+                <Input placeholder="E.g. 78701" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        
         <FormField
           control={form.control}
           name="budget"
@@ -18,7 +18,7 @@ interface MainLayoutProps {
 
 export default function MainLayout({ children }: MainLayoutProps) {
   const [location] = useLocation();
-  const { user, logoutMutation, isProvider } = useAuth();
+  const { user, logoutMutation, isProvider, isAdmin } = useAuth();
   const [authDialogOpen, setAuthDialogOpen] = useState(false);
   const [defaultToRegister, setDefaultToRegister] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
@@ -71,6 +71,11 @@ export default function MainLayout({ children }: MainLayoutProps) {
                 <Link href="/profile" className="font-medium hover:text-primary transition-colors">
                   Profile
                 </Link>
+                {isAdmin && (
+                  <Link href="/admin" className="font-medium hover:text-primary transition-colors">
+                    Admin
+                  </Link>
+                )}
               </>
             )}
           </nav>
@@ -141,6 +146,11 @@ export default function MainLayout({ children }: MainLayoutProps) {
                       <Link href="/profile" className="font-medium hover:text-primary transition-colors" onClick={() => setMobileMenuOpen(false)}>
                         Profile
                       </Link>
+                      {isAdmin && (
+                        <Link href="/admin" className="font-medium hover:text-primary transition-colors" onClick={() => setMobileMenuOpen(false)}>
+                          Admin
+                        </Link>
+                      )}
                       <Button 
                         variant="outline" 
                         onClick={() => {
@@ -0,0 +1,139 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { QuoteComparison as QuoteComparisonRow } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, Star } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatQuotePrice } from "@/lib/utils";
+
+interface QuoteComparisonProps {
+  taskId: number;
+  onAccepted?: () => void;
+}
+
+export default function QuoteComparison({ taskId, onAccepted }: QuoteComparisonProps) {
+  const { toast } = useToast();
+  const quotesKey = [`/api/tasks/${taskId}/quotes`];
+
+  const { data: quotes, isLoading } = useQuery<QuoteComparisonRow[]>({
+    queryKey: quotesKey,
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (quoteId: number) => {
+      const res = await apiRequest("POST", `/api/quotes/${quoteId}/accept`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: quotesKey });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/client"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/service-requests/client"] });
+      toast({
+        title: "Quote accepted",
+        description: "The provider has been assigned and the other bidders notified.",
+      });
+      onAccepted?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to accept quote",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!quotes || quotes.length === 0) {
+    return (
+      <p className="text-center text-muted-foreground py-8">
+        No quotes yet. Providers' offers will appear here as they come in.
+      </p>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Provider</TableHead>
+          <TableHead>Price</TableHead>
+          <TableHead>Est. total</TableHead>
+          <TableHead>Earliest start</TableHead>
+          <TableHead>Valid until</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {quotes.map((quote) => {
+          const isPending = quote.serviceRequest.status === "pending";
+
+          return (
+            <TableRow key={quote.id}>
+              <TableCell>
+                <div className="font-medium">
+                  {quote.provider.user.firstName} {quote.provider.user.lastName}
+                </div>
+                <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                  <Star className="h-3 w-3 fill-yellow-400 text-yellow-400" />
+                  {quote.provider.rating ? quote.provider.rating.toFixed(1) : "New"}
+                  <span>· {quote.provider.completedJobs ?? 0} jobs</span>
+                </div>
+              </TableCell>
+              <TableCell>{formatQuotePrice(quote)}</TableCell>
+              <TableCell className="font-medium">${quote.estimatedTotal}</TableCell>
+              <TableCell>
+                {quote.earliestStartAt
+                  ? new Date(quote.earliestStartAt).toLocaleDateString()
+                  : "Flexible"}
+              </TableCell>
+              <TableCell>
+                {quote.expired ? (
+                  <Badge variant="outline">Expired</Badge>
+                ) : quote.expiresAt ? (
+                  new Date(quote.expiresAt).toLocaleDateString()
+                ) : (
+                  "Open"
+                )}
+              </TableCell>
+              <TableCell className="text-right">
+                {isPending ? (
+                  <Button
+                    size="sm"
+                    disabled={quote.expired || acceptMutation.isPending}
+                    onClick={() => acceptMutation.mutate(quote.id)}
+                  >
+                    {acceptMutation.isPending && acceptMutation.variables === quote.id && (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    )}
+                    Accept
+                  </Button>
+                ) : (
+                  <Badge variant={quote.serviceRequest.status === "declined" ? "outline" : "default"}>
+                    {quote.serviceRequest.status.replace(/_/g, " ")}
+                  </Badge>
+                )}
+              </TableCell>
+            </TableRow>
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+}
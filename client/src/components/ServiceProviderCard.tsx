@@ -1,10 +1,11 @@
 import { Link } from "wouter";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { ServiceProviderWithUser } from "@shared/schema";
+import { ProviderListing } from "@shared/schema";
 
 interface ServiceProviderCardProps {
-  provider: ServiceProviderWithUser;
+  // Location searches include the distance from the searched location
+  provider: ProviderListing & { distanceKm?: number };
 }
 
 export default function ServiceProviderCard({ provider }: ServiceProviderCardProps) {
@@ -38,6 +39,12 @@ export default function ServiceProviderCard({ provider }: ServiceProviderCardPro
                   ({provider.completedJobs})
                 </span>
               </div>
+              {provider.distanceKm !== undefined && (
+                <span className="text-neutral-500 text-sm">
+                  <i className="fas fa-map-marker-alt mr-1"></i>
+                  Within {provider.distanceKm} km
+                </span>
+              )}
             </div>
             <p className="text-neutral-600 text-sm line-clamp-2">
               {bio || `Professional ${category.name.toLowerCase()} service provider.`}
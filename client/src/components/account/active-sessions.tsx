@@ -0,0 +1,103 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Loader2, Monitor } from "lucide-react";
+import type { ActiveSession } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export function ActiveSessions() {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: ["/api/sessions"],
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Couldn't sign out", description: error.message, variant: "destructive" });
+  };
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/sessions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({ title: "Session signed out" });
+    },
+    onError,
+  });
+
+  const revokeOthersMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("DELETE", "/api/sessions");
+      return (await res.json()) as { revoked: number };
+    },
+    onSuccess: ({ revoked }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({ title: `Signed out of ${revoked} other session${revoked === 1 ? "" : "s"}` });
+    },
+    onError,
+  });
+
+  const others = sessions?.filter((session) => !session.current) ?? [];
+
+  return (
+    <div>
+      <h3 className="font-medium mb-1">Where You're Logged In</h3>
+      <p className="text-neutral-600 text-sm mb-4">
+        Sign out any session you don't recognize. Changing your password signs out all of them but this one.
+      </p>
+
+      {isLoading || !sessions ? (
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      ) : (
+        <div className="space-y-3">
+          <ul className="divide-y rounded-md border">
+            {sessions.map((session) => (
+              <li key={session.id} className="flex items-center justify-between gap-4 p-3">
+                <div className="flex items-center gap-3">
+                  <Monitor className="h-5 w-5 text-neutral-500" />
+                  <div className="text-sm">
+                    <div className="flex items-center gap-2 font-medium">
+                      {session.device}
+                      {session.current && <Badge variant="secondary">This device</Badge>}
+                    </div>
+                    <div className="text-neutral-500">
+                      {session.ip ?? "Unknown IP"} ·{" "}
+                      {session.current
+                        ? "Active now"
+                        : session.lastSeenAt
+                          ? `Last seen ${formatDistanceToNow(new Date(session.lastSeenAt), { addSuffix: true })}`
+                          : "Not seen yet"}
+                    </div>
+                  </div>
+                </div>
+                {!session.current && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={revokeMutation.isPending}
+                    onClick={() => revokeMutation.mutate(session.id)}
+                  >
+                    Sign out
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          <Button
+            variant="outline"
+            disabled={others.length === 0 || revokeOthersMutation.isPending}
+            onClick={() => revokeOthersMutation.mutate()}
+          >
+            {revokeOthersMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Sign out everywhere else
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
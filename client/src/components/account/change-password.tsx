@@ -0,0 +1,94 @@
+import { useState, type ChangeEvent } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import type { PasswordChange } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const emptyForm: PasswordChange = { currentPassword: "", password: "", confirmPassword: "" };
+
+export function ChangePassword() {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [form, setForm] = useState<PasswordChange>(emptyForm);
+
+  const close = () => {
+    setOpen(false);
+    setForm(emptyForm);
+  };
+
+  const changeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/password", form);
+      return (await res.json()) as { message: string };
+    },
+    onSuccess: ({ message }) => {
+      close();
+      // The other sessions were just signed out
+      queryClient.invalidateQueries({ queryKey: ["/api/sessions"] });
+      toast({ title: "Password changed", description: message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Couldn't change your password", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const mismatch = form.confirmPassword !== "" && form.password !== form.confirmPassword;
+  const field = (name: keyof PasswordChange) => ({
+    type: "password",
+    value: form[name],
+    onChange: (e: ChangeEvent<HTMLInputElement>) => setForm({ ...form, [name]: e.target.value }),
+  });
+
+  return (
+    <div>
+      <h3 className="font-medium mb-1">Change Password</h3>
+      <p className="text-neutral-600 text-sm mb-4">
+        Update your password to keep your account secure
+      </p>
+      <Button variant="outline" onClick={() => setOpen(true)}>Change Password</Button>
+
+      <Dialog open={open} onOpenChange={(isOpen) => !isOpen && close()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Change password</DialogTitle>
+            <DialogDescription>
+              You'll stay logged in here; every other session is signed out.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="current-password">Current password</Label>
+              <Input id="current-password" autoComplete="current-password" {...field("currentPassword")} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-password">New password</Label>
+              <Input id="new-password" autoComplete="new-password" {...field("password")} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="confirm-new-password">Confirm new password</Label>
+              <Input id="confirm-new-password" autoComplete="new-password" {...field("confirmPassword")} />
+              {mismatch && <p className="text-sm text-destructive">Passwords do not match</p>}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={close}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!form.currentPassword || form.password.length < 6 || mismatch || changeMutation.isPending}
+              onClick={() => changeMutation.mutate()}
+            >
+              {changeMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Change password
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Copy, Loader2, ShieldCheck } from "lucide-react";
+import type { TwoFactorEnrollment, TwoFactorStatus } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export function TwoFactorSettings() {
+  const { toast } = useToast();
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [disabling, setDisabling] = useState(false);
+  const [password, setPassword] = useState("");
+
+  const { data: status, isLoading } = useQuery<TwoFactorStatus>({
+    queryKey: ["/api/2fa"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/setup");
+      return (await res.json()) as TwoFactorEnrollment;
+    },
+    onSuccess: (started) => {
+      setEnrollment(started);
+      setCode("");
+    },
+    onError: onError("Couldn't start setup"),
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/enable", { code });
+      return (await res.json()) as { recoveryCodes: string[] };
+    },
+    onSuccess: ({ recoveryCodes }) => {
+      setEnrollment(null);
+      setCode("");
+      setRecoveryCodes(recoveryCodes);
+      queryClient.invalidateQueries({ queryKey: ["/api/2fa"] });
+    },
+    onError: onError("Couldn't turn on two-factor authentication"),
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/2fa/disable", { password, code });
+      return (await res.json()) as TwoFactorStatus;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/2fa"], updated);
+      setDisabling(false);
+      setPassword("");
+      setCode("");
+      toast({ title: "Two-factor authentication turned off" });
+    },
+    onError: onError("Couldn't turn off two-factor authentication"),
+  });
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({ title: "Recovery codes copied" });
+  };
+
+  return (
+    <div>
+      <h3 className="font-medium mb-1">Two-Factor Authentication</h3>
+      <p className="text-neutral-600 text-sm mb-4">
+        Ask for a code from an authenticator app such as Google Authenticator or 1Password when you log in.
+      </p>
+
+      {isLoading || !status ? (
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      ) : recoveryCodes ? (
+        <div className="space-y-3">
+          <p className="text-sm">
+            Two-factor authentication is on. Save these recovery codes somewhere safe: each one logs you in once
+            if you lose your phone, and they won't be shown again.
+          </p>
+          <div className="grid grid-cols-2 gap-2 rounded-md border bg-neutral-50 p-3 font-mono text-sm">
+            {recoveryCodes.map((recoveryCode) => (
+              <span key={recoveryCode}>{recoveryCode}</span>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={copyRecoveryCodes}>
+              <Copy className="h-4 w-4 mr-2" />
+              Copy codes
+            </Button>
+            <Button onClick={() => setRecoveryCodes(null)}>I've saved them</Button>
+          </div>
+        </div>
+      ) : status.enabled ? (
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2 text-sm">
+            <ShieldCheck className="h-5 w-5 text-green-600" />
+            <span>
+              On since {status.enabledAt ? new Date(status.enabledAt).toLocaleDateString() : "—"} ·{" "}
+              {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left
+            </span>
+          </div>
+          <Button variant="outline" onClick={() => setDisabling(true)}>
+            Turn off
+          </Button>
+        </div>
+      ) : enrollment ? (
+        <div className="space-y-3">
+          <p className="text-sm">
+            Scan this QR code with your authenticator app, or enter the key by hand, then type in the code it shows.
+          </p>
+          <img src={enrollment.qrCode} alt="Two-factor authentication QR code" className="h-44 w-44 border rounded-md" />
+          <Input readOnly value={enrollment.secret} className="font-mono" onFocus={(e) => e.target.select()} />
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              enableMutation.mutate();
+            }}
+            className="flex gap-2"
+          >
+            <Input
+              autoComplete="one-time-code"
+              inputMode="numeric"
+              placeholder="123456"
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+            />
+            <Button type="submit" disabled={!code.trim() || enableMutation.isPending}>
+              {enableMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Turn on
+            </Button>
+            <Button type="button" variant="ghost" onClick={() => setEnrollment(null)}>
+              Cancel
+            </Button>
+          </form>
+        </div>
+      ) : (
+        <Button variant="outline" onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending}>
+          {setupMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Set up two-factor authentication
+        </Button>
+      )}
+
+      <Dialog open={disabling} onOpenChange={(open) => !open && setDisabling(false)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Turn off two-factor authentication</DialogTitle>
+            <DialogDescription>
+              Confirm your password and enter a code from your authenticator app or a recovery code.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label htmlFor="disable-2fa-password">Password</Label>
+              <Input
+                id="disable-2fa-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="disable-2fa-code">Authentication code</Label>
+              <Input
+                id="disable-2fa-code"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDisabling(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!password || !code.trim() || disableMutation.isPending}
+              onClick={() => disableMutation.mutate()}
+            >
+              {disableMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Turn off
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
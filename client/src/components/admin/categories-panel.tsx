@@ -0,0 +1,197 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import type { ServiceCategory } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type CategoryForm = { name: string; description: string; icon: string };
+
+const emptyForm: CategoryForm = { name: "", description: "", icon: "" };
+
+export function CategoriesPanel() {
+  const { toast } = useToast();
+  // null while closed; "new" or the category being edited while open
+  const [editing, setEditing] = useState<ServiceCategory | "new" | null>(null);
+  const [deleting, setDeleting] = useState<ServiceCategory | null>(null);
+  const [form, setForm] = useState<CategoryForm>(emptyForm);
+
+  const { data: categories, isLoading } = useQuery<ServiceCategory[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        name: form.name,
+        description: form.description.trim() || null,
+        icon: form.icon.trim() || null,
+      };
+      const res = editing === "new"
+        ? await apiRequest("POST", "/api/admin/categories", body)
+        : await apiRequest("PATCH", `/api/admin/categories/${(editing as ServiceCategory).id}`, body);
+      return await res.json();
+    },
+    onSuccess: () => {
+      setEditing(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      toast({
+        title: "Category saved",
+        description: "Clients and providers see the change straight away",
+      });
+    },
+    onError: onError("Saving failed"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/admin/categories/${deleting!.id}`);
+    },
+    onSuccess: () => {
+      setDeleting(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      toast({
+        title: "Category deleted",
+        description: "It is no longer offered",
+      });
+    },
+    onError: onError("Deleting failed"),
+  });
+
+  const openEditor = (category: ServiceCategory | "new") => {
+    setForm(
+      category === "new"
+        ? emptyForm
+        : { name: category.name, description: category.description ?? "", icon: category.icon ?? "" }
+    );
+    setEditing(category);
+  };
+
+  if (isLoading || !categories) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="flex justify-end mb-4">
+        <Button onClick={() => openEditor("new")}>
+          <Plus className="mr-1 h-4 w-4" />
+          New Category
+        </Button>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Description</TableHead>
+            <TableHead>Icon</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {categories.map((category) => (
+            <TableRow key={category.id}>
+              <TableCell className="font-medium">{category.name}</TableCell>
+              <TableCell className="text-muted-foreground">{category.description}</TableCell>
+              <TableCell className="text-muted-foreground">{category.icon}</TableCell>
+              <TableCell className="text-right space-x-2">
+                <Button size="sm" variant="outline" onClick={() => openEditor(category)}>
+                  <Pencil className="mr-1 h-4 w-4" />
+                  Edit
+                </Button>
+                <Button size="sm" variant="destructive" onClick={() => setDeleting(category)}>
+                  <Trash2 className="mr-1 h-4 w-4" />
+                  Delete
+                </Button>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "New Category" : "Edit Category"}</DialogTitle>
+            <DialogDescription>Names must be unique.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="category-name">Name</Label>
+              <Input
+                id="category-name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="category-description">Description</Label>
+              <Textarea
+                id="category-description"
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="category-icon">Icon</Label>
+              <Input
+                id="category-icon"
+                placeholder="A lucide icon name, e.g. Wrench"
+                value={form.icon}
+                onChange={(e) => setForm({ ...form, icon: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" type="button" onClick={() => setEditing(null)}>
+              Cancel
+            </Button>
+            <Button disabled={!form.name.trim() || saveMutation.isPending} onClick={() => saveMutation.mutate()}>
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>Delete {deleting?.name}</DialogTitle>
+            <DialogDescription>
+              Categories that providers or tasks still use can't be deleted; rename them instead.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" type="button" onClick={() => setDeleting(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" disabled={deleteMutation.isPending} onClick={() => deleteMutation.mutate()}>
+              {deleteMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
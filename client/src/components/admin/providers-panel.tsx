@@ -0,0 +1,109 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { BadgeCheck, Loader2, Star } from "lucide-react";
+import { Link } from "wouter";
+import type { AdminProvider } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+export function ProvidersPanel() {
+  const { toast } = useToast();
+
+  const { data: providers, isLoading } = useQuery<AdminProvider[]>({
+    queryKey: ["/api/admin/providers"],
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async ({ id, verified }: { id: number; verified: boolean }) => {
+      const res = await apiRequest("PUT", `/api/admin/providers/${id}/verification`, { verified });
+      return await res.json();
+    },
+    onSuccess: (provider: AdminProvider) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/providers"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/providers/${provider.id}`] });
+      toast({
+        title: provider.verifiedAt ? "Provider verified" : "Verification removed",
+        description: `${provider.user?.firstName ?? "The provider"}'s profile has been updated`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Update failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !providers) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Provider</TableHead>
+          <TableHead>Category</TableHead>
+          <TableHead>Rating</TableHead>
+          <TableHead>Jobs</TableHead>
+          <TableHead>Verification</TableHead>
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {providers.map((provider) => (
+          <TableRow key={provider.id}>
+            <TableCell className="font-medium">
+              <Link href={`/provider/${provider.id}`} className="hover:text-primary">
+                {provider.user ? `${provider.user.firstName} ${provider.user.lastName}` : `Provider #${provider.id}`}
+              </Link>
+              {provider.user?.suspendedAt && (
+                <Badge variant="destructive" className="ml-2">
+                  Suspended
+                </Badge>
+              )}
+              <div className="text-xs text-muted-foreground">{provider.user?.email}</div>
+            </TableCell>
+            <TableCell>{provider.category?.name ?? "—"}</TableCell>
+            <TableCell>
+              {provider.rating ? (
+                <span className="inline-flex items-center gap-1">
+                  <Star className="h-3 w-3 fill-yellow-500 text-yellow-500" />
+                  {provider.rating.toFixed(1)}
+                </span>
+              ) : (
+                "—"
+              )}
+            </TableCell>
+            <TableCell>{provider.completedJobs ?? 0}</TableCell>
+            <TableCell>
+              {provider.verifiedAt ? (
+                <Badge className="bg-green-500">Verified {new Date(provider.verifiedAt).toLocaleDateString()}</Badge>
+              ) : (
+                <Badge variant="outline">Unverified</Badge>
+              )}
+            </TableCell>
+            <TableCell className="text-right">
+              <Button
+                size="sm"
+                variant={provider.verifiedAt ? "outline" : "default"}
+                disabled={verifyMutation.isPending}
+                onClick={() => verifyMutation.mutate({ id: provider.id, verified: !provider.verifiedAt })}
+              >
+                {!provider.verifiedAt && <BadgeCheck className="mr-1 h-4 w-4" />}
+                {provider.verifiedAt ? "Unverify" : "Verify"}
+              </Button>
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
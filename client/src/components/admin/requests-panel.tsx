@@ -0,0 +1,83 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import type { AdminServiceRequest } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+export function RequestsPanel() {
+  const [status, setStatus] = useState("all");
+
+  const { data: requests, isLoading } = useQuery<AdminServiceRequest[]>({
+    queryKey: ["/api/admin/service-requests"],
+  });
+
+  if (isLoading || !requests) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const statuses = Array.from(new Set(requests.map((request) => request.status))).sort();
+  const shown = status === "all" ? requests : requests.filter((request) => request.status === status);
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-4">
+        <span className="text-sm text-muted-foreground">
+          {shown.length} request{shown.length === 1 ? "" : "s"}
+        </span>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {statuses.map((value) => (
+              <SelectItem key={value} value={value}>
+                {value.replace(/_/g, " ")}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Request</TableHead>
+            <TableHead>Client</TableHead>
+            <TableHead>Provider</TableHead>
+            <TableHead>Scheduled</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Created</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {shown.map((request) => (
+            <TableRow key={request.id}>
+              <TableCell className="font-medium">
+                #{request.id}
+                <div className="text-xs text-muted-foreground">
+                  {request.taskId ? `For task #${request.taskId}` : "Direct booking"} · by the {request.initiatedBy}
+                </div>
+              </TableCell>
+              <TableCell>{request.client ? `${request.client.firstName} ${request.client.lastName}` : "—"}</TableCell>
+              <TableCell>{request.provider ? `${request.provider.firstName} ${request.provider.lastName}` : "—"}</TableCell>
+              <TableCell>{request.scheduledStart ? new Date(request.scheduledStart).toLocaleString() : "—"}</TableCell>
+              <TableCell>
+                <Badge variant="outline" className="capitalize">
+                  {request.status.replace(/_/g, " ")}
+                </Badge>
+              </TableCell>
+              <TableCell>{request.createdAt ? new Date(request.createdAt).toLocaleDateString() : ""}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </>
+  );
+}
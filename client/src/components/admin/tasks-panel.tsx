@@ -0,0 +1,81 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import type { AdminTask } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+export function TasksPanel() {
+  const [status, setStatus] = useState("all");
+
+  const { data: tasks, isLoading } = useQuery<AdminTask[]>({
+    queryKey: ["/api/admin/tasks"],
+  });
+
+  if (isLoading || !tasks) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const statuses = Array.from(new Set(tasks.map((task) => task.status))).sort();
+  const shown = status === "all" ? tasks : tasks.filter((task) => task.status === status);
+
+  return (
+    <>
+      <div className="flex justify-between items-center mb-4">
+        <span className="text-sm text-muted-foreground">
+          {shown.length} task{shown.length === 1 ? "" : "s"}
+        </span>
+        <Select value={status} onValueChange={setStatus}>
+          <SelectTrigger className="w-[180px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            {statuses.map((value) => (
+              <SelectItem key={value} value={value}>
+                {value.replace(/_/g, " ")}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Task</TableHead>
+            <TableHead>Client</TableHead>
+            <TableHead>Category</TableHead>
+            <TableHead>Budget</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead>Posted</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {shown.map((task) => (
+            <TableRow key={task.id}>
+              <TableCell className="font-medium">
+                {task.title}
+                <div className="text-xs text-muted-foreground">#{task.id} · {task.location}</div>
+              </TableCell>
+              <TableCell>{task.client ? `${task.client.firstName} ${task.client.lastName}` : "—"}</TableCell>
+              <TableCell>{task.category?.name ?? "—"}</TableCell>
+              <TableCell>{task.budget != null ? `$${task.budget}` : "—"}</TableCell>
+              <TableCell>
+                <Badge variant="outline" className="capitalize">
+                  {task.status.replace(/_/g, " ")}
+                </Badge>
+              </TableCell>
+              <TableCell>{task.createdAt ? new Date(task.createdAt).toLocaleDateString() : ""}</TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </>
+  );
+}
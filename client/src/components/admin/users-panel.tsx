@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Ban, Loader2, RotateCcw } from "lucide-react";
+import { userRoles, type AdminUser } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+function invalidateUsers() {
+  queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/admin/providers"] });
+}
+
+export function UsersPanel() {
+  const { toast } = useToast();
+  const [suspending, setSuspending] = useState<AdminUser | null>(null);
+  const [reason, setReason] = useState("");
+
+  const { data: users, isLoading } = useQuery<AdminUser[]>({
+    queryKey: ["/api/admin/users"],
+  });
+
+  const suspendMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/admin/users/${suspending!.id}/suspend`, { reason });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setSuspending(null);
+      invalidateUsers();
+      toast({
+        title: "User suspended",
+        description: "They have been signed out and can't log in",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Suspension failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unsuspendMutation = useMutation({
+    mutationFn: async (userId: number) => {
+      const res = await apiRequest("POST", `/api/admin/users/${userId}/unsuspend`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      invalidateUsers();
+      toast({
+        title: "Suspension lifted",
+        description: "The user can log in again",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not lift suspension",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (user: AdminUser) => {
+    setReason("");
+    setSuspending(user);
+  };
+
+  if (isLoading || !users) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Email</TableHead>
+            <TableHead>Role</TableHead>
+            <TableHead>Joined</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {users.map((user) => (
+            <TableRow key={user.id}>
+              <TableCell className="font-medium">
+                {user.firstName} {user.lastName}
+                <div className="text-xs text-muted-foreground">@{user.username}</div>
+              </TableCell>
+              <TableCell>
+                {user.email}
+                {!user.emailVerified && <div className="text-xs text-muted-foreground">Not verified</div>}
+              </TableCell>
+              <TableCell>
+                <Badge variant={user.role === userRoles.ADMIN ? "default" : "outline"} className="capitalize">
+                  {user.role}
+                </Badge>
+              </TableCell>
+              <TableCell>{user.createdAt ? new Date(user.createdAt).toLocaleDateString() : ""}</TableCell>
+              <TableCell>
+                {user.suspendedAt ? (
+                  <Badge variant="destructive" title={user.suspensionReason ?? undefined}>
+                    Suspended {new Date(user.suspendedAt).toLocaleDateString()}
+                  </Badge>
+                ) : (
+                  <Badge variant="outline">Active</Badge>
+                )}
+              </TableCell>
+              <TableCell className="text-right">
+                {user.role === userRoles.ADMIN ? null : user.suspendedAt ? (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={unsuspendMutation.isPending}
+                    onClick={() => unsuspendMutation.mutate(user.id)}
+                  >
+                    <RotateCcw className="mr-1 h-4 w-4" />
+                    Unsuspend
+                  </Button>
+                ) : (
+                  <Button size="sm" variant="destructive" onClick={() => openDialog(user)}>
+                    <Ban className="mr-1 h-4 w-4" />
+                    Suspend
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Dialog open={!!suspending} onOpenChange={(open) => !open && setSuspending(null)}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>
+              Suspend {suspending?.firstName} {suspending?.lastName}
+            </DialogTitle>
+            <DialogDescription>
+              They are signed out everywhere and can't log in until the suspension is lifted.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="suspension-reason">Reason</Label>
+            <Textarea id="suspension-reason" value={reason} onChange={(e) => setReason(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" type="button" onClick={() => setSuspending(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!reason.trim() || suspendMutation.isPending}
+              onClick={() => suspendMutation.mutate()}
+            >
+              {suspendMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Suspend
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,268 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import type { AvailabilityException, ProviderAvailability } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { weekdayNames, weekOrder } from "./weekly-schedule";
+
+type RuleDraft = {
+  weekday: number;
+  startTime: string;
+  endTime: string;
+};
+
+const slotLengths = [30, 45, 60, 90, 120, 180, 240];
+
+interface AvailabilityEditorProps {
+  providerId: number;
+}
+
+export function AvailabilityEditor({ providerId }: AvailabilityEditorProps) {
+  const { toast } = useToast();
+  const availabilityKey = [`/api/providers/${providerId}/availability`];
+
+  const [timezone, setTimezone] = useState(Intl.DateTimeFormat().resolvedOptions().timeZone);
+  const [slotMinutes, setSlotMinutes] = useState(60);
+  const [rules, setRules] = useState<RuleDraft[]>([]);
+  const [blockStart, setBlockStart] = useState("");
+  const [blockEnd, setBlockEnd] = useState("");
+  const [blockReason, setBlockReason] = useState("");
+
+  const { data: availability, isLoading } = useQuery<ProviderAvailability>({
+    queryKey: availabilityKey,
+  });
+
+  useEffect(() => {
+    if (availability) {
+      setTimezone(availability.timezone);
+      setSlotMinutes(availability.slotMinutes);
+      setRules(availability.rules.map(({ weekday, startTime, endTime }) => ({ weekday, startTime, endTime })));
+    }
+  }, [availability]);
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Update failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveScheduleMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("PUT", `/api/providers/${providerId}/availability`, {
+        timezone,
+        slotMinutes,
+        rules,
+      });
+      return await res.json();
+    },
+    onSuccess: (updated: ProviderAvailability) => {
+      queryClient.setQueryData(availabilityKey, updated);
+      toast({
+        title: "Availability saved",
+        description: "Clients can now book the slots in your schedule",
+      });
+    },
+    onError,
+  });
+
+  const addBlockMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/providers/${providerId}/availability/exceptions`, {
+        startsAt: new Date(blockStart).toISOString(),
+        endsAt: new Date(blockEnd).toISOString(),
+        reason: blockReason || null,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setBlockStart("");
+      setBlockEnd("");
+      setBlockReason("");
+      queryClient.invalidateQueries({ queryKey: availabilityKey });
+    },
+    onError,
+  });
+
+  const removeBlockMutation = useMutation({
+    mutationFn: async (exceptionId: number) => {
+      await apiRequest("DELETE", `/api/providers/${providerId}/availability/exceptions/${exceptionId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: availabilityKey });
+    },
+    onError,
+  });
+
+  const updateRule = (index: number, changes: Partial<RuleDraft>) => {
+    setRules((current) => current.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)));
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-8">
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="availability-timezone">Timezone</Label>
+            <Input
+              id="availability-timezone"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              placeholder="e.g., America/Chicago"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Appointment length</Label>
+            <Select value={slotMinutes.toString()} onValueChange={(value) => setSlotMinutes(parseInt(value))}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {slotLengths.map((minutes) => (
+                  <SelectItem key={minutes} value={minutes.toString()}>
+                    {minutes < 60 ? `${minutes} minutes` : `${minutes / 60} hour${minutes === 60 ? "" : "s"}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="divide-y border rounded-md">
+          {weekOrder.map((weekday) => {
+            const dayRules = rules
+              .map((rule, index) => ({ rule, index }))
+              .filter(({ rule }) => rule.weekday === weekday);
+
+            return (
+              <div key={weekday} className="flex flex-col md:flex-row md:items-start gap-2 p-3">
+                <div className="w-28 font-medium text-sm pt-2">{weekdayNames[weekday]}</div>
+                <div className="flex-1 space-y-2">
+                  {dayRules.length === 0 && (
+                    <p className="text-sm text-neutral-500 pt-2">Unavailable</p>
+                  )}
+                  {dayRules.map(({ rule, index }) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        className="w-32"
+                        value={rule.startTime}
+                        onChange={(e) => updateRule(index, { startTime: e.target.value })}
+                      />
+                      <span className="text-neutral-500">to</span>
+                      <Input
+                        type="time"
+                        className="w-32"
+                        value={rule.endTime}
+                        onChange={(e) => updateRule(index, { endTime: e.target.value })}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setRules((current) => current.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setRules((current) => [...current, { weekday, startTime: "09:00", endTime: "17:00" }])}
+                >
+                  <Plus className="mr-1 h-4 w-4" />
+                  Add hours
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        <Button onClick={() => saveScheduleMutation.mutate()} disabled={saveScheduleMutation.isPending}>
+          {saveScheduleMutation.isPending ? (
+            <>
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              Saving...
+            </>
+          ) : (
+            "Save Schedule"
+          )}
+        </Button>
+      </div>
+
+      <div className="border-t pt-6 space-y-4">
+        <div>
+          <h3 className="font-medium mb-1">Time off</h3>
+          <p className="text-neutral-600 text-sm">
+            Block out vacations or one-off commitments. No slots are offered while a block is in effect.
+          </p>
+        </div>
+
+        {availability?.exceptions.map((exception: AvailabilityException) => (
+          <div key={exception.id} className="flex items-center justify-between bg-neutral-50 rounded-md p-3 text-sm">
+            <div>
+              <div className="font-medium">
+                {new Date(exception.startsAt).toLocaleString()} – {new Date(exception.endsAt).toLocaleString()}
+              </div>
+              {exception.reason && <div className="text-neutral-600">{exception.reason}</div>}
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              disabled={removeBlockMutation.isPending}
+              onClick={() => removeBlockMutation.mutate(exception.id)}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="block-start">From</Label>
+            <Input id="block-start" type="datetime-local" value={blockStart} onChange={(e) => setBlockStart(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="block-end">Until</Label>
+            <Input id="block-end" type="datetime-local" value={blockEnd} onChange={(e) => setBlockEnd(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="block-reason">Reason (optional)</Label>
+            <Input id="block-reason" value={blockReason} onChange={(e) => setBlockReason(e.target.value)} placeholder="e.g., Vacation" />
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => addBlockMutation.mutate()}
+          disabled={!blockStart || !blockEnd || addBlockMutation.isPending}
+        >
+          {addBlockMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Block Time
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import type { TimeSlot } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+
+const DAYS_PER_PAGE = 7;
+
+interface SlotPickerProps {
+  providerId: number;
+  // ISO start of the chosen slot
+  value: string | null;
+  onChange: (start: string | null) => void;
+}
+
+function startOfToday() {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+function addDays(date: Date, days: number) {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+export function SlotPicker({ providerId, value, onChange }: SlotPickerProps) {
+  const [weekStart, setWeekStart] = useState(startOfToday);
+  const weekEnd = addDays(weekStart, DAYS_PER_PAGE);
+
+  const params = new URLSearchParams({ from: weekStart.toISOString(), to: weekEnd.toISOString() });
+  const { data: slots, isLoading } = useQuery<TimeSlot[]>({
+    queryKey: [`/api/providers/${providerId}/slots?${params}`],
+  });
+
+  // Slots arrive as ISO strings; group them by the client's local day
+  const days = new Map<string, string[]>();
+  for (const slot of slots ?? []) {
+    const start = String(slot.start);
+    const day = new Date(start).toDateString();
+    days.set(day, [...(days.get(day) ?? []), start]);
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          disabled={weekStart <= startOfToday()}
+          onClick={() => setWeekStart(addDays(weekStart, -DAYS_PER_PAGE))}
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="text-sm font-medium">
+          {weekStart.toLocaleDateString()} – {addDays(weekEnd, -1).toLocaleDateString()}
+        </span>
+        <Button type="button" variant="ghost" size="icon" onClick={() => setWeekStart(weekEnd)}>
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        </div>
+      ) : days.size === 0 ? (
+        <p className="text-sm text-neutral-500 text-center py-4">No free slots this week</p>
+      ) : (
+        <div className="space-y-3 max-h-64 overflow-y-auto">
+          {Array.from(days.entries()).map(([day, starts]) => (
+            <div key={day}>
+              <div className="text-xs font-medium text-neutral-600 mb-1">
+                {new Date(starts[0]).toLocaleDateString(undefined, { weekday: "long", month: "short", day: "numeric" })}
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {starts.map((start) => (
+                  <Button
+                    key={start}
+                    type="button"
+                    size="sm"
+                    variant={value === start ? "default" : "outline"}
+                    className={cn(value === start && "ring-2 ring-primary/30")}
+                    onClick={() => onChange(value === start ? null : start)}
+                  >
+                    {new Date(start).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" })}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import type { AvailabilityRule } from "@shared/schema";
+
+// Indexed like Date.getDay(), which is how rules store their weekday
+export const weekdayNames = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Weeks are shown starting on Monday
+export const weekOrder = [1, 2, 3, 4, 5, 6, 0];
+
+interface WeeklyScheduleProps {
+  rules: Pick<AvailabilityRule, "weekday" | "startTime" | "endTime">[];
+  timezone: string;
+}
+
+export function WeeklySchedule({ rules, timezone }: WeeklyScheduleProps) {
+  return (
+    <div className="text-sm space-y-1">
+      {weekOrder.map((weekday) => {
+        const hours = rules
+          .filter((rule) => rule.weekday === weekday)
+          .map((rule) => `${rule.startTime}–${rule.endTime}`);
+
+        return (
+          <div key={weekday} className="flex justify-between gap-4">
+            <span className="text-neutral-600">{weekdayNames[weekday].slice(0, 3)}</span>
+            <span className={hours.length ? "" : "text-neutral-400"}>{hours.length ? hours.join(", ") : "Closed"}</span>
+          </div>
+        );
+      })}
+      <div className="text-xs text-neutral-500 pt-1">Times in {timezone}</div>
+    </div>
+  );
+}
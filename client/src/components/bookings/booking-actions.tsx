@@ -0,0 +1,196 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { CalendarPlus, CalendarX, Download, Loader2 } from "lucide-react";
+import type { Booking } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// Only agreed, unfinished work can be put in the calendar
+const schedulableStatuses = ["accepted", "in_progress"];
+
+interface BookingActionsProps {
+  request: {
+    id: number;
+    status: string;
+    booking: Booking | null;
+  };
+}
+
+// Formats a date for a datetime-local input, in the browser's timezone
+function toLocalInput(value: Date | string) {
+  const date = new Date(value);
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().slice(0, 16);
+}
+
+export function BookingActions({ request }: BookingActionsProps) {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+  const [address, setAddress] = useState("");
+
+  const booking = request.booking?.status === "confirmed" ? request.booking : null;
+
+  const refreshRequests = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/service-requests/client"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/service-requests/provider"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Booking failed",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const time = {
+        startsAt: new Date(startsAt).toISOString(),
+        endsAt: new Date(endsAt).toISOString(),
+        address: address || null,
+      };
+      const res = booking
+        ? await apiRequest("PATCH", `/api/bookings/${booking.id}`, time)
+        : await apiRequest("POST", `/api/service-requests/${request.id}/booking`, time);
+      return await res.json();
+    },
+    onSuccess: () => {
+      setDialogOpen(false);
+      refreshRequests();
+      toast({
+        title: booking ? "Booking rescheduled" : "Booking confirmed",
+        description: "Subscribed calendars will pick up the change",
+      });
+    },
+    onError,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (bookingId: number) => {
+      const res = await apiRequest("POST", `/api/bookings/${bookingId}/cancel`);
+      return await res.json();
+    },
+    onSuccess: () => {
+      refreshRequests();
+      toast({
+        title: "Booking cancelled",
+        description: "The job itself is still on; you can book a new time",
+      });
+    },
+    onError,
+  });
+
+  if (!schedulableStatuses.includes(request.status)) {
+    return booking ? (
+      <Button size="sm" variant="outline" asChild>
+        <a href={`/api/bookings/${booking.id}/ics`}>
+          <Download className="mr-2 h-4 w-4" />
+          Add to Calendar
+        </a>
+      </Button>
+    ) : null;
+  }
+
+  const openDialog = () => {
+    setStartsAt(booking ? toLocalInput(booking.startsAt) : "");
+    setEndsAt(booking ? toLocalInput(booking.endsAt) : "");
+    setAddress(booking?.address ?? "");
+    setDialogOpen(true);
+  };
+
+  return (
+    <>
+      {booking ? (
+        <>
+          <Button size="sm" variant="outline" asChild>
+            <a href={`/api/bookings/${booking.id}/ics`}>
+              <Download className="mr-2 h-4 w-4" />
+              Add to Calendar
+            </a>
+          </Button>
+          <Button size="sm" variant="outline" onClick={openDialog}>
+            <CalendarPlus className="mr-2 h-4 w-4" />
+            Reschedule
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={cancelMutation.isPending}
+            onClick={() => cancelMutation.mutate(booking.id)}
+          >
+            <CalendarX className="mr-2 h-4 w-4" />
+            Cancel Booking
+          </Button>
+        </>
+      ) : (
+        <Button size="sm" variant="outline" onClick={openDialog}>
+          <CalendarPlus className="mr-2 h-4 w-4" />
+          Schedule
+        </Button>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>{booking ? "Reschedule Booking" : "Schedule Appointment"}</DialogTitle>
+            <DialogDescription>
+              Pick a time you have agreed on; the other party is updated right away.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor={`booking-start-${request.id}`}>Starts</Label>
+                <Input
+                  id={`booking-start-${request.id}`}
+                  type="datetime-local"
+                  value={startsAt}
+                  onChange={(e) => setStartsAt(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor={`booking-end-${request.id}`}>Ends</Label>
+                <Input
+                  id={`booking-end-${request.id}`}
+                  type="datetime-local"
+                  value={endsAt}
+                  onChange={(e) => setEndsAt(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`booking-address-${request.id}`}>Address</Label>
+              <Input
+                id={`booking-address-${request.id}`}
+                placeholder="Where the job takes place"
+                value={address}
+                onChange={(e) => setAddress(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" type="button" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!startsAt || !endsAt || saveMutation.isPending}
+              onClick={() => saveMutation.mutate()}
+            >
+              {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {booking ? "Reschedule" : "Book"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,74 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Copy, Loader2, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type CalendarFeedResponse = {
+  url: string;
+};
+
+export function CalendarFeed() {
+  const { toast } = useToast();
+
+  const { data: feed, isLoading } = useQuery<CalendarFeedResponse>({
+    queryKey: ["/api/calendar/feed"],
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/calendar/feed/reset");
+      return await res.json();
+    },
+    onSuccess: (updated: CalendarFeedResponse) => {
+      queryClient.setQueryData(["/api/calendar/feed"], updated);
+      toast({
+        title: "Calendar link reset",
+        description: "Calendars using the old link will no longer update",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Reset failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const copyUrl = async () => {
+    if (!feed) return;
+    await navigator.clipboard.writeText(feed.url);
+    toast({ title: "Link copied" });
+  };
+
+  return (
+    <div>
+      <h3 className="font-medium mb-1">Calendar Subscription</h3>
+      <p className="text-neutral-600 text-sm mb-4">
+        Subscribe to this link from Google Calendar, Outlook or Apple Calendar to see your upcoming jobs.
+        Keep it private: anyone with the link can see your bookings.
+      </p>
+      {isLoading || !feed ? (
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+      ) : (
+        <div className="flex gap-2">
+          <Input readOnly value={feed.url} onFocus={(e) => e.target.select()} />
+          <Button variant="outline" size="icon" onClick={copyUrl} title="Copy link">
+            <Copy className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={() => resetMutation.mutate()}
+            disabled={resetMutation.isPending}
+            title="Reset link"
+          >
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
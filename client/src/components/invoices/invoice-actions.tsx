@@ -0,0 +1,139 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { FileMinus, FileText, Loader2 } from "lucide-react";
+import type { Invoice } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCents } from "@/lib/utils";
+
+interface InvoiceActionsProps {
+  request: {
+    id: number;
+    invoices?: Invoice[];
+  };
+  // Providers can correct their invoices with credit notes
+  canCredit?: boolean;
+}
+
+export function InvoiceActions({ request, canCredit = false }: InvoiceActionsProps) {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [reason, setReason] = useState("");
+  const [amount, setAmount] = useState("");
+
+  const documents = request.invoices ?? [];
+  const invoice = documents.find((document) => document.kind === "invoice");
+
+  // What is left to credit after earlier credit notes
+  const remainingCents = invoice
+    ? documents
+        .filter((document) => document.creditedInvoiceId === invoice.id)
+        .reduce((sum, document) => sum + document.totalCents, invoice.totalCents)
+    : 0;
+
+  const creditMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/invoices/${invoice!.id}/credit-notes`, {
+        reason,
+        // Left empty, the rest of the invoice is credited
+        amountCents: amount ? Math.round(parseFloat(amount) * 100) : undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: (creditNote: Invoice) => {
+      setDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["/api/service-requests/provider"] });
+      toast({
+        title: "Credit note issued",
+        description: `${creditNote.number} has been sent to the client`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Credit note failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!invoice) return null;
+
+  const openDialog = () => {
+    setReason("");
+    setAmount("");
+    setDialogOpen(true);
+  };
+
+  return (
+    <>
+      {documents.map((document) => (
+        <Button key={document.id} size="sm" variant="outline" asChild>
+          <a href={`/api/invoices/${document.id}/pdf`}>
+            <FileText className="mr-2 h-4 w-4" />
+            {document.kind === "credit_note" ? "Credit Note" : "Invoice"} {document.number}
+          </a>
+        </Button>
+      ))}
+      {canCredit && remainingCents > 0 && (
+        <Button size="sm" variant="outline" onClick={openDialog}>
+          <FileMinus className="mr-2 h-4 w-4" />
+          Issue Credit Note
+        </Button>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>Credit Invoice {invoice.number}</DialogTitle>
+            <DialogDescription>
+              Issued invoices can't be edited. A credit note corrects it and is emailed to the client.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor={`credit-amount-${request.id}`}>Amount (USD)</Label>
+              <Input
+                id={`credit-amount-${request.id}`}
+                type="number"
+                min="0.01"
+                step="0.01"
+                placeholder={`Up to ${formatCents(remainingCents)}; leave empty to credit in full`}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`credit-reason-${request.id}`}>Reason</Label>
+              <Textarea
+                id={`credit-reason-${request.id}`}
+                placeholder="e.g. Fewer hours were needed than quoted"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" type="button" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!reason.trim() || creditMutation.isPending}
+              onClick={() => creditMutation.mutate()}
+            >
+              {creditMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Issue Credit Note
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -3,7 +3,6 @@ import {
   Check, 
   Loader2, 
   MessagesSquare, 
-  StarIcon, 
   BriefcaseBusiness,
   CircleCheck,
   AlertCircle 
@@ -12,7 +11,7 @@ import { formatDistanceToNow } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { useNotifications, Notification } from "@/hooks/use-notifications";
-import { useNavigate } from "react-router-dom";
+import { useLocation } from "wouter";
 
 interface NotificationListProps {
   onNotificationClick?: (notification: Notification) => void;
@@ -30,7 +29,7 @@ export function NotificationList({
     markAsRead, 
     markAllAsRead 
   } = useNotifications();
-  const navigate = useNavigate();
+  const [, navigate] = useLocation();
 
   const handleNotificationClick = async (notification: Notification) => {
     // Mark as read if not already read
@@ -46,40 +45,31 @@ export function NotificationList({
 
     // Default navigation behavior
     switch (notification.type) {
-      case "task_request":
-        if (notification.relatedId) {
-          navigate(`/tasks/${notification.relatedId}`);
-        }
+      case "new_task":
+      case "quote_accepted":
+      case "quote_declined":
+        navigate("/provider-dashboard");
         break;
-      case "service_request":
-        if (notification.relatedId) {
-          navigate(`/services/${notification.relatedId}`);
-        }
-        break;
-      case "message":
-        if (notification.relatedId) {
-          navigate(`/messages/${notification.relatedId}`);
-        }
-        break;
-      case "review":
-        if (notification.relatedId) {
-          navigate(`/reviews/${notification.relatedId}`);
-        }
+      case "task_accepted":
+      case "task_completed":
+      case "task_cancelled":
+        navigate("/client-dashboard");
         break;
     }
   };
 
   const getNotificationIcon = (notification: Notification) => {
     switch (notification.type) {
-      case "task_request":
+      case "new_task":
         return <BriefcaseBusiness className="h-4 w-4 mr-2 flex-shrink-0" />;
-      case "service_request":
+      case "task_accepted":
+      case "task_completed":
+      case "quote_accepted":
         return <CircleCheck className="h-4 w-4 mr-2 flex-shrink-0" />;
-      case "message":
+      case "new_message":
         return <MessagesSquare className="h-4 w-4 mr-2 flex-shrink-0" />;
-      case "review":
-        return <StarIcon className="h-4 w-4 mr-2 flex-shrink-0" />;
-      case "system":
+      case "task_cancelled":
+      case "quote_declined":
         return <AlertCircle className="h-4 w-4 mr-2 flex-shrink-0" />;
       default:
         return <Bell className="h-4 w-4 mr-2 flex-shrink-0" />;
@@ -0,0 +1,105 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { NotificationType, NotificationChannel } from "@shared/schema";
+
+type NotificationPreference = {
+  type: NotificationType;
+  channel: NotificationChannel;
+  enabled: boolean;
+};
+
+const typeLabels: Record<NotificationType, string> = {
+  new_task: "New tasks in your category",
+  task_accepted: "Task accepted",
+  task_completed: "Task completed",
+  task_cancelled: "Task cancelled",
+  new_message: "New messages",
+  quote_accepted: "Your quote was accepted",
+  quote_declined: "Your quote was not selected",
+};
+
+const channelLabels: Record<NotificationChannel, string> = {
+  in_app: "In-app",
+  websocket: "Live",
+  email: "Email",
+};
+
+export function NotificationPreferences() {
+  const { toast } = useToast();
+
+  const { data: preferences, isLoading } = useQuery<NotificationPreference[]>({
+    queryKey: ["/api/notifications/preferences"],
+  });
+
+  const updatePreferenceMutation = useMutation({
+    mutationFn: async (preference: NotificationPreference) => {
+      const res = await apiRequest("PUT", "/api/notifications/preferences", [preference]);
+      return await res.json();
+    },
+    onSuccess: (updated: NotificationPreference[]) => {
+      queryClient.setQueryData(["/api/notifications/preferences"], updated);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to update preferences",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading || !preferences) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const types = Object.keys(typeLabels) as NotificationType[];
+  const channels = Object.keys(channelLabels) as NotificationChannel[];
+
+  return (
+    <div className="space-y-4">
+      <p className="text-neutral-600 text-sm">
+        Choose how you want to hear about activity on your account.
+      </p>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="border-b">
+            <th className="text-left font-medium py-2">Notification</th>
+            {channels.map((channel) => (
+              <th key={channel} className="font-medium py-2 px-4">
+                {channelLabels[channel]}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {types.map((type) => (
+            <tr key={type} className="border-b last:border-0">
+              <td className="py-3">{typeLabels[type]}</td>
+              {channels.map((channel) => {
+                const preference = preferences.find((p) => p.type === type && p.channel === channel);
+                return (
+                  <td key={channel} className="py-3 px-4 text-center">
+                    <Switch
+                      checked={preference?.enabled ?? false}
+                      onCheckedChange={(enabled) => updatePreferenceMutation.mutate({ type, channel, enabled })}
+                      disabled={updatePreferenceMutation.isPending}
+                      aria-label={`${typeLabels[type]} (${channelLabels[channel]})`}
+                    />
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Banknote, Download, Loader2 } from "lucide-react";
+import type { EarningsPeriodLength, EarningsSummary, PayoutOverview, PayoutSchedule } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "@/components/ui/chart";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatCents } from "@/lib/utils";
+
+const chartConfig = {
+  net: { label: "Net", color: "hsl(var(--primary))" },
+  fees: { label: "Platform fees", color: "#a3a3a3" },
+} satisfies ChartConfig;
+
+// Period starts come as "2026-03-02"; parse them as local dates so they don't shift a day
+function parseDay(day: string) {
+  const [year, month, date] = day.split("-").map(Number);
+  return new Date(year, month - 1, date);
+}
+
+function formatPeriod(start: string, period: EarningsPeriodLength) {
+  return period === "month"
+    ? parseDay(start).toLocaleDateString(undefined, { month: "short", year: "2-digit" })
+    : parseDay(start).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+}
+
+function today() {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+}
+
+export function EarningsDashboard() {
+  const { toast } = useToast();
+  const [period, setPeriod] = useState<EarningsPeriodLength>("week");
+
+  const { data: earnings, isLoading: earningsLoading } = useQuery<EarningsSummary>({
+    queryKey: [`/api/earnings?period=${period}`],
+  });
+
+  const { data: overview, isLoading: overviewLoading } = useQuery<PayoutOverview>({
+    queryKey: ["/api/payouts"],
+  });
+
+  const onError = (error: Error) => {
+    toast({
+      title: "Payouts",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const payoutMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/payouts");
+      return await res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/payouts"] });
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/payments"),
+      });
+      toast({
+        title: "Payout sent",
+        description: "It usually reaches your bank within 1-3 business days",
+      });
+    },
+    onError,
+  });
+
+  const scheduleMutation = useMutation({
+    mutationFn: async (schedule: PayoutSchedule) => {
+      const res = await apiRequest("PUT", "/api/payouts/schedule", { schedule });
+      return await res.json();
+    },
+    onSuccess: (updated: PayoutOverview) => {
+      queryClient.setQueryData(["/api/payouts"], updated);
+    },
+    onError,
+  });
+
+  if (overviewLoading || !overview) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const canPayOut = overview.availableCents >= overview.minimumPayoutCents;
+  const chartData = (earnings?.periods ?? []).map((entry) => ({
+    label: formatPeriod(entry.start, period),
+    net: entry.netCents / 100,
+    fees: entry.feeCents / 100,
+  }));
+  const statementUrl = earnings
+    ? `/api/earnings/statement.csv?from=${earnings.periods[0].start}&to=${today()}`
+    : undefined;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardDescription>Available for payout</CardDescription>
+            <CardTitle className="text-3xl">{formatCents(overview.availableCents)}</CardTitle>
+            <p className="text-xs text-muted-foreground mt-1">
+              Minimum payout {formatCents(overview.minimumPayoutCents)}
+              {overview.nextScheduledAt &&
+                ` · next weekly payout from ${new Date(overview.nextScheduledAt).toLocaleDateString()}`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Select
+              value={overview.schedule}
+              onValueChange={(value) => scheduleMutation.mutate(value as PayoutSchedule)}
+              disabled={scheduleMutation.isPending}
+            >
+              <SelectTrigger className="w-[150px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="weekly">Weekly</SelectItem>
+                <SelectItem value="on_demand">On demand</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button disabled={!canPayOut || payoutMutation.isPending} onClick={() => payoutMutation.mutate()}>
+              {payoutMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Banknote className="mr-2 h-4 w-4" />
+              )}
+              Pay Out Now
+            </Button>
+          </div>
+        </CardHeader>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-lg">Earnings</CardTitle>
+          <div className="flex items-center gap-2">
+            <Select value={period} onValueChange={(value) => setPeriod(value as EarningsPeriodLength)}>
+              <SelectTrigger className="w-[130px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="week">By week</SelectItem>
+                <SelectItem value="month">By month</SelectItem>
+              </SelectContent>
+            </Select>
+            {statementUrl && (
+              <Button variant="outline" asChild>
+                <a href={statementUrl}>
+                  <Download className="mr-2 h-4 w-4" />
+                  CSV
+                </a>
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {earningsLoading || !earnings ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                <div>
+                  <p className="text-xs text-muted-foreground">Jobs</p>
+                  <p className="text-xl font-semibold">{earnings.totals.jobs}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Gross</p>
+                  <p className="text-xl font-semibold">{formatCents(earnings.totals.grossCents)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Platform fees</p>
+                  <p className="text-xl font-semibold">{formatCents(earnings.totals.feeCents)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground">Net</p>
+                  <p className="text-xl font-semibold">{formatCents(earnings.totals.netCents)}</p>
+                </div>
+              </div>
+
+              <ChartContainer config={chartConfig} className="h-[260px] w-full">
+                <BarChart data={chartData}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                  <YAxis tickLine={false} axisLine={false} tickFormatter={(value) => `$${value}`} width={56} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="net" stackId="earnings" fill="var(--color-net)" />
+                  <Bar dataKey="fees" stackId="earnings" fill="var(--color-fees)" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              </ChartContainer>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Payouts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {overview.payouts.length === 0 ? (
+            <p className="text-center text-muted-foreground py-6">No payouts yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {overview.payouts.map((payout) => (
+                  <TableRow key={payout.id}>
+                    <TableCell>{payout.createdAt ? new Date(payout.createdAt).toLocaleDateString() : ""}</TableCell>
+                    <TableCell>{payout.trigger === "scheduled" ? "Weekly" : "On demand"}</TableCell>
+                    <TableCell className="text-muted-foreground">{payout.transferId ?? "Processing"}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCents(payout.amountCents)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
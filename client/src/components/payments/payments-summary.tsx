@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import type { PaymentBalances, PaymentTransaction } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { formatCents } from "@/lib/utils";
+
+type TransactionsResponse = {
+  transactions: PaymentTransaction[];
+  page: number;
+  limit: number;
+  hasMore: boolean;
+};
+
+interface PaymentsSummaryProps {
+  // Which side's balances to show; the history always covers both
+  view: "client" | "provider";
+}
+
+const kindLabels: Record<string, string> = {
+  hold: "Held",
+  release: "Released",
+  refund: "Refunded",
+  payout: "Payout",
+};
+
+function BalanceCard({ title, description, cents }: { title: string; description: string; cents: number }) {
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardDescription>{title}</CardDescription>
+        <CardTitle className="text-2xl">{formatCents(cents)}</CardTitle>
+      </CardHeader>
+      <CardContent className="text-xs text-muted-foreground">{description}</CardContent>
+    </Card>
+  );
+}
+
+export function PaymentsSummary({ view }: PaymentsSummaryProps) {
+  const [page, setPage] = useState(1);
+
+  const { data: balances, isLoading: balancesLoading } = useQuery<PaymentBalances>({
+    queryKey: ["/api/payments/balance"],
+  });
+
+  const { data: history, isLoading: historyLoading } = useQuery<TransactionsResponse>({
+    queryKey: [`/api/payments/transactions?page=${page}`],
+  });
+
+  if (balancesLoading || !balances) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {view === "provider" && balances.provider ? (
+          <>
+            <BalanceCard
+              title="Available"
+              description="Released to you after completed jobs, net of fees, and not yet paid out"
+              cents={balances.provider.availableCents}
+            />
+            <BalanceCard
+              title="Pending"
+              description="Held in escrow for jobs still in progress"
+              cents={balances.provider.pendingCents}
+            />
+          </>
+        ) : (
+          <>
+            <BalanceCard
+              title="Held"
+              description="Reserved for accepted jobs until they are completed"
+              cents={balances.client.heldCents}
+            />
+            <BalanceCard
+              title="Paid"
+              description="Released to providers for completed jobs"
+              cents={balances.client.paidCents}
+            />
+            <BalanceCard
+              title="Refunded"
+              description="Returned to you for cancelled jobs"
+              cents={balances.client.refundedCents}
+            />
+          </>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Transactions</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {historyLoading || !history ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-primary" />
+            </div>
+          ) : history.transactions.length === 0 ? (
+            <p className="text-center text-muted-foreground py-6">
+              No payments yet. Funds are held when a quote is accepted.
+            </p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Description</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.transactions.map((transaction) => (
+                    <TableRow key={transaction.id}>
+                      <TableCell>
+                        {transaction.createdAt ? new Date(transaction.createdAt).toLocaleDateString() : ""}
+                      </TableCell>
+                      <TableCell>{transaction.description}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{kindLabels[transaction.kind] ?? transaction.kind}</Badge>
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-medium ${transaction.amountCents > 0 ? "text-green-600" : ""}`}
+                      >
+                        {transaction.amountCents === 0
+                          ? "—"
+                          : `${transaction.amountCents > 0 ? "+" : ""}${formatCents(transaction.amountCents)}`}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {(page > 1 || history.hasMore) && (
+                <div className="flex justify-end gap-2 mt-4">
+                  <Button variant="outline" size="sm" disabled={page === 1} onClick={() => setPage(page - 1)}>
+                    Previous
+                  </Button>
+                  <Button variant="outline" size="sm" disabled={!history.hasMore} onClick={() => setPage(page + 1)}>
+                    Next
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
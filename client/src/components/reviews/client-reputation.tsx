@@ -0,0 +1,25 @@
+import { Star } from "lucide-react";
+import type { ClientReputation as Reputation } from "@shared/schema";
+
+interface ClientReputationProps {
+  reputation?: Reputation;
+}
+
+// How providers have rated a client, shown next to their name
+export function ClientReputation({ reputation }: ClientReputationProps) {
+  if (!reputation) return null;
+
+  if (reputation.rating === null) {
+    return <span className="text-xs text-neutral-500">New client</span>;
+  }
+
+  return (
+    <span
+      className="inline-flex items-center gap-1 text-xs text-neutral-600"
+      title={`Rated by ${reputation.reviewCount} provider${reputation.reviewCount === 1 ? "" : "s"}`}
+    >
+      <Star className="h-3 w-3 fill-yellow-500 text-yellow-500" />
+      {reputation.rating.toFixed(1)} ({reputation.reviewCount})
+    </span>
+  );
+}
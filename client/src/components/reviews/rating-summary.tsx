@@ -0,0 +1,70 @@
+import { Star } from "lucide-react";
+import type { ProviderRatingSummary, RatingDimension } from "@shared/schema";
+import { Card, CardContent } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+
+export const ratingDimensionLabels: Record<RatingDimension, string> = {
+  punctuality: "Punctuality",
+  quality: "Quality",
+  communication: "Communication",
+  value: "Value",
+};
+
+interface RatingSummaryProps {
+  summary?: ProviderRatingSummary;
+}
+
+// Star histogram and sub-rating averages shown above a provider's reviews
+export function RatingSummary({ summary }: RatingSummaryProps) {
+  if (!summary || summary.reviewCount === 0 || summary.average === null) return null;
+
+  const dimensions = (Object.keys(ratingDimensionLabels) as RatingDimension[]).filter(
+    (dimension) => summary.dimensions[dimension] !== null
+  );
+
+  return (
+    <Card className="mb-4">
+      <CardContent className="p-6 grid gap-6 md:grid-cols-2">
+        <div className="flex gap-6">
+          <div className="text-center">
+            <div className="text-4xl font-bold">{summary.average.toFixed(1)}</div>
+            <div className="flex items-center justify-center text-yellow-500 my-1">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <Star key={i} className={`h-4 w-4 ${i < Math.round(summary.average!) ? "fill-current" : "text-neutral-300"}`} />
+              ))}
+            </div>
+            <div className="text-xs text-neutral-500">
+              {summary.reviewCount} review{summary.reviewCount === 1 ? "" : "s"}
+            </div>
+          </div>
+          <div className="flex-1 space-y-1">
+            {[5, 4, 3, 2, 1].map((stars) => {
+              const count = summary.distribution[stars - 1] ?? 0;
+              return (
+                <div key={stars} className="flex items-center gap-2 text-xs">
+                  <span className="w-3 text-neutral-600">{stars}</span>
+                  <Progress value={(count / summary.reviewCount) * 100} className="h-2" />
+                  <span className="w-6 text-right text-neutral-500">{count}</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {dimensions.length > 0 && (
+          <div className="space-y-2">
+            {dimensions.map((dimension) => (
+              <div key={dimension} className="flex justify-between text-sm">
+                <span className="text-neutral-600">{ratingDimensionLabels[dimension]}</span>
+                <span className="inline-flex items-center gap-1 font-medium">
+                  <Star className="h-3 w-3 fill-yellow-500 text-yellow-500" />
+                  {summary.dimensions[dimension]!.toFixed(1)}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
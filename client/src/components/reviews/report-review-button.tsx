@@ -0,0 +1,116 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Flag, Loader2 } from "lucide-react";
+import type { ReviewReportReason } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+export const reportReasonLabels: Record<ReviewReportReason, string> = {
+  spam: "Spam or advertising",
+  offensive: "Offensive or abusive",
+  fake: "Fake or not about a real job",
+  personal_info: "Shares personal information",
+  off_topic: "Not about the service",
+  other: "Something else",
+};
+
+export function ReportReviewButton({ reviewId }: { reviewId: number }) {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [reason, setReason] = useState<ReviewReportReason | "">("");
+  const [details, setDetails] = useState("");
+
+  const reportMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/reviews/${reviewId}/reports`, {
+        reason,
+        details: details.trim() || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setDialogOpen(false);
+      toast({
+        title: "Review reported",
+        description: "Thanks, a moderator will take a look",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Report failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = () => {
+    setReason("");
+    setDetails("");
+    setDialogOpen(true);
+  };
+
+  return (
+    <>
+      <Button size="sm" variant="ghost" className="h-7 px-2 text-neutral-500" onClick={openDialog}>
+        <Flag className="mr-1 h-3 w-3" />
+        Report
+      </Button>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>Report Review</DialogTitle>
+            <DialogDescription>Moderators can hide reviews that break the rules.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Reason</Label>
+              <Select value={reason} onValueChange={(value) => setReason(value as ReviewReportReason)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a reason" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(reportReasonLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor={`report-details-${reviewId}`}>
+                Details{reason === "other" ? "" : " (optional)"}
+              </Label>
+              <Textarea
+                id={`report-details-${reviewId}`}
+                value={details}
+                onChange={(e) => setDetails(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" type="button" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!reason || (reason === "other" && !details.trim()) || reportMutation.isPending}
+              onClick={() => reportMutation.mutate()}
+            >
+              {reportMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Report
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
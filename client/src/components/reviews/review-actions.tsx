@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { EyeOff, Loader2, Star } from "lucide-react";
+import type { RatingDimension, Review, ReviewState } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ratingDimensionLabels } from "./rating-summary";
+
+interface ReviewActionsProps {
+  request: {
+    id: number;
+    review?: ReviewState;
+  };
+  // Which side of the request the viewer is on
+  party: "client" | "provider";
+}
+
+function Stars({ rating }: { rating: number }) {
+  return (
+    <span className="inline-flex items-center text-yellow-500">
+      {Array.from({ length: 5 }).map((_, i) => (
+        <Star key={i} className={`h-4 w-4 ${i < rating ? "fill-current" : "text-neutral-300"}`} />
+      ))}
+    </span>
+  );
+}
+
+function StarInput({ rating, size, onChange }: { rating: number; size: string; onChange: (rating: number) => void }) {
+  return (
+    <div className="flex gap-1">
+      {[1, 2, 3, 4, 5].map((value) => (
+        <button
+          key={value}
+          type="button"
+          aria-label={`${value} star${value === 1 ? "" : "s"}`}
+          onClick={() => onChange(value)}
+        >
+          <Star className={`${size} ${value <= rating ? "fill-yellow-500 text-yellow-500" : "text-neutral-300"}`} />
+        </button>
+      ))}
+    </div>
+  );
+}
+
+export function ReviewActions({ request, party }: ReviewActionsProps) {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [rating, setRating] = useState(0);
+  const [subRatings, setSubRatings] = useState<Partial<Record<RatingDimension, number>>>({});
+  const [comment, setComment] = useState("");
+
+  const state = request.review;
+  const counterparty = party === "client" ? "provider" : "client";
+
+  const reviewMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/reviews", {
+        serviceRequestId: request.id,
+        rating,
+        subRatings: party === "client" ? subRatings : undefined,
+        comment: comment.trim() || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: (review: Review) => {
+      setDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: [`/api/service-requests/${party}`] });
+      toast({
+        title: "Review submitted",
+        description: review.publishedAt
+          ? "Both reviews are now visible"
+          : `It stays hidden until the ${counterparty} reviews you too, or the review window closes`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Review failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!state) return null;
+
+  const openDialog = () => {
+    setRating(0);
+    setSubRatings({});
+    setComment("");
+    setDialogOpen(true);
+  };
+
+  return (
+    <>
+      {state.canReview && (
+        <Button size="sm" variant="outline" onClick={openDialog}>
+          <Star className="mr-1 h-4 w-4" />
+          {party === "client" ? "Review Provider" : "Review Client"}
+        </Button>
+      )}
+      {state.review && !state.review.publishedAt && (
+        <span className="inline-flex items-center text-xs text-neutral-500">
+          <EyeOff className="mr-1 h-3 w-3" />
+          Your review is hidden until the {counterparty} reviews
+          {state.windowClosesAt && ` or ${new Date(state.windowClosesAt).toLocaleDateString()}`}
+        </span>
+      )}
+      {state.counterpartReview && (
+        <span
+          className="inline-flex items-center gap-1 text-xs text-neutral-600"
+          title={state.counterpartReview.comment ?? undefined}
+        >
+          The {counterparty} rated you <Stars rating={state.counterpartReview.rating} />
+        </span>
+      )}
+      {state.canReview && state.counterpartSubmitted && (
+        <span className="text-xs text-neutral-500">The {counterparty} has reviewed you</span>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>Review the {counterparty}</DialogTitle>
+            <DialogDescription>
+              Neither review is shown until you have both submitted one
+              {state.windowClosesAt && ` or the window closes on ${new Date(state.windowClosesAt).toLocaleDateString()}`}.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Rating</Label>
+              <StarInput rating={rating} size="h-7 w-7" onChange={setRating} />
+            </div>
+            {party === "client" && (
+              <div className="space-y-2">
+                <Label>Details (optional)</Label>
+                {(Object.keys(ratingDimensionLabels) as RatingDimension[]).map((dimension) => (
+                  <div key={dimension} className="flex items-center justify-between">
+                    <span className="text-sm text-neutral-600">{ratingDimensionLabels[dimension]}</span>
+                    <StarInput
+                      rating={subRatings[dimension] ?? 0}
+                      size="h-5 w-5"
+                      onChange={(value) => setSubRatings((current) => ({ ...current, [dimension]: value }))}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor={`review-comment-${request.id}`}>Comment (optional)</Label>
+              <Textarea
+                id={`review-comment-${request.id}`}
+                placeholder={
+                  party === "client"
+                    ? "How did the job go? Was the work done well and on time?"
+                    : "Was the client clear, reachable and fair to work with?"
+                }
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" type="button" onClick={() => setDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button disabled={rating === 0 || reviewMutation.isPending} onClick={() => reviewMutation.mutate()}>
+              {reviewMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Submit Review
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
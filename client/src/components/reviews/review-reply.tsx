@@ -0,0 +1,87 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2, Reply } from "lucide-react";
+import type { Review } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+interface ReviewReplyProps {
+  review: Pick<Review, "id" | "reply" | "repliedAt">;
+  providerId: number;
+  // Only the reviewed provider can reply, once
+  canReply: boolean;
+}
+
+export function ReviewReply({ review, providerId, canReply }: ReviewReplyProps) {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [reply, setReply] = useState("");
+
+  const replyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/reviews/${review.id}/reply`, { reply });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setOpen(false);
+      queryClient.invalidateQueries({ queryKey: [`/api/providers/${providerId}`] });
+      toast({
+        title: "Reply posted",
+        description: "Your reply is now shown under the review",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Reply failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (review.reply) {
+    return (
+      <div className="mt-3 ml-4 border-l-2 border-neutral-200 pl-3">
+        <div className="text-xs font-medium text-neutral-700">
+          Provider's reply
+          {review.repliedAt && (
+            <span className="font-normal text-neutral-500"> · {new Date(review.repliedAt).toLocaleDateString()}</span>
+          )}
+        </div>
+        <p className="text-sm text-neutral-700">{review.reply}</p>
+      </div>
+    );
+  }
+
+  if (!canReply) return null;
+
+  if (!open) {
+    return (
+      <Button size="sm" variant="ghost" className="mt-2 px-2" onClick={() => setOpen(true)}>
+        <Reply className="mr-1 h-4 w-4" />
+        Reply
+      </Button>
+    );
+  }
+
+  return (
+    <div className="mt-3 space-y-2">
+      <Textarea
+        placeholder="Thank the client or give your side; you can only reply once"
+        value={reply}
+        onChange={(e) => setReply(e.target.value)}
+      />
+      <div className="flex justify-end gap-2">
+        <Button size="sm" variant="outline" onClick={() => setOpen(false)}>
+          Cancel
+        </Button>
+        <Button size="sm" disabled={!reply.trim() || replyMutation.isPending} onClick={() => replyMutation.mutate()}>
+          {replyMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+          Post Reply
+        </Button>
+      </div>
+    </div>
+  );
+}
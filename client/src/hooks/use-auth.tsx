@@ -4,7 +4,7 @@ import {
   useMutation,
   UseMutationResult,
 } from "@tanstack/react-query";
-import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
+import { insertUserSchema, userRoles, User as SelectUser, InsertUser, type TwoFactorChallenge } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
@@ -12,16 +12,20 @@ import { useLocation } from "wouter";
 type LoginData = {
   email: string;
   password: string;
+  // Keeps the session cookie for 30 days instead of one
+  remember?: boolean;
 };
 
 type AuthContextType = {
   user: SelectUser | null;
   isLoading: boolean;
   error: Error | null;
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  // Users with 2FA get a challenge instead and finish logging in on /login/two-factor
+  loginMutation: UseMutationResult<SelectUser | TwoFactorChallenge, Error, LoginData>;
   logoutMutation: UseMutationResult<void, Error, void>;
   registerMutation: UseMutationResult<SelectUser, Error, FormData>;
   isProvider: boolean;
+  isAdmin: boolean;
 };
 
 const AuthContext = createContext<AuthContextType | null>(null);
@@ -34,27 +38,30 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     data: user,
     isLoading,
     error,
-  } = useQuery({
+  } = useQuery<SelectUser | null, Error>({
     queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
     retry: false,
   });
 
   const loginMutation = useMutation({
-    mutationFn: (data: LoginData) =>
-      apiRequest("/api/login", {
-        method: "POST",
-        body: JSON.stringify(data),
-        headers: {
-          "Content-Type": "application/json",
-        },
-      }),
-    onSuccess: () => {
+    mutationFn: async (data: LoginData) => {
+      const res = await apiRequest("POST", "/api/login", data);
+      return res.json();
+    },
+    onSuccess: (result: SelectUser | TwoFactorChallenge) => {
+      if ("twoFactorRequired" in result) {
+        setLocation("/login/two-factor");
+        return;
+      }
       queryClient.invalidateQueries({ queryKey: ["/api/user"] });
     },
   });
 
   const logoutMutation = useMutation({
-    mutationFn: () => apiRequest("/api/logout", { method: "POST" }),
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/user"] });
       setLocation("/");
@@ -62,8 +69,10 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   });
 
   const registerMutation = useMutation({
-    mutationFn: (data: FormData) =>
-      apiRequest("/api/register", "POST", data),
+    mutationFn: async (data: FormData) => {
+      const res = await apiRequest("POST", "/api/register", data);
+      return res.json();
+    },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/user"] });
       setLocation("/");
@@ -73,13 +82,14 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   return (
     <AuthContext.Provider
       value={{
-        user,
+        user: user ?? null,
         isLoading,
         error,
         loginMutation,
         logoutMutation,
         registerMutation,
         isProvider: user?.isServiceProvider || false,
+        isAdmin: user?.role === userRoles.ADMIN,
       }}
     >
       {children}
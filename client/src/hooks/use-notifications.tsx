@@ -3,18 +3,19 @@ import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
+import { WS_PATH, WS_SESSION_ENDED, type ClientMessage, type LiveNotification, type ServerMessage } from "@shared/websocket";
 
-export type Notification = {
+export type Notification = Omit<LiveNotification, "id" | "createdAt"> & {
   id: number;
-  userId: number;
-  title: string;
-  message: string;
-  type: "task_request" | "service_request" | "message" | "review" | "system";
-  read: boolean;
   createdAt: string;
-  relatedId?: number;
-  relatedType?: string;
-  data?: any;
+};
+
+type NotificationPage = {
+  notifications: Notification[];
+  total: number;
+  page: number;
+  limit: number;
+  hasMore: boolean;
 };
 
 type NotificationsContextType = {
@@ -23,6 +24,7 @@ type NotificationsContextType = {
   isLoading: boolean;
   markAsRead: (id: number) => Promise<void>;
   markAllAsRead: () => Promise<void>;
+  deleteNotification: (id: number) => Promise<void>;
   clearNotifications: () => void;
   fetchNotifications: () => Promise<void>;
 };
@@ -30,30 +32,93 @@ type NotificationsContextType = {
 export const NotificationsContext = createContext<NotificationsContextType | null>(null);
 
 export function NotificationsProvider({ children }: { children: ReactNode }) {
-  const { user, sessionToken } = useAuth();
+  const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [unreadCount, setUnreadCount] = useState(0);
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<NodeJS.Timeout>();
+  const pingIntervalRef = useRef<NodeJS.Timeout>();
   const reconnectAttemptsRef = useRef(0);
   const MAX_RECONNECT_ATTEMPTS = 5;
 
-  const { data, isLoading, refetch } = useQuery<Notification[]>({
+  const { data, isLoading, refetch } = useQuery<NotificationPage>({
     queryKey: ["/api/notifications"],
     enabled: !!user,
     refetchInterval: 30000, // Fallback polling
   });
 
-  // WebSocket connection management
+  // The unread badge only needs the total, not the notifications themselves
+  const { data: unreadData } = useQuery<NotificationPage>({
+    queryKey: ["/api/notifications?read=false&limit=1"],
+    enabled: !!user,
+    refetchInterval: 30000,
+  });
+
+  // WebSocket connection management; the session cookie authenticates the upgrade
   useEffect(() => {
-    if (!user || !sessionToken) return;
+    if (!user) return;
+
+    const send = (ws: WebSocket, message: ClientMessage) => {
+      ws.send(JSON.stringify(message));
+    };
+
+    const handleMessage = (message: ServerMessage) => {
+      switch (message.type) {
+        case "notification": {
+          const { notification } = message;
+
+          // Muted in-app notifications aren't stored, so there is nothing to list
+          if (notification.id !== null) {
+            const newNotification = {
+              ...notification,
+              id: notification.id,
+              createdAt: String(notification.createdAt),
+            };
+            setNotifications(prev => [newNotification, ...prev]);
+            setUnreadCount(prev => prev + 1);
+          }
+
+          toast({
+            title: notification.title,
+            description: notification.message,
+            duration: 5000,
+          });
+
+          if (notification.type.startsWith("task_") || notification.type === "new_task") {
+            queryClient.invalidateQueries({ queryKey: ["/api/tasks/client"] });
+            queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+          }
+          if (notification.type.startsWith("quote_")) {
+            queryClient.invalidateQueries({ queryKey: ["/api/service-requests/provider"] });
+          }
+          break;
+        }
+        case "task_updated":
+          queryClient.invalidateQueries({ queryKey: ["/api/tasks/client"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+          break;
+        case "service_request_updated":
+          queryClient.invalidateQueries({ queryKey: ["/api/service-requests/client"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/service-requests/provider"] });
+          // Accepting, completing or cancelling a job can move escrowed funds
+          queryClient.invalidateQueries({
+            predicate: (query) => String(query.queryKey[0]).startsWith("/api/payments"),
+          });
+          break;
+        case "message":
+        case "messages_read":
+          queryClient.invalidateQueries({ queryKey: ["/api/conversations", message.conversationId, "messages"] });
+          break;
+        case "pong":
+          break;
+      }
+    };
 
     const connectWebSocket = () => {
       const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
-      const wsUrl = `${protocol}//${window.location.host}/api/ws?token=${sessionToken}`;
-      const ws = new WebSocket(wsUrl);
+      const ws = new WebSocket(`${protocol}//${window.location.host}${WS_PATH}`);
       wsRef.current = ws;
 
       ws.onopen = () => {
@@ -62,42 +127,36 @@ export function NotificationsProvider({ children }: { children: ReactNode }) {
         if (reconnectTimeoutRef.current) {
           clearTimeout(reconnectTimeoutRef.current);
         }
+
+        // Keep connection alive through proxies that drop idle sockets
+        pingIntervalRef.current = setInterval(() => {
+          if (ws.readyState === WebSocket.OPEN) {
+            send(ws, { type: 'ping' });
+          }
+        }, 30000);
       };
 
       ws.onmessage = (event) => {
         try {
-          const data = JSON.parse(event.data);
-          
-          if (data.type === 'notification') {
-            // Add new notification to state
-            const newNotification = data.notification as Notification;
-            setNotifications(prev => [newNotification, ...prev]);
-            setUnreadCount(prev => prev + 1);
-            
-            // Show toast notification
-            toast({
-              title: newNotification.title,
-              description: newNotification.message,
-              duration: 5000,
-            });
-
-            // Invalidate relevant queries based on notification type
-            if (newNotification.type.startsWith('task_')) {
-              queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
-            } else if (newNotification.type.startsWith('service_')) {
-              queryClient.invalidateQueries({ queryKey: ['/api/services'] });
-            }
-          } else if (data.type === 'ping') {
-            ws.send(JSON.stringify({ type: 'pong' }));
-          }
+          handleMessage(JSON.parse(event.data) as ServerMessage);
         } catch (error) {
           console.error('Error processing WebSocket message:', error);
         }
       };
 
-      ws.onclose = () => {
+      ws.onclose = (event) => {
         console.log('WebSocket disconnected');
-        
+        clearInterval(pingIntervalRef.current);
+
+        // Only reconnect if this socket wasn't replaced or closed on purpose
+        if (wsRef.current !== ws) return;
+
+        // Signed out elsewhere or suspended; let the auth state catch up instead of retrying
+        if (event.code === WS_SESSION_ENDED) {
+          queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+          return;
+        }
+
         // Implement exponential backoff for reconnection
         if (reconnectAttemptsRef.current < MAX_RECONNECT_ATTEMPTS) {
           const backoffTime = Math.min(1000 * Math.pow(2, reconnectAttemptsRef.current), 30000);
@@ -112,38 +171,33 @@ export function NotificationsProvider({ children }: { children: ReactNode }) {
         console.error('WebSocket error:', error);
         ws.close();
       };
-
-      // Keep connection alive with ping/pong
-      const pingInterval = setInterval(() => {
-        if (ws.readyState === WebSocket.OPEN) {
-          ws.send(JSON.stringify({ type: 'ping' }));
-        }
-      }, 30000);
-
-      return () => {
-        clearInterval(pingInterval);
-      };
     };
 
     connectWebSocket();
 
     return () => {
-      if (wsRef.current) {
-        wsRef.current.close();
-      }
+      const ws = wsRef.current;
+      wsRef.current = null;
+      ws?.close();
+      clearInterval(pingIntervalRef.current);
       if (reconnectTimeoutRef.current) {
         clearTimeout(reconnectTimeoutRef.current);
       }
     };
-  }, [user, sessionToken, queryClient, toast]);
+  }, [user?.id, queryClient, toast]);
 
   useEffect(() => {
     if (data) {
-      setNotifications(data);
-      setUnreadCount(data.filter(notification => !notification.read).length);
+      setNotifications(data.notifications);
     }
   }, [data]);
 
+  useEffect(() => {
+    if (unreadData) {
+      setUnreadCount(unreadData.total);
+    }
+  }, [unreadData]);
+
   const fetchNotifications = async () => {
     if (!user) return;
     await refetch();
@@ -153,7 +207,7 @@ export function NotificationsProvider({ children }: { children: ReactNode }) {
     if (!user) return;
     
     try {
-      await apiRequest("PATCH", `/api/notifications/${id}`, { read: true });
+      await apiRequest("POST", `/api/notifications/${id}/read`);
       
       setNotifications(prev => 
         prev.map(notification => 
@@ -177,7 +231,7 @@ export function NotificationsProvider({ children }: { children: ReactNode }) {
     if (!user) return;
     
     try {
-      await apiRequest("PATCH", "/api/notifications/mark-all-read", {});
+      await apiRequest("POST", "/api/notifications/read-all");
       
       setNotifications(prev => 
         prev.map(notification => ({ ...notification, read: true }))
@@ -193,6 +247,27 @@ export function NotificationsProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const deleteNotification = async (id: number) => {
+    if (!user) return;
+
+    try {
+      await apiRequest("DELETE", `/api/notifications/${id}`);
+
+      const deleted = notifications.find(notification => notification.id === id);
+      setNotifications(prev => prev.filter(notification => notification.id !== id));
+
+      if (deleted && !deleted.read) {
+        setUnreadCount(prev => Math.max(0, prev - 1));
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete notification",
+        variant: "destructive",
+      });
+    }
+  };
+
   const clearNotifications = () => {
     setNotifications([]);
     setUnreadCount(0);
@@ -206,6 +281,7 @@ export function NotificationsProvider({ children }: { children: ReactNode }) {
         isLoading,
         markAsRead,
         markAllAsRead,
+        deleteNotification,
         clearNotifications,
         fetchNotifications,
       }}
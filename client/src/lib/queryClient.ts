@@ -3,15 +3,6 @@ import { QueryClient, QueryFunction } from "@tanstack/react-query";
 // Get the API URL from environment variable or default to the current origin
 const API_URL = import.meta.env.VITE_API_URL || window.location.origin;
 
-export const queryClient = new QueryClient({
-  defaultOptions: {
-    queries: {
-      retry: false,
-      refetchOnWindowFocus: false,
-    },
-  },
-});
-
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const error = await res.json().catch(() => ({ message: "An error occurred" }));
@@ -20,8 +11,8 @@ async function throwIfResNotOk(res: Response) {
 }
 
 export async function apiRequest(
-  url: string,
   method: string,
+  url: string,
   data?: unknown,
 ): Promise<Response> {
   // Use API_URL for all requests
@@ -74,3 +65,13 @@ export const getQueryFn: <T>(options: {
     await throwIfResNotOk(res);
     return await res.json();
   };
+
+export const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      queryFn: getQueryFn({ on401: "throw" }),
+      retry: false,
+      refetchOnWindowFocus: false,
+    },
+  },
+});
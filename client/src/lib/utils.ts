@@ -4,3 +4,15 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+// "$120 fixed" or "$40/hr × 3h"
+export function formatQuotePrice(quote: { amount: number; pricingType: string; estimatedHours: number | null }) {
+  return quote.pricingType === "hourly"
+    ? `$${quote.amount}/hr × ${quote.estimatedHours ?? "?"}h`
+    : `$${quote.amount} fixed`
+}
+
+// "$1,234.50"; ledger amounts are kept in cents
+export function formatCents(cents: number) {
+  return (cents / 100).toLocaleString("en-US", { style: "currency", currency: "USD" })
+}
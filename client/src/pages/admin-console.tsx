@@ -0,0 +1,98 @@
+import { Link, useParams } from "wouter";
+import { ClipboardList, Flag, FolderTree, Inbox, ShieldAlert, UserCheck, Users } from "lucide-react";
+import MainLayout from "@/components/MainLayout";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarProvider,
+} from "@/components/ui/sidebar";
+import { UsersPanel } from "@/components/admin/users-panel";
+import { ProvidersPanel } from "@/components/admin/providers-panel";
+import { CategoriesPanel } from "@/components/admin/categories-panel";
+import { TasksPanel } from "@/components/admin/tasks-panel";
+import { RequestsPanel } from "@/components/admin/requests-panel";
+import { useAuth } from "@/hooks/use-auth";
+
+const sections = {
+  users: { label: "Users", description: "Suspend and restore accounts", icon: Users, Panel: UsersPanel },
+  providers: { label: "Providers", description: "Verify provider profiles", icon: UserCheck, Panel: ProvidersPanel },
+  categories: { label: "Categories", description: "The services clients can book", icon: FolderTree, Panel: CategoriesPanel },
+  tasks: { label: "Tasks", description: "Every task clients have posted", icon: ClipboardList, Panel: TasksPanel },
+  requests: { label: "Requests", description: "Every service request and booking", icon: Inbox, Panel: RequestsPanel },
+};
+
+type Section = keyof typeof sections;
+
+export default function AdminConsole() {
+  const { isAdmin } = useAuth();
+  const params = useParams<{ section?: string }>();
+  const current: Section = params.section && params.section in sections ? (params.section as Section) : "users";
+  const { label, description, Panel } = sections[current];
+
+  if (!isAdmin) {
+    return (
+      <MainLayout>
+        <div className="container mx-auto px-4 py-16 text-center">
+          <ShieldAlert className="h-12 w-12 text-neutral-300 mx-auto mb-3" />
+          <h1 className="text-xl font-semibold">Admins only</h1>
+          <p className="text-neutral-600">You don't have access to the admin console.</p>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <SidebarProvider className="min-h-0 bg-neutral-50">
+        <Sidebar collapsible="none" className="border-r">
+          <SidebarContent>
+            <SidebarGroup>
+              <SidebarGroupLabel>Admin</SidebarGroupLabel>
+              <SidebarGroupContent>
+                <SidebarMenu>
+                  {(Object.keys(sections) as Section[]).map((key) => {
+                    const Icon = sections[key].icon;
+                    return (
+                      <SidebarMenuItem key={key}>
+                        <SidebarMenuButton asChild isActive={key === current}>
+                          <Link href={`/admin/${key}`}>
+                            <Icon />
+                            <span>{sections[key].label}</span>
+                          </Link>
+                        </SidebarMenuButton>
+                      </SidebarMenuItem>
+                    );
+                  })}
+                  <SidebarMenuItem>
+                    <SidebarMenuButton asChild>
+                      <Link href="/moderation/reviews">
+                        <Flag />
+                        <span>Review Moderation</span>
+                      </Link>
+                    </SidebarMenuButton>
+                  </SidebarMenuItem>
+                </SidebarMenu>
+              </SidebarGroupContent>
+            </SidebarGroup>
+          </SidebarContent>
+        </Sidebar>
+
+        <div className="flex-1 min-w-0 px-6 py-8">
+          <div className="mb-6">
+            <h1 className="text-3xl font-bold">{label}</h1>
+            <p className="text-neutral-600 mt-1">{description}</p>
+          </div>
+          <div className="bg-white rounded-lg border p-4">
+            <Panel />
+          </div>
+        </div>
+      </SidebarProvider>
+    </MainLayout>
+  );
+}
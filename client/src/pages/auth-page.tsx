@@ -5,6 +5,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { useForm } from "react-hook-form";
@@ -28,7 +29,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Redirect } from "wouter";
+import { Link, Redirect } from "wouter";
 import MainLayout from "@/components/MainLayout";
 import { FileUpload } from "@/components/ui/file-upload";
 
@@ -36,6 +37,7 @@ import { FileUpload } from "@/components/ui/file-upload";
 const loginSchema = z.object({
   email: z.string().email("Invalid email address"),
   password: z.string().min(1, "Password is required"),
+  remember: z.boolean().default(false),
 });
 
 // Registration form schema
@@ -48,7 +50,7 @@ const registerSchema = insertUserSchema
     hourlyRate: z.string().optional(),
     bio: z.string().optional(),
     yearsOfExperience: z.string().optional(),
-    availability: z.string().optional(),
+    timezone: z.string().optional(),
   })
   .refine((data) => data.password === data.confirmPassword, {
     message: "Passwords don't match",
@@ -87,6 +89,7 @@ export default function AuthPage({
   const [activeTab, setActiveTab] = useState<string>(defaultToRegister ? "register" : "login");
   const [accountType, setAccountType] = useState<string>(defaultToProvider ? "provider" : "client");
   const [resendingVerification, setResendingVerification] = useState(false);
+  const [sendingLoginLink, setSendingLoginLink] = useState(false);
   const [profilePicture, setProfilePicture] = useState<File | null>(null);
   const { toast } = useToast();
   
@@ -102,6 +105,7 @@ export default function AuthPage({
     defaultValues: {
       email: "",
       password: "",
+      remember: false,
     },
   });
 
@@ -120,7 +124,7 @@ export default function AuthPage({
       hourlyRate: "",
       bio: "",
       yearsOfExperience: "",
-      availability: "",
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
     },
     mode: "onBlur"
   });
@@ -162,6 +166,39 @@ export default function AuthPage({
     }
   };
 
+  // Handle passwordless login: only the email field needs to be filled in
+  const handleSendLoginLink = async () => {
+    if (!(await loginForm.trigger("email"))) return;
+
+    try {
+      setSendingLoginLink(true);
+      const response = await fetch("/api/login/magic-link", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: loginForm.getValues("email") }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || "Failed to send login link");
+      }
+
+      toast({
+        title: "Check your email",
+        description: data.message,
+      });
+    } catch (err) {
+      toast({
+        title: "Error",
+        description: err instanceof Error ? err.message : "Failed to send login link",
+        variant: "destructive",
+      });
+    } finally {
+      setSendingLoginLink(false);
+    }
+  };
+
   // Handle login form submission
   function onLoginSubmit(values: LoginFormValues) {
     loginMutation.mutate(values, {
@@ -237,7 +274,7 @@ export default function AuthPage({
           hourlyRate: values.hourlyRate,
           bio: values.bio || '',
           yearsOfExperience: values.yearsOfExperience || '0',
-          availability: values.availability || ''
+          timezone: values.timezone || ''
         };
         
         console.log('Provider fields:', providerFields);
@@ -341,7 +378,12 @@ export default function AuthPage({
                 name="password"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Password</FormLabel>
+                    <div className="flex items-center justify-between">
+                      <FormLabel>Password</FormLabel>
+                      <Link href="/reset-password" className="text-sm text-primary hover:underline">
+                        Forgot password?
+                      </Link>
+                    </div>
                     <FormControl>
                       <Input 
                         type="password" 
@@ -354,6 +396,22 @@ export default function AuthPage({
                 )}
               />
 
+              <FormField
+                control={loginForm.control}
+                name="remember"
+                render={({ field }) => (
+                  <FormItem className="flex items-center space-x-2 space-y-0">
+                    <FormControl>
+                      <Checkbox
+                        checked={field.value}
+                        onCheckedChange={(checked) => field.onChange(checked === true)}
+                      />
+                    </FormControl>
+                    <FormLabel className="font-normal">Remember me for 30 days</FormLabel>
+                  </FormItem>
+                )}
+              />
+
               <Button 
                 type="submit" 
                 className="w-full"
@@ -368,6 +426,25 @@ export default function AuthPage({
                   "Login"
                 )}
               </Button>
+
+              <p className="text-center text-xs uppercase text-muted-foreground">or</p>
+
+              <Button
+                type="button"
+                variant="outline"
+                className="w-full"
+                disabled={sendingLoginLink}
+                onClick={handleSendLoginLink}
+              >
+                {sendingLoginLink ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Sending...
+                  </>
+                ) : (
+                  "Email me a login link"
+                )}
+              </Button>
             </form>
           </Form>
         </div>
@@ -610,13 +687,13 @@ export default function AuthPage({
 
                     <FormField
                       control={registerForm.control}
-                      name="availability"
+                      name="timezone"
                       render={({ field }) => (
                         <FormItem>
-                          <FormLabel>Availability</FormLabel>
+                          <FormLabel>Timezone</FormLabel>
                           <FormControl>
                             <Input
-                              placeholder="Weekdays, 9AM-5PM"
+                              placeholder="America/Chicago"
                               {...field}
                             />
                           </FormControl>
@@ -7,17 +7,26 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
-import { Loader2, Plus, FileText, CheckCircle, Clock, X, AlertCircle } from "lucide-react";
+import { Loader2, Plus, FileText, CheckCircle, Clock, X, AlertCircle, MessageSquare, Wallet } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import CreateTaskForm from "@/components/CreateTaskForm";
+import ChatPanel from "@/components/ChatPanel";
+import QuoteComparison from "@/components/QuoteComparison";
+import { BookingActions } from "@/components/bookings/booking-actions";
+import { InvoiceActions } from "@/components/invoices/invoice-actions";
+import { ReviewActions } from "@/components/reviews/review-actions";
+import { PaymentsSummary } from "@/components/payments/payments-summary";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { formatQuotePrice } from "@/lib/utils";
 
 export default function ClientDashboard() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("tasks");
   const [createTaskDialogOpen, setCreateTaskDialogOpen] = useState(false);
+  const [chatRequest, setChatRequest] = useState<any | null>(null);
+  const [quotesTask, setQuotesTask] = useState<any | null>(null);
 
   // Fetch client tasks
   const { data: tasks, isLoading: tasksLoading } = useQuery<any[]>({
@@ -31,14 +40,15 @@ export default function ClientDashboard() {
     enabled: !!user,
   });
 
-  // Mutation for updating request status
+  // Mutation for service request lifecycle actions
   const updateRequestMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: number; status: string }) => {
-      const res = await apiRequest("PUT", `/api/service-requests/${id}`, { status });
+    mutationFn: async ({ id, action }: { id: number; action: string }) => {
+      const res = await apiRequest("POST", `/api/service-requests/${id}/${action}`);
       return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/service-requests/client"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks/client"] });
       toast({
         title: "Request updated",
         description: "The request status has been updated successfully",
@@ -57,9 +67,9 @@ export default function ClientDashboard() {
     setCreateTaskDialogOpen(false);
   };
 
-  // Handle updating service request status
-  const handleUpdateRequest = (id: number, status: string) => {
-    updateRequestMutation.mutate({ id, status });
+  // Handle a service request lifecycle action
+  const handleRequestAction = (id: number, action: string) => {
+    updateRequestMutation.mutate({ id, action });
   };
 
   // Get status badge color
@@ -68,17 +78,25 @@ export default function ClientDashboard() {
       case "open":
         return <Badge className="bg-green-500">Open</Badge>;
       case "in-progress":
+      case "in_progress":
         return <Badge className="bg-blue-500">In Progress</Badge>;
       case "completed":
         return <Badge className="bg-purple-500">Completed</Badge>;
       case "cancelled":
         return <Badge variant="destructive">Cancelled</Badge>;
+      case "disputed":
+        return <Badge className="bg-orange-500">Disputed</Badge>;
       case "pending":
         return <Badge variant="outline" className="text-yellow-600 border-yellow-400">Pending</Badge>;
       case "accepted":
         return <Badge className="bg-green-500">Accepted</Badge>;
       case "rejected":
-        return <Badge variant="destructive">Rejected</Badge>;
+      case "declined":
+        return <Badge variant="destructive">Declined</Badge>;
+      case "withdrawn":
+        return <Badge variant="outline">Withdrawn</Badge>;
+      case "completion_requested":
+        return <Badge className="bg-indigo-500">Awaiting Confirmation</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -122,6 +140,10 @@ export default function ClientDashboard() {
                 <Clock className="mr-2 h-4 w-4" />
                 Service Requests
               </TabsTrigger>
+              <TabsTrigger value="payments" className="flex-1">
+                <Wallet className="mr-2 h-4 w-4" />
+                Payments
+              </TabsTrigger>
             </TabsList>
             
             <TabsContent value="tasks">
@@ -163,6 +185,12 @@ export default function ClientDashboard() {
                             <span className="text-xs text-neutral-500">
                               Posted on {new Date(task.createdAt).toLocaleDateString()}
                             </span>
+                            {task.status === "open" && (
+                              <Button size="sm" variant="outline" onClick={() => setQuotesTask(task)}>
+                                <FileText className="mr-2 h-4 w-4" />
+                                Compare Quotes
+                              </Button>
+                            )}
                           </div>
                         </div>
                       </CardContent>
@@ -218,6 +246,18 @@ export default function ClientDashboard() {
                                 <span className="font-medium">Rate:</span>{" "}
                                 <span className="text-neutral-600">${request.provider.hourlyRate}/hr</span>
                               </div>
+                              {request.quote && (
+                                <div className="text-sm">
+                                  <span className="font-medium">Quote:</span>{" "}
+                                  <span className="text-neutral-600">{formatQuotePrice(request.quote)}</span>
+                                </div>
+                              )}
+                              {request.scheduledStart && (
+                                <div className="text-sm">
+                                  <span className="font-medium">When:</span>{" "}
+                                  <span className="text-neutral-600">{new Date(request.scheduledStart).toLocaleString()}</span>
+                                </div>
+                              )}
                             </div>
                           </div>
                           
@@ -226,41 +266,73 @@ export default function ClientDashboard() {
                               Requested on {new Date(request.createdAt).toLocaleDateString()}
                             </div>
                             
-                            {request.status === "pending" && (
-                              <div className="flex gap-2">
+                            <div className="flex flex-wrap gap-2">
+                              {request.availableActions?.includes("accept") && (
                                 <Button 
                                   size="sm" 
                                   variant="default"
-                                  onClick={() => handleUpdateRequest(request.id, "accepted")}
+                                  onClick={() => handleRequestAction(request.id, "accept")}
                                   disabled={updateRequestMutation.isPending}
                                 >
                                   <CheckCircle className="mr-1 h-4 w-4" />
                                   Accept
                                 </Button>
+                              )}
+                              {request.availableActions?.includes("decline") && (
                                 <Button 
                                   size="sm" 
                                   variant="destructive"
-                                  onClick={() => handleUpdateRequest(request.id, "rejected")}
+                                  onClick={() => handleRequestAction(request.id, "decline")}
                                   disabled={updateRequestMutation.isPending}
                                 >
                                   <X className="mr-1 h-4 w-4" />
                                   Decline
                                 </Button>
-                              </div>
-                            )}
-                            
-                            {request.status === "accepted" && (
-                              <div className="flex gap-2">
+                              )}
+                              {request.availableActions?.includes("withdraw") && (
+                                <Button 
+                                  size="sm" 
+                                  variant="outline"
+                                  onClick={() => handleRequestAction(request.id, "withdraw")}
+                                  disabled={updateRequestMutation.isPending}
+                                >
+                                  <X className="mr-1 h-4 w-4" />
+                                  Withdraw
+                                </Button>
+                              )}
+                              {request.availableActions?.includes("complete") && (
                                 <Button 
                                   size="sm" 
-                                  onClick={() => handleUpdateRequest(request.id, "completed")}
+                                  onClick={() => handleRequestAction(request.id, "complete")}
                                   disabled={updateRequestMutation.isPending}
                                 >
                                   <CheckCircle className="mr-1 h-4 w-4" />
-                                  Mark Completed
+                                  {request.status === "completion_requested" ? "Confirm Completion" : "Mark Completed"}
                                 </Button>
-                              </div>
-                            )}
+                              )}
+                              {request.availableActions?.includes("cancel") && (
+                                <Button 
+                                  size="sm" 
+                                  variant="outline"
+                                  onClick={() => handleRequestAction(request.id, "cancel")}
+                                  disabled={updateRequestMutation.isPending}
+                                >
+                                  <AlertCircle className="mr-1 h-4 w-4" />
+                                  Cancel
+                                </Button>
+                              )}
+                              <Button 
+                                size="sm" 
+                                variant="outline"
+                                onClick={() => setChatRequest(request)}
+                              >
+                                <MessageSquare className="mr-1 h-4 w-4" />
+                                Message
+                              </Button>
+                              <BookingActions request={request} />
+                              <InvoiceActions request={request} />
+                              <ReviewActions request={request} party="client" />
+                            </div>
                           </div>
                         </div>
                       </CardContent>
@@ -279,9 +351,35 @@ export default function ClientDashboard() {
                 </Card>
               )}
             </TabsContent>
+
+            <TabsContent value="payments">
+              <PaymentsSummary view="client" />
+            </TabsContent>
           </Tabs>
         </div>
       </div>
+
+      {/* Quote Comparison Dialog */}
+      <Dialog open={!!quotesTask} onOpenChange={(open) => !open && setQuotesTask(null)}>
+        <DialogContent className="sm:max-w-[800px]">
+          <DialogHeader>
+            <DialogTitle>{quotesTask && `Quotes for "${quotesTask.title}"`}</DialogTitle>
+          </DialogHeader>
+          {quotesTask && <QuoteComparison taskId={quotesTask.id} onAccepted={() => setQuotesTask(null)} />}
+        </DialogContent>
+      </Dialog>
+
+      {/* Chat Dialog */}
+      <Dialog open={!!chatRequest} onOpenChange={(open) => !open && setChatRequest(null)}>
+        <DialogContent className="sm:max-w-[550px]">
+          <DialogHeader>
+            <DialogTitle>
+              {chatRequest && `Chat with ${chatRequest.provider.user.firstName} ${chatRequest.provider.user.lastName}`}
+            </DialogTitle>
+          </DialogHeader>
+          {chatRequest && <ChatPanel serviceRequestId={chatRequest.id} />}
+        </DialogContent>
+      </Dialog>
     </MainLayout>
   );
 }
@@ -9,7 +9,7 @@ import {
   SelectValue 
 } from "@/components/ui/select";
 import { useQuery } from "@tanstack/react-query";
-import { ServiceCategory, ServiceProviderWithUser } from "@shared/schema";
+import { ServiceCategory, ProviderSearchPage } from "@shared/schema";
 import ServiceCategoryCard from "@/components/ServiceCategoryCard";
 import ServiceProviderCard from "@/components/ServiceProviderCard";
 import HowItWorksSection from "@/components/HowItWorksSection";
@@ -33,15 +33,17 @@ export default function HomePage() {
   });
 
   // Fetch top service providers
-  const { data: providers, isLoading: providersLoading } = useQuery<ServiceProviderWithUser[]>({
-    queryKey: ["/api/providers"],
+  const { data: topProviders, isLoading: providersLoading } = useQuery<ProviderSearchPage>({
+    queryKey: ["/api/providers/search?sort=rating&limit=3"],
   });
+  const providers = topProviders?.providers;
 
   // Handle search
   const handleSearch = () => {
-    if (searchCategory) {
-      setLocation(`/service-categories?category=${searchCategory}&location=${encodeURIComponent(searchLocation)}`);
-    }
+    const params = new URLSearchParams();
+    if (searchCategory) params.set("category", searchCategory);
+    if (searchLocation.trim()) params.set("location", searchLocation.trim());
+    setLocation(`/service-categories?${params}`);
   };
 
   return (
@@ -85,7 +87,7 @@ export default function HomePage() {
                     <Input 
                       type="text" 
                       id="location" 
-                      placeholder="Enter your address" 
+                      placeholder="ZIP code or city" 
                       className="w-full h-[46px]"
                       value={searchLocation}
                       onChange={(e) => setSearchLocation(e.target.value)}
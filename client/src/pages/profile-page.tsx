@@ -9,6 +9,12 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { NotificationPreferences } from "@/components/notifications/notification-preferences";
+import { AvailabilityEditor } from "@/components/availability/availability-editor";
+import { CalendarFeed } from "@/components/bookings/calendar-feed";
+import { TwoFactorSettings } from "@/components/account/two-factor-settings";
+import { ActiveSessions } from "@/components/account/active-sessions";
+import { ChangePassword } from "@/components/account/change-password";
 import { Loader2, User, Settings, BriefcaseBusiness, Bell } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -17,6 +23,7 @@ import {
   Form,
   FormControl,
   FormField,
+  FormDescription,
   FormItem,
   FormLabel,
   FormMessage,
@@ -44,7 +51,9 @@ const providerProfileSchema = z.object({
   hourlyRate: z.string().min(1, "Hourly rate is required"),
   bio: z.string().min(10, "Bio must be at least 10 characters"),
   yearsOfExperience: z.string().optional(),
-  availability: z.string().optional(),
+  address: z.string().optional(),
+  postalCode: z.string().regex(/^\d{5}(-\d{4})?$/, "Enter a valid ZIP code").or(z.literal("")),
+  serviceRadiusKm: z.string().min(1, "Service radius is required"),
 });
 
 type ProfileFormValues = z.infer<typeof profileSchema>;
@@ -92,7 +101,9 @@ export default function ProfilePage() {
       hourlyRate: "",
       bio: "",
       yearsOfExperience: "",
-      availability: "",
+      address: "",
+      postalCode: "",
+      serviceRadiusKm: "25",
     },
   });
 
@@ -116,7 +127,9 @@ export default function ProfilePage() {
         hourlyRate: providerProfile.hourlyRate?.toString() || "",
         bio: providerProfile.bio || "",
         yearsOfExperience: providerProfile.yearsOfExperience?.toString() || "",
-        availability: providerProfile.availability || "",
+        address: providerProfile.address || "",
+        postalCode: providerProfile.postalCode || "",
+        serviceRadiusKm: providerProfile.serviceRadiusKm?.toString() || "25",
       });
     }
   }, [providerProfile, providerForm]);
@@ -151,6 +164,9 @@ export default function ProfilePage() {
         categoryId: parseInt(data.categoryId),
         hourlyRate: parseFloat(data.hourlyRate),
         yearsOfExperience: data.yearsOfExperience ? parseInt(data.yearsOfExperience) : undefined,
+        address: data.address || null,
+        postalCode: data.postalCode || null,
+        serviceRadiusKm: parseFloat(data.serviceRadiusKm),
       };
       
       const endpoint = providerProfile 
@@ -218,7 +234,12 @@ export default function ProfilePage() {
     <MainLayout>
       <div className="bg-neutral-50 min-h-screen py-8">
         <div className="container mx-auto px-4">
-          <div className="flex flex-col md:flex-row gap-8">
+          <Tabs
+            value={activeTab}
+            onValueChange={setActiveTab}
+            orientation="vertical"
+            className="flex flex-col md:flex-row gap-8"
+          >
             {/* Sidebar */}
             <div className="w-full md:w-64">
               <Card>
@@ -248,13 +269,7 @@ export default function ProfilePage() {
                     </p>
                   </div>
                   
-                  <Tabs
-                    value={activeTab}
-                    onValueChange={setActiveTab}
-                    orientation="vertical"
-                    className="w-full"
-                  >
-                    <TabsList className="flex flex-col w-full h-auto bg-transparent space-y-1">
+                  <TabsList className="flex flex-col w-full h-auto bg-transparent space-y-1">
                       <TabsTrigger
                         value="general"
                         className="w-full justify-start px-3 py-2"
@@ -276,8 +291,14 @@ export default function ProfilePage() {
                         <Settings className="h-4 w-4 mr-2" />
                         Account Settings
                       </TabsTrigger>
+                      <TabsTrigger
+                        value="notifications"
+                        className="w-full justify-start px-3 py-2"
+                      >
+                        <Bell className="h-4 w-4 mr-2" />
+                        Notifications
+                      </TabsTrigger>
                     </TabsList>
-                  </Tabs>
                 </CardContent>
               </Card>
             </div>
@@ -464,20 +485,54 @@ export default function ProfilePage() {
                             )}
                           />
                           
+                          <FormField
+                            control={providerForm.control}
+                            name="yearsOfExperience"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Years of Experience</FormLabel>
+                                <FormControl>
+                                  <Input 
+                                    type="number"
+                                    min="0"
+                                    {...field}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          
+                          <FormField
+                            control={providerForm.control}
+                            name="address"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Business Address</FormLabel>
+                                <FormControl>
+                                  <Input
+                                    placeholder="e.g., 123 Main St, Austin, TX"
+                                    {...field}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
+                          />
+                          
                           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                             <FormField
                               control={providerForm.control}
-                              name="yearsOfExperience"
+                              name="postalCode"
                               render={({ field }) => (
                                 <FormItem>
-                                  <FormLabel>Years of Experience</FormLabel>
+                                  <FormLabel>ZIP Code</FormLabel>
                                   <FormControl>
-                                    <Input 
-                                      type="number"
-                                      min="0"
-                                      {...field}
-                                    />
+                                    <Input placeholder="e.g., 78701" {...field} />
                                   </FormControl>
+                                  <FormDescription>
+                                    Clients near this ZIP code will find you in search
+                                  </FormDescription>
                                   <FormMessage />
                                 </FormItem>
                               )}
@@ -485,16 +540,21 @@ export default function ProfilePage() {
                             
                             <FormField
                               control={providerForm.control}
-                              name="availability"
+                              name="serviceRadiusKm"
                               render={({ field }) => (
                                 <FormItem>
-                                  <FormLabel>Availability</FormLabel>
+                                  <FormLabel>Service Radius (km)</FormLabel>
                                   <FormControl>
                                     <Input
-                                      placeholder="e.g., Weekdays 9AM-5PM"
+                                      type="number"
+                                      min="1"
+                                      max="100"
                                       {...field}
                                     />
                                   </FormControl>
+                                  <FormDescription>
+                                    How far you are willing to travel for a job
+                                  </FormDescription>
                                   <FormMessage />
                                 </FormItem>
                               )}
@@ -528,6 +588,17 @@ export default function ProfilePage() {
                     )}
                   </CardContent>
                 </Card>
+                
+                {providerProfile && (
+                  <Card className="mt-6">
+                    <CardHeader>
+                      <CardTitle>Availability</CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                      <AvailabilityEditor providerId={providerProfile.id} />
+                    </CardContent>
+                  </Card>
+                )}
               </TabsContent>
               
               <TabsContent value="account" className="mt-0">
@@ -537,12 +608,18 @@ export default function ProfilePage() {
                   </CardHeader>
                   <CardContent>
                     <div className="space-y-4">
-                      <div>
-                        <h3 className="font-medium mb-1">Change Password</h3>
-                        <p className="text-neutral-600 text-sm mb-4">
-                          Update your password to keep your account secure
-                        </p>
-                        <Button variant="outline">Change Password</Button>
+                      <CalendarFeed />
+
+                      <div className="border-t pt-4 mt-6">
+                        <TwoFactorSettings />
+                      </div>
+                      
+                      <div className="border-t pt-4 mt-6">
+                        <ActiveSessions />
+                      </div>
+
+                      <div className="border-t pt-4 mt-6">
+                        <ChangePassword />
                       </div>
                       
                       <div className="border-t pt-4 mt-6">
@@ -556,8 +633,19 @@ export default function ProfilePage() {
                   </CardContent>
                 </Card>
               </TabsContent>
+              
+              <TabsContent value="notifications" className="mt-0">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>Notification Preferences</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <NotificationPreferences />
+                  </CardContent>
+                </Card>
+              </TabsContent>
             </div>
-          </div>
+          </Tabs>
         </div>
       </div>
     </MainLayout>
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import MainLayout from "@/components/MainLayout";
 import { Button } from "@/components/ui/button";
@@ -7,13 +7,24 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
-import { Loader2, CheckCircle, Clock, X, Briefcase, FileText } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { formatQuotePrice } from "@/lib/utils";
+import { Loader2, CheckCircle, Clock, X, Briefcase, FileText, MessageSquare, Search, Wallet, BarChart3 } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
+import ChatPanel from "@/components/ChatPanel";
+import { BookingActions } from "@/components/bookings/booking-actions";
+import { InvoiceActions } from "@/components/invoices/invoice-actions";
+import { ReviewActions } from "@/components/reviews/review-actions";
+import { ClientReputation } from "@/components/reviews/client-reputation";
+import { PaymentsSummary } from "@/components/payments/payments-summary";
+import { EarningsDashboard } from "@/components/payments/earnings-dashboard";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import type { SnippetSegment } from "@shared/schema";
 import {
   Form,
   FormControl,
@@ -26,22 +37,52 @@ import {
 // Task request schema
 const taskRequestSchema = z.object({
   message: z.string().optional(),
+  amount: z.string().min(1, "Price is required"),
+  pricingType: z.enum(["fixed", "hourly"]),
+  estimatedHours: z.string().optional(),
+  earliestStartAt: z.string().optional(),
+  expiresAt: z.string().optional(),
+}).refine((values) => values.pricingType !== "hourly" || !!values.estimatedHours, {
+  message: "Estimate the hours for an hourly quote",
+  path: ["estimatedHours"],
 });
 
 type TaskRequestValues = z.infer<typeof taskRequestSchema>;
 
+function HighlightedSnippet({ segments }: { segments: SnippetSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.highlighted ? (
+          <mark key={i} className="bg-yellow-100 text-inherit rounded px-0.5">{segment.text}</mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
 export default function ProviderDashboard() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("available-tasks");
   const [selectedTask, setSelectedTask] = useState<any | null>(null);
   const [taskDialogOpen, setTaskDialogOpen] = useState(false);
+  const [chatRequest, setChatRequest] = useState<any | null>(null);
+  const [taskSearchInput, setTaskSearchInput] = useState("");
+  const [taskSearch, setTaskSearch] = useState("");
 
   // Task request form
   const form = useForm<TaskRequestValues>({
     resolver: zodResolver(taskRequestSchema),
     defaultValues: {
       message: "",
+      amount: "",
+      pricingType: "fixed",
+      estimatedHours: "",
+      earliestStartAt: "",
+      expiresAt: "",
     },
   });
 
@@ -63,13 +104,30 @@ export default function ProviderDashboard() {
     enabled: !!user && !!providerProfile,
   });
 
+  // Wait for the provider to stop typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setTaskSearch(taskSearchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [taskSearchInput]);
+
+  // Full-text search within the provider's category, best match first
+  const taskSearchParams = new URLSearchParams({ q: taskSearch });
+  if (providerProfile) {
+    taskSearchParams.set("categoryId", providerProfile.categoryId.toString());
+  }
+  const { data: taskSearchResults, isLoading: searchLoading } = useQuery<{ results: any[]; hasMore: boolean }>({
+    queryKey: [`/api/tasks/search?${taskSearchParams}`],
+    enabled: !!user && !!providerProfile && !!taskSearch,
+  });
+
   // Filter tasks that match the provider's category
-  const filteredTasks = availableTasks?.filter(
+  const filteredTasks = (taskSearch ? taskSearchResults?.results : availableTasks)?.filter(
     (task) => 
       task.category.id === providerProfile?.category.id && 
       task.status === "open" &&
       task.client.id !== user?.id
   );
+  const isTasksLoading = taskSearch ? searchLoading : tasksLoading;
 
   // Mutation for creating a service request
   const createRequestMutation = useMutation({
@@ -78,6 +136,14 @@ export default function ProviderDashboard() {
         providerId: providerProfile.id,
         taskId: data.taskId,
         message: data.message,
+        quote: {
+          amount: parseFloat(data.amount),
+          pricingType: data.pricingType,
+          estimatedHours: data.estimatedHours ? parseFloat(data.estimatedHours) : null,
+          earliestStartAt: data.earliestStartAt ? new Date(`${data.earliestStartAt}T00:00:00`).toISOString() : null,
+          // Quotes stay open until the end of the chosen day, in the provider's time zone
+          expiresAt: data.expiresAt ? new Date(`${data.expiresAt}T23:59:59`).toISOString() : null,
+        },
       };
       const res = await apiRequest("POST", "/api/service-requests", requestData);
       return res.json();
@@ -102,14 +168,15 @@ export default function ProviderDashboard() {
     },
   });
 
-  // Mutation for updating service request status
+  // Mutation for service request lifecycle actions
   const updateRequestMutation = useMutation({
-    mutationFn: async ({ id, status }: { id: number; status: string }) => {
-      const res = await apiRequest("PUT", `/api/service-requests/${id}`, { status });
+    mutationFn: async ({ id, action }: { id: number; action: string }) => {
+      const res = await apiRequest("POST", `/api/service-requests/${id}/${action}`);
       return res.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/service-requests/provider"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
       toast({
         title: "Request updated",
         description: "The request status has been updated successfully",
@@ -140,9 +207,9 @@ export default function ProviderDashboard() {
     });
   };
 
-  // Handle updating service request status
-  const handleUpdateRequest = (id: number, status: string) => {
-    updateRequestMutation.mutate({ id, status });
+  // Handle a service request lifecycle action
+  const handleRequestAction = (id: number, action: string) => {
+    updateRequestMutation.mutate({ id, action });
   };
 
   // Get status badge color
@@ -151,17 +218,25 @@ export default function ProviderDashboard() {
       case "open":
         return <Badge className="bg-green-500">Open</Badge>;
       case "in-progress":
+      case "in_progress":
         return <Badge className="bg-blue-500">In Progress</Badge>;
       case "completed":
         return <Badge className="bg-purple-500">Completed</Badge>;
       case "cancelled":
         return <Badge variant="destructive">Cancelled</Badge>;
+      case "disputed":
+        return <Badge className="bg-orange-500">Disputed</Badge>;
       case "pending":
         return <Badge variant="outline" className="text-yellow-600 border-yellow-400">Pending</Badge>;
       case "accepted":
         return <Badge className="bg-green-500">Accepted</Badge>;
       case "rejected":
-        return <Badge variant="destructive">Rejected</Badge>;
+      case "declined":
+        return <Badge variant="destructive">Declined</Badge>;
+      case "withdrawn":
+        return <Badge variant="outline">Withdrawn</Badge>;
+      case "completion_requested":
+        return <Badge className="bg-indigo-500">Awaiting Confirmation</Badge>;
       default:
         return <Badge variant="outline">{status}</Badge>;
     }
@@ -235,10 +310,28 @@ export default function ProviderDashboard() {
                 <Briefcase className="mr-2 h-4 w-4" />
                 Service Requests
               </TabsTrigger>
+              <TabsTrigger value="payments" className="flex-1">
+                <Wallet className="mr-2 h-4 w-4" />
+                Payments
+              </TabsTrigger>
+              <TabsTrigger value="earnings" className="flex-1">
+                <BarChart3 className="mr-2 h-4 w-4" />
+                Earnings
+              </TabsTrigger>
             </TabsList>
             
             <TabsContent value="available-tasks">
-              {tasksLoading ? (
+              <div className="relative mb-6">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-neutral-400" />
+                <Input
+                  placeholder="Search tasks by keyword, e.g. leaking sink"
+                  className="pl-9"
+                  value={taskSearchInput}
+                  onChange={(e) => setTaskSearchInput(e.target.value)}
+                />
+              </div>
+              
+              {isTasksLoading ? (
                 <div className="flex justify-center py-12">
                   <Loader2 className="h-8 w-8 animate-spin text-primary" />
                 </div>
@@ -253,13 +346,16 @@ export default function ProviderDashboard() {
                               <h3 className="font-semibold text-lg">{task.title}</h3>
                               {getStatusBadge(task.status)}
                             </div>
-                            <p className="text-neutral-600 text-sm mb-4">{task.description}</p>
+                            <p className="text-neutral-600 text-sm mb-4">
+                              {task.snippet ? <HighlightedSnippet segments={task.snippet} /> : task.description}
+                            </p>
                             <div className="flex flex-wrap gap-4">
                               <div className="text-sm">
                                 <span className="font-medium">Client:</span>{" "}
                                 <span className="text-neutral-600">
                                   {task.client.firstName} {task.client.lastName}
-                                </span>
+                                </span>{" "}
+                                <ClientReputation reputation={task.client.reputation} />
                               </div>
                               <div className="text-sm">
                                 <span className="font-medium">Location:</span>{" "}
@@ -291,10 +387,13 @@ export default function ProviderDashboard() {
                 <Card className="bg-white">
                   <CardContent className="flex flex-col items-center justify-center py-12">
                     <FileText className="h-12 w-12 text-neutral-400 mb-4" />
-                    <h3 className="text-xl font-medium mb-2">No available tasks</h3>
+                    <h3 className="text-xl font-medium mb-2">
+                      {taskSearch ? "No matching tasks" : "No available tasks"}
+                    </h3>
                     <p className="text-neutral-600">
-                      There are currently no tasks available in your category.
-                      Check back later or explore other categories.
+                      {taskSearch 
+                        ? "No open tasks in your category match your search. Try different keywords."
+                        : "There are currently no tasks available in your category. Check back later or explore other categories."}
                     </p>
                   </CardContent>
                 </Card>
@@ -315,8 +414,10 @@ export default function ProviderDashboard() {
                           <div className="flex-1">
                             <div className="flex items-center gap-2 mb-2">
                               <h3 className="font-semibold text-lg">
-                                Request to {request.client.firstName} {request.client.lastName}
+                                {request.initiatedBy === "provider" ? "Offer to" : "Request from"}{" "}
+                                {request.client.firstName} {request.client.lastName}
                               </h3>
+                              <ClientReputation reputation={request.client.reputation} />
                               {getStatusBadge(request.status)}
                             </div>
                             
@@ -340,6 +441,18 @@ export default function ProviderDashboard() {
                                 <span className="font-medium">Status:</span>{" "}
                                 <span className="text-neutral-600">{request.status}</span>
                               </div>
+                              {request.quote && (
+                                <div className="text-sm">
+                                  <span className="font-medium">Your quote:</span>{" "}
+                                  <span className="text-neutral-600">{formatQuotePrice(request.quote)}</span>
+                                </div>
+                              )}
+                              {request.scheduledStart && (
+                                <div className="text-sm">
+                                  <span className="font-medium">When:</span>{" "}
+                                  <span className="text-neutral-600">{new Date(request.scheduledStart).toLocaleString()}</span>
+                                </div>
+                              )}
                             </div>
                           </div>
                           
@@ -348,11 +461,46 @@ export default function ProviderDashboard() {
                               Requested on {new Date(request.createdAt).toLocaleDateString()}
                             </span>
                             
-                            {request.status === "accepted" && (
+                            {request.availableActions?.includes("accept") && (
+                              <Button 
+                                size="sm"
+                                onClick={() => handleRequestAction(request.id, "accept")}
+                                disabled={updateRequestMutation.isPending}
+                              >
+                                <CheckCircle className="mr-1 h-4 w-4" />
+                                Accept
+                              </Button>
+                            )}
+                            
+                            {request.availableActions?.includes("decline") && (
+                              <Button 
+                                size="sm"
+                                variant="destructive"
+                                onClick={() => handleRequestAction(request.id, "decline")}
+                                disabled={updateRequestMutation.isPending}
+                              >
+                                <X className="mr-1 h-4 w-4" />
+                                Decline
+                              </Button>
+                            )}
+                            
+                            {request.availableActions?.includes("withdraw") && (
+                              <Button 
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleRequestAction(request.id, "withdraw")}
+                                disabled={updateRequestMutation.isPending}
+                              >
+                                <X className="mr-1 h-4 w-4" />
+                                Withdraw Offer
+                              </Button>
+                            )}
+                            
+                            {request.availableActions?.includes("start") && (
                               <Button 
                                 size="sm" 
                                 variant="outline"
-                                onClick={() => handleUpdateRequest(request.id, "in-progress")}
+                                onClick={() => handleRequestAction(request.id, "start")}
                                 disabled={updateRequestMutation.isPending}
                               >
                                 <Clock className="mr-1 h-4 w-4" />
@@ -360,16 +508,46 @@ export default function ProviderDashboard() {
                               </Button>
                             )}
                             
-                            {request.status === "in-progress" && (
+                            {request.availableActions?.includes("complete") && (
                               <Button 
                                 size="sm"
-                                onClick={() => handleUpdateRequest(request.id, "completed")}
+                                onClick={() => handleRequestAction(request.id, "complete")}
                                 disabled={updateRequestMutation.isPending}
                               >
                                 <CheckCircle className="mr-1 h-4 w-4" />
                                 Mark Completed
                               </Button>
                             )}
+                            
+                            {request.status === "completion_requested" && (
+                              <span className="text-xs text-neutral-500">
+                                Waiting for the client to confirm completion
+                              </span>
+                            )}
+                            
+                            {request.availableActions?.includes("cancel") && (
+                              <Button 
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleRequestAction(request.id, "cancel")}
+                                disabled={updateRequestMutation.isPending}
+                              >
+                                <X className="mr-1 h-4 w-4" />
+                                Cancel
+                              </Button>
+                            )}
+                            
+                            <Button 
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setChatRequest(request)}
+                            >
+                              <MessageSquare className="mr-1 h-4 w-4" />
+                              Message
+                            </Button>
+                            <BookingActions request={request} />
+                            <InvoiceActions request={request} canCredit />
+                            <ReviewActions request={request} party="provider" />
                           </div>
                         </div>
                       </CardContent>
@@ -389,6 +567,14 @@ export default function ProviderDashboard() {
                 </Card>
               )}
             </TabsContent>
+
+            <TabsContent value="payments">
+              <PaymentsSummary view="provider" />
+            </TabsContent>
+
+            <TabsContent value="earnings">
+              <EarningsDashboard />
+            </TabsContent>
           </Tabs>
         </div>
       </div>
@@ -399,7 +585,7 @@ export default function ProviderDashboard() {
           <DialogHeader>
             <DialogTitle>Submit Service Offer</DialogTitle>
             <DialogDescription>
-              Send a request to the client for this task. Include any details about how you can help.
+              Quote a price for this task. The client compares every quote before choosing a provider.
             </DialogDescription>
           </DialogHeader>
           
@@ -413,7 +599,8 @@ export default function ProviderDashboard() {
                   <span className="font-medium">Client:</span>{" "}
                   <span className="text-neutral-600">
                     {selectedTask.client.firstName} {selectedTask.client.lastName}
-                  </span>
+                  </span>{" "}
+                  <ClientReputation reputation={selectedTask.client.reputation} />
                 </div>
                 <div>
                   <span className="font-medium">Location:</span>{" "}
@@ -433,6 +620,86 @@ export default function ProviderDashboard() {
               
               <Form {...form}>
                 <form onSubmit={form.handleSubmit(onSubmitTaskRequest)} className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="amount"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Price ($)</FormLabel>
+                          <FormControl>
+                            <Input type="number" min="1" step="0.01" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="pricingType"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Pricing</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value="fixed">Fixed price</SelectItem>
+                              <SelectItem value="hourly">Per hour</SelectItem>
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="estimatedHours"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Estimated Hours</FormLabel>
+                          <FormControl>
+                            <Input type="number" min="0.5" step="0.5" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="earliestStartAt"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Earliest Start</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    
+                    <FormField
+                      control={form.control}
+                      name="expiresAt"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Quote Valid Until</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  
                   <FormField
                     control={form.control}
                     name="message"
@@ -469,7 +736,7 @@ export default function ProviderDashboard() {
                           Submitting...
                         </>
                       ) : (
-                        "Submit Request"
+                        "Submit Quote"
                       )}
                     </Button>
                   </DialogFooter>
@@ -479,6 +746,18 @@ export default function ProviderDashboard() {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* Chat Dialog */}
+      <Dialog open={!!chatRequest} onOpenChange={(open) => !open && setChatRequest(null)}>
+        <DialogContent className="sm:max-w-[550px]">
+          <DialogHeader>
+            <DialogTitle>
+              {chatRequest && `Chat with ${chatRequest.client.firstName} ${chatRequest.client.lastName}`}
+            </DialogTitle>
+          </DialogHeader>
+          {chatRequest && <ChatPanel serviceRequestId={chatRequest.id} />}
+        </DialogContent>
+      </Dialog>
     </MainLayout>
   );
 }
@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { Link, useSearch } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2, MailCheck, ShieldCheck } from "lucide-react";
+import {
+  passwordResetConfirmSchema,
+  passwordResetRequestSchema,
+  type PasswordResetConfirm,
+  type PasswordResetRequest,
+} from "@shared/schema";
+import MainLayout from "@/components/MainLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+function RequestResetForm() {
+  const { toast } = useToast();
+  const [sent, setSent] = useState(false);
+
+  const form = useForm<PasswordResetRequest>({
+    resolver: zodResolver(passwordResetRequestSchema),
+    defaultValues: { email: "" },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async (values: PasswordResetRequest) => {
+      const res = await apiRequest("POST", "/api/password-reset/request", values);
+      return await res.json();
+    },
+    onSuccess: () => setSent(true),
+    onError: (error: Error) => {
+      toast({
+        title: "Couldn't send the reset link",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (sent) {
+    return (
+      <div className="space-y-4 text-center">
+        <MailCheck className="h-12 w-12 text-primary mx-auto" />
+        <h1 className="text-2xl font-bold">Check your email</h1>
+        <p className="text-neutral-600">
+          If an account exists for {form.getValues("email")}, we've sent a link to reset the password.
+          It expires in 1 hour.
+        </p>
+        <Button variant="outline" asChild>
+          <Link href="/auth">Back to login</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Forgot your password?</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          Enter your email and we'll send you a link to choose a new one
+        </p>
+      </div>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit((values) => requestMutation.mutate(values))} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email</FormLabel>
+                <FormControl>
+                  <Input type="email" placeholder="youremail@example.com" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <Button type="submit" className="w-full" disabled={requestMutation.isPending}>
+            {requestMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Sending...
+              </>
+            ) : (
+              "Send reset link"
+            )}
+          </Button>
+        </form>
+      </Form>
+
+      <p className="text-sm text-center text-neutral-500">
+        Remembered it?{" "}
+        <Link href="/auth" className="text-primary hover:underline">
+          Back to login
+        </Link>
+      </p>
+    </div>
+  );
+}
+
+function ChooseNewPasswordForm({ token }: { token: string }) {
+  const { toast } = useToast();
+  const [done, setDone] = useState(false);
+
+  const form = useForm<PasswordResetConfirm>({
+    resolver: zodResolver(passwordResetConfirmSchema),
+    defaultValues: { token, password: "", confirmPassword: "" },
+  });
+
+  const confirmMutation = useMutation({
+    mutationFn: async (values: PasswordResetConfirm) => {
+      const res = await apiRequest("POST", "/api/password-reset/confirm", values);
+      return await res.json();
+    },
+    onSuccess: () => {
+      // Every session was signed out, including this one if there was one
+      queryClient.setQueryData(["/api/user"], null);
+      setDone(true);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Password reset failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (done) {
+    return (
+      <div className="space-y-4 text-center">
+        <ShieldCheck className="h-12 w-12 text-green-500 mx-auto" />
+        <h1 className="text-2xl font-bold">Password reset</h1>
+        <p className="text-neutral-600">
+          Your password has been changed and you've been signed out everywhere. Log in with your new password.
+        </p>
+        <Button asChild>
+          <Link href="/auth">Go to login</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Choose a new password</h1>
+        <p className="text-sm text-muted-foreground mt-1">
+          This signs you out on every device
+        </p>
+      </div>
+
+      <Form {...form}>
+        <form onSubmit={form.handleSubmit((values) => confirmMutation.mutate(values))} className="space-y-4">
+          <FormField
+            control={form.control}
+            name="password"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>New password</FormLabel>
+                <FormControl>
+                  <Input type="password" placeholder="••••••••" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="confirmPassword"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Confirm new password</FormLabel>
+                <FormControl>
+                  <Input type="password" placeholder="••••••••" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <Button type="submit" className="w-full" disabled={confirmMutation.isPending}>
+            {confirmMutation.isPending ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                Resetting...
+              </>
+            ) : (
+              "Reset password"
+            )}
+          </Button>
+        </form>
+      </Form>
+
+      <p className="text-sm text-center text-neutral-500">
+        Link expired?{" "}
+        <Link href="/reset-password" className="text-primary hover:underline">
+          Request a new one
+        </Link>
+      </p>
+    </div>
+  );
+}
+
+// Without a token this asks for the email to send a link to; the emailed link brings the token
+export default function ResetPasswordPage() {
+  const token = new URLSearchParams(useSearch()).get("token");
+
+  return (
+    <MainLayout>
+      <div className="flex min-h-screen bg-neutral-50">
+        <div className="flex flex-col justify-center flex-1 px-4 py-12">
+          <div className="w-full max-w-md mx-auto bg-white rounded-lg border p-6">
+            {token ? <ChooseNewPasswordForm key={token} token={token} /> : <RequestResetForm />}
+          </div>
+        </div>
+      </div>
+    </MainLayout>
+  );
+}
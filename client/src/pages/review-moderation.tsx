@@ -0,0 +1,229 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { EyeOff, Eye, Check, Loader2, ShieldAlert, Star } from "lucide-react";
+import type { ModerationQueueItem, ReviewModerationAction } from "@shared/schema";
+import MainLayout from "@/components/MainLayout";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { reportReasonLabels } from "@/components/reviews/report-review-button";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+type QueueStatus = "reported" | "hidden";
+
+const actionLabels: Record<ReviewModerationAction, string> = {
+  hide: "Hidden",
+  restore: "Restored",
+  dismiss: "Reports dismissed",
+};
+
+const dialogTitles: Record<ReviewModerationAction, string> = {
+  hide: "Hide review",
+  restore: "Restore review",
+  dismiss: "Dismiss reports",
+};
+
+function QueueItem({ item, onModerate }: { item: ModerationQueueItem; onModerate: (action: ReviewModerationAction) => void }) {
+  const { review, reports, history } = item;
+  const openReports = reports.filter((report) => !report.resolvedAt);
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-4">
+        <div className="flex justify-between items-start gap-4">
+          <div>
+            <div className="flex items-center gap-2 mb-1">
+              <span className="font-semibold">Review #{review.id}</span>
+              <Badge variant="outline">by the {review.reviewerRole}</Badge>
+              {review.hiddenAt && <Badge variant="destructive">Hidden</Badge>}
+            </div>
+            <div className="flex items-center text-yellow-500 mb-2">
+              {Array.from({ length: 5 }).map((_, i) => (
+                <Star key={i} className={`h-4 w-4 ${i < review.rating ? "fill-current" : "text-neutral-300"}`} />
+              ))}
+            </div>
+            <p className="text-neutral-700">{review.comment || <em className="text-neutral-500">No comment</em>}</p>
+            {review.reply && <p className="text-sm text-neutral-600 mt-2">Reply: {review.reply}</p>}
+          </div>
+          <div className="flex flex-col gap-2">
+            {review.hiddenAt ? (
+              <Button size="sm" variant="outline" onClick={() => onModerate("restore")}>
+                <Eye className="mr-1 h-4 w-4" />
+                Restore
+              </Button>
+            ) : (
+              <Button size="sm" variant="destructive" onClick={() => onModerate("hide")}>
+                <EyeOff className="mr-1 h-4 w-4" />
+                Hide
+              </Button>
+            )}
+            {openReports.length > 0 && (
+              <Button size="sm" variant="outline" onClick={() => onModerate("dismiss")}>
+                <Check className="mr-1 h-4 w-4" />
+                Dismiss
+              </Button>
+            )}
+          </div>
+        </div>
+
+        {reports.length > 0 && (
+          <div>
+            <div className="text-sm font-medium mb-1">Reports</div>
+            <ul className="space-y-1 text-sm">
+              {reports.map((report) => (
+                <li key={report.id} className={report.resolvedAt ? "text-neutral-400" : "text-neutral-700"}>
+                  {reportReasonLabels[report.reason as keyof typeof reportReasonLabels] ?? report.reason}
+                  {report.details && ` — ${report.details}`}
+                  <span className="text-neutral-400">
+                    {" "}· user #{report.reporterId}
+                    {report.createdAt && `, ${new Date(report.createdAt).toLocaleDateString()}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {history.length > 0 && (
+          <div>
+            <div className="text-sm font-medium mb-1">History</div>
+            <ul className="space-y-1 text-xs text-neutral-600">
+              {history.map((event) => (
+                <li key={event.id}>
+                  {actionLabels[event.action as ReviewModerationAction] ?? event.action} by admin #{event.moderatorId}
+                  {event.createdAt && ` on ${new Date(event.createdAt).toLocaleString()}`}
+                  {event.note && ` — ${event.note}`}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function ReviewModeration() {
+  const { isAdmin } = useAuth();
+  const { toast } = useToast();
+  const [status, setStatus] = useState<QueueStatus>("reported");
+  const [pending, setPending] = useState<{ reviewId: number; action: ReviewModerationAction } | null>(null);
+  const [note, setNote] = useState("");
+
+  const { data: queue, isLoading } = useQuery<ModerationQueueItem[]>({
+    queryKey: [`/api/moderation/reviews?status=${status}`],
+    enabled: isAdmin,
+  });
+
+  const moderateMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/moderation/reviews/${pending!.reviewId}`, {
+        action: pending!.action,
+        note: note.trim() || undefined,
+      });
+      return await res.json();
+    },
+    onSuccess: () => {
+      setPending(null);
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/moderation/reviews"),
+      });
+      toast({
+        title: "Review updated",
+        description: "The decision has been recorded",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Moderation failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openDialog = (reviewId: number, action: ReviewModerationAction) => {
+    setNote("");
+    setPending({ reviewId, action });
+  };
+
+  if (!isAdmin) {
+    return (
+      <MainLayout>
+        <div className="container mx-auto px-4 py-16 text-center">
+          <ShieldAlert className="h-12 w-12 text-neutral-300 mx-auto mb-3" />
+          <h1 className="text-xl font-semibold">Admins only</h1>
+          <p className="text-neutral-600">You don't have access to review moderation.</p>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  return (
+    <MainLayout>
+      <div className="bg-neutral-50 min-h-screen">
+        <div className="container mx-auto px-4 py-8">
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold">Review Moderation</h1>
+            <p className="text-neutral-600 mt-1">Act on reported reviews and restore hidden ones</p>
+          </div>
+
+          <Tabs value={status} onValueChange={(value) => setStatus(value as QueueStatus)}>
+            <TabsList className="mb-6">
+              <TabsTrigger value="reported">Reported</TabsTrigger>
+              <TabsTrigger value="hidden">Hidden</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value={status}>
+              {isLoading || !queue ? (
+                <div className="flex justify-center py-12">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                </div>
+              ) : queue.length === 0 ? (
+                <p className="text-center text-neutral-600 py-12">
+                  {status === "reported" ? "No reviews are waiting for moderation." : "No reviews are hidden."}
+                </p>
+              ) : (
+                <div className="grid gap-4">
+                  {queue.map((item) => (
+                    <QueueItem
+                      key={item.review.id}
+                      item={item}
+                      onModerate={(action) => openDialog(item.review.id, action)}
+                    />
+                  ))}
+                </div>
+              )}
+            </TabsContent>
+          </Tabs>
+        </div>
+      </div>
+
+      <Dialog open={!!pending} onOpenChange={(open) => !open && setPending(null)}>
+        <DialogContent className="sm:max-w-[450px]">
+          <DialogHeader>
+            <DialogTitle>{pending && dialogTitles[pending.action]}</DialogTitle>
+            <DialogDescription>
+              Open reports on the review are closed and the decision is kept in its history.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea placeholder="Note for the audit trail (optional)" value={note} onChange={(e) => setNote(e.target.value)} />
+          <DialogFooter>
+            <Button variant="outline" type="button" onClick={() => setPending(null)}>
+              Cancel
+            </Button>
+            <Button disabled={moderateMutation.isPending} onClick={() => moderateMutation.mutate()}>
+              {moderateMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Confirm
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </MainLayout>
+  );
+}
@@ -1,7 +1,13 @@
 import { useEffect, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { useLocation } from "wouter";
-import { ServiceCategory, ServiceProviderWithUser } from "@shared/schema";
+import { useQuery, useInfiniteQuery } from "@tanstack/react-query";
+import { useLocation, useSearch } from "wouter";
+import { 
+  ServiceCategory, 
+  ProviderListing, 
+  ProviderSearchPage, 
+  ProviderSort, 
+  providerSortOptions 
+} from "@shared/schema";
 import ServiceCategoryCard from "@/components/ServiceCategoryCard";
 import ServiceProviderCard from "@/components/ServiceProviderCard";
 import MainLayout from "@/components/MainLayout";
@@ -18,61 +24,141 @@ import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 
+// The top of the price slider means "no upper limit"
+const MAX_PRICE = 200;
+
+const sortLabels: Record<ProviderSort, string> = {
+  [providerSortOptions.RATING]: "Top rated",
+  [providerSortOptions.PRICE]: "Lowest price",
+  [providerSortOptions.COMPLETED_JOBS]: "Most jobs completed",
+  [providerSortOptions.NEWEST]: "Newest",
+};
+
+// Filter state lives in the URL so searches can be shared and survive reloads
+type FilterKey = "category" | "location" | "q" | "minHourlyRate" | "maxHourlyRate" | "minRating" | "minYearsOfExperience" | "sort";
+
+function isProviderSort(value: string | null): value is ProviderSort {
+  return Object.values(providerSortOptions).includes(value as ProviderSort);
+}
+
 export default function ServiceCategories() {
-  const [location, _] = useLocation();
-  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
-  const [locationFilter, setLocationFilter] = useState<string>("");
-  const [priceRange, setPriceRange] = useState<number[]>([0, 100]);
-  const [minRating, setMinRating] = useState<number>(0);
+  const [_, setLocation] = useLocation();
+  const searchString = useSearch();
+  const params = new URLSearchParams(searchString);
   
-  // Get category from URL params if present
-  useEffect(() => {
-    const params = new URLSearchParams(location.split("?")[1] || "");
-    const categoryParam = params.get("category");
-    const locationParam = params.get("location");
-    
-    if (categoryParam) {
-      setSelectedCategory(categoryParam);
-    }
-    
-    if (locationParam) {
-      setLocationFilter(locationParam);
+  const selectedCategory = params.get("category");
+  const searchLocation = params.get("location") ?? "";
+  const keyword = params.get("q") ?? "";
+  const minHourlyRate = Number(params.get("minHourlyRate") ?? 0);
+  const maxHourlyRate = Number(params.get("maxHourlyRate") ?? MAX_PRICE);
+  const minRating = Number(params.get("minRating") ?? 0);
+  const minYearsOfExperience = params.get("minYearsOfExperience") ?? "";
+  const sortParam = params.get("sort");
+  const sort: ProviderSort = isProviderSort(sortParam) ? sortParam : providerSortOptions.RATING;
+  
+  // Inputs that are edited continuously are written to the URL once they settle
+  const [locationInput, setLocationInput] = useState(searchLocation);
+  const [keywordInput, setKeywordInput] = useState(keyword);
+  const [priceRange, setPriceRange] = useState<number[]>([minHourlyRate, maxHourlyRate]);
+  
+  function updateFilters(changes: Partial<Record<FilterKey, string | null>>) {
+    const next = new URLSearchParams(searchString);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
     }
-  }, [location]);
+    setLocation(`/service-categories?${next}`, { replace: true });
+  }
+  
+  function resetFilters() {
+    setLocation("/service-categories", { replace: true });
+  }
+  
+  // Keep the inputs in step when the URL changes underneath them (navigation, reset)
+  useEffect(() => setLocationInput(searchLocation), [searchLocation]);
+  useEffect(() => setKeywordInput(keyword), [keyword]);
+  useEffect(() => setPriceRange([minHourlyRate, maxHourlyRate]), [minHourlyRate, maxHourlyRate]);
+
+  // Wait for the user to stop typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      if (locationInput.trim() !== searchLocation || keywordInput.trim() !== keyword) {
+        updateFilters({ location: locationInput.trim(), q: keywordInput.trim() });
+      }
+    }, 400);
+    return () => clearTimeout(timeout);
+  }, [locationInput, keywordInput]);
 
   // Fetch all service categories
   const { data: categories, isLoading: categoriesLoading } = useQuery<ServiceCategory[]>({
     queryKey: ["/api/categories"],
   });
 
-  // Fetch service providers
-  const { data: providers, isLoading: providersLoading } = useQuery<ServiceProviderWithUser[]>({
-    queryKey: selectedCategory 
-      ? [`/api/providers/category/${selectedCategory}`] 
-      : ["/api/providers"],
-    enabled: true,
+  // Filtering, sorting and paging happen on the server
+  const providerSearchParams = new URLSearchParams({ sort });
+  if (selectedCategory) providerSearchParams.set("categoryId", selectedCategory);
+  if (keyword) providerSearchParams.set("q", keyword);
+  if (minHourlyRate > 0) providerSearchParams.set("minHourlyRate", String(minHourlyRate));
+  if (maxHourlyRate < MAX_PRICE) providerSearchParams.set("maxHourlyRate", String(maxHourlyRate));
+  if (minRating > 0) providerSearchParams.set("minRating", String(minRating));
+  if (minYearsOfExperience) providerSearchParams.set("minYearsOfExperience", minYearsOfExperience);
+  const providerSearch = providerSearchParams.toString();
+  
+  const {
+    data: providerPages,
+    isLoading: providersLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/providers/search", providerSearch],
+    queryFn: async ({ pageParam }) => {
+      const cursor = pageParam ? `&cursor=${encodeURIComponent(pageParam)}` : "";
+      const res = await fetch(`/api/providers/search?${providerSearch}${cursor}`, {
+        credentials: "include",
+      });
+      if (!res.ok) throw new Error(await res.text());
+      return (await res.json()) as ProviderSearchPage;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !searchLocation,
   });
 
-  // Filter providers based on filters
-  const filteredProviders = providers?.filter(provider => {
-    // Filter by location if a location is specified
-    if (locationFilter && !provider.user.username.toLowerCase().includes(locationFilter.toLowerCase())) {
-      return false;
-    }
-    
-    // Filter by price range
-    if (provider.hourlyRate < priceRange[0] || provider.hourlyRate > priceRange[1]) {
-      return false;
-    }
-    
-    // Filter by minimum rating
-    if (minRating > 0 && (!provider.rating || provider.rating < minRating)) {
-      return false;
-    }
-    
-    return true;
+  // With a location, only providers who serve it, nearest first
+  const nearbySearchParams = new URLSearchParams({ location: searchLocation });
+  if (selectedCategory) {
+    nearbySearchParams.set("categoryId", selectedCategory);
+  }
+  const { 
+    data: nearbySearch, 
+    isLoading: nearbyLoading, 
+    error: nearbyError 
+  } = useQuery<{ results: (ProviderListing & { distanceKm: number })[] }>({
+    queryKey: [`/api/search/providers?${nearbySearchParams}`],
+    enabled: !!searchLocation,
+    retry: false,
   });
 
+  // Nearby results are already bounded by distance, so the remaining filters apply here
+  const nearbyProviders = nearbySearch?.results.filter(provider => 
+    provider.hourlyRate >= minHourlyRate &&
+    (maxHourlyRate >= MAX_PRICE || provider.hourlyRate <= maxHourlyRate) &&
+    (provider.rating ?? 0) >= minRating &&
+    (provider.yearsOfExperience ?? 0) >= Number(minYearsOfExperience || 0) &&
+    (!keyword || `${provider.user.firstName} ${provider.user.lastName} ${provider.bio ?? ""}`
+      .toLowerCase()
+      .includes(keyword.toLowerCase()))
+  );
+
+  const filteredProviders: (ProviderListing & { distanceKm?: number })[] | undefined = searchLocation 
+    ? nearbyProviders 
+    : providerPages?.pages.flatMap(page => page.providers);
+  const isProvidersLoading = searchLocation ? nearbyLoading : providersLoading;
+
   // Get the selected category name
   const selectedCategoryName = categories?.find(
     cat => cat.id.toString() === selectedCategory
@@ -123,7 +209,7 @@ export default function ServiceCategories() {
                   <Label htmlFor="categoryFilter">Category</Label>
                   <Select 
                     value={selectedCategory || "all"} 
-                    onValueChange={(value) => value === "all" ? setSelectedCategory(null) : setSelectedCategory(value)}
+                    onValueChange={(value) => updateFilters({ category: value === "all" ? null : value })}
                   >
                     <SelectTrigger id="categoryFilter">
                       <SelectValue placeholder="All Categories" />
@@ -143,9 +229,24 @@ export default function ServiceCategories() {
                   <Label htmlFor="locationFilter">Location</Label>
                   <Input
                     id="locationFilter"
-                    placeholder="Enter location"
-                    value={locationFilter}
-                    onChange={(e) => setLocationFilter(e.target.value)}
+                    placeholder="ZIP code or city"
+                    value={locationInput}
+                    onChange={(e) => setLocationInput(e.target.value)}
+                  />
+                  {nearbyError && (
+                    <p className="text-sm text-destructive mt-1">
+                      We couldn't find that location. Try a ZIP code or city name.
+                    </p>
+                  )}
+                </div>
+                
+                <div>
+                  <Label htmlFor="keywordFilter">Keyword</Label>
+                  <Input
+                    id="keywordFilter"
+                    placeholder="Name or skill"
+                    value={keywordInput}
+                    onChange={(e) => setKeywordInput(e.target.value)}
                   />
                 </div>
                 
@@ -155,14 +256,18 @@ export default function ServiceCategories() {
                     <Slider
                       value={priceRange}
                       min={0}
-                      max={200}
+                      max={MAX_PRICE}
                       step={5}
                       onValueChange={setPriceRange}
+                      onValueCommit={([min, max]) => updateFilters({
+                        minHourlyRate: min > 0 ? String(min) : null,
+                        maxHourlyRate: max < MAX_PRICE ? String(max) : null,
+                      })}
                     />
                   </div>
                   <div className="flex justify-between mt-2 text-sm">
                     <span>${priceRange[0]}</span>
-                    <span>${priceRange[1]}</span>
+                    <span>${priceRange[1]}{priceRange[1] >= MAX_PRICE ? "+" : ""}</span>
                   </div>
                 </div>
                 
@@ -170,7 +275,7 @@ export default function ServiceCategories() {
                   <Label htmlFor="ratingFilter">Minimum Rating</Label>
                   <Select 
                     value={minRating.toString()} 
-                    onValueChange={(value) => setMinRating(Number(value))}
+                    onValueChange={(value) => updateFilters({ minRating: value === "0" ? null : value })}
                   >
                     <SelectTrigger id="ratingFilter">
                       <SelectValue placeholder="Any Rating" />
@@ -184,15 +289,29 @@ export default function ServiceCategories() {
                   </Select>
                 </div>
                 
+                <div>
+                  <Label htmlFor="experienceFilter">Experience</Label>
+                  <Select 
+                    value={minYearsOfExperience || "0"} 
+                    onValueChange={(value) => updateFilters({ minYearsOfExperience: value === "0" ? null : value })}
+                  >
+                    <SelectTrigger id="experienceFilter">
+                      <SelectValue placeholder="Any Experience" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="0">Any Experience</SelectItem>
+                      <SelectItem value="1">1+ Years</SelectItem>
+                      <SelectItem value="3">3+ Years</SelectItem>
+                      <SelectItem value="5">5+ Years</SelectItem>
+                      <SelectItem value="10">10+ Years</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                
                 <Button 
                   variant="outline" 
                   className="w-full"
-                  onClick={() => {
-                    setSelectedCategory(null);
-                    setLocationFilter("");
-                    setPriceRange([0, 100]);
-                    setMinRating(0);
-                  }}
+                  onClick={resetFilters}
                 >
                   Reset Filters
                 </Button>
@@ -205,12 +324,33 @@ export default function ServiceCategories() {
                 <h2 className="text-xl font-semibold">
                   {selectedCategory ? `${selectedCategoryName} Providers` : "All Service Providers"}
                 </h2>
-                <div className="text-sm text-neutral-600">
-                  {filteredProviders?.length || 0} provider(s) found
+                <div className="flex items-center gap-4">
+                  <div className="text-sm text-neutral-600">
+                    {searchLocation 
+                      ? `${filteredProviders?.length || 0} provider(s) nearby` 
+                      : `Showing ${filteredProviders?.length || 0} provider(s)`}
+                  </div>
+                  {!searchLocation && (
+                    <Select 
+                      value={sort} 
+                      onValueChange={(value) => updateFilters({ sort: value === providerSortOptions.RATING ? null : value })}
+                    >
+                      <SelectTrigger className="w-48" aria-label="Sort providers">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(sortLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>
+                            {label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                 </div>
               </div>
               
-              {providersLoading ? (
+              {isProvidersLoading ? (
                 // Loading skeleton
                 <div className="grid gap-6">
                   {Array(3).fill(null).map((_, i) => (
@@ -236,6 +376,23 @@ export default function ServiceCategories() {
                   {filteredProviders.map((provider) => (
                     <ServiceProviderCard key={provider.id} provider={provider} />
                   ))}
+                  {hasNextPage && !searchLocation && (
+                    <Button 
+                      variant="outline" 
+                      className="justify-self-center"
+                      onClick={() => fetchNextPage()}
+                      disabled={isFetchingNextPage}
+                    >
+                      {isFetchingNextPage ? (
+                        <>
+                          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                          Loading...
+                        </>
+                      ) : (
+                        "Load more"
+                      )}
+                    </Button>
+                  )}
                 </div>
               ) : (
                 // No providers found
@@ -249,12 +406,7 @@ export default function ServiceCategories() {
                   </p>
                   <Button 
                     variant="outline" 
-                    onClick={() => {
-                      setSelectedCategory(null);
-                      setLocationFilter("");
-                      setPriceRange([0, 100]);
-                      setMinRating(0);
-                    }}
+                    onClick={resetFilters}
                   >
                     Clear Filters
                   </Button>
@@ -7,10 +7,16 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
-import { Loader2, Star, MessageSquare, Calendar, DollarSign, Award, MapPin } from "lucide-react";
+import { Loader2, Star, MessageSquare, Calendar, DollarSign, Award, MapPin, BadgeCheck } from "lucide-react";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { SlotPicker } from "@/components/availability/slot-picker";
+import { WeeklySchedule } from "@/components/availability/weekly-schedule";
+import { ReviewReply } from "@/components/reviews/review-reply";
+import { ReportReviewButton } from "@/components/reviews/report-review-button";
+import { RatingSummary } from "@/components/reviews/rating-summary";
+import type { ProviderAvailability } from "@shared/schema";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -36,12 +42,25 @@ export default function ServiceProviderProfile() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [requestDialogOpen, setRequestDialogOpen] = useState(false);
+  const [selectedSlot, setSelectedSlot] = useState<string | null>(null);
   
   // Fetch provider data
   const { data: provider, isLoading } = useQuery<any>({
     queryKey: [`/api/providers/${id}`],
     enabled: !!id,
   });
+  
+  const { data: availability } = useQuery<ProviderAvailability>({
+    queryKey: [`/api/providers/${id}/availability`],
+    enabled: !!id,
+  });
+  
+  // Free slots change whenever anyone books, so refetch them after every attempt
+  const refreshSlots = () => {
+    queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith(`/api/providers/${id}/slots`),
+    });
+  };
 
   // Service request form
   const form = useForm<ServiceRequestValues>({
@@ -64,19 +83,24 @@ export default function ServiceProviderProfile() {
       const requestData = {
         providerId: provider.id,
         message: data.message,
+        scheduledStart: selectedSlot,
       };
       const res = await apiRequest("POST", "/api/service-requests", requestData);
       return res.json();
     },
     onSuccess: () => {
       setRequestDialogOpen(false);
+      setSelectedSlot(null);
       form.reset();
+      refreshSlots();
       toast({
         title: "Request sent",
         description: "Your service request has been sent to the provider",
       });
     },
     onError: (error: Error) => {
+      setSelectedSlot(null);
+      refreshSlots();
       toast({
         title: "Request failed",
         description: error.message,
@@ -154,9 +178,17 @@ export default function ServiceProviderProfile() {
                       {provider.user.firstName} {provider.user.lastName}
                     </h1>
                     
-                    <Badge className="bg-primary mb-2">
-                      {provider.category.name}
-                    </Badge>
+                    <div className="flex items-center gap-2 mb-2">
+                      <Badge className="bg-primary">
+                        {provider.category.name}
+                      </Badge>
+                      {provider.verifiedAt && (
+                        <Badge variant="outline" className="text-green-700 border-green-500">
+                          <BadgeCheck className="h-3 w-3 mr-1" />
+                          Verified
+                        </Badge>
+                      )}
+                    </div>
                     
                     <p className="text-neutral-600 text-sm">
                       {provider.completedJobs} jobs completed
@@ -184,7 +216,15 @@ export default function ServiceProviderProfile() {
                       </div>
                     )}
                     
-                    {provider.availability && (
+                    {availability && availability.rules.length > 0 ? (
+                      <div className="flex items-start">
+                        <Calendar className="h-5 w-5 text-neutral-500 mr-2 mt-0.5" />
+                        <div className="flex-1">
+                          <div className="font-medium mb-1">Availability</div>
+                          <WeeklySchedule rules={availability.rules} timezone={availability.timezone} />
+                        </div>
+                      </div>
+                    ) : provider.availability && (
                       <div className="flex items-center">
                         <Calendar className="h-5 w-5 text-neutral-500 mr-2" />
                         <div>
@@ -238,6 +278,7 @@ export default function ServiceProviderProfile() {
               
               {/* Reviews */}
               <h2 className="text-xl font-bold mb-4">Reviews</h2>
+              <RatingSummary summary={provider.ratingSummary} />
               {provider.reviews && provider.reviews.length > 0 ? (
                 <div className="space-y-4">
                   {provider.reviews.map((review: any) => (
@@ -271,10 +312,16 @@ export default function ServiceProviderProfile() {
                                 ))}
                               </div>
                             </div>
-                            <div className="text-neutral-500 text-xs mb-2">
+                            <div className="flex items-center justify-between text-neutral-500 text-xs mb-2">
                               {new Date(review.createdAt).toLocaleDateString()}
+                              {user && user.id !== review.clientId && <ReportReviewButton reviewId={review.id} />}
                             </div>
                             <p className="text-neutral-700">{review.comment}</p>
+                            <ReviewReply
+                              review={review}
+                              providerId={provider.id}
+                              canReply={user?.id === provider.userId}
+                            />
                           </div>
                         </div>
                       </CardContent>
@@ -297,7 +344,7 @@ export default function ServiceProviderProfile() {
       
       {/* Service Request Dialog */}
       <Dialog open={requestDialogOpen} onOpenChange={setRequestDialogOpen}>
-        <DialogContent className="sm:max-w-[500px]">
+        <DialogContent className="sm:max-w-[550px]">
           <DialogHeader>
             <DialogTitle>Request Service</DialogTitle>
             <DialogDescription>
@@ -307,6 +354,13 @@ export default function ServiceProviderProfile() {
           
           <Form {...form}>
             <form onSubmit={form.handleSubmit(onSubmitRequest)} className="space-y-4">
+              {availability && availability.rules.length > 0 && (
+                <div className="space-y-2">
+                  <div className="text-sm font-medium">Pick a time (optional)</div>
+                  <SlotPicker providerId={provider.id} value={selectedSlot} onChange={setSelectedSlot} />
+                </div>
+              )}
+              
               <FormField
                 control={form.control}
                 name="message"
@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { KeyRound, Loader2 } from "lucide-react";
+import type { User } from "@shared/schema";
+import MainLayout from "@/components/MainLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// Second login step: the password or login link checked out, now the authenticator code
+export default function TwoFactorLoginPage() {
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const [code, setCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/login/2fa", { code });
+      return (await res.json()) as User;
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/user"], user);
+      setLocation(user.isServiceProvider ? "/provider-dashboard" : "/client-dashboard");
+    },
+    onError: (error: Error) => {
+      setCode("");
+      toast({
+        title: "Couldn't log you in",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <MainLayout>
+      <div className="flex min-h-screen bg-neutral-50">
+        <div className="flex flex-col justify-center flex-1 px-4 py-12">
+          <div className="w-full max-w-md mx-auto bg-white rounded-lg border p-6 space-y-6">
+            <div className="text-center">
+              <KeyRound className="h-10 w-10 text-primary mx-auto mb-3" />
+              <h1 className="text-2xl font-bold tracking-tight">Two-factor authentication</h1>
+              <p className="text-sm text-muted-foreground mt-1">
+                {useRecoveryCode
+                  ? "Enter one of the recovery codes you saved when you turned on two-factor authentication"
+                  : "Enter the 6-digit code from your authenticator app"}
+              </p>
+            </div>
+
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                verifyMutation.mutate();
+              }}
+              className="space-y-4"
+            >
+              <div className="space-y-2">
+                <Label htmlFor="two-factor-code">{useRecoveryCode ? "Recovery code" : "Authentication code"}</Label>
+                <Input
+                  id="two-factor-code"
+                  autoFocus
+                  autoComplete="one-time-code"
+                  inputMode={useRecoveryCode ? "text" : "numeric"}
+                  placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                />
+              </div>
+
+              <Button type="submit" className="w-full" disabled={!code.trim() || verifyMutation.isPending}>
+                {verifyMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    Verifying...
+                  </>
+                ) : (
+                  "Verify"
+                )}
+              </Button>
+            </form>
+
+            <div className="flex justify-between text-sm">
+              <button
+                type="button"
+                className="text-primary hover:underline"
+                onClick={() => {
+                  setUseRecoveryCode(!useRecoveryCode);
+                  setCode("");
+                }}
+              >
+                {useRecoveryCode ? "Use your authenticator app" : "Use a recovery code"}
+              </button>
+              <Link href="/auth" className="text-neutral-500 hover:underline">
+                Back to login
+              </Link>
+            </div>
+          </div>
+        </div>
+      </div>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,78 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation } from "wouter";
+import { Loader2 } from "lucide-react";
+import type { TwoFactorChallenge, User } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import MainLayout from "@/components/MainLayout";
+import { queryClient } from "@/lib/queryClient";
+
+export default function VerifyLoginPage() {
+  const [, setLocation] = useLocation();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const verifyLogin = async () => {
+      try {
+        const token = new URLSearchParams(window.location.search).get("token");
+        if (!token) {
+          throw new Error("Invalid login link");
+        }
+
+        const response = await fetch(`/api/verify-login?token=${encodeURIComponent(token)}`, {
+          credentials: "include",
+        });
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.message || "Login failed");
+        }
+
+        // The link only covers the first factor for users with 2FA
+        if ((data as TwoFactorChallenge).twoFactorRequired) {
+          setLocation("/login/two-factor");
+          return;
+        }
+
+        const user = data as User;
+        queryClient.setQueryData(["/api/user"], user);
+        setLocation(user.isServiceProvider ? "/provider-dashboard" : "/client-dashboard");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Login failed");
+      }
+    };
+
+    verifyLogin();
+  }, [setLocation]);
+
+  return (
+    <MainLayout>
+      <div className="flex min-h-screen bg-neutral-50">
+        <div className="flex flex-col justify-center flex-1 px-4 py-12">
+          <div className="w-full max-w-md mx-auto text-center">
+            {error ? (
+              <div className="space-y-6">
+                <div className="rounded-full w-16 h-16 bg-red-100 flex items-center justify-center mx-auto">
+                  <i className="fas fa-times text-red-500 text-2xl" />
+                </div>
+                <h1 className="text-2xl font-bold text-red-500">Login Failed</h1>
+                <p className="text-neutral-600">{error}</p>
+                <p className="text-sm text-neutral-500">
+                  Login links work once and expire after 15 minutes.
+                </p>
+                <Button variant="outline" asChild>
+                  <Link href="/auth">Back to login</Link>
+                </Button>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <Loader2 className="h-8 w-8 animate-spin mx-auto text-primary" />
+                <h1 className="text-2xl font-bold">Logging you in...</h1>
+                <p className="text-neutral-600">Please wait while we check your login link.</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </MainLayout>
+  );
+}
@@ -0,0 +1,19 @@
+-- Audit trail for task lifecycle transitions
+CREATE TABLE task_status_history (
+  id SERIAL PRIMARY KEY,
+  task_id INTEGER NOT NULL REFERENCES tasks(id),
+  actor_id INTEGER NOT NULL REFERENCES users(id),
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX task_status_history_task_id_idx ON task_status_history(task_id);
+
+-- Columns added to the schema after the initial migration
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS accepted_by_id INTEGER REFERENCES service_providers(id),
+ADD COLUMN IF NOT EXISTS accepted_at TIMESTAMP;
+
+-- Normalise legacy status spellings
+UPDATE tasks SET status = 'in_progress' WHERE status = 'in-progress';
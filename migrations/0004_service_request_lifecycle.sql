@@ -0,0 +1,16 @@
+-- Track which side sent a service request so the other side can accept it
+ALTER TABLE service_requests
+ADD COLUMN initiated_by TEXT NOT NULL DEFAULT 'client';
+
+-- Offers on tasks are sent by providers
+UPDATE service_requests SET initiated_by = 'provider' WHERE task_id IS NOT NULL;
+
+-- Normalise legacy status spellings
+UPDATE service_requests SET status = 'declined' WHERE status = 'rejected';
+UPDATE service_requests SET status = 'in_progress' WHERE status = 'in-progress';
+
+-- Offers used to record the provider as the client; the client is the task owner
+UPDATE service_requests
+SET client_id = tasks.client_id
+FROM tasks
+WHERE service_requests.task_id = tasks.id;
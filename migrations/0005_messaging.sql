@@ -0,0 +1,25 @@
+-- Message threads between a client and a provider about a service request or task
+CREATE TABLE conversations (
+  id SERIAL PRIMARY KEY,
+  service_request_id INTEGER UNIQUE REFERENCES service_requests(id),
+  task_id INTEGER REFERENCES tasks(id),
+  client_id INTEGER NOT NULL REFERENCES users(id),
+  provider_id INTEGER NOT NULL REFERENCES service_providers(id),
+  last_message_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX conversations_client_id_idx ON conversations(client_id);
+CREATE INDEX conversations_provider_id_idx ON conversations(provider_id);
+CREATE INDEX conversations_task_id_idx ON conversations(task_id);
+
+CREATE TABLE messages (
+  id SERIAL PRIMARY KEY,
+  conversation_id INTEGER NOT NULL REFERENCES conversations(id),
+  sender_id INTEGER NOT NULL REFERENCES users(id),
+  body TEXT NOT NULL,
+  read_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX messages_conversation_id_idx ON messages(conversation_id, id);
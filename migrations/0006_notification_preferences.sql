@@ -0,0 +1,12 @@
+-- Per-user notification mutes by type and channel (in_app, websocket, email)
+CREATE TABLE notification_preferences (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id),
+  type TEXT NOT NULL,
+  channel TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (user_id, type, channel)
+);
+
+CREATE INDEX notifications_user_id_idx ON notifications(user_id, id);
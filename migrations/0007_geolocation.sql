@@ -0,0 +1,16 @@
+-- Structured locations for providers and tasks; coordinates are geocoded from the postal code
+ALTER TABLE service_providers
+  ADD COLUMN address TEXT,
+  ADD COLUMN postal_code TEXT,
+  ADD COLUMN latitude DOUBLE PRECISION,
+  ADD COLUMN longitude DOUBLE PRECISION,
+  ADD COLUMN service_radius_km DOUBLE PRECISION NOT NULL DEFAULT 25;
+
+ALTER TABLE tasks
+  ADD COLUMN postal_code TEXT,
+  ADD COLUMN latitude DOUBLE PRECISION,
+  ADD COLUMN longitude DOUBLE PRECISION;
+
+-- Bounding-box prefilter for radius searches
+CREATE INDEX service_providers_lat_lng_idx ON service_providers(latitude, longitude);
+CREATE INDEX tasks_lat_lng_idx ON tasks(latitude, longitude);
@@ -0,0 +1,5 @@
+-- Keyset pagination for provider search; expressions match the sort keys in DatabaseStorage
+CREATE INDEX service_providers_rating_idx ON service_providers ((COALESCE(rating, 0)) DESC, id DESC);
+CREATE INDEX service_providers_hourly_rate_idx ON service_providers (hourly_rate, id);
+CREATE INDEX service_providers_completed_jobs_idx ON service_providers ((COALESCE(completed_jobs, 0)) DESC, id DESC);
+CREATE INDEX service_providers_category_id_idx ON service_providers (category_id);
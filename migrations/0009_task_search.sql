@@ -0,0 +1,9 @@
+-- Full-text search over tasks; title outranks description, which outranks location
+ALTER TABLE tasks
+  ADD COLUMN search_vector tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+    setweight(to_tsvector('english', coalesce(location, '')), 'C')
+  ) STORED;
+
+CREATE INDEX tasks_search_vector_idx ON tasks USING GIN (search_vector);
@@ -0,0 +1,11 @@
+-- Price and timing attached to a provider's offer on a task; one quote per service request
+CREATE TABLE quotes (
+  id SERIAL PRIMARY KEY,
+  service_request_id INTEGER NOT NULL UNIQUE REFERENCES service_requests(id),
+  amount DOUBLE PRECISION NOT NULL,
+  pricing_type TEXT NOT NULL,
+  estimated_hours DOUBLE PRECISION,
+  earliest_start_at TIMESTAMP,
+  expires_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
@@ -0,0 +1,33 @@
+-- Structured provider schedules: weekly hours in the provider's timezone plus one-off blocks
+ALTER TABLE service_providers
+  ADD COLUMN timezone TEXT NOT NULL DEFAULT 'UTC',
+  ADD COLUMN slot_minutes INTEGER NOT NULL DEFAULT 60;
+
+CREATE TABLE availability_rules (
+  id SERIAL PRIMARY KEY,
+  provider_id INTEGER NOT NULL REFERENCES service_providers(id),
+  weekday INTEGER NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  start_time TEXT NOT NULL,
+  end_time TEXT NOT NULL
+);
+
+CREATE INDEX availability_rules_provider_idx ON availability_rules (provider_id);
+
+CREATE TABLE availability_exceptions (
+  id SERIAL PRIMARY KEY,
+  provider_id INTEGER NOT NULL REFERENCES service_providers(id),
+  starts_at TIMESTAMP NOT NULL,
+  ends_at TIMESTAMP NOT NULL,
+  reason TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX availability_exceptions_provider_idx ON availability_exceptions (provider_id, starts_at);
+
+-- The slot a client picked when sending a request
+ALTER TABLE service_requests
+  ADD COLUMN scheduled_start TIMESTAMP,
+  ADD COLUMN scheduled_end TIMESTAMP;
+
+CREATE INDEX service_requests_provider_schedule_idx ON service_requests (provider_id, scheduled_start)
+  WHERE scheduled_start IS NOT NULL;
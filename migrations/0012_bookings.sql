@@ -0,0 +1,20 @@
+-- Appointments for accepted requests, published to calendars as iCalendar events
+CREATE TABLE bookings (
+  id SERIAL PRIMARY KEY,
+  service_request_id INTEGER NOT NULL UNIQUE REFERENCES service_requests(id),
+  provider_id INTEGER NOT NULL REFERENCES service_providers(id),
+  client_id INTEGER NOT NULL REFERENCES users(id),
+  starts_at TIMESTAMP NOT NULL,
+  ends_at TIMESTAMP NOT NULL,
+  address TEXT,
+  status TEXT NOT NULL DEFAULT 'confirmed',
+  sequence INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX bookings_provider_ends_at_idx ON bookings (provider_id, ends_at);
+CREATE INDEX bookings_client_ends_at_idx ON bookings (client_id, ends_at);
+
+-- Secret for each user's calendar feed URL
+ALTER TABLE users ADD COLUMN calendar_token TEXT UNIQUE;
@@ -0,0 +1,50 @@
+-- Double-entry ledger for escrowed payments; amounts are in cents
+CREATE TABLE ledger_accounts (
+  id SERIAL PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE,
+  type TEXT NOT NULL,
+  user_id INTEGER REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Client funds authorized for an accepted quote, held until the job ends
+CREATE TABLE payment_holds (
+  id SERIAL PRIMARY KEY,
+  service_request_id INTEGER NOT NULL UNIQUE REFERENCES service_requests(id),
+  client_id INTEGER NOT NULL REFERENCES users(id),
+  provider_id INTEGER NOT NULL REFERENCES service_providers(id),
+  amount_cents INTEGER NOT NULL,
+  fee_cents INTEGER NOT NULL,
+  -- 'authorizing', 'held', 'releasing', 'released', 'refunding' or 'refunded'
+  status TEXT NOT NULL DEFAULT 'authorizing',
+  -- Null until the gateway has granted the authorization
+  authorization_id TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  settled_at TIMESTAMP
+);
+
+CREATE INDEX payment_holds_client_id_idx ON payment_holds (client_id);
+CREATE INDEX payment_holds_provider_id_idx ON payment_holds (provider_id);
+-- Finds holds whose capture or void is still to be confirmed
+CREATE INDEX payment_holds_status_idx ON payment_holds (status);
+
+CREATE TABLE journal_entries (
+  id SERIAL PRIMARY KEY,
+  kind TEXT NOT NULL,
+  description TEXT NOT NULL,
+  hold_id INTEGER REFERENCES payment_holds(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX journal_entries_hold_id_idx ON journal_entries (hold_id);
+
+-- Debits are positive and credits negative; each entry's postings sum to zero
+CREATE TABLE ledger_postings (
+  id SERIAL PRIMARY KEY,
+  entry_id INTEGER NOT NULL REFERENCES journal_entries(id),
+  account_id INTEGER NOT NULL REFERENCES ledger_accounts(id),
+  amount_cents INTEGER NOT NULL
+);
+
+CREATE INDEX ledger_postings_entry_id_idx ON ledger_postings (entry_id);
+CREATE INDEX ledger_postings_account_id_idx ON ledger_postings (account_id);
@@ -0,0 +1,36 @@
+-- Invoices and credit notes for completed jobs; rows are written once and never updated
+CREATE TABLE invoices (
+  id SERIAL PRIMARY KEY,
+  kind TEXT NOT NULL,
+  sequence INTEGER NOT NULL,
+  number TEXT NOT NULL UNIQUE,
+  provider_id INTEGER NOT NULL REFERENCES service_providers(id),
+  client_id INTEGER NOT NULL REFERENCES users(id),
+  service_request_id INTEGER NOT NULL REFERENCES service_requests(id),
+  credited_invoice_id INTEGER REFERENCES invoices(id),
+  reason TEXT,
+  issuer_name TEXT NOT NULL,
+  recipient_name TEXT NOT NULL,
+  line_items JSONB NOT NULL,
+  subtotal_cents INTEGER NOT NULL,
+  tax_rate DOUBLE PRECISION NOT NULL,
+  tax_cents INTEGER NOT NULL,
+  total_cents INTEGER NOT NULL,
+  fee_cents INTEGER NOT NULL,
+  issued_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE (provider_id, kind, sequence)
+);
+
+CREATE INDEX invoices_service_request_id_idx ON invoices (service_request_id);
+CREATE INDEX invoices_client_id_idx ON invoices (client_id);
+
+-- Issued documents are legal records; refuse edits at the database level too
+CREATE FUNCTION invoices_immutable() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'Invoices cannot be changed once issued; issue a credit note instead';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER invoices_no_update
+  BEFORE UPDATE OR DELETE ON invoices
+  FOR EACH ROW EXECUTE FUNCTION invoices_immutable();
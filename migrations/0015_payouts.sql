@@ -0,0 +1,23 @@
+-- Transfers of providers' available balances to their bank accounts
+CREATE TABLE payouts (
+  id SERIAL PRIMARY KEY,
+  provider_id INTEGER NOT NULL REFERENCES service_providers(id),
+  amount_cents INTEGER NOT NULL,
+  trigger TEXT NOT NULL,
+  -- 'pending' until the gateway confirms the transfer, then 'paid'
+  status TEXT NOT NULL DEFAULT 'pending',
+  transfer_id TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX payouts_provider_id_idx ON payouts (provider_id, id);
+CREATE INDEX payouts_status_idx ON payouts (status);
+
+ALTER TABLE journal_entries ADD COLUMN payout_id INTEGER REFERENCES payouts(id);
+CREATE INDEX journal_entries_payout_id_idx ON journal_entries (payout_id);
+
+-- 'weekly' or 'on_demand'
+ALTER TABLE service_providers ADD COLUMN payout_schedule TEXT NOT NULL DEFAULT 'weekly';
+
+-- Earnings are bucketed by when each payment was released
+CREATE INDEX payment_holds_provider_settled_idx ON payment_holds (provider_id, settled_at);
@@ -0,0 +1,16 @@
+-- Completion opens the double-blind review window
+ALTER TABLE service_requests ADD COLUMN completed_at TIMESTAMP;
+
+-- Jobs completed before this get a full window from the migration on
+UPDATE service_requests SET completed_at = NOW() WHERE status = 'completed';
+
+-- Reviews can now go either way; existing ones were all written by clients
+ALTER TABLE reviews ADD COLUMN reviewer_role TEXT NOT NULL DEFAULT 'client';
+ALTER TABLE reviews ADD COLUMN published_at TIMESTAMP;
+
+-- Reviews written before the blind window existed were visible straight away
+UPDATE reviews SET published_at = COALESCE(created_at, NOW());
+
+CREATE INDEX reviews_service_request_id_idx ON reviews (service_request_id);
+CREATE INDEX reviews_client_id_idx ON reviews (client_id) WHERE reviewer_role = 'provider';
+CREATE INDEX reviews_unpublished_idx ON reviews (service_request_id) WHERE published_at IS NULL;
@@ -0,0 +1,51 @@
+-- 'client', 'provider' or 'admin'. Admins moderate reviews; the role is granted by hand, never through the API
+ALTER TABLE users ADD COLUMN role TEXT NOT NULL DEFAULT 'client';
+
+-- Earlier duplicates skewed ratings; keep each side's first review of a request
+DELETE FROM reviews r
+USING reviews earlier
+WHERE earlier.service_request_id = r.service_request_id
+  AND earlier.reviewer_role = r.reviewer_role
+  AND earlier.id < r.id;
+
+ALTER TABLE reviews ADD CONSTRAINT reviews_service_request_id_reviewer_role_unique
+  UNIQUE (service_request_id, reviewer_role);
+
+ALTER TABLE reviews ADD COLUMN reply TEXT;
+ALTER TABLE reviews ADD COLUMN replied_at TIMESTAMP;
+ALTER TABLE reviews ADD COLUMN hidden_at TIMESTAMP;
+
+CREATE TABLE review_reports (
+  id SERIAL PRIMARY KEY,
+  review_id INTEGER NOT NULL REFERENCES reviews(id),
+  reporter_id INTEGER NOT NULL REFERENCES users(id),
+  reason TEXT NOT NULL,
+  details TEXT,
+  resolved_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  CONSTRAINT review_reports_review_id_reporter_id_unique UNIQUE (review_id, reporter_id)
+);
+
+CREATE INDEX review_reports_open_idx ON review_reports (id) WHERE resolved_at IS NULL;
+
+-- Append-only audit trail of moderation decisions
+CREATE TABLE review_moderation_events (
+  id SERIAL PRIMARY KEY,
+  review_id INTEGER NOT NULL REFERENCES reviews(id),
+  moderator_id INTEGER NOT NULL REFERENCES users(id),
+  action TEXT NOT NULL,
+  note TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX review_moderation_events_review_id_idx ON review_moderation_events (review_id, id);
+
+CREATE FUNCTION review_moderation_events_immutable() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'review moderation events cannot be changed';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER review_moderation_events_immutable
+  BEFORE UPDATE OR DELETE ON review_moderation_events
+  FOR EACH ROW EXECUTE FUNCTION review_moderation_events_immutable();
@@ -0,0 +1,22 @@
+-- Bayesian score used to rank providers; filled in by the rating rebuild at startup
+ALTER TABLE service_providers ADD COLUMN rating_score DOUBLE PRECISION;
+
+-- Search now sorts on the score, so its keyset index replaces the one on the raw average
+DROP INDEX IF EXISTS service_providers_rating_idx;
+CREATE INDEX service_providers_rating_score_idx ON service_providers ((COALESCE(rating_score, 0)) DESC, id DESC);
+
+-- Optional per-dimension ratings clients can add to their review
+ALTER TABLE reviews ADD COLUMN punctuality_rating INTEGER;
+ALTER TABLE reviews ADD COLUMN quality_rating INTEGER;
+ALTER TABLE reviews ADD COLUMN communication_rating INTEGER;
+ALTER TABLE reviews ADD COLUMN value_rating INTEGER;
+
+CREATE TABLE provider_rating_aggregates (
+  provider_id INTEGER PRIMARY KEY REFERENCES service_providers(id),
+  review_count INTEGER NOT NULL DEFAULT 0,
+  rating_sum INTEGER NOT NULL DEFAULT 0,
+  distribution JSONB NOT NULL,
+  dimensions JSONB NOT NULL,
+  bayesian_score DOUBLE PRECISION NOT NULL,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
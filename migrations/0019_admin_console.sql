@@ -0,0 +1,10 @@
+-- Providers get their own role; they keep is_service_provider for their profile. Users who
+-- added a provider profile after signing up as clients are providers too
+UPDATE users SET role = 'provider'
+WHERE role = 'client'
+  AND (is_service_provider OR id IN (SELECT user_id FROM service_providers));
+
+ALTER TABLE users ADD COLUMN suspended_at TIMESTAMP;
+ALTER TABLE users ADD COLUMN suspension_reason TEXT;
+
+ALTER TABLE service_providers ADD COLUMN verified_at TIMESTAMP;
@@ -0,0 +1,11 @@
+-- Magic-link logins; like password reset tokens, only a SHA-256 hash of the emailed token is stored
+CREATE TABLE login_tokens (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id),
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX login_tokens_user_id_idx ON login_tokens (user_id);
@@ -0,0 +1,19 @@
+-- Opt-in TOTP two-factor authentication; a row with no enabled_at is an unfinished enrollment
+CREATE TABLE two_factor_credentials (
+  user_id INTEGER PRIMARY KEY REFERENCES users(id),
+  secret TEXT NOT NULL,
+  enabled_at TIMESTAMP,
+  last_used_step INTEGER,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Only SHA-256 hashes of the recovery codes are stored
+CREATE TABLE two_factor_recovery_codes (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id),
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX two_factor_recovery_codes_user_id_idx ON two_factor_recovery_codes (user_id);
@@ -0,0 +1,9 @@
+-- Fixed-window rate limit and failed-login counters, shared by every server instance
+CREATE TABLE rate_limits (
+  key TEXT PRIMARY KEY,
+  count INTEGER NOT NULL,
+  reset_at TIMESTAMP NOT NULL,
+  last_hit_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX rate_limits_reset_at_idx ON rate_limits (reset_at);
@@ -0,0 +1,8 @@
+-- Sessions signed out from elsewhere, kept until they would have expired. A request still
+-- running on a revoked session saves it back to "session" as it ends; this keeps it signed out
+CREATE TABLE revoked_sessions (
+  sid TEXT PRIMARY KEY,
+  expires_at TIMESTAMP NOT NULL
+);
+
+CREATE INDEX revoked_sessions_expires_at_idx ON revoked_sessions (expires_at);
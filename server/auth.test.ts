@@ -0,0 +1,146 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { randomUUID } from "crypto";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { storage } from "./storage";
+import { setupAuth } from "./auth";
+import { requireAuth } from "./authorization";
+import sessionRoutes from "./routes/sessions";
+import { hashPassword } from "./services/passwords";
+import { setupWebSocket, type WebSocketService } from "./services/websocket";
+import { confirmEnrollment, startEnrollment } from "./services/two-factor";
+import { totpCode, totpStep } from "./services/totp";
+
+let server: Server;
+let webSockets: WebSocketService;
+let baseUrl: string;
+
+// Lets a test hold a signed-in request open while something else happens
+let slowRequest = { entered: () => {}, release: Promise.resolve() };
+
+// One browser: keeps the session cookie between calls
+function browser() {
+  let cookie: string | undefined;
+  return async (path: string, body?: unknown, method = "POST") => {
+    const res = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { "content-type": "application/json", ...(cookie ? { cookie } : {}) },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    cookie = res.headers.get("set-cookie")?.split(";")[0] ?? cookie;
+    return res;
+  };
+}
+
+async function verifiedUser() {
+  const name = randomUUID().slice(0, 8);
+  const user = await storage.createUser({
+    username: name,
+    email: `${name}@example.com`,
+    password: await hashPassword("password123"),
+    firstName: "Test",
+    lastName: "User",
+    isServiceProvider: false,
+  } as Parameters<typeof storage.createUser>[0]);
+  return (await storage.updateUser(user.id, { emailVerified: true }))!;
+}
+
+// A verified user with 2FA on, and the secret their authenticator app holds
+async function twoFactorUser() {
+  const user = await verifiedUser();
+
+  // Enrolled a few minutes ago, so the enrollment code's step is long gone
+  const enrolledAt = new Date(Date.now() - 5 * 60 * 1000);
+  const { secret } = await startEnrollment(user);
+  await confirmEnrollment(user.id, totpCode(secret, totpStep(enrolledAt)), enrolledAt);
+  return { email: user.email, secret };
+}
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  setupAuth(app);
+  app.use(sessionRoutes);
+  app.post("/test/slow", requireAuth, async (req, res) => {
+    slowRequest.entered();
+    await slowRequest.release;
+    // Anything that changes the session, as trackSessionActivity does once a minute, saves it as the request ends
+    req.session.device!.lastSeenAt = Date.now();
+    res.json({});
+  });
+  app.use((err: { status?: number; message: string }, _req: express.Request, res: express.Response, _next: express.NextFunction) => {
+    res.status(err.status ?? 500).json({ message: err.message });
+  });
+
+  server = app.listen(0, "127.0.0.1");
+  await new Promise((resolve) => server.once("listening", resolve));
+  webSockets = setupWebSocket(server);
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await webSockets.close();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("two-factor login", () => {
+  it("signs in with a correct code after the password", async () => {
+    const { email, secret } = await twoFactorUser();
+    const post = browser();
+
+    expect(await (await post("/api/login", { email, password: "password123" })).json()).toEqual({ twoFactorRequired: true });
+    expect((await post("/api/login/2fa", { code: totpCode(secret, totpStep(new Date())) })).status).toBe(200);
+  });
+
+  it("counts wrong codes towards the account lockout", async () => {
+    const { email } = await twoFactorUser();
+    const post = browser();
+
+    expect((await post("/api/login", { email, password: "password123" })).status).toBe(200);
+    for (let attempt = 0; attempt < 4; attempt++) {
+      expect((await post("/api/login/2fa", { code: "000000" })).status).toBe(400);
+    }
+    expect((await post("/api/login/2fa", { code: "000000" })).status).toBe(401);
+
+    expect((await browser()("/api/login", { email, password: "password123" })).status).toBe(429);
+  });
+
+  it("keeps earlier failures until the second factor is through", async () => {
+    const { email } = await twoFactorUser();
+    for (let attempt = 0; attempt < 4; attempt++) {
+      expect((await browser()("/api/login", { email, password: "wrong-password" })).status).toBe(401);
+    }
+
+    const post = browser();
+    expect((await post("/api/login", { email, password: "password123" })).status).toBe(200);
+    expect((await post("/api/login/2fa", { code: "000000" })).status).toBe(400);
+    expect((await post("/api/login/2fa", { code: "000000" })).status).toBe(429);
+  });
+});
+
+describe("session revocation", () => {
+  it("keeps a revoked session signed out when a request running on it saves it afterwards", async () => {
+    const user = await verifiedUser();
+    const stolen = browser();
+    const owner = browser();
+    expect((await stolen("/api/login", { email: user.email, password: "password123" })).status).toBe(200);
+    expect((await owner("/api/login", { email: user.email, password: "password123" })).status).toBe(200);
+
+    let release = () => {};
+    const entered = new Promise<void>((resolve) => {
+      slowRequest = { entered: resolve, release: new Promise((done) => (release = done)) };
+    });
+    const running = stolen("/test/slow");
+    await entered;
+
+    expect(await (await owner("/api/sessions", undefined, "DELETE")).json()).toEqual({ revoked: 1 });
+    release();
+    expect((await running).status).toBe(200);
+
+    // The store has the revoked session back, but it no longer signs anyone in
+    expect(await storage.getUserSessions(user.id)).toHaveLength(2);
+    expect((await stolen("/api/user", undefined, "GET")).status).toBe(401);
+    expect((await owner("/api/user", undefined, "GET")).status).toBe(200);
+  });
+});
@@ -1,16 +1,28 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, type Request, type RequestHandler } from "express";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
-import { promisify } from "util";
 import { storage } from "./storage";
-import { User as SelectUser } from "@shared/schema";
+import { User as SelectUser, twoFactorCodeSchema, type TwoFactorChallenge } from "@shared/schema";
 import { z } from "zod";
-import { insertUserSchema } from "@shared/schema";
+import { insertUserSchema, isValidTimeZone } from "@shared/schema";
 import { generateVerificationToken, sendVerificationEmail, sendLoginVerificationEmail } from "./services/email";
 import multer from "multer";
 import { uploadProfilePicture, deleteFile } from "./services/upload";
+import { coordinatesForPostalCode } from "./services/geocoding";
+import { hashPassword, comparePasswords } from "./services/passwords";
+import { isTwoFactorEnabled, verifySecondFactor } from "./services/two-factor";
+import { requireAuth } from "./authorization";
+import { emailInBody, rateLimit } from "./rate-limiting";
+import {
+  RateLimitExceededError,
+  checkRateLimit,
+  clearFailedLogins,
+  enforceRateLimit,
+  formatRetryAfter,
+  getLoginLockout,
+  recordFailedLogin,
+} from "./services/rate-limit";
 
 declare global {
   namespace Express {
@@ -18,21 +30,55 @@ declare global {
   }
 }
 
-const scryptAsync = promisify(scrypt);
+declare module "express-session" {
+  interface SessionData {
+    // Set once the password or login link checks out for a user with 2FA; the session
+    // stays logged out until /api/login/2fa accepts a code
+    twoFactorPending?: { userId: number; expiresAt: number; attempts: number; remember: boolean };
+    // Where a signed-in session is used from, for the user's list of sessions (times in ms)
+    device?: { ip?: string; userAgent?: string; createdAt: number; lastSeenAt: number };
+  }
+}
+
+const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000;
+const TWO_FACTOR_MAX_ATTEMPTS = 5;
+
+const SESSION_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+// "Remember me" logins keep their cookie for 30 days instead of a day
+const REMEMBER_ME_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+// lastSeenAt is only written this often, so browsing doesn't save the session on every request
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000;
 
-async function hashPassword(password: string) {
-  const salt = randomBytes(16).toString("hex");
-  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
-  return `${buf.toString("hex")}.${salt}`;
+// Holds the session half-authenticated and tells the client to ask for a code
+export function beginTwoFactorLogin(req: Request, userId: number, remember = false): TwoFactorChallenge {
+  req.session.twoFactorPending = { userId, expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS, attempts: 0, remember };
+  return { twoFactorRequired: true };
 }
 
-async function comparePasswords(supplied: string, stored: string) {
-  const [hashed, salt] = stored.split(".");
-  const hashedBuf = Buffer.from(hashed, "hex");
-  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
-  return timingSafeEqual(hashedBuf, suppliedBuf);
+// Called once req.login has regenerated the session, which resets the cookie to the default lifetime
+function rememberLogin(req: Request, remember: boolean) {
+  if (remember) {
+    req.session.cookie.maxAge = REMEMBER_ME_MAX_AGE_MS;
+  }
 }
 
+// Records the device and last use of signed-in sessions
+const trackSessionActivity: RequestHandler = (req, _res, next) => {
+  if (req.isAuthenticated()) {
+    const now = Date.now();
+    const device = req.session.device;
+    if (!device || now - device.lastSeenAt >= LAST_SEEN_RESOLUTION_MS || device.ip !== req.ip) {
+      req.session.device = {
+        ip: req.ip,
+        userAgent: req.get("user-agent"),
+        createdAt: device?.createdAt ?? now,
+        lastSeenAt: now,
+      };
+    }
+  }
+  next();
+};
+
 // Schema for user registration
 const registerSchema = insertUserSchema.extend({
   isServiceProvider: z.preprocess(
@@ -64,7 +110,9 @@ const providerExtendedSchema = z.object({
     (val) => val ? Number(val) : undefined,
     z.number().optional()
   ),
-  availability: z.string().optional(),
+  timezone: z.string().optional(),
+  address: z.string().optional(),
+  postalCode: z.string().optional(),
 });
 
 // Configure multer for memory storage
@@ -82,37 +130,56 @@ const upload = multer({
   }
 });
 
+// Shared with the WebSocket upgrade handler, which reads the same cookie
+export const SESSION_COOKIE_NAME = "connect.sid";
+export const SESSION_SECRET = process.env.SESSION_SECRET || "Find My Helper-secret-key";
+
 export function setupAuth(app: Express) {
   const sessionSettings: session.SessionOptions = {
-    secret: process.env.SESSION_SECRET || "Find My Helper-secret-key",
+    name: SESSION_COOKIE_NAME,
+    secret: SESSION_SECRET,
     resave: false,
     saveUninitialized: false,
     store: storage.sessionStore,
     cookie: {
-      maxAge: 24 * 60 * 60 * 1000, // 24 hours
+      maxAge: SESSION_MAX_AGE_MS,
     }
   };
 
-  app.set("trust proxy", 1);
   app.use(session(sessionSettings));
   app.use(passport.initialize());
   app.use(passport.session());
+  app.use(trackSessionActivity);
 
   passport.use(
     new LocalStrategy(
       {
         usernameField: "email",
-        passwordField: "password"
+        passwordField: "password",
+        passReqToCallback: true
       },
-      async (email, password, done) => {
+      async (req, email, password, done) => {
         try {
           const user = await storage.getUserByEmail(email);
           if (!user || !(await comparePasswords(password, user.password))) {
+            await recordFailedLogin(req.ip, email);
             return done(null, false, { message: "Invalid email or password" });
           }
+
+          if (user.suspendedAt) {
+            return done(null, false, { message: "This account has been suspended" });
+          }
           
           // Check if email is verified
           if (!user.emailVerified) {
+            // Repeated logins mustn't turn into a stream of verification emails
+            const { allowed } = await checkRateLimit("email", { account: user.email.toLowerCase() });
+            if (!allowed) {
+              return done(null, false, {
+                message: "Please verify your email address using the link we sent to your email."
+              });
+            }
+
             // Generate new verification token
             const token = generateVerificationToken();
             const tokenExpires = new Date(Date.now() + 24 * 60 * 60 * 1000); // 24 hours
@@ -139,16 +206,22 @@ export function setupAuth(app: Express) {
   );
 
   passport.serializeUser((user, done) => done(null, user.id));
-  passport.deserializeUser(async (id: number, done) => {
+  passport.deserializeUser(async (req: Request, id: number, done: (err: unknown, user?: SelectUser | false) => void) => {
     try {
+      // A request still running when its session was revoked saves the session again as it ends
+      if (await storage.isSessionRevoked(req.sessionID)) {
+        return done(null, false);
+      }
+
       const user = await storage.getUser(id);
-      done(null, user);
+      // Suspending a user ends the sessions they already have
+      done(null, user && !user.suspendedAt ? user : false);
     } catch (err) {
       done(err);
     }
   });
 
-  app.post("/api/register", upload.single('profilePicture'), async (req, res, next) => {
+  app.post("/api/register", rateLimit("auth"), upload.single('profilePicture'), async (req, res, next) => {
     try {
       console.log("Received registration request:", {
         body: req.body,
@@ -214,7 +287,10 @@ export function setupAuth(app: Express) {
             hourlyRate: providerData.hourlyRate,
             bio: providerData.bio || "",
             yearsOfExperience: providerData.yearsOfExperience || 0,
-            availability: providerData.availability || ""
+            // Weekly hours are set up later from the profile page
+            timezone: providerData.timezone && isValidTimeZone(providerData.timezone) ? providerData.timezone : undefined,
+            address: providerData.address || null,
+            ...coordinatesForPostalCode(providerData.postalCode)
           });
         } catch (err) {
           console.error("Failed to create service provider profile:", err);
@@ -247,18 +323,94 @@ export function setupAuth(app: Express) {
     }
   });
 
-  app.post("/api/login", (req, res, next) => {
+  app.post("/api/login", rateLimit("auth", emailInBody), async (req, res, next) => {
+    try {
+      // Locked out accounts don't get their password checked at all
+      const lockout = await getLoginLockout(req.ip, emailInBody(req));
+      if (lockout > 0) {
+        return next(new RateLimitExceededError(
+          lockout,
+          `Too many failed login attempts. Try again in ${formatRetryAfter(lockout)}.`
+        ));
+      }
+    } catch (err) {
+      return next(err);
+    }
+
     passport.authenticate("local", (err, user, info) => {
       if (err) return next(err);
       if (!user) {
         return res.status(401).json({ message: info?.message || "Invalid credentials" });
       }
-      
+
+      const remember = req.body.remember === true;
+      isTwoFactorEnabled(user.id).then(async (twoFactor) => {
+        if (twoFactor) {
+          return res.status(200).json(beginTwoFactorLogin(req, user.id, remember));
+        }
+
+        // Failures only clear once the whole login has succeeded, never on the password alone
+        await clearFailedLogins(user.email);
+        req.login(user, (err) => {
+          if (err) return next(err);
+          rememberLogin(req, remember);
+          return res.status(200).json(user);
+        });
+      }).catch(next);
+    })(req, res, next);
+  });
+
+  // Second login step for users with 2FA: a code from their authenticator app or a recovery code
+  app.post("/api/login/2fa", rateLimit("auth"), async (req, res, next) => {
+    try {
+      const pending = req.session.twoFactorPending;
+      if (!pending || pending.expiresAt <= Date.now()) {
+        delete req.session.twoFactorPending;
+        return res.status(401).json({ message: "Your login has expired. Log in again." });
+      }
+
+      const { code } = twoFactorCodeSchema.parse(req.body);
+      const user = await storage.getUser(pending.userId);
+      if (!user || user.suspendedAt) {
+        delete req.session.twoFactorPending;
+        return res.status(401).json({ message: "Invalid credentials" });
+      }
+
+      // Wrong codes count towards the same lockout as wrong passwords
+      const lockout = await getLoginLockout(req.ip, user.email);
+      if (lockout > 0) {
+        return next(new RateLimitExceededError(
+          lockout,
+          `Too many failed login attempts. Try again in ${formatRetryAfter(lockout)}.`
+        ));
+      }
+
+      if (!(await verifySecondFactor(user.id, code))) {
+        await recordFailedLogin(req.ip, user.email);
+        pending.attempts += 1;
+        if (pending.attempts >= TWO_FACTOR_MAX_ATTEMPTS) {
+          delete req.session.twoFactorPending;
+          return res.status(401).json({ message: "Too many incorrect codes. Log in again." });
+        }
+        return res.status(400).json({ message: "Invalid authentication code" });
+      }
+
+      delete req.session.twoFactorPending;
+      await clearFailedLogins(user.email);
       req.login(user, (err) => {
         if (err) return next(err);
+        rememberLogin(req, pending.remember);
         return res.status(200).json(user);
       });
-    })(req, res, next);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: err.errors 
+        });
+      }
+      next(err);
+    }
   });
 
   app.post("/api/logout", (req, res, next) => {
@@ -268,16 +420,13 @@ export function setupAuth(app: Express) {
     });
   });
 
-  app.get("/api/user", (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
+  app.get("/api/user", requireAuth, (req, res) => {
     res.json(req.user);
   });
   
-  app.get("/api/user/provider", async (req, res) => {
-    if (!req.isAuthenticated()) return res.sendStatus(401);
-    
+  app.get("/api/user/provider", requireAuth, async (req, res) => {
     try {
-      const provider = await storage.getServiceProviderByUserId(req.user.id);
+      const provider = await storage.getServiceProviderByUserId(req.user!.id);
       if (!provider) {
         return res.status(404).json({ message: "Provider profile not found" });
       }
@@ -290,7 +439,7 @@ export function setupAuth(app: Express) {
   });
 
   // Email verification endpoint
-  app.get("/api/verify-email", async (req, res) => {
+  app.get("/api/verify-email", rateLimit("auth"), async (req, res) => {
     const { token } = req.query;
     
     if (!token || typeof token !== "string") {
@@ -329,7 +478,7 @@ export function setupAuth(app: Express) {
   });
 
   // Resend verification email
-  app.post("/api/resend-verification", async (req, res) => {
+  app.post("/api/resend-verification", rateLimit("auth", emailInBody), async (req, res, next) => {
     const { email } = req.body;
     
     if (!email) {
@@ -337,6 +486,8 @@ export function setupAuth(app: Express) {
     }
     
     try {
+      await enforceRateLimit("email", { ip: req.ip, account: emailInBody(req) });
+
       const user = await storage.getUserByEmail(email);
       
       if (!user) {
@@ -361,6 +512,7 @@ export function setupAuth(app: Express) {
       
       res.json({ message: "Verification email sent successfully" });
     } catch (err) {
+      if (err instanceof RateLimitExceededError) return next(err);
       console.error("Error resending verification email:", err);
       res.status(500).json({ message: "Error sending verification email" });
     }
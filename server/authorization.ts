@@ -0,0 +1,93 @@
+import type { RequestHandler } from "express";
+import { taskStatuses, userRoles } from "@shared/schema";
+import type { ServiceProvider, ServiceRequest, Task, User, UserRole } from "@shared/schema";
+import { storage } from "./storage";
+
+// Route guards answer 401/403 before the handler runs. Policies are predicates a handler
+// checks once it has loaded the resource; provider ones take the user's provider profile.
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+  next();
+};
+
+export function requireRole(...roles: UserRole[]): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not authenticated" });
+    }
+    if (!roles.includes(req.user.role as UserRole)) {
+      return res.status(403).json({ message: "You don't have permission to do this" });
+    }
+    next();
+  };
+}
+
+// Provider-only pages go by the provider profile rather than the role, so admins who also
+// offer services keep them
+export const requireProviderProfile: RequestHandler = async (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not authenticated" });
+  }
+  try {
+    if (!(await getProviderProfile(req.user))) {
+      return res.status(403).json({ message: "Only service providers can do this" });
+    }
+    next();
+  } catch (err) {
+    next(err);
+  }
+};
+
+// The provider profile the provider policies need, for whoever is signed in
+export async function getProviderProfile(user: User | undefined): Promise<ServiceProvider | null> {
+  return user ? (await storage.getServiceProviderByUserId(user.id)) ?? null : null;
+}
+
+export function isAdmin(user: User | undefined): boolean {
+  return user?.role === userRoles.ADMIN;
+}
+
+// Open tasks are the public marketplace; after that only the people on the job see them
+export function canViewTask(user: User | undefined, task: Task, provider?: ServiceProvider | null): boolean {
+  return task.status === taskStatuses.OPEN || isAdmin(user) || canTakePartInTask(user, task, provider);
+}
+
+// The client who posted it and the provider who accepted it
+export function canTakePartInTask(user: User | undefined, task: Task, provider?: ServiceProvider | null): boolean {
+  if (!user) return false;
+  return task.clientId === user.id || (!!provider && task.acceptedById === provider.id);
+}
+
+// Providers who could take an open task in their category, or the one who took it
+export function canAskAboutTask(user: User | undefined, task: Task, provider?: ServiceProvider | null): boolean {
+  if (!user || !provider || task.clientId === user.id) return false;
+  if (task.status === taskStatuses.OPEN) return provider.categoryId === task.categoryId;
+  return canTakePartInTask(user, task, provider);
+}
+
+export function canEditTask(user: User | undefined, task: Task): boolean {
+  return !!user && task.clientId === user.id;
+}
+
+export function canEditProviderProfile(user: User | undefined, provider: ServiceProvider): boolean {
+  return !!user && provider.userId === user.id;
+}
+
+// Which side of the request the user is on, if either
+export function serviceRequestParty(
+  user: User | undefined,
+  request: ServiceRequest,
+  provider?: ServiceProvider | null
+): "client" | "provider" | null {
+  if (!user) return null;
+  if (request.clientId === user.id) return "client";
+  return provider && provider.id === request.providerId ? "provider" : null;
+}
+
+// Only whoever sent the request may edit it
+export function canEditServiceRequest(user: User | undefined, request: ServiceRequest, provider?: ServiceProvider | null): boolean {
+  return serviceRequestParty(user, request, provider) === request.initiatedBy;
+}
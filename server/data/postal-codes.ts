@@ -0,0 +1,94 @@
+// Approximate centroids for a starter set of US ZIP codes, used for offline geocoding.
+// Extend or replace with a full dataset (e.g. the GeoNames postal code dump) as coverage grows.
+// Columns: postal code, place, state, latitude, longitude
+export const postalCodeCentroids: [string, string, string, number, number][] = [
+  ["10001", "New York", "NY", 40.7506, -73.9972],
+  ["10002", "New York", "NY", 40.7157, -73.9863],
+  ["10011", "New York", "NY", 40.7418, -74.0002],
+  ["10025", "New York", "NY", 40.7986, -73.9667],
+  ["10301", "Staten Island", "NY", 40.6316, -74.0927],
+  ["11201", "Brooklyn", "NY", 40.6937, -73.9898],
+  ["11211", "Brooklyn", "NY", 40.7127, -73.9535],
+  ["11375", "Forest Hills", "NY", 40.7209, -73.8468],
+  ["10451", "Bronx", "NY", 40.8201, -73.9249],
+  ["07302", "Jersey City", "NJ", 40.7197, -74.0468],
+  ["07102", "Newark", "NJ", 40.7357, -74.1724],
+  ["02108", "Boston", "MA", 42.3576, -71.0642],
+  ["02139", "Cambridge", "MA", 42.3647, -71.1042],
+  ["02215", "Boston", "MA", 42.3471, -71.1027],
+  ["19103", "Philadelphia", "PA", 39.9528, -75.1744],
+  ["19104", "Philadelphia", "PA", 39.9597, -75.1968],
+  ["15213", "Pittsburgh", "PA", 40.4444, -79.9531],
+  ["20001", "Washington", "DC", 38.9109, -77.0163],
+  ["20009", "Washington", "DC", 38.9192, -77.0374],
+  ["21201", "Baltimore", "MD", 39.2946, -76.6252],
+  ["22201", "Arlington", "VA", 38.8867, -77.0947],
+  ["23220", "Richmond", "VA", 37.5499, -77.4606],
+  ["27601", "Raleigh", "NC", 35.7727, -78.6324],
+  ["28202", "Charlotte", "NC", 35.2285, -80.8440],
+  ["30303", "Atlanta", "GA", 33.7529, -84.3925],
+  ["30309", "Atlanta", "GA", 33.7984, -84.3883],
+  ["32801", "Orlando", "FL", 28.5420, -81.3790],
+  ["33101", "Miami", "FL", 25.7791, -80.1978],
+  ["33130", "Miami", "FL", 25.7680, -80.2044],
+  ["33602", "Tampa", "FL", 27.9512, -82.4586],
+  ["32202", "Jacksonville", "FL", 30.3256, -81.6509],
+  ["37203", "Nashville", "TN", 36.1506, -86.7893],
+  ["38103", "Memphis", "TN", 35.1470, -90.0524],
+  ["40202", "Louisville", "KY", 38.2527, -85.7519],
+  ["43215", "Columbus", "OH", 39.9653, -83.0044],
+  ["44113", "Cleveland", "OH", 41.4822, -81.6961],
+  ["45202", "Cincinnati", "OH", 39.1072, -84.5022],
+  ["46204", "Indianapolis", "IN", 39.7713, -86.1569],
+  ["48201", "Detroit", "MI", 42.3479, -83.0600],
+  ["48104", "Ann Arbor", "MI", 42.2643, -83.7176],
+  ["49503", "Grand Rapids", "MI", 42.9634, -85.6557],
+  ["53202", "Milwaukee", "WI", 43.0479, -87.8966],
+  ["53703", "Madison", "WI", 43.0778, -89.3833],
+  ["55401", "Minneapolis", "MN", 44.9848, -93.2704],
+  ["55102", "Saint Paul", "MN", 44.9354, -93.1218],
+  ["60601", "Chicago", "IL", 41.8858, -87.6181],
+  ["60614", "Chicago", "IL", 41.9227, -87.6533],
+  ["60657", "Chicago", "IL", 41.9400, -87.6532],
+  ["63101", "Saint Louis", "MO", 38.6317, -90.1928],
+  ["64105", "Kansas City", "MO", 39.1025, -94.5986],
+  ["68102", "Omaha", "NE", 41.2626, -95.9336],
+  ["70112", "New Orleans", "LA", 29.9568, -90.0772],
+  ["73102", "Oklahoma City", "OK", 35.4717, -97.5199],
+  ["75201", "Dallas", "TX", 32.7876, -96.7994],
+  ["75204", "Dallas", "TX", 32.8035, -96.7852],
+  ["76102", "Fort Worth", "TX", 32.7541, -97.3301],
+  ["77002", "Houston", "TX", 29.7567, -95.3652],
+  ["77006", "Houston", "TX", 29.7411, -95.3910],
+  ["78201", "San Antonio", "TX", 29.4685, -98.5254],
+  ["78701", "Austin", "TX", 30.2712, -97.7426],
+  ["78704", "Austin", "TX", 30.2428, -97.7658],
+  ["79901", "El Paso", "TX", 31.7587, -106.4869],
+  ["80202", "Denver", "CO", 39.7528, -104.9997],
+  ["80302", "Boulder", "CO", 40.0150, -105.2705],
+  ["84101", "Salt Lake City", "UT", 40.7566, -111.8967],
+  ["85004", "Phoenix", "AZ", 33.4516, -112.0686],
+  ["85701", "Tucson", "AZ", 32.2217, -110.9700],
+  ["87102", "Albuquerque", "NM", 35.0826, -106.6482],
+  ["89101", "Las Vegas", "NV", 36.1725, -115.1224],
+  ["90012", "Los Angeles", "CA", 34.0614, -118.2385],
+  ["90028", "Los Angeles", "CA", 34.0992, -118.3265],
+  ["90401", "Santa Monica", "CA", 34.0159, -118.4923],
+  ["91101", "Pasadena", "CA", 34.1469, -118.1395],
+  ["92101", "San Diego", "CA", 32.7194, -117.1628],
+  ["92614", "Irvine", "CA", 33.6814, -117.8332],
+  ["94102", "San Francisco", "CA", 37.7793, -122.4193],
+  ["94110", "San Francisco", "CA", 37.7500, -122.4153],
+  ["94607", "Oakland", "CA", 37.8044, -122.2866],
+  ["94704", "Berkeley", "CA", 37.8665, -122.2588],
+  ["95113", "San Jose", "CA", 37.3337, -121.8907],
+  ["95814", "Sacramento", "CA", 38.5804, -121.4922],
+  ["97204", "Portland", "OR", 45.5186, -122.6742],
+  ["97401", "Eugene", "OR", 44.0521, -123.0868],
+  ["98101", "Seattle", "WA", 47.6114, -122.3305],
+  ["98109", "Seattle", "WA", 47.6301, -122.3447],
+  ["98004", "Bellevue", "WA", 47.6185, -122.2040],
+  ["99201", "Spokane", "WA", 47.6588, -117.4260],
+  ["96813", "Honolulu", "HI", 21.3099, -157.8581],
+  ["99501", "Anchorage", "AK", 61.2181, -149.9003],
+];
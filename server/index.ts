@@ -8,6 +8,11 @@ import { fileURLToPath } from 'url';
 import helmet from 'helmet';
 import compression from 'compression';
 import { setupWebSocket } from './services/websocket';
+import { startPayoutScheduler } from './services/payouts';
+import { startHoldSettlement } from './services/escrow';
+import { startReviewPublisher } from './services/reviews';
+import { startRatingRecompute } from './services/ratings';
+import { startRateLimitPruner } from './services/rate-limit';
 import { createServer } from 'http';
 
 const __filename = fileURLToPath(import.meta.url);
@@ -24,9 +29,12 @@ app.use(helmet());
 // Compression
 app.use(compression());
 
-// Trust first proxy for secure cookies in production
-if (process.env.NODE_ENV === 'production') {
-  app.set('trust proxy', 1);
+// Proxies whose X-Forwarded-For is believed, as a hop count (TRUST_PROXY=1 behind one load
+// balancer) or comma-separated proxy addresses and subnets. Unset, nothing is trusted: rate
+// limits and login lockouts key on req.ip, which any client could forge through the header
+const trustProxy = process.env.TRUST_PROXY;
+if (trustProxy) {
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
 }
 
 // CORS configuration
@@ -49,6 +57,9 @@ app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 const uploadsDir = path.join(__dirname, '../uploads');
 app.use('/uploads', express.static(uploadsDir));
 
+// Responses carrying a new TOTP secret or recovery codes, which must never reach the logs
+const UNLOGGED_RESPONSE_PATHS = new Set(['/api/2fa/setup', '/api/2fa/enable']);
+
 // Request logging middleware
 app.use((req, res, next) => {
   const start = Date.now();
@@ -65,7 +76,7 @@ app.use((req, res, next) => {
     const duration = Date.now() - start;
     if (path.startsWith("/api")) {
       let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
+      if (capturedJsonResponse && !UNLOGGED_RESPONSE_PATHS.has(path)) {
         logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
       }
       console.log(logLine);
@@ -86,11 +97,29 @@ app.use((req, res, next) => {
   // Setup WebSocket server
   setupWebSocket(server);
 
+  // Pay weekly providers their earnings as payouts come due
+  startPayoutScheduler();
+
+  // Retry captures and voids the gateway didn't confirm when their job ended
+  startHoldSettlement();
+
+  // Reveal reviews whose double-blind window has closed
+  startReviewPublisher();
+
+  // Rebuild rating aggregates from the reviews, now and daily
+  startRatingRecompute();
+
+  // Drop rate limit counters whose windows have ended
+  startRateLimitPruner();
+
   // Error handling middleware
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     console.error('Error:', err);
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
+    if (err.retryAfterSeconds) {
+      res.set('Retry-After', String(err.retryAfterSeconds));
+    }
     res.status(status).json({ message });
   });
 
@@ -0,0 +1,21 @@
+import type { Request, RequestHandler } from "express";
+import { enforceRateLimit, type RateLimitGroup } from "./services/rate-limit";
+
+// Rate limit guards count the request against its IP and account and answer 429 with
+// Retry-After once either is over the group's policy (see rateLimitPolicies)
+
+// Signed-in requests count against the user
+function signedInUser(req: Request): string | undefined {
+  return req.user ? `user:${req.user.id}` : undefined;
+}
+
+// Auth requests name their account by email before anyone is signed in
+export function emailInBody(req: Request): string | undefined {
+  return typeof req.body?.email === "string" ? req.body.email.trim().toLowerCase() : undefined;
+}
+
+export function rateLimit(group: RateLimitGroup, account: (req: Request) => string | undefined = signedInUser): RequestHandler {
+  return (req, _res, next) => {
+    enforceRateLimit(group, { ip: req.ip, account: account(req) }).then(() => next(), next);
+  };
+}
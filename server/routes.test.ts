@@ -0,0 +1,414 @@
+import express, { type Express } from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { randomUUID } from "crypto";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { storage } from "./storage";
+import { registerRoutes } from "./routes";
+import { hashPassword } from "./services/passwords";
+import { performServiceRequestAction } from "./services/service-request-lifecycle";
+import { submitReview } from "./services/reviews";
+import { setupWebSocket, type WebSocketService } from "./services/websocket";
+import { quotePricingTypes, taskStatuses, userRoles, type User } from "@shared/schema";
+
+type Route = { method: string; path: string };
+
+// Routes anyone may call without signing in
+const PUBLIC_ROUTES = [
+  "GET /api/categories",
+  "GET /api/categories/:id",
+  "GET /api/providers",
+  "GET /api/providers/search",
+  "GET /api/providers/category/:categoryId",
+  "GET /api/providers/:id",
+  "GET /api/providers/:id/availability",
+  "GET /api/providers/:id/slots",
+  "GET /api/tasks",
+  "GET /api/tasks/search",
+  "GET /api/tasks/:id",
+  "GET /api/tasks/category/:categoryId",
+  "GET /api/search/providers",
+  "GET /api/search/tasks",
+  // Authorized by the secret token in the URL
+  "GET /api/calendar/:token.ics",
+  "POST /api/register",
+  "POST /api/login",
+  "POST /api/login/2fa",
+  "POST /api/login/magic-link",
+  "GET /api/verify-login",
+  "POST /api/logout",
+  "GET /api/verify-email",
+  "POST /api/resend-verification",
+  "POST /api/password-reset/request",
+  "POST /api/password-reset/confirm",
+];
+
+// Routes only someone with a provider profile may call, admins who offer services included
+const PROVIDER_ROUTES = [
+  "GET /api/earnings",
+  "GET /api/earnings/statement.csv",
+  "GET /api/payouts",
+  "POST /api/payouts",
+  "PUT /api/payouts/schedule",
+];
+
+// Open tasks are any provider's to take; one already taken is refused as a conflict
+const TAKEN_TASK_ROUTE = "POST /api/tasks/:taskId/accept";
+
+let app: Express;
+let server: Server;
+let webSockets: WebSocketService;
+let baseUrl: string;
+
+// Every route the app serves, including those on mounted routers
+function listRoutes(): Route[] {
+  type Layer = { route?: { path: string; methods: Record<string, boolean> }; name: string; handle: { stack?: Layer[] } };
+  const collect = (stack: Layer[]): Route[] =>
+    stack.flatMap((layer) => {
+      if (layer.route) {
+        const { path, methods } = layer.route;
+        return Object.keys(methods).map((method) => ({ method: method.toUpperCase(), path }));
+      }
+      return layer.name === "router" && layer.handle.stack ? collect(layer.handle.stack) : [];
+    });
+
+  return collect((app as unknown as { _router: { stack: Layer[] } })._router.stack);
+}
+
+const key = ({ method, path }: Route) => `${method} ${path}`;
+
+async function call(method: string, path: string, { cookie, body }: { cookie?: string; body?: unknown } = {}) {
+  const headers: Record<string, string> = { "content-type": "application/json" };
+  if (cookie) headers.cookie = cookie;
+  const sendsBody = body !== undefined && method !== "GET";
+  return fetch(`${baseUrl}${path}`, { method, headers, body: sendsBody ? JSON.stringify(body) : undefined });
+}
+
+async function createUser(isServiceProvider = false): Promise<User> {
+  const name = randomUUID().slice(0, 8);
+  const user = await storage.createUser({
+    username: name,
+    email: `${name}@example.com`,
+    password: await hashPassword("password123"),
+    firstName: "Test",
+    lastName: "User",
+    isServiceProvider,
+  } as Parameters<typeof storage.createUser>[0]);
+  return (await storage.updateUser(user.id, { emailVerified: true }))!;
+}
+
+async function signIn(user: User): Promise<string> {
+  const res = await call("POST", "/api/login", { body: { email: user.email, password: "password123" } });
+  expect(res.status).toBe(200);
+  return res.headers.get("set-cookie")!.split(";")[0];
+}
+
+async function createProvider(user: User, categoryId: number) {
+  return storage.createServiceProvider({
+    userId: user.id,
+    categoryId,
+    hourlyRate: 50,
+  } as Parameters<typeof storage.createServiceProvider>[0]);
+}
+
+// A quoted request from the client to the provider, still waiting for the client's answer
+async function quotedRequest(clientId: number, providerId: number) {
+  const request = await storage.createServiceRequest({
+    providerId,
+    clientId,
+    initiatedBy: "provider",
+  } as Parameters<typeof storage.createServiceRequest>[0]);
+  const quote = await storage.createQuote({ serviceRequestId: request.id, amount: 100, pricingType: quotePricingTypes.FIXED });
+  return { request, quote };
+}
+
+// The client's and provider's resources a stranger tries to reach
+let ids: Record<string, number | string>;
+let strangerCookies: string[];
+let clientStrangerCookie: string;
+let clientCookie: string;
+let categoryId: number;
+
+beforeAll(async () => {
+  app = express();
+  app.use(express.json());
+  server = await registerRoutes(app);
+  webSockets = setupWebSocket(server);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  // Invoices are emailed on completion; there's no mail server here
+  vi.spyOn(console, "error").mockImplementation(() => {});
+
+  const category = await storage.createServiceCategory({ name: `Category ${randomUUID()}` });
+  categoryId = category.id;
+  const client = await createUser();
+  const providerUser = await createUser(true);
+  const provider = await createProvider(providerUser, category.id);
+  const stranger = await createUser();
+  const strangerProviderUser = await createUser(true);
+  await createProvider(strangerProviderUser, category.id);
+
+  const task = await storage.createTask({
+    clientId: client.id,
+    categoryId: category.id,
+    title: "Fix the sink",
+    description: "It leaks",
+    location: "Springfield",
+  } as Parameters<typeof storage.createTask>[0]);
+  await storage.updateTask(task.id, { status: taskStatuses.ACCEPTED, acceptedById: provider.id });
+
+  const { request: completed } = await quotedRequest(client.id, provider.id);
+  await performServiceRequestAction(completed.id, "accept", client.id);
+  await performServiceRequestAction(completed.id, "start", providerUser.id);
+  await performServiceRequestAction(completed.id, "complete", client.id);
+  const review = await submitReview(client.id, { serviceRequestId: completed.id, rating: 4 });
+
+  const { request: pending, quote } = await quotedRequest(client.id, provider.id);
+  const booking = await storage.createBooking({
+    serviceRequestId: completed.id,
+    providerId: provider.id,
+    clientId: client.id,
+    startsAt: new Date(Date.now() + 24 * 60 * 60 * 1000),
+    endsAt: new Date(Date.now() + 25 * 60 * 60 * 1000),
+  } as Parameters<typeof storage.createBooking>[0]);
+  const conversation = await storage.createConversation({ clientId: client.id, providerId: provider.id });
+  const notification = await storage.createNotification({
+    userId: client.id,
+    type: "task_updated",
+    title: "Task updated",
+    message: "Your task was accepted",
+  } as Parameters<typeof storage.createNotification>[0]);
+  const exception = await storage.createAvailabilityException({
+    providerId: provider.id,
+    startsAt: new Date(Date.now() + 48 * 60 * 60 * 1000),
+    endsAt: new Date(Date.now() + 49 * 60 * 60 * 1000),
+  } as Parameters<typeof storage.createAvailabilityException>[0]);
+
+  clientCookie = await signIn(client);
+  const [session] = await (await call("GET", "/api/sessions", { cookie: clientCookie })).json();
+  const [invoice] = await (await call("GET", "/api/invoices", { cookie: clientCookie })).json();
+
+  ids = {
+    provider: provider.id,
+    task: task.id,
+    completed: completed.id,
+    pending: pending.id,
+    quote: quote.id,
+    booking: booking.id,
+    conversation: conversation.id,
+    notification: notification.id,
+    exception: exception.id,
+    review: review.id,
+    invoice: invoice.id,
+    session: session.id,
+    user: client.id,
+    category: category.id,
+  };
+  clientStrangerCookie = await signIn(stranger);
+  strangerCookies = [clientStrangerCookie, await signIn(strangerProviderUser)];
+});
+
+afterAll(async () => {
+  await webSockets.close();
+  await new Promise((resolve) => server.close(resolve));
+  vi.restoreAllMocks();
+});
+
+// Someone else's resource, as [route, path to call, body]; bodies are valid so validation can't answer first
+function foreignCalls(): Array<[string, string, unknown?]> {
+  const soon = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+  const time = { startsAt: soon(72), endsAt: soon(73) };
+
+  return [
+    ["PUT /api/providers/:id", `/api/providers/${ids.provider}`, { description: "Mine now" }],
+    ["PUT /api/providers/:id/availability", `/api/providers/${ids.provider}/availability`, { timezone: "UTC", slotMinutes: 60, rules: [] }],
+    ["POST /api/providers/:id/availability/exceptions", `/api/providers/${ids.provider}/availability/exceptions`, time],
+    ["DELETE /api/providers/:id/availability/exceptions/:exceptionId", `/api/providers/${ids.provider}/availability/exceptions/${ids.exception}`],
+    ["GET /api/tasks/:id", `/api/tasks/${ids.task}`],
+    ["PUT /api/tasks/:id", `/api/tasks/${ids.task}`, { title: "Mine now" }],
+    ["POST /api/tasks/:taskId/accept", `/api/tasks/${ids.task}/accept`],
+    ["POST /api/tasks/:taskId/status", `/api/tasks/${ids.task}/status`, { status: taskStatuses.CANCELLED }],
+    ["GET /api/tasks/:taskId/history", `/api/tasks/${ids.task}/history`],
+    ["GET /api/tasks/:taskId/quotes", `/api/tasks/${ids.task}/quotes`],
+    ["PUT /api/service-requests/:id", `/api/service-requests/${ids.pending}`, { message: "Mine now" }],
+    ["POST /api/service-requests/:id/:action", `/api/service-requests/${ids.pending}/cancel`],
+    ["POST /api/service-requests/:id/booking", `/api/service-requests/${ids.pending}/booking`, time],
+    ["POST /api/quotes/:id/accept", `/api/quotes/${ids.quote}/accept`],
+    ["PATCH /api/bookings/:id", `/api/bookings/${ids.booking}`, time],
+    ["POST /api/bookings/:id/cancel", `/api/bookings/${ids.booking}/cancel`],
+    ["GET /api/bookings/:id/ics", `/api/bookings/${ids.booking}/ics`],
+    ["GET /api/conversations/:id/messages", `/api/conversations/${ids.conversation}/messages`],
+    ["POST /api/conversations/:id/messages", `/api/conversations/${ids.conversation}/messages`, { content: "Hello" }],
+    ["POST /api/conversations/:id/read", `/api/conversations/${ids.conversation}/read`],
+    ["POST /api/notifications/:id/read", `/api/notifications/${ids.notification}/read`],
+    ["DELETE /api/notifications/:id", `/api/notifications/${ids.notification}`],
+    ["GET /api/invoices/:id/pdf", `/api/invoices/${ids.invoice}/pdf`],
+    ["POST /api/invoices/:id/credit-notes", `/api/invoices/${ids.invoice}/credit-notes`, { reason: "Overcharged" }],
+    ["POST /api/reviews", "/api/reviews", { serviceRequestId: ids.completed, rating: 1 }],
+    ["POST /api/reviews/:id/reply", `/api/reviews/${ids.review}/reply`, { reply: "Thanks" }],
+    ["POST /api/reviews/:id/reports", `/api/reviews/${ids.review}/reports`, { reason: "spam" }],
+    ["DELETE /api/sessions/:id", `/api/sessions/${ids.session}`],
+    ["GET /api/admin/users", "/api/admin/users"],
+    ["POST /api/admin/users/:id/suspend", `/api/admin/users/${ids.user}/suspend`, { reason: "Spam" }],
+    ["POST /api/admin/users/:id/unsuspend", `/api/admin/users/${ids.user}/unsuspend`],
+    ["GET /api/admin/providers", "/api/admin/providers"],
+    ["PUT /api/admin/providers/:id/verification", `/api/admin/providers/${ids.provider}/verification`, { verified: true }],
+    ["POST /api/admin/categories", "/api/admin/categories", { name: "Mine" }],
+    ["PATCH /api/admin/categories/:id", `/api/admin/categories/${ids.category}`, { name: "Mine" }],
+    ["DELETE /api/admin/categories/:id", `/api/admin/categories/${ids.category}`],
+    ["GET /api/admin/tasks", "/api/admin/tasks"],
+    ["GET /api/admin/service-requests", "/api/admin/service-requests"],
+    ["GET /api/moderation/reviews", "/api/moderation/reviews"],
+    ["POST /api/moderation/reviews/:id", `/api/moderation/reviews/${ids.review}`, { action: "hide" }],
+  ];
+}
+
+describe("route authorization", () => {
+  it("knows every public route it lists", () => {
+    const served = new Set(listRoutes().map(key));
+    expect([...PUBLIC_ROUTES, ...PROVIDER_ROUTES].filter((route) => !served.has(route))).toEqual([]);
+  });
+
+  it("turns away signed-out callers from every other route", async () => {
+    const open: string[] = [];
+    for (const route of listRoutes()) {
+      if (PUBLIC_ROUTES.includes(key(route))) continue;
+
+      const res = await call(route.method, route.path.replace(/:\w+/g, "1"), { body: {} });
+      if (res.status !== 401) open.push(`${key(route)} answered ${res.status}`);
+    }
+    expect(open).toEqual([]);
+  });
+
+  it("checks a stranger's access on every route that takes someone else's id", () => {
+    const checked = new Set(foreignCalls().map(([route]) => route));
+    const unchecked = listRoutes()
+      .filter((route) => !PUBLIC_ROUTES.includes(key(route)) && route.path.includes(":"))
+      .map(key)
+      .filter((route) => !checked.has(route));
+    expect(unchecked).toEqual([]);
+  });
+
+  it("keeps strangers away from other users' resources", async () => {
+    const allowed: string[] = [];
+    for (const cookie of strangerCookies) {
+      for (const [route, path, body] of foreignCalls()) {
+        const res = await call(route.split(" ")[0], path, { cookie, body });
+        const refused = res.status === 403 || res.status === 404 || (route === TAKEN_TASK_ROUTE && res.status === 409);
+        if (!refused) allowed.push(`${route} answered ${res.status}`);
+      }
+    }
+    expect(allowed).toEqual([]);
+  });
+
+  it("lets the owner read what strangers can't", async () => {
+    const ownReads = foreignCalls().filter(
+      ([route]) => route.startsWith("GET ") && !route.includes("/api/admin/") && !route.includes("/api/moderation/")
+    );
+    for (const [route, path] of ownReads) {
+      expect((await call("GET", path, { cookie: clientCookie })).status, route).toBe(200);
+    }
+  });
+
+  it("keeps clients off provider-only routes", async () => {
+    const allowed: string[] = [];
+    for (const route of PROVIDER_ROUTES) {
+      const [method, path] = route.split(" ");
+      const res = await call(method, path, { cookie: clientStrangerCookie, body: { schedule: "weekly" } });
+      if (res.status !== 403) allowed.push(`${route} answered ${res.status}`);
+    }
+    expect(allowed).toEqual([]);
+  });
+
+  it("lets an admin who offers services onto provider-only routes, and no other admin", async () => {
+    const admin = await storage.updateUser((await createUser()).id, { role: userRoles.ADMIN });
+    const adminCookie = await signIn(admin!);
+    const adminProvider = await storage.updateUser((await createUser()).id, { role: userRoles.ADMIN });
+    await createProvider(adminProvider!, categoryId);
+    const adminProviderCookie = await signIn(adminProvider!);
+
+    const wrong: string[] = [];
+    for (const route of PROVIDER_ROUTES) {
+      const [method, path] = route.split(" ");
+      const query = path.endsWith(".csv") ? "?from=2024-01-01&to=2024-01-31" : "";
+      const body = { schedule: "weekly" };
+      // Nothing to pay out yet, so POST /api/payouts is refused for the balance, not the caller
+      const res = await call(method, path + query, { cookie: adminProviderCookie, body });
+      if (res.status === 401 || res.status === 403) wrong.push(`${route} refused the admin with a profile`);
+      if ((await call(method, path + query, { cookie: adminCookie, body })).status !== 403) {
+        wrong.push(`${route} let in the admin without one`);
+      }
+    }
+    expect(wrong).toEqual([]);
+  });
+});
+
+describe("suspended providers", () => {
+  it("drops them from the marketplace and refuses requests to them", async () => {
+    const providerUser = await createUser(true);
+    const provider = await createProvider(providerUser, categoryId);
+    await storage.updateUser(providerUser.id, { suspendedAt: new Date(), suspensionReason: "Spam" });
+
+    const search = await (await call("GET", `/api/providers/search?categoryId=${categoryId}&limit=50`)).json();
+    expect(search.providers.map((listing: { id: number }) => listing.id)).not.toContain(provider.id);
+
+    const res = await call("POST", "/api/service-requests", { cookie: clientCookie, body: { providerId: provider.id, message: "Hi" } });
+    expect(res.status).toBe(404);
+  });
+});
+
+describe("task conversations", () => {
+  it("lets providers ask about open tasks in their category, and not about tasks someone else took", async () => {
+    const [, providerCookie] = strangerCookies;
+    const ask = (taskId: unknown) => call("POST", "/api/conversations", { cookie: providerCookie, body: { taskId } });
+    const openTask = (categoryId: number) => storage.createTask({
+      clientId: ids.user as number,
+      categoryId,
+      title: "Paint the fence",
+      description: "It's peeling",
+      location: "Springfield",
+    } as Parameters<typeof storage.createTask>[0]);
+    const otherCategory = await storage.createServiceCategory({ name: `Category ${randomUUID()}` });
+
+    expect((await ask((await openTask(categoryId)).id)).status).toBe(200);
+    expect((await ask((await openTask(otherCategory.id)).id)).status).toBe(403);
+    expect((await ask(ids.task)).status).toBe(403);
+    expect((await ask("abc")).status).toBe(400);
+  });
+});
+
+describe("task edits", () => {
+  it("only edits open tasks, and keeps the edits out when the status change with them fails", async () => {
+    const edit = (taskId: number, body: unknown) => call("PUT", `/api/tasks/${taskId}`, { cookie: clientCookie, body });
+    const task = await storage.createTask({
+      clientId: ids.user as number,
+      categoryId,
+      title: "Mow the lawn",
+      description: "Front and back",
+      location: "Springfield",
+    } as Parameters<typeof storage.createTask>[0]);
+
+    expect((await edit(ids.task as number, { title: "Something else" })).status).toBe(409);
+    expect((await storage.getTask(ids.task as number))!.title).toBe("Fix the sink");
+
+    expect((await edit(task.id, { title: "Mow the front lawn", status: taskStatuses.COMPLETED })).status).toBe(409);
+    expect((await storage.getTask(task.id))!.title).toBe("Mow the lawn");
+
+    const res = await edit(task.id, { title: "Mow the front lawn", status: taskStatuses.CANCELLED });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({ title: "Mow the front lawn", status: taskStatuses.CANCELLED });
+  });
+});
+
+describe("direct service requests", () => {
+  it("refuses a malformed provider id and answers slot errors with their own status", async () => {
+    const ask = (body: unknown) => call("POST", "/api/service-requests", { cookie: clientStrangerCookie, body });
+
+    expect((await ask({ providerId: "abc", message: "Hi" })).status).toBe(400);
+    expect((await ask({ providerId: 1.5, message: "Hi" })).status).toBe(400);
+    // The provider hasn't published any availability, so no time is a free slot
+    const start = new Date(Date.now() + 72 * 60 * 60 * 1000).toISOString();
+    expect((await ask({ providerId: ids.provider, message: "Hi", scheduledStart: start })).status).toBe(409);
+  });
+});
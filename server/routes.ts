@@ -1,13 +1,119 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, type ProviderSearchCursor } from "./storage";
 import { setupAuth } from "./auth";
 import { z } from "zod";
 import { 
   insertTaskSchema, 
   insertServiceRequestSchema,
-  insertReviewSchema
+  insertServiceProviderSchema,
+  quoteDetailsSchema,
+  taskStatuses,
+  serviceRequestStatuses,
+  userRoles,
+  providerSortOptions,
+  toProviderListing,
+  type ProviderSort,
+  type ProviderSearchPage,
+  type QuoteDetails,
+  type ServiceRequest,
+  type Task
 } from "@shared/schema";
+import taskRoutes from "./routes/tasks";
+import messageRoutes from "./routes/messages";
+import notificationRoutes from "./routes/notifications";
+import searchRoutes from "./routes/search";
+import quoteRoutes from "./routes/quotes";
+import availabilityRoutes from "./routes/availability";
+import bookingRoutes from "./routes/bookings";
+import paymentRoutes from "./routes/payments";
+import invoiceRoutes from "./routes/invoices";
+import earningsRoutes from "./routes/earnings";
+import reviewRoutes from "./routes/reviews";
+import adminRoutes from "./routes/admin";
+import passwordResetRoutes from "./routes/password-reset";
+import magicLinkRoutes from "./routes/magic-link";
+import twoFactorRoutes from "./routes/two-factor";
+import sessionRoutes from "./routes/sessions";
+import { coordinatesForPostalCode } from "./services/geocoding";
+import { notifyNewTask, broadcastTaskUpdated } from "./services/notification";
+import { canTransition, editOpenTask, isTaskStatus, TaskNotEditableError, TaskTransitionError } from "./services/task-lifecycle";
+import {
+  performServiceRequestAction,
+  announceServiceRequestChange,
+  changeTaskStatus,
+  getAvailableActions,
+  isServiceRequestAction,
+  ServiceRequestNotFoundError,
+  ServiceRequestPermissionError,
+  ServiceRequestTransitionError,
+  TaskManagedByRequestError,
+  QuoteExpiredError
+} from "./services/service-request-lifecycle";
+import { acceptOffer } from "./services/quotes";
+import { reserveSlot } from "./services/availability";
+import { PaymentDeclinedError } from "./services/payment-gateway";
+import { getClientReputation, getReviewState } from "./services/reviews";
+import { getRatingSummary } from "./services/ratings";
+import {
+  requireAuth,
+  getProviderProfile,
+  canViewTask,
+  canEditTask,
+  canEditProviderProfile,
+  canEditServiceRequest
+} from "./authorization";
+import { rateLimit } from "./rate-limiting";
+
+// Task fields the owning client may edit directly; status goes through the lifecycle
+const taskDetailsSchema = insertTaskSchema.omit({ clientId: true }).partial();
+
+// Service request fields editable after creation; status goes through the lifecycle
+const serviceRequestDetailsSchema = insertServiceRequestSchema.pick({ message: true });
+
+// Provider profile fields the owner may edit; the owning user never changes
+const providerDetailsSchema = insertServiceProviderSchema.omit({ userId: true }).partial();
+
+const providerSortValues = Object.values(providerSortOptions) as [ProviderSort, ...ProviderSort[]];
+
+const providerSearchSchema = z.object({
+  categoryId: z.coerce.number().int().positive().optional(),
+  minHourlyRate: z.coerce.number().min(0).optional(),
+  maxHourlyRate: z.coerce.number().min(0).optional(),
+  minRating: z.coerce.number().min(0).max(5).optional(),
+  minYearsOfExperience: z.coerce.number().int().min(0).optional(),
+  q: z.string().trim().min(1).max(100).optional(),
+  sort: z.enum(providerSortValues).default(providerSortOptions.RATING),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+const taskSearchSchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  categoryId: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+// Cursors are opaque to clients and only valid for the sort they were issued with
+const providerCursorSchema = z.object({
+  sort: z.enum(providerSortValues),
+  value: z.number(),
+  id: z.number().int(),
+});
+
+function encodeProviderCursor(sort: ProviderSort, cursor: ProviderSearchCursor) {
+  return Buffer.from(JSON.stringify({ sort, ...cursor })).toString("base64url");
+}
+
+function decodeProviderCursor(sort: ProviderSort, encoded: string): ProviderSearchCursor | null {
+  try {
+    const cursor = providerCursorSchema.parse(JSON.parse(Buffer.from(encoded, "base64url").toString()));
+    return cursor.sort === sort ? { value: cursor.value, id: cursor.id } : null;
+  } catch {
+    return null;
+  }
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
@@ -48,17 +154,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           
           if (!user || !category) return null;
           
-          return {
-            ...provider,
-            user: {
-              id: user.id,
-              firstName: user.firstName,
-              lastName: user.lastName,
-              profilePicture: user.profilePicture,
-              username: user.username
-            },
-            category
-          };
+          return toProviderListing(provider, user, category);
         })
       );
       
@@ -69,6 +165,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Filtered, sorted and cursor-paginated provider listing
+  app.get("/api/providers/search", async (req, res) => {
+    try {
+      const { q, sort, cursor, limit, ...filters } = providerSearchSchema.parse(req.query);
+      
+      const after = cursor === undefined ? undefined : decodeProviderCursor(sort, cursor);
+      if (after === null) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+      
+      const { providers, nextCursor } = await storage.searchServiceProviders({
+        ...filters,
+        text: q,
+        sort,
+        after,
+        limit
+      });
+      
+      const page: ProviderSearchPage = {
+        providers,
+        nextCursor: nextCursor ? encodeProviderCursor(sort, nextCursor) : null
+      };
+      res.json(page);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: err.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to search service providers" });
+    }
+  });
+  
   app.get("/api/providers/category/:categoryId", async (req, res) => {
     try {
       const categoryId = parseInt(req.params.categoryId);
@@ -82,17 +212,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           
           if (!user || !category) return null;
           
-          return {
-            ...provider,
-            user: {
-              id: user.id,
-              firstName: user.firstName,
-              lastName: user.lastName,
-              profilePicture: user.profilePicture,
-              username: user.username
-            },
-            category
-          };
+          return toProviderListing(provider, user, category);
         })
       );
       
@@ -112,8 +232,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Provider not found" });
       }
       
-      // Get reviews for this provider
-      const reviews = await storage.getReviewsByProvider(providerId);
+      // Get the published reviews clients left this provider
+      const reviews = await storage.getPublishedProviderReviews(providerId);
       
       // Enhance reviews with client info
       const reviewsWithClientInfo = await Promise.all(
@@ -132,7 +252,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       );
       
       res.json({
-        ...providerWithDetails,
+        ...toProviderListing(providerWithDetails, providerWithDetails.user, providerWithDetails.category),
+        ratingSummary: await getRatingSummary(providerId),
         reviews: reviewsWithClientInfo
       });
     } catch (err) {
@@ -140,19 +261,88 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Tasks routes
-  app.post("/api/tasks", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "You must be logged in to create a task" });
+  app.post("/api/providers", requireAuth, async (req, res) => {
+    try {
+      const existing = await storage.getServiceProviderByUserId(req.user!.id);
+      if (existing) {
+        return res.status(409).json({ message: "You already have a provider profile" });
+      }
+      
+      const providerData = insertServiceProviderSchema.parse({
+        ...req.body,
+        userId: req.user!.id
+      });
+      
+      const provider = await storage.createServiceProvider({
+        ...providerData,
+        ...coordinatesForPostalCode(providerData.postalCode)
+      });
+      
+      // Clients who start offering services become providers; admins keep their role
+      if (req.user!.role === userRoles.CLIENT) {
+        await storage.updateUser(req.user!.id, { role: userRoles.PROVIDER });
+      }
+      
+      res.status(201).json(provider);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: err.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to create provider profile" });
     }
-    
+  });
+  
+  app.put("/api/providers/:id", requireAuth, async (req, res) => {
+    try {
+      const providerId = parseInt(req.params.id);
+      const provider = await storage.getServiceProvider(providerId);
+      
+      if (!provider) {
+        return res.status(404).json({ message: "Provider not found" });
+      }
+      
+      if (!canEditProviderProfile(req.user, provider)) {
+        return res.status(403).json({ message: "You can only update your own provider profile" });
+      }
+      
+      const details = providerDetailsSchema.parse(req.body);
+      const coordinates = details.postalCode !== undefined
+        ? coordinatesForPostalCode(details.postalCode)
+        : {};
+      
+      const updatedProvider = await storage.updateServiceProvider(providerId, { ...details, ...coordinates });
+      res.json(updatedProvider);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: err.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to update provider profile" });
+    }
+  });
+
+  // Tasks routes
+  app.post("/api/tasks", requireAuth, rateLimit("taskCreation"), async (req, res) => {
     try {
       const taskData = insertTaskSchema.parse({
         ...req.body,
-        clientId: req.user.id
+        clientId: req.user!.id
+      });
+      
+      const task = await storage.createTask({
+        ...taskData,
+        ...coordinatesForPostalCode(taskData.postalCode)
       });
       
-      const task = await storage.createTask(taskData);
+      // Let providers in the task's category know about it
+      const providers = await storage.getServiceProvidersByCategory(task.categoryId);
+      await notifyNewTask(task, providers);
+      
       res.status(201).json(task);
     } catch (err) {
       if (err instanceof z.ZodError) {
@@ -165,9 +355,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get("/api/tasks", async (_req, res) => {
+  app.get("/api/tasks", async (req, res) => {
     try {
-      const tasks = await storage.getTasks();
+      const provider = await getProviderProfile(req.user);
+      const tasks = (await storage.getTasks()).filter((task) => canViewTask(req.user, task, provider));
       
       // Enhance tasks with client and category info
       const tasksWithDetails = await Promise.all(
@@ -183,7 +374,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
               id: client.id,
               firstName: client.firstName,
               lastName: client.lastName,
-              profilePicture: client.profilePicture
+              profilePicture: client.profilePicture,
+              reputation: await getClientReputation(client.id)
             },
             category
           };
@@ -197,13 +389,59 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get("/api/tasks/client", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "You must be logged in to view your tasks" });
+  // Full-text search over open tasks, best match first
+  app.get("/api/tasks/search", async (req, res) => {
+    try {
+      const { q, categoryId, limit, offset } = taskSearchSchema.parse(req.query);
+      
+      // Ask for one extra hit to learn whether another page exists
+      const hits = await storage.searchTasks({
+        text: q,
+        categoryId,
+        status: taskStatuses.OPEN,
+        limit: limit + 1,
+        offset
+      });
+      
+      const results = await Promise.all(
+        hits.slice(0, limit).map(async (hit) => {
+          const client = await storage.getUser(hit.clientId);
+          const category = await storage.getServiceCategory(hit.categoryId);
+          
+          if (!client || !category) return null;
+          
+          return {
+            ...hit,
+            client: {
+              id: client.id,
+              firstName: client.firstName,
+              lastName: client.lastName,
+              profilePicture: client.profilePicture,
+              reputation: await getClientReputation(client.id)
+            },
+            category
+          };
+        })
+      );
+      
+      res.json({
+        results: results.filter(t => t !== null),
+        hasMore: hits.length > limit
+      });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: err.errors 
+        });
+      }
+      res.status(500).json({ message: "Failed to search tasks" });
     }
-    
+  });
+  
+  app.get("/api/tasks/client", requireAuth, async (req, res) => {
     try {
-      const tasks = await storage.getTasksByClient(req.user.id);
+      const tasks = await storage.getTasksByClient(req.user!.id);
       
       // Enhance tasks with category info
       const tasksWithDetails = await Promise.all(
@@ -229,6 +467,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Task not found" });
       }
       
+      if (!canViewTask(req.user, task, await getProviderProfile(req.user))) {
+        return req.isAuthenticated()
+          ? res.status(403).json({ message: "You can only view open tasks and tasks you are part of" })
+          : res.status(401).json({ message: "Not authenticated" });
+      }
+      
       const client = await storage.getUser(task.clientId);
       const category = await storage.getServiceCategory(task.categoryId);
       
@@ -251,11 +495,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.put("/api/tasks/:id", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "You must be logged in to update a task" });
-    }
-    
+  app.put("/api/tasks/:id", requireAuth, async (req, res) => {
     try {
       const taskId = parseInt(req.params.id);
       const task = await storage.getTask(taskId);
@@ -264,37 +504,197 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Task not found" });
       }
       
-      if (task.clientId !== req.user.id) {
+      if (!canEditTask(req.user, task)) {
         return res.status(403).json({ message: "You can only update your own tasks" });
       }
       
-      const updatedTask = await storage.updateTask(taskId, req.body);
-      res.json(updatedTask);
+      const { status, ...details } = req.body;
+      const taskDetails = taskDetailsSchema.parse(details);
+      const editsDetails = Object.keys(taskDetails).length > 0;
+      const changesStatus = status !== undefined && status !== task.status;
+      
+      if (changesStatus) {
+        if (!isTaskStatus(status)) {
+          return res.status(400).json({ message: "Invalid task status" });
+        }
+        if (status === taskStatuses.OPEN || status === taskStatuses.ACCEPTED || status === taskStatuses.IN_PROGRESS) {
+          return res.status(403).json({ message: "Only the provider can accept, start or give up a task" });
+        }
+      }
+      if (!editsDetails && !changesStatus) {
+        return res.json(task);
+      }
+      
+      // Details can only change while the task is open; a status change sent with them commits
+      // in the same transaction, so an illegal transition leaves the details untouched too
+      const changed = editsDetails
+        ? await storage.transaction(async (tx): Promise<{ task: Task; request?: ServiceRequest }> => {
+            const coordinates = taskDetails.postalCode !== undefined
+              ? coordinatesForPostalCode(taskDetails.postalCode)
+              : {};
+            // Only open tasks take edits, and their status changes are plain transitions: check it up front
+            if (changesStatus && !canTransition(task.status, status)) {
+              throw new TaskTransitionError(task.status, status);
+            }
+            const edited = await editOpenTask(taskId, { ...taskDetails, ...coordinates }, tx);
+            return changesStatus ? changeTaskStatus(taskId, status, req.user!.id, tx) : { task: edited };
+          })
+        : await changeTaskStatus(taskId, status, req.user!.id);
+      
+      if (changed.request) {
+        await announceServiceRequestChange(changed.request);
+      } else if (changesStatus) {
+        await broadcastTaskUpdated(changed.task);
+      }
+      
+      res.json(changed.task);
     } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: err.errors 
+        });
+      }
+      if (
+        err instanceof TaskTransitionError ||
+        err instanceof TaskNotEditableError ||
+        err instanceof TaskManagedByRequestError ||
+        err instanceof ServiceRequestPermissionError ||
+        err instanceof ServiceRequestTransitionError ||
+        err instanceof PaymentDeclinedError
+      ) {
+        return res.status(err.status).json({ message: err.message });
+      }
       res.status(500).json({ message: "Failed to update task" });
     }
   });
+  
+  // Task lifecycle routes (accept, status transitions, history)
+  app.use(taskRoutes);
+
+  // Messaging between clients and providers
+  app.use(messageRoutes);
+
+  // Notification inbox and preferences
+  app.use(notificationRoutes);
+
+  // Location-based provider and task search
+  app.use(searchRoutes);
+
+  // Quote comparison and acceptance for task offers
+  app.use(quoteRoutes);
+
+  // Provider schedules and bookable slots
+  app.use(availabilityRoutes);
+
+  // Appointments for accepted requests and their calendar exports
+  app.use(bookingRoutes);
+
+  // Escrowed payments: balances and transaction history
+  app.use(paymentRoutes);
+
+  // Invoices and credit notes for completed jobs
+  app.use(invoiceRoutes);
+
+  // Provider earnings, statements and payouts
+  app.use(earningsRoutes);
+
+  // Double-blind reviews between clients and providers, replies, reports and moderation
+  app.use(reviewRoutes);
+
+  // Admin console: users, providers, categories and a view of all tasks and requests
+  app.use(adminRoutes);
+
+  // Forgotten passwords through emailed single-use reset links, and password changes
+  app.use(passwordResetRoutes);
+
+  // Passwordless login through emailed one-time links
+  app.use(magicLinkRoutes);
+
+  // Two-factor authentication: enrolling an authenticator app, recovery codes, turning it off
+  app.use(twoFactorRoutes);
+
+  // The user's signed-in sessions: listing them and signing them out
+  app.use(sessionRoutes);
 
   // Service Requests routes
-  app.post("/api/service-requests", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "You must be logged in to create a service request" });
-    }
-    
+  app.post("/api/service-requests", requireAuth, rateLimit("serviceRequests"), async (req, res, next) => {
     try {
-      // Get the service provider to ensure it exists
-      const provider = await storage.getServiceProvider(req.body.providerId);
-      if (!provider) {
-        return res.status(404).json({ message: "Service provider not found" });
+      let requestData;
+      let quoteData: QuoteDetails | undefined;
+      let slotStart: Date | undefined;
+      
+      if (req.body.taskId) {
+        // A provider offering to do a client's task
+        const provider = await storage.getServiceProviderByUserId(req.user!.id);
+        if (!provider) {
+          return res.status(403).json({ message: "Only service providers can make offers on tasks" });
+        }
+        
+        const task = await storage.getTask(Number(req.body.taskId));
+        if (!task) {
+          return res.status(404).json({ message: "Task not found" });
+        }
+        
+        if (task.clientId === req.user!.id) {
+          return res.status(403).json({ message: "You cannot make an offer on your own task" });
+        }
+        
+        if (task.status !== taskStatuses.OPEN) {
+          return res.status(409).json({ message: "This task is no longer open for offers" });
+        }
+        
+        requestData = insertServiceRequestSchema.parse({
+          taskId: task.id,
+          message: req.body.message,
+          providerId: provider.id,
+          clientId: task.clientId,
+          initiatedBy: "provider"
+        });
+        
+        // Offers on tasks carry a quote so the client can compare them
+        quoteData = quoteDetailsSchema.parse(req.body.quote);
+      } else {
+        // A client asking a provider directly
+        const provider = await storage.getServiceProvider(z.coerce.number().int().positive().parse(req.body.providerId));
+        // Suspended providers are off the marketplace, so they can't be asked either
+        const providerUser = provider ? await storage.getUser(provider.userId) : undefined;
+        if (!provider || !providerUser || providerUser.suspendedAt) {
+          return res.status(404).json({ message: "Service provider not found" });
+        }
+        
+        if (provider.userId === req.user!.id) {
+          return res.status(403).json({ message: "You cannot request your own services" });
+        }
+        
+        requestData = insertServiceRequestSchema.parse({
+          message: req.body.message,
+          providerId: provider.id,
+          clientId: req.user!.id,
+          initiatedBy: "client"
+        });
+        
+        // Clients may pick one of the provider's free slots
+        if (req.body.scheduledStart) {
+          slotStart = z.coerce.date().parse(req.body.scheduledStart);
+        }
       }
       
-      const requestData = insertServiceRequestSchema.parse({
-        ...req.body,
-        clientId: req.user.id
+      const { serviceRequest, quote } = await storage.transaction(async (tx) => {
+        // Checked again under the provider lock so two clients cannot book the same slot
+        const slot = slotStart ? await reserveSlot(requestData.providerId, slotStart, tx) : null;
+        const serviceRequest = await tx.createServiceRequest({
+          ...requestData,
+          scheduledStart: slot?.start ?? null,
+          scheduledEnd: slot?.end ?? null
+        });
+        const quote = quoteData
+          ? await tx.createQuote({ ...quoteData, serviceRequestId: serviceRequest.id })
+          : null;
+        return { serviceRequest, quote };
       });
       
-      const serviceRequest = await storage.createServiceRequest(requestData);
-      res.status(201).json(serviceRequest);
+      res.status(201).json({ ...serviceRequest, quote });
     } catch (err) {
       if (err instanceof z.ZodError) {
         return res.status(400).json({ 
@@ -302,17 +702,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
           errors: err.errors 
         });
       }
-      res.status(500).json({ message: "Failed to create service request" });
+      // Slot and provider errors carry their own status
+      next(err);
     }
   });
   
-  app.get("/api/service-requests/client", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "You must be logged in to view your requests" });
-    }
-    
+  app.get("/api/service-requests/client", requireAuth, async (req, res) => {
     try {
-      const requests = await storage.getServiceRequestsByClient(req.user.id);
+      const requests = await storage.getServiceRequestsByClient(req.user!.id);
       
       // Enhance requests with provider info
       const requestsWithDetails = await Promise.all(
@@ -323,7 +720,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
           
           return {
             ...request,
-            provider: providerWithDetails
+            provider: toProviderListing(providerWithDetails, providerWithDetails.user, providerWithDetails.category),
+            quote: (await storage.getQuoteByServiceRequest(request.id)) ?? null,
+            booking: (await storage.getBookingByServiceRequest(request.id)) ?? null,
+            invoices: await storage.getInvoicesByServiceRequest(request.id),
+            review: await getReviewState(request, "client"),
+            availableActions: getAvailableActions(request, "client")
           };
         })
       );
@@ -335,14 +737,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get("/api/service-requests/provider", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "You must be logged in to view requests" });
-    }
-    
+  app.get("/api/service-requests/provider", requireAuth, async (req, res) => {
     try {
       // Get the provider profile for the current user
-      const provider = await storage.getServiceProviderByUserId(req.user.id);
+      const provider = await storage.getServiceProviderByUserId(req.user!.id);
       
       if (!provider) {
         return res.status(404).json({ message: "Service provider profile not found" });
@@ -357,14 +755,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
           
           if (!client) return null;
           
+          const task = request.taskId ? await storage.getTask(request.taskId) : undefined;
+          
           return {
             ...request,
             client: {
               id: client.id,
               firstName: client.firstName,
               lastName: client.lastName,
-              profilePicture: client.profilePicture
-            }
+              profilePicture: client.profilePicture,
+              reputation: await getClientReputation(client.id)
+            },
+            task,
+            quote: (await storage.getQuoteByServiceRequest(request.id)) ?? null,
+            booking: (await storage.getBookingByServiceRequest(request.id)) ?? null,
+            invoices: await storage.getInvoicesByServiceRequest(request.id),
+            review: await getReviewState(request, "provider"),
+            availableActions: getAvailableActions(request, "provider")
           };
         })
       );
@@ -376,11 +783,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.put("/api/service-requests/:id", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "You must be logged in to update a request" });
-    }
-    
+  app.put("/api/service-requests/:id", requireAuth, async (req, res) => {
     try {
       const requestId = parseInt(req.params.id);
       const request = await storage.getServiceRequest(requestId);
@@ -389,60 +792,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Service request not found" });
       }
       
-      // Get the provider profile for the current user
-      const provider = await storage.getServiceProviderByUserId(req.user.id);
-      
-      // Check if user is either the client or the provider
-      if (request.clientId !== req.user.id && (!provider || provider.id !== request.providerId)) {
+      // Only whoever sent the request may edit its message, and only while it is pending
+      if (!canEditServiceRequest(req.user, request, await getProviderProfile(req.user))) {
         return res.status(403).json({ message: "You can only update your own requests" });
       }
       
-      const updatedRequest = await storage.updateServiceRequest(requestId, req.body);
+      if (request.status !== serviceRequestStatuses.PENDING) {
+        return res.status(409).json({ message: "Only pending requests can be edited" });
+      }
+      
+      const { message } = serviceRequestDetailsSchema.parse(req.body);
+      const updatedRequest = await storage.updateServiceRequest(requestId, { message });
       res.json(updatedRequest);
     } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ 
+          message: "Validation error", 
+          errors: err.errors 
+        });
+      }
       res.status(500).json({ message: "Failed to update service request" });
     }
   });
-
-  // Reviews routes
-  app.post("/api/reviews", async (req, res) => {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "You must be logged in to create a review" });
+  
+  // Service request lifecycle actions (accept, decline, start, complete, cancel, withdraw)
+  app.post("/api/service-requests/:id/:action", requireAuth, rateLimit("serviceRequests"), async (req, res) => {
+    const { action } = req.params;
+    if (!isServiceRequestAction(action)) {
+      return res.status(404).json({ message: "Unknown service request action" });
     }
     
     try {
-      // Verify the service request exists and belongs to this user
-      const request = await storage.getServiceRequest(req.body.serviceRequestId);
-      
-      if (!request) {
-        return res.status(404).json({ message: "Service request not found" });
-      }
-      
-      if (request.clientId !== req.user.id) {
-        return res.status(403).json({ message: "You can only review your own service requests" });
-      }
-      
-      // Only allow reviews for completed requests
-      if (request.status !== "completed") {
-        return res.status(400).json({ message: "You can only review completed service requests" });
-      }
-      
-      const reviewData = insertReviewSchema.parse({
-        ...req.body,
-        clientId: req.user.id,
-        providerId: request.providerId
-      });
-      
-      const review = await storage.createReview(reviewData);
-      res.status(201).json(review);
+      const requestId = parseInt(req.params.id);
+      // Accepting goes through acceptOffer so competing bidders hear the outcome
+      const updatedRequest = action === "accept"
+        ? await acceptOffer(requestId, req.user!.id)
+        : await performServiceRequestAction(requestId, action, req.user!.id);
+
+      await announceServiceRequestChange(updatedRequest);
+      res.json(updatedRequest);
     } catch (err) {
-      if (err instanceof z.ZodError) {
-        return res.status(400).json({ 
-          message: "Validation error", 
-          errors: err.errors 
-        });
+      if (
+        err instanceof ServiceRequestNotFoundError ||
+        err instanceof ServiceRequestPermissionError ||
+        err instanceof ServiceRequestTransitionError ||
+        err instanceof QuoteExpiredError ||
+        err instanceof TaskTransitionError ||
+        err instanceof PaymentDeclinedError
+      ) {
+        return res.status(err.status).json({ message: err.message });
       }
-      res.status(500).json({ message: "Failed to create review" });
+      res.status(500).json({ message: "Failed to update service request" });
     }
   });
 
@@ -0,0 +1,166 @@
+import { Router } from "express";
+import { z } from "zod";
+import {
+  insertServiceCategorySchema,
+  providerVerificationRequestSchema,
+  userRoles,
+  userSuspensionRequestSchema
+} from "@shared/schema";
+import {
+  createCategory,
+  deleteCategory,
+  listProviders,
+  listServiceRequests,
+  listTasks,
+  listUsers,
+  setProviderVerified,
+  suspendUser,
+  unsuspendUser,
+  updateCategory
+} from "../services/admin";
+import { requireRole } from "../authorization";
+
+const router = Router();
+
+// Every admin route needs a signed-in admin
+router.use("/api/admin", requireRole(userRoles.ADMIN));
+
+// All users, newest first
+router.get("/api/admin/users", async (_req, res, next) => {
+  try {
+    res.json(await listUsers());
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.post("/api/admin/users/:id/suspend", async (req, res, next) => {
+  try {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+
+    const { reason } = userSuspensionRequestSchema.parse(req.body);
+    res.json(await suspendUser(req.user!.id, userId, reason));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+router.post("/api/admin/users/:id/unsuspend", async (req, res, next) => {
+  try {
+    const userId = parseInt(req.params.id);
+    if (isNaN(userId)) {
+      return res.status(400).json({ message: "Invalid user ID" });
+    }
+
+    res.json(await unsuspendUser(userId));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// All provider profiles with their user and category
+router.get("/api/admin/providers", async (_req, res, next) => {
+  try {
+    res.json(await listProviders());
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Mark a provider as verified, or take it back
+router.put("/api/admin/providers/:id/verification", async (req, res, next) => {
+  try {
+    const providerId = parseInt(req.params.id);
+    if (isNaN(providerId)) {
+      return res.status(400).json({ message: "Invalid provider ID" });
+    }
+
+    const { verified } = providerVerificationRequestSchema.parse(req.body);
+    res.json(await setProviderVerified(providerId, verified));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+// Categories are listed publicly at /api/categories; these change them
+router.post("/api/admin/categories", async (req, res, next) => {
+  try {
+    const category = await createCategory(insertServiceCategorySchema.parse(req.body));
+    res.status(201).json(category);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+router.patch("/api/admin/categories/:id", async (req, res, next) => {
+  try {
+    const categoryId = parseInt(req.params.id);
+    if (isNaN(categoryId)) {
+      return res.status(400).json({ message: "Invalid category ID" });
+    }
+
+    res.json(await updateCategory(categoryId, insertServiceCategorySchema.partial().parse(req.body)));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+router.delete("/api/admin/categories/:id", async (req, res, next) => {
+  try {
+    const categoryId = parseInt(req.params.id);
+    if (isNaN(categoryId)) {
+      return res.status(400).json({ message: "Invalid category ID" });
+    }
+
+    await deleteCategory(categoryId);
+    res.sendStatus(204);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Every task and service request, newest first, for support and oversight
+router.get("/api/admin/tasks", async (_req, res, next) => {
+  try {
+    res.json(await listTasks());
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.get("/api/admin/service-requests", async (_req, res, next) => {
+  try {
+    res.json(await listServiceRequests());
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
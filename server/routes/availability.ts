@@ -0,0 +1,124 @@
+import { Router } from "express";
+import { z } from "zod";
+import { availabilityScheduleSchema, insertAvailabilityExceptionSchema } from "@shared/schema";
+import {
+  getAvailableSlots,
+  getProviderAvailability,
+  updateAvailabilitySchedule,
+  addAvailabilityException,
+  removeAvailabilityException,
+  MAX_SLOT_RANGE_DAYS
+} from "../services/availability";
+import { requireAuth } from "../authorization";
+
+const router = Router();
+
+const slotRangeSchema = z.object({
+  from: z.coerce.date(),
+  to: z.coerce.date(),
+}).refine((range) => range.to > range.from, {
+  message: "'to' must be after 'from'",
+  path: ["to"]
+}).refine((range) => range.to.getTime() - range.from.getTime() <= MAX_SLOT_RANGE_DAYS * 24 * 60 * 60 * 1000, {
+  message: `Slots can be listed for at most ${MAX_SLOT_RANGE_DAYS} days at a time`,
+  path: ["to"]
+});
+
+function parseId(value: string) {
+  const id = parseInt(value);
+  return isNaN(id) ? null : id;
+}
+
+// A provider's weekly schedule and upcoming blocks; public so clients can see when they work
+router.get("/api/providers/:id/availability", async (req, res, next) => {
+  try {
+    const providerId = parseId(req.params.id);
+    if (providerId === null) {
+      return res.status(400).json({ message: "Invalid provider ID" });
+    }
+
+    res.json(await getProviderAvailability(providerId));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Replace the weekly schedule
+router.put("/api/providers/:id/availability", requireAuth, async (req, res, next) => {
+  try {
+    const providerId = parseId(req.params.id);
+    if (providerId === null) {
+      return res.status(400).json({ message: "Invalid provider ID" });
+    }
+
+    const schedule = availabilityScheduleSchema.parse(req.body);
+    res.json(await updateAvailabilitySchedule(providerId, req.user!.id, schedule));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+// Block out time, e.g. a vacation
+router.post("/api/providers/:id/availability/exceptions", requireAuth, async (req, res, next) => {
+  try {
+    const providerId = parseId(req.params.id);
+    if (providerId === null) {
+      return res.status(400).json({ message: "Invalid provider ID" });
+    }
+
+    const exception = insertAvailabilityExceptionSchema.parse({ ...req.body, providerId });
+    res.status(201).json(await addAvailabilityException(providerId, req.user!.id, exception));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+router.delete("/api/providers/:id/availability/exceptions/:exceptionId", requireAuth, async (req, res, next) => {
+  try {
+    const providerId = parseId(req.params.id);
+    const exceptionId = parseId(req.params.exceptionId);
+    if (providerId === null || exceptionId === null) {
+      return res.status(400).json({ message: "Invalid ID" });
+    }
+
+    await removeAvailabilityException(providerId, exceptionId, req.user!.id);
+    res.status(204).end();
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Free slots between two instants, minus blocks and slots already taken
+router.get("/api/providers/:id/slots", async (req, res, next) => {
+  try {
+    const providerId = parseId(req.params.id);
+    if (providerId === null) {
+      return res.status(400).json({ message: "Invalid provider ID" });
+    }
+
+    const range = slotRangeSchema.parse(req.query);
+    res.json(await getAvailableSlots(providerId, range));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,141 @@
+import { Router, type Response } from "express";
+import { z } from "zod";
+import { bookingTimeSchema, type Booking } from "@shared/schema";
+import { storage } from "../storage";
+import {
+  scheduleBooking,
+  rescheduleBooking,
+  cancelBooking,
+  getBookingCalendar,
+  getCalendarFeed,
+  getCalendarFeedToken
+} from "../services/bookings";
+import { broadcastServiceRequestUpdated } from "../services/notification";
+import { requireAuth } from "../authorization";
+
+const router = Router();
+
+function sendCalendar(res: Response, body: string, filename: string) {
+  res.set({
+    "Content-Type": "text/calendar; charset=utf-8",
+    "Content-Disposition": `attachment; filename="${filename}"`,
+    "Cache-Control": "no-store"
+  });
+  res.send(body);
+}
+
+function feedUrl(token: string) {
+  return `${process.env.APP_URL || "http://localhost:3000"}/api/calendar/${token}.ics`;
+}
+
+// Both parties' request lists show the booking, so refresh them
+async function broadcastBookingChange(booking: Booking) {
+  const request = await storage.getServiceRequest(booking.serviceRequestId);
+  if (request) await broadcastServiceRequestUpdated(request);
+}
+
+// Book a time for an accepted request that has none
+router.post("/api/service-requests/:id/booking", requireAuth, async (req, res, next) => {
+  try {
+    const requestId = parseInt(req.params.id);
+    if (isNaN(requestId)) {
+      return res.status(400).json({ message: "Invalid service request ID" });
+    }
+
+    const booking = await scheduleBooking(requestId, req.user!.id, bookingTimeSchema.parse(req.body));
+    await broadcastBookingChange(booking);
+    res.status(201).json(booking);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+router.patch("/api/bookings/:id", requireAuth, async (req, res, next) => {
+  try {
+    const bookingId = parseInt(req.params.id);
+    if (isNaN(bookingId)) {
+      return res.status(400).json({ message: "Invalid booking ID" });
+    }
+
+    const booking = await rescheduleBooking(bookingId, req.user!.id, bookingTimeSchema.parse(req.body));
+    await broadcastBookingChange(booking);
+    res.json(booking);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+router.post("/api/bookings/:id/cancel", requireAuth, async (req, res, next) => {
+  try {
+    const bookingId = parseInt(req.params.id);
+    if (isNaN(bookingId)) {
+      return res.status(400).json({ message: "Invalid booking ID" });
+    }
+
+    const booking = await cancelBooking(bookingId, req.user!.id);
+    await broadcastBookingChange(booking);
+    res.json(booking);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// A single booking as an .ics download
+router.get("/api/bookings/:id/ics", requireAuth, async (req, res, next) => {
+  try {
+    const bookingId = parseInt(req.params.id);
+    if (isNaN(bookingId)) {
+      return res.status(400).json({ message: "Invalid booking ID" });
+    }
+
+    sendCalendar(res, await getBookingCalendar(bookingId, req.user!.id), `booking-${bookingId}.ics`);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// The signed-in user's feed URL
+router.get("/api/calendar/feed", requireAuth, async (req, res, next) => {
+  try {
+    res.json({ url: feedUrl(await getCalendarFeedToken(req.user!.id)) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Issue a new feed URL; calendars subscribed to the old one stop updating
+router.post("/api/calendar/feed/reset", requireAuth, async (req, res, next) => {
+  try {
+    res.json({ url: feedUrl(await getCalendarFeedToken(req.user!.id, true)) });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Subscribed to by calendar apps, which cannot log in; the token in the URL is the credential
+router.get("/api/calendar/:token.ics", async (req, res, next) => {
+  try {
+    const calendar = await getCalendarFeed(req.params.token);
+    if (calendar === null) {
+      return res.status(404).json({ message: "Calendar not found" });
+    }
+
+    sendCalendar(res, calendar, "find-my-helper.ics");
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
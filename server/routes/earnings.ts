@@ -0,0 +1,100 @@
+import { Router } from "express";
+import { z } from "zod";
+import { payoutScheduleSchema } from "@shared/schema";
+import { getEarnings, getEarningsStatement, MAX_STATEMENT_DAYS } from "../services/earnings";
+import { getPayoutOverview, requestPayout, updatePayoutSchedule } from "../services/payouts";
+import { requireProviderProfile } from "../authorization";
+
+const router = Router();
+
+const earningsQuerySchema = z.object({
+  period: z.enum(["week", "month"]).default("week"),
+});
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use a YYYY-MM-DD date").refine((value) => !isNaN(Date.parse(value)), {
+  message: "Invalid date"
+});
+
+const statementQuerySchema = z.object({
+  from: isoDate,
+  to: isoDate,
+}).refine((range) => range.to >= range.from, {
+  message: "'to' must not be before 'from'",
+  path: ["to"]
+}).refine((range) => Date.parse(range.to) - Date.parse(range.from) < MAX_STATEMENT_DAYS * 24 * 60 * 60 * 1000, {
+  message: `A statement can cover at most ${MAX_STATEMENT_DAYS} days`,
+  path: ["to"]
+});
+
+// Gross, fees and net per week or month, for the provider dashboard chart
+router.get("/api/earnings", requireProviderProfile, async (req, res, next) => {
+  try {
+    const { period } = earningsQuerySchema.parse(req.query);
+    res.json(await getEarnings(req.user!.id, period));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+// Earnings statement as a CSV download; dates are in the provider's timezone
+router.get("/api/earnings/statement.csv", requireProviderProfile, async (req, res, next) => {
+  try {
+    const { from, to } = statementQuerySchema.parse(req.query);
+    const csv = await getEarningsStatement(req.user!.id, from, to);
+    res.set({
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="earnings-${from}-to-${to}.csv"`,
+      "Cache-Control": "no-store"
+    });
+    res.send(csv);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+// Available balance, payout schedule and past payouts
+router.get("/api/payouts", requireProviderProfile, async (req, res, next) => {
+  try {
+    res.json(await getPayoutOverview(req.user!.id));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Pay the available balance out now
+router.post("/api/payouts", requireProviderProfile, async (req, res, next) => {
+  try {
+    res.status(201).json(await requestPayout(req.user!.id));
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.put("/api/payouts/schedule", requireProviderProfile, async (req, res, next) => {
+  try {
+    const { schedule } = payoutScheduleSchema.parse(req.body);
+    res.json(await updatePayoutSchedule(req.user!.id, schedule));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+export default router;
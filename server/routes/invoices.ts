@@ -0,0 +1,67 @@
+import { Router } from "express";
+import { z } from "zod";
+import { creditNoteRequestSchema } from "@shared/schema";
+import { getInvoices, getInvoicePdf, createCreditNote, deliverInvoice } from "../services/invoices";
+import { storage } from "../storage";
+import { broadcastServiceRequestUpdated } from "../services/notification";
+import { requireAuth } from "../authorization";
+
+const router = Router();
+
+// Invoices and credit notes the user issued or received, newest first
+router.get("/api/invoices", requireAuth, async (req, res, next) => {
+  try {
+    res.json(await getInvoices(req.user!.id));
+  } catch (err) {
+    next(err);
+  }
+});
+
+router.get("/api/invoices/:id/pdf", requireAuth, async (req, res, next) => {
+  try {
+    const invoiceId = parseInt(req.params.id);
+    if (isNaN(invoiceId)) {
+      return res.status(400).json({ message: "Invalid invoice ID" });
+    }
+
+    const { invoice, pdf } = await getInvoicePdf(invoiceId, req.user!.id);
+    res.set({
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${invoice.number}.pdf"`,
+      "Cache-Control": "no-store"
+    });
+    res.send(pdf);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Correct an issued invoice; the invoice itself never changes
+router.post("/api/invoices/:id/credit-notes", requireAuth, async (req, res, next) => {
+  try {
+    const invoiceId = parseInt(req.params.id);
+    if (isNaN(invoiceId)) {
+      return res.status(400).json({ message: "Invalid invoice ID" });
+    }
+
+    const creditNote = await createCreditNote(invoiceId, req.user!.id, creditNoteRequestSchema.parse(req.body));
+
+    const request = await storage.getServiceRequest(creditNote.serviceRequestId);
+    if (request) await broadcastServiceRequestUpdated(request);
+    deliverInvoice(creditNote).catch((error) =>
+      console.error(`Failed to email credit note ${creditNote.number}:`, error)
+    );
+
+    res.status(201).json(creditNote);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+export default router;
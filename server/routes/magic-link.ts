@@ -0,0 +1,50 @@
+import { Router } from "express";
+import { z } from "zod";
+import { magicLinkRequestSchema } from "@shared/schema";
+import { redeemLoginLink, requestLoginLink } from "../services/magic-link";
+import { isTwoFactorEnabled } from "../services/two-factor";
+import { beginTwoFactorLogin } from "../auth";
+import { emailInBody, rateLimit } from "../rate-limiting";
+
+const router = Router();
+
+// Email a passwordless login link. The answer is the same whether or not the address has an account
+router.post("/api/login/magic-link", rateLimit("auth", emailInBody), async (req, res, next) => {
+  try {
+    const { email } = magicLinkRequestSchema.parse(req.body);
+    await requestLoginLink(email, req.ip);
+    res.json({ message: "If an account exists for that email, we've sent a link to log in." });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+// Follow an emailed login link; signs the user in and returns them, or asks for their 2FA code
+router.get("/api/verify-login", rateLimit("auth"), async (req, res, next) => {
+  const { token } = req.query;
+  if (!token || typeof token !== "string") {
+    return res.status(400).json({ message: "Invalid login link" });
+  }
+
+  try {
+    const user = await redeemLoginLink(token);
+    if (await isTwoFactorEnabled(user.id)) {
+      return res.json(beginTwoFactorLogin(req, user.id));
+    }
+
+    req.login(user, (err) => {
+      if (err) return next(err);
+      res.json(user);
+    });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,176 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { z } from "zod";
+import { insertMessageSchema } from "@shared/schema";
+import {
+  MESSAGE_PAGE_SIZE,
+  getConversationForUser,
+  getOrCreateServiceRequestConversation,
+  getOrCreateTaskConversation,
+  sendMessage,
+  markConversationRead,
+} from "../services/messaging";
+import { canAskAboutTask, getProviderProfile, requireAuth, serviceRequestParty } from "../authorization";
+import { rateLimit } from "../rate-limiting";
+
+const router = Router();
+
+const messageBodySchema = insertMessageSchema.pick({ body: true });
+
+const messagePageSchema = z.object({
+  before: z.coerce.number().int().positive().optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(MESSAGE_PAGE_SIZE),
+});
+
+// List the current user's conversations, most recently active first
+router.get("/api/conversations", requireAuth, async (req, res, next) => {
+  try {
+    const provider = await storage.getServiceProviderByUserId(req.user!.id);
+    const conversations = await storage.getConversationsByParticipant(req.user!.id, provider?.id);
+
+    const conversationsWithDetails = await Promise.all(
+      conversations.map(async (conversation) => {
+        const isClient = conversation.clientId === req.user!.id;
+        const counterpartProvider = isClient ? await storage.getServiceProvider(conversation.providerId) : undefined;
+        const counterpart = await storage.getUser(isClient ? counterpartProvider?.userId ?? 0 : conversation.clientId);
+        const [lastMessage] = await storage.getMessages(conversation.id, { limit: 1 });
+        const unreadCount = await storage.getUnreadMessageCount(conversation.id, req.user!.id);
+
+        return {
+          ...conversation,
+          counterpart: counterpart ? {
+            id: counterpart.id,
+            firstName: counterpart.firstName,
+            lastName: counterpart.lastName,
+            profilePicture: counterpart.profilePicture
+          } : null,
+          lastMessage: lastMessage ?? null,
+          unreadCount
+        };
+      })
+    );
+
+    res.json(conversationsWithDetails);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Open (or create) the conversation for a service request or task
+router.post("/api/conversations", requireAuth, rateLimit("messaging"), async (req, res, next) => {
+  try {
+    const provider = await getProviderProfile(req.user);
+
+    if (req.body.serviceRequestId) {
+      const request = await storage.getServiceRequest(Number(req.body.serviceRequestId));
+      if (!request) {
+        return res.status(404).json({ message: "Service request not found" });
+      }
+
+      if (!serviceRequestParty(req.user, request, provider)) {
+        return res.status(403).json({ message: "You can only message about your own requests" });
+      }
+
+      const conversation = await getOrCreateServiceRequestConversation(request);
+      return res.json(conversation);
+    }
+
+    if (req.body.taskId) {
+      const taskId = Number(req.body.taskId);
+      if (!Number.isInteger(taskId) || taskId <= 0) {
+        return res.status(400).json({ message: "Invalid task ID" });
+      }
+
+      const task = await storage.getTask(taskId);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+
+      // Task threads are opened by providers; clients reply from their conversation list
+      if (!provider || task.clientId === req.user!.id) {
+        return res.status(403).json({ message: "Only service providers can ask about a task" });
+      }
+      if (!canAskAboutTask(req.user, task, provider)) {
+        return res.status(403).json({ message: "You can only ask about open tasks in your category or tasks you took" });
+      }
+
+      const conversation = await getOrCreateTaskConversation(task, provider.id);
+      return res.json(conversation);
+    }
+
+    res.status(400).json({ message: "A serviceRequestId or taskId is required" });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Page through a conversation's messages, newest first; pass ?before=<messageId> for older pages
+router.get("/api/conversations/:id/messages", requireAuth, async (req, res, next) => {
+  try {
+    const conversationId = parseInt(req.params.id);
+    if (isNaN(conversationId)) {
+      return res.status(400).json({ message: "Invalid conversation ID" });
+    }
+
+    const { conversation } = await getConversationForUser(conversationId, req.user!.id);
+
+    const { before, limit } = messagePageSchema.parse(req.query);
+    const messages = await storage.getMessages(conversation.id, { before, limit });
+
+    res.json({
+      messages,
+      nextCursor: messages.length === limit ? messages[messages.length - 1].id : null
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+// Send a message
+router.post("/api/conversations/:id/messages", requireAuth, rateLimit("messaging"), async (req, res, next) => {
+  try {
+    const conversationId = parseInt(req.params.id);
+    if (isNaN(conversationId)) {
+      return res.status(400).json({ message: "Invalid conversation ID" });
+    }
+
+    const { conversation } = await getConversationForUser(conversationId, req.user!.id);
+    const { body } = messageBodySchema.parse(req.body);
+
+    const message = await sendMessage(conversation, req.user!, body);
+    res.status(201).json(message);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+// Mark the other participant's messages as read
+router.post("/api/conversations/:id/read", requireAuth, async (req, res, next) => {
+  try {
+    const conversationId = parseInt(req.params.id);
+    if (isNaN(conversationId)) {
+      return res.status(400).json({ message: "Invalid conversation ID" });
+    }
+
+    const { conversation } = await getConversationForUser(conversationId, req.user!.id);
+    const readMessages = await markConversationRead(conversation, req.user!.id);
+
+    res.json({ read: readMessages.length });
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
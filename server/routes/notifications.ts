@@ -0,0 +1,125 @@
+import { Router } from "express";
+import { z } from "zod";
+import { notificationTypes, insertNotificationPreferenceSchema } from "@shared/schema";
+import {
+  getNotificationsPage,
+  markNotificationAsRead,
+  markAllNotificationsAsRead,
+  deleteNotification,
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from "../services/notification";
+import { requireAuth } from "../authorization";
+
+const router = Router();
+
+const NOTIFICATION_PAGE_SIZE = 20;
+
+const notificationQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(NOTIFICATION_PAGE_SIZE),
+  read: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  type: z.enum(Object.values(notificationTypes) as [string, ...string[]]).optional(),
+});
+
+const preferenceUpdateSchema = z.array(
+  insertNotificationPreferenceSchema.omit({ userId: true })
+);
+
+// List the current user's notifications, newest first
+router.get("/api/notifications", requireAuth, async (req, res, next) => {
+  try {
+    const { page, limit, read, type } = notificationQuerySchema.parse(req.query);
+    const { notifications, total } = await getNotificationsPage(req.user!.id, {
+      read,
+      type,
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    res.json({
+      notifications,
+      total,
+      page,
+      limit,
+      hasMore: page * limit < total
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+// Mark every notification as read
+router.post("/api/notifications/read-all", requireAuth, async (req, res, next) => {
+  try {
+    const updated = await markAllNotificationsAsRead(req.user!.id);
+    res.json({ updated });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Get the current user's notification preferences for every type and channel
+router.get("/api/notifications/preferences", requireAuth, async (req, res, next) => {
+  try {
+    const preferences = await getNotificationPreferences(req.user!.id);
+    res.json(preferences);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Mute or unmute notification types per channel
+router.put("/api/notifications/preferences", requireAuth, async (req, res, next) => {
+  try {
+    const settings = preferenceUpdateSchema.parse(req.body);
+    const preferences = await updateNotificationPreferences(req.user!.id, settings);
+    res.json(preferences);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+// Mark a single notification as read
+router.post("/api/notifications/:id/read", requireAuth, async (req, res, next) => {
+  try {
+    const notificationId = parseInt(req.params.id);
+    if (isNaN(notificationId)) {
+      return res.status(400).json({ message: "Invalid notification ID" });
+    }
+
+    const notification = await markNotificationAsRead(notificationId, req.user!.id);
+    res.json(notification);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Delete a notification
+router.delete("/api/notifications/:id", requireAuth, async (req, res, next) => {
+  try {
+    const notificationId = parseInt(req.params.id);
+    if (isNaN(notificationId)) {
+      return res.status(400).json({ message: "Invalid notification ID" });
+    }
+
+    await deleteNotification(notificationId, req.user!.id);
+    res.sendStatus(204);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
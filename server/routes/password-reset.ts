@@ -0,0 +1,61 @@
+import { Router } from "express";
+import { z } from "zod";
+import { passwordChangeSchema, passwordResetConfirmSchema, passwordResetRequestSchema } from "@shared/schema";
+import { changePassword, requestPasswordReset, resetPassword } from "../services/password-reset";
+import { requireAuth } from "../authorization";
+import { emailInBody, rateLimit } from "../rate-limiting";
+
+const router = Router();
+
+// Email a reset link. The answer is the same whether or not the address has an account
+router.post("/api/password-reset/request", rateLimit("auth", emailInBody), async (req, res, next) => {
+  try {
+    const { email } = passwordResetRequestSchema.parse(req.body);
+    await requestPasswordReset(email, req.ip);
+    res.json({ message: "If an account exists for that email, we've sent a link to reset the password." });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+// Set a new password with the emailed token; every existing session is signed out
+router.post("/api/password-reset/confirm", rateLimit("auth"), async (req, res, next) => {
+  try {
+    const { token, password } = passwordResetConfirmSchema.parse(req.body);
+    await resetPassword(token, password);
+    res.json({ message: "Your password has been reset. Log in with your new password." });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+// Change the signed-in user's password; every other session is signed out
+router.post("/api/user/password", requireAuth, rateLimit("auth"), async (req, res, next) => {
+  try {
+    const { currentPassword, password } = passwordChangeSchema.parse(req.body);
+    await changePassword(req.user!.id, currentPassword, password, req.sessionID);
+    res.json({ message: "Your password has been changed. Your other sessions have been signed out." });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+export default router;
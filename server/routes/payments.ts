@@ -0,0 +1,51 @@
+import { Router } from "express";
+import { z } from "zod";
+import { getBalances, getTransactionHistory } from "../services/escrow";
+import { requireAuth } from "../authorization";
+
+const router = Router();
+
+const TRANSACTION_PAGE_SIZE = 20;
+
+const transactionQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(TRANSACTION_PAGE_SIZE),
+});
+
+// Held, paid and refunded totals, plus provider earnings for providers
+router.get("/api/payments/balance", requireAuth, async (req, res, next) => {
+  try {
+    res.json(await getBalances(req.user!.id));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// The current user's payment history, newest first
+router.get("/api/payments/transactions", requireAuth, async (req, res, next) => {
+  try {
+    const { page, limit } = transactionQuerySchema.parse(req.query);
+    // Ask for one extra to learn whether another page exists
+    const transactions = await getTransactionHistory(req.user!.id, {
+      limit: limit + 1,
+      offset: (page - 1) * limit,
+    });
+
+    res.json({
+      transactions: transactions.slice(0, limit),
+      page,
+      limit,
+      hasMore: transactions.length > limit
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+export default router;
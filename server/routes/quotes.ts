@@ -0,0 +1,46 @@
+import { Router } from "express";
+import { storage } from "../storage";
+import { getTaskQuotes, acceptQuote } from "../services/quotes";
+import { broadcastServiceRequestUpdated, broadcastTaskUpdated } from "../services/notification";
+import { requireAuth } from "../authorization";
+
+const router = Router();
+
+// Every quote on a task, for the task owner to compare
+router.get("/api/tasks/:taskId/quotes", requireAuth, async (req, res, next) => {
+  try {
+    const taskId = parseInt(req.params.taskId);
+    if (isNaN(taskId)) {
+      return res.status(400).json({ message: "Invalid task ID" });
+    }
+
+    const quotes = await getTaskQuotes(taskId, req.user!.id);
+    res.json(quotes);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Accept a quote; the task is assigned and the competing quotes are declined
+router.post("/api/quotes/:id/accept", requireAuth, async (req, res, next) => {
+  try {
+    const quoteId = parseInt(req.params.id);
+    if (isNaN(quoteId)) {
+      return res.status(400).json({ message: "Invalid quote ID" });
+    }
+
+    const acceptedRequest = await acceptQuote(quoteId, req.user!.id);
+
+    await broadcastServiceRequestUpdated(acceptedRequest);
+    if (acceptedRequest.taskId) {
+      const task = await storage.getTask(acceptedRequest.taskId);
+      if (task) await broadcastTaskUpdated(task);
+    }
+
+    res.json(acceptedRequest);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,108 @@
+import { Router } from "express";
+import { z } from "zod";
+import { reviewModerationRequestSchema, reviewReplySchema, reviewReportRequestSchema, reviewRequestSchema, userRoles } from "@shared/schema";
+import { replyToReview, reportReview, submitReview } from "../services/reviews";
+import { getModerationQueue, moderateReview } from "../services/review-moderation";
+import { requireAuth, requireRole } from "../authorization";
+
+const router = Router();
+
+const moderationQuerySchema = z.object({
+  status: z.enum(["reported", "hidden"]).default("reported"),
+});
+
+// Review a completed request, as either its client or its provider
+router.post("/api/reviews", requireAuth, async (req, res, next) => {
+  try {
+    const review = await submitReview(req.user!.id, reviewRequestSchema.parse(req.body));
+    res.status(201).json(review);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+// The reviewed provider's public reply
+router.post("/api/reviews/:id/reply", requireAuth, async (req, res, next) => {
+  try {
+    const reviewId = parseInt(req.params.id);
+    if (isNaN(reviewId)) {
+      return res.status(400).json({ message: "Invalid review ID" });
+    }
+
+    const { reply } = reviewReplySchema.parse(req.body);
+    res.json(await replyToReview(req.user!.id, reviewId, reply));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+// Flag a review for the moderators
+router.post("/api/reviews/:id/reports", requireAuth, async (req, res, next) => {
+  try {
+    const reviewId = parseInt(req.params.id);
+    if (isNaN(reviewId)) {
+      return res.status(400).json({ message: "Invalid review ID" });
+    }
+
+    const report = await reportReview(req.user!.id, reviewId, reviewReportRequestSchema.parse(req.body));
+    res.status(201).json(report);
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+// Reported or hidden reviews, for admins
+router.get("/api/moderation/reviews", requireRole(userRoles.ADMIN), async (req, res, next) => {
+  try {
+    const { status } = moderationQuerySchema.parse(req.query);
+    res.json(await getModerationQueue(status));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+// Hide, restore or dismiss the reports on a review
+router.post("/api/moderation/reviews/:id", requireRole(userRoles.ADMIN), async (req, res, next) => {
+  try {
+    const reviewId = parseInt(req.params.id);
+    if (isNaN(reviewId)) {
+      return res.status(400).json({ message: "Invalid review ID" });
+    }
+
+    res.json(await moderateReview(req.user!.id, reviewId, reviewModerationRequestSchema.parse(req.body)));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+export default router;
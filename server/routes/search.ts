@@ -0,0 +1,145 @@
+import { Router } from "express";
+import { z } from "zod";
+import { storage } from "../storage";
+import { toProviderListing } from "@shared/schema";
+import {
+  geocode,
+  UnknownLocationError,
+  DEFAULT_SEARCH_RADIUS_KM,
+  MAX_SEARCH_RADIUS_KM,
+  type GeoPoint
+} from "../services/geocoding";
+import { searchProvidersNear, searchTasksNear } from "../services/search";
+
+const router = Router();
+
+const geoSearchSchema = z.object({
+  location: z.string().trim().min(1).optional(),
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lng: z.coerce.number().min(-180).max(180).optional(),
+  radius: z.coerce.number().positive().max(MAX_SEARCH_RADIUS_KM).optional(),
+  categoryId: z.coerce.number().int().positive().optional(),
+});
+
+type GeoSearchQuery = z.infer<typeof geoSearchSchema>;
+
+// Explicit coordinates win over a location string
+function resolveOrigin(query: GeoSearchQuery): (GeoPoint & { label?: string }) | null {
+  if (query.lat !== undefined && query.lng !== undefined) {
+    return { latitude: query.lat, longitude: query.lng };
+  }
+
+  if (query.location) {
+    const location = geocode(query.location);
+    if (!location) throw new UnknownLocationError(query.location);
+    return location;
+  }
+
+  return null;
+}
+
+// Providers that serve a location
+router.get("/api/search/providers", async (req, res, next) => {
+  try {
+    const query = geoSearchSchema.parse(req.query);
+    const origin = resolveOrigin(query);
+    if (!origin) {
+      return res.status(400).json({ message: "A location or lat/lng is required" });
+    }
+
+    const providers = await searchProvidersNear(origin, {
+      radiusKm: query.radius,
+      categoryId: query.categoryId,
+    });
+
+    const results = await Promise.all(
+      providers.map(async (provider) => {
+        const user = await storage.getUser(provider.userId);
+        const category = await storage.getServiceCategory(provider.categoryId);
+
+        if (!user || !category) return null;
+
+        // Whole kilometres: exact distances from chosen origins would pinpoint where the provider is
+        return {
+          ...toProviderListing(provider, user, category),
+          distanceKm: Math.ceil(provider.distanceKm)
+        };
+      })
+    );
+
+    res.json({
+      origin,
+      results: results.filter(p => p !== null)
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+// Open tasks near a location; providers default to their own location and service radius
+router.get("/api/search/tasks", async (req, res, next) => {
+  try {
+    const query = geoSearchSchema.parse(req.query);
+    let origin = resolveOrigin(query);
+    let radiusKm = query.radius ?? DEFAULT_SEARCH_RADIUS_KM;
+
+    if (!origin && req.isAuthenticated()) {
+      const provider = await storage.getServiceProviderByUserId(req.user.id);
+      if (provider?.latitude != null && provider.longitude != null) {
+        origin = { latitude: provider.latitude, longitude: provider.longitude };
+        radiusKm = query.radius ?? provider.serviceRadiusKm;
+      }
+    }
+
+    if (!origin) {
+      return res.status(400).json({ message: "A location or lat/lng is required" });
+    }
+
+    const tasks = await searchTasksNear(origin, {
+      radiusKm,
+      categoryId: query.categoryId,
+    });
+
+    const results = await Promise.all(
+      tasks.map(async (task) => {
+        const client = await storage.getUser(task.clientId);
+        const category = await storage.getServiceCategory(task.categoryId);
+
+        if (!client || !category) return null;
+
+        return {
+          ...task,
+          client: {
+            id: client.id,
+            firstName: client.firstName,
+            lastName: client.lastName,
+            profilePicture: client.profilePicture
+          },
+          category
+        };
+      })
+    );
+
+    res.json({
+      origin,
+      radiusKm,
+      results: results.filter(t => t !== null)
+    });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,36 @@
+import { Router } from "express";
+import { listSessions, revokeOtherSessions, revokeSession } from "../services/sessions";
+import { requireAuth } from "../authorization";
+
+const router = Router();
+
+// The signed-in user's sessions: device, IP and when each was last used
+router.get("/api/sessions", requireAuth, async (req, res, next) => {
+  try {
+    res.json(await listSessions(req.user!.id, req.sessionID));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Sign out every other session
+router.delete("/api/sessions", requireAuth, async (req, res, next) => {
+  try {
+    const revoked = await revokeOtherSessions(req.user!.id, req.sessionID);
+    res.json({ revoked });
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Sign out one session, by the id GET /api/sessions gave it
+router.delete("/api/sessions/:id", requireAuth, async (req, res, next) => {
+  try {
+    await revokeSession(req.user!.id, req.params.id);
+    res.sendStatus(204);
+  } catch (err) {
+    next(err);
+  }
+});
+
+export default router;
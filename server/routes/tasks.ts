@@ -1,43 +1,16 @@
 import { Router } from "express";
 import { storage } from "../storage";
-import { z } from "zod";
-import { insertTaskSchema } from "@shared/schema";
-import { notifyNewTask, notifyTaskAccepted } from "../services/notification";
+import { taskStatuses } from "@shared/schema";
+import { notifyTaskAccepted, broadcastTaskUpdated, broadcastServiceRequestUpdated } from "../services/notification";
+import { isTaskStatus } from "../services/task-lifecycle";
+import { acceptTaskDirectly, announceServiceRequestChange, changeTaskStatus } from "../services/service-request-lifecycle";
+import { canTakePartInTask, canViewTask, getProviderProfile, isAdmin, requireAuth } from "../authorization";
 
 const router = Router();
 
-// Create a new task
-router.post("/api/tasks", async (req, res, next) => {
-  try {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
-    const validatedData = insertTaskSchema.parse(req.body);
-    const task = await storage.createTask({
-      ...validatedData,
-      clientId: req.user.id,
-    });
-
-    // Get all service providers in the task's category
-    const providers = await storage.getServiceProvidersByCategory(task.categoryId);
-    
-    // Send notifications to all eligible providers
-    await notifyNewTask(task, providers);
-
-    res.status(201).json(task);
-  } catch (err) {
-    next(err);
-  }
-});
-
 // Accept a task
-router.post("/api/tasks/:taskId/accept", async (req, res, next) => {
+router.post("/api/tasks/:taskId/accept", requireAuth, async (req, res, next) => {
   try {
-    if (!req.isAuthenticated()) {
-      return res.status(401).json({ message: "Not authenticated" });
-    }
-
     const taskId = parseInt(req.params.taskId);
     if (isNaN(taskId)) {
       return res.status(400).json({ message: "Invalid task ID" });
@@ -49,48 +22,37 @@ router.post("/api/tasks/:taskId/accept", async (req, res, next) => {
       return res.status(404).json({ message: "Task not found" });
     }
 
-    // Check if task is already accepted
-    if (task.acceptedById) {
-      return res.status(400).json({ message: "Task has already been accepted by another provider" });
-    }
-
     // Get the provider profile
-    const provider = await storage.getServiceProviderByUserId(req.user.id);
+    const provider = await storage.getServiceProviderByUserId(req.user!.id);
     if (!provider) {
       return res.status(403).json({ message: "Only service providers can accept tasks" });
     }
 
+    if (task.clientId === req.user!.id) {
+      return res.status(403).json({ message: "You cannot accept your own task" });
+    }
+
     // Check if provider is in the correct category
     if (provider.categoryId !== task.categoryId) {
       return res.status(403).json({ message: "You can only accept tasks in your service category" });
     }
 
-    // Update task status with transaction to ensure atomicity
-    const updatedTask = await storage.transaction(async (tx) => {
-      // Check again if task is still available (inside transaction)
-      const currentTask = await tx.getTask(taskId);
-      if (currentTask.acceptedById) {
-        throw new Error("Task has already been accepted by another provider");
-      }
-
-      // Update task
-      return tx.updateTask(taskId, {
-        status: "accepted",
-        acceptedById: provider.id,
-        acceptedAt: new Date(),
-      });
-    }).catch(error => {
-      if (error.message === "Task has already been accepted by another provider") {
-        return res.status(400).json({ message: error.message });
-      }
-      throw error;
-    });
-
-    // Get client info for notification
+    // The lifecycle rejects the move with a 409 if another provider got there first
+    const { task: updatedTask, declined } = await acceptTaskDirectly(taskId, provider.id, req.user!.id);
+
+    // Get provider and client info for notification
+    const providerWithDetails = await storage.getServiceProviderWithUser(provider.id);
     const client = await storage.getUser(task.clientId);
 
     // Send notifications
-    await notifyTaskAccepted(updatedTask, provider, client);
+    if (providerWithDetails && client) {
+      await notifyTaskAccepted(updatedTask, providerWithDetails, client);
+    }
+
+    await broadcastTaskUpdated(updatedTask);
+    for (const request of declined) {
+      await broadcastServiceRequestUpdated(request);
+    }
 
     res.json(updatedTask);
   } catch (err) {
@@ -98,23 +60,59 @@ router.post("/api/tasks/:taskId/accept", async (req, res, next) => {
   }
 });
 
-// Get tasks by category
-router.get("/api/tasks/category/:categoryId", async (req, res, next) => {
+// Move a task to a new status (start, complete, cancel, dispute, or back to open).
+// Tasks booked through a service request move through the request instead
+router.post("/api/tasks/:taskId/status", requireAuth, async (req, res, next) => {
   try {
-    const categoryId = parseInt(req.params.categoryId);
-    if (isNaN(categoryId)) {
-      return res.status(400).json({ message: "Invalid category ID" });
+    const taskId = parseInt(req.params.taskId);
+    if (isNaN(taskId)) {
+      return res.status(400).json({ message: "Invalid task ID" });
     }
 
-    const tasks = await storage.getTasksByCategory(categoryId);
-    res.json(tasks);
+    const { status } = req.body;
+    if (!isTaskStatus(status)) {
+      return res.status(400).json({ message: "Invalid task status" });
+    }
+
+    if (status === taskStatuses.ACCEPTED) {
+      return res.status(400).json({ message: "Use the accept endpoint to accept a task" });
+    }
+
+    const task = await storage.getTask(taskId);
+    if (!task) {
+      return res.status(404).json({ message: "Task not found" });
+    }
+
+    // Only the client and the assigned provider may move a task along
+    const provider = await getProviderProfile(req.user);
+    if (!canTakePartInTask(req.user, task, provider)) {
+      return res.status(403).json({ message: "You can only update tasks you are part of" });
+    }
+
+    // Starting work and giving the task back are the provider's call
+    const isAssignedProvider = !!provider && task.acceptedById === provider.id;
+    if (status === taskStatuses.IN_PROGRESS && !isAssignedProvider) {
+      return res.status(403).json({ message: "Only the assigned provider can start a task" });
+    }
+    if (status === taskStatuses.OPEN && !isAssignedProvider) {
+      return res.status(403).json({ message: "Only the assigned provider can give up a task" });
+    }
+
+    const { task: updatedTask, request } = await changeTaskStatus(taskId, status, req.user!.id);
+    if (request) {
+      await announceServiceRequestChange(request);
+    } else {
+      await broadcastTaskUpdated(updatedTask);
+    }
+
+    res.json(updatedTask);
   } catch (err) {
     next(err);
   }
 });
 
-// Get task by ID
-router.get("/api/tasks/:taskId", async (req, res, next) => {
+// Get the status history of a task
+router.get("/api/tasks/:taskId/history", requireAuth, async (req, res, next) => {
   try {
     const taskId = parseInt(req.params.taskId);
     if (isNaN(taskId)) {
@@ -126,10 +124,32 @@ router.get("/api/tasks/:taskId", async (req, res, next) => {
       return res.status(404).json({ message: "Task not found" });
     }
 
-    res.json(task);
+    const provider = await getProviderProfile(req.user);
+    if (!canTakePartInTask(req.user, task, provider) && !isAdmin(req.user)) {
+      return res.status(403).json({ message: "You can only view the history of tasks you are part of" });
+    }
+
+    const history = await storage.getTaskStatusHistory(taskId);
+    res.json(history);
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Get tasks by category
+router.get("/api/tasks/category/:categoryId", async (req, res, next) => {
+  try {
+    const categoryId = parseInt(req.params.categoryId);
+    if (isNaN(categoryId)) {
+      return res.status(400).json({ message: "Invalid category ID" });
+    }
+
+    const tasks = await storage.getTasksByCategory(categoryId);
+    const provider = await getProviderProfile(req.user);
+    res.json(tasks.filter((task) => canViewTask(req.user, task, provider)));
   } catch (err) {
     next(err);
   }
 });
 
-export default router; 
\ No newline at end of file
+export default router;
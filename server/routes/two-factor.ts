@@ -0,0 +1,66 @@
+import { Router } from "express";
+import { z } from "zod";
+import { twoFactorCodeSchema, twoFactorDisableSchema } from "@shared/schema";
+import {
+  confirmEnrollment,
+  disableTwoFactor,
+  getTwoFactorStatus,
+  startEnrollment
+} from "../services/two-factor";
+import { requireAuth } from "../authorization";
+
+const router = Router();
+
+// Whether 2FA is on and how many recovery codes are left
+router.get("/api/2fa", requireAuth, async (req, res, next) => {
+  try {
+    res.json(await getTwoFactorStatus(req.user!.id));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Start enrolling an authenticator app: a new secret and its QR code
+router.post("/api/2fa/setup", requireAuth, async (req, res, next) => {
+  try {
+    res.json(await startEnrollment(req.user!));
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Confirm enrollment with a code from the app; answers with the recovery codes, shown only here
+router.post("/api/2fa/enable", requireAuth, async (req, res, next) => {
+  try {
+    const { code } = twoFactorCodeSchema.parse(req.body);
+    const recoveryCodes = await confirmEnrollment(req.user!.id, code);
+    res.json({ recoveryCodes });
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+// Turn 2FA off; needs the password and a current code or recovery code
+router.post("/api/2fa/disable", requireAuth, async (req, res, next) => {
+  try {
+    const { password, code } = twoFactorDisableSchema.parse(req.body);
+    await disableTwoFactor(req.user!, password, code);
+    res.json(await getTwoFactorStatus(req.user!.id));
+  } catch (err) {
+    if (err instanceof z.ZodError) {
+      return res.status(400).json({
+        message: "Validation error",
+        errors: err.errors
+      });
+    }
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,205 @@
+import { storage } from '../storage';
+import { getWebSocketService } from './websocket';
+import { userRoles } from '@shared/schema';
+import type {
+  AdminProvider,
+  AdminServiceRequest,
+  AdminTask,
+  AdminUser,
+  AdminUserSummary,
+  InsertServiceCategory,
+  ServiceCategory,
+  ServiceProvider,
+  User,
+} from '@shared/schema';
+import { ProviderNotFoundError } from './availability';
+
+export class UserNotFoundError extends Error {
+  status = 404;
+
+  constructor(userId: number) {
+    super(`User ${userId} not found`);
+  }
+}
+
+export class ServiceCategoryNotFoundError extends Error {
+  status = 404;
+
+  constructor(categoryId: number) {
+    super(`Service category ${categoryId} not found`);
+  }
+}
+
+export class AdminActionNotAllowedError extends Error {
+  status = 409;
+}
+
+// Postgres' unique_violation, raised when two admins race to the same category name
+function isUniqueViolation(err: unknown): boolean {
+  return (err as { code?: string } | null)?.code === '23505';
+}
+
+function newestFirst<T extends { id: number; createdAt: Date | null }>(rows: T[]): T[] {
+  return [...rows].sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0) || b.id - a.id);
+}
+
+function toAdminUser(user: User, providerId: number | null): AdminUser {
+  const { password, verificationToken, verificationTokenExpires, calendarToken, ...rest } = user;
+  return { ...rest, providerId };
+}
+
+function toSummary(user: User | undefined): AdminUserSummary | null {
+  if (!user) return null;
+  return {
+    id: user.id,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    email: user.email,
+    suspendedAt: user.suspendedAt,
+  };
+}
+
+export async function listUsers(): Promise<AdminUser[]> {
+  const providerIds = new Map((await storage.getServiceProviders()).map((provider) => [provider.userId, provider.id] as const));
+  return newestFirst(await storage.getUsers()).map((user) => toAdminUser(user, providerIds.get(user.id) ?? null));
+}
+
+/**
+ * Stops the user logging in; their existing sessions stop working on the next request
+ * and their open sockets are closed.
+ * Admins can't be suspended here, so nobody can lock the last admin out by mistake.
+ */
+export async function suspendUser(adminId: number, userId: number, reason: string): Promise<AdminUser> {
+  const user = await storage.getUser(userId);
+  if (!user) {
+    throw new UserNotFoundError(userId);
+  }
+
+  if (user.id === adminId || user.role === userRoles.ADMIN) {
+    throw new AdminActionNotAllowedError('Admins cannot be suspended');
+  }
+  if (user.suspendedAt) {
+    throw new AdminActionNotAllowedError('This user is already suspended');
+  }
+
+  const updated = (await storage.updateUser(user.id, { suspendedAt: new Date(), suspensionReason: reason })) ?? user;
+  getWebSocketService().disconnectEndedSessions(user.id);
+  const provider = await storage.getServiceProviderByUserId(user.id);
+  return toAdminUser(updated, provider?.id ?? null);
+}
+
+export async function unsuspendUser(userId: number): Promise<AdminUser> {
+  const user = await storage.getUser(userId);
+  if (!user) {
+    throw new UserNotFoundError(userId);
+  }
+
+  if (!user.suspendedAt) {
+    throw new AdminActionNotAllowedError('This user is not suspended');
+  }
+
+  const updated = (await storage.updateUser(user.id, { suspendedAt: null, suspensionReason: null })) ?? user;
+  const provider = await storage.getServiceProviderByUserId(user.id);
+  return toAdminUser(updated, provider?.id ?? null);
+}
+
+async function toAdminProvider(provider: ServiceProvider): Promise<AdminProvider> {
+  return {
+    ...provider,
+    user: toSummary(await storage.getUser(provider.userId)),
+    category: (await storage.getServiceCategory(provider.categoryId)) ?? null,
+  };
+}
+
+export async function listProviders(): Promise<AdminProvider[]> {
+  const providers = (await storage.getServiceProviders()).sort((a, b) => b.id - a.id);
+  return Promise.all(providers.map(toAdminProvider));
+}
+
+export async function setProviderVerified(providerId: number, verified: boolean): Promise<AdminProvider> {
+  const provider = await storage.getServiceProvider(providerId);
+  if (!provider) {
+    throw new ProviderNotFoundError(providerId);
+  }
+
+  // Re-verifying keeps the original date
+  const verifiedAt = verified ? provider.verifiedAt ?? new Date() : null;
+  const updated = (await storage.updateServiceProvider(provider.id, { verifiedAt })) ?? provider;
+  return toAdminProvider(updated);
+}
+
+async function assertCategoryNameFree(name: string, exceptId?: number) {
+  const taken = (await storage.getServiceCategories()).some(
+    (category) => category.id !== exceptId && category.name.toLowerCase() === name.toLowerCase()
+  );
+  if (taken) {
+    throw new AdminActionNotAllowedError(`A category named ${name} already exists`);
+  }
+}
+
+export async function createCategory(data: InsertServiceCategory): Promise<ServiceCategory> {
+  await assertCategoryNameFree(data.name);
+  return storage.createServiceCategory(data).catch((err) => {
+    throw isUniqueViolation(err) ? new AdminActionNotAllowedError(`A category named ${data.name} already exists`) : err;
+  });
+}
+
+export async function updateCategory(categoryId: number, data: Partial<InsertServiceCategory>): Promise<ServiceCategory> {
+  if (!(await storage.getServiceCategory(categoryId))) {
+    throw new ServiceCategoryNotFoundError(categoryId);
+  }
+  if (data.name !== undefined) {
+    await assertCategoryNameFree(data.name, categoryId);
+  }
+
+  const updated = await storage.updateServiceCategory(categoryId, data).catch((err) => {
+    throw isUniqueViolation(err) ? new AdminActionNotAllowedError(`A category named ${data.name} already exists`) : err;
+  });
+  if (!updated) {
+    throw new ServiceCategoryNotFoundError(categoryId);
+  }
+  return updated;
+}
+
+// Categories still used by a provider or a task can't be deleted, only renamed
+export async function deleteCategory(categoryId: number): Promise<void> {
+  if (!(await storage.getServiceCategory(categoryId))) {
+    throw new ServiceCategoryNotFoundError(categoryId);
+  }
+
+  const [providers, tasks] = await Promise.all([
+    storage.getServiceProvidersByCategory(categoryId),
+    storage.getTasksByCategory(categoryId),
+  ]);
+  if (providers.length > 0 || tasks.length > 0) {
+    throw new AdminActionNotAllowedError(
+      `This category is used by ${providers.length} provider(s) and ${tasks.length} task(s)`
+    );
+  }
+
+  await storage.deleteServiceCategory(categoryId);
+}
+
+export async function listTasks(): Promise<AdminTask[]> {
+  const categories = new Map((await storage.getServiceCategories()).map((category) => [category.id, category] as const));
+  return Promise.all(
+    newestFirst(await storage.getTasks()).map(async (task) => ({
+      ...task,
+      client: toSummary(await storage.getUser(task.clientId)),
+      category: categories.get(task.categoryId) ?? null,
+    }))
+  );
+}
+
+export async function listServiceRequests(): Promise<AdminServiceRequest[]> {
+  return Promise.all(
+    newestFirst(await storage.getServiceRequests()).map(async (request) => {
+      const provider = await storage.getServiceProvider(request.providerId);
+      return {
+        ...request,
+        client: toSummary(await storage.getUser(request.clientId)),
+        provider: toSummary(provider ? await storage.getUser(provider.userId) : undefined),
+      };
+    })
+  );
+}
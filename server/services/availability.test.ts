@@ -0,0 +1,147 @@
+import { randomUUID } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { storage } from '../storage';
+import { buildSlots, reserveSlot, SlotUnavailableError, zonedDay, zonedTimeToUtc } from './availability';
+
+const NEW_YORK = 'America/New_York';
+const HOUR = 60 * 60 * 1000;
+
+// 2024 in New York: clocks jump 02:00 -> 03:00 on 10 March and fall back 02:00 -> 01:00 on 3 November
+const SPRING_FORWARD = Date.UTC(2024, 2, 10);
+const FALL_BACK = Date.UTC(2024, 10, 3);
+
+const iso = (instant: number) => new Date(instant).toISOString();
+const starts = (slots: { start: Date }[]) => slots.map((slot) => slot.start.toISOString());
+
+// One window on the weekday of `day` (midnight UTC of a calendar day)
+function schedule(timezone: string, day: number, startTime: string, endTime: string, slotMinutes = 60) {
+  return { timezone, slotMinutes, rules: [{ weekday: new Date(day).getUTCDay(), startTime, endTime }] };
+}
+
+describe('zonedDay', () => {
+  it("gives the zone's calendar day, not UTC's", () => {
+    // 03:00 UTC on the 10th is still the evening of the 9th in New York
+    expect(iso(zonedDay(Date.UTC(2024, 2, 10, 3), NEW_YORK))).toBe('2024-03-09T00:00:00.000Z');
+    expect(iso(zonedDay(Date.UTC(2024, 2, 10, 5), NEW_YORK))).toBe('2024-03-10T00:00:00.000Z');
+    expect(iso(zonedDay(Date.UTC(2024, 2, 9, 20), 'Asia/Tokyo'))).toBe('2024-03-10T00:00:00.000Z');
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('uses the offset in force on each side of the spring-forward jump', () => {
+    expect(iso(zonedTimeToUtc(SPRING_FORWARD, 60, NEW_YORK))).toBe('2024-03-10T06:00:00.000Z');
+    expect(iso(zonedTimeToUtc(SPRING_FORWARD, 3 * 60, NEW_YORK))).toBe('2024-03-10T07:00:00.000Z');
+    expect(iso(zonedTimeToUtc(SPRING_FORWARD, 9 * 60, NEW_YORK))).toBe('2024-03-10T13:00:00.000Z');
+  });
+
+  it('moves a skipped time to just after the jump', () => {
+    expect(iso(zonedTimeToUtc(SPRING_FORWARD, 2 * 60 + 30, NEW_YORK))).toBe('2024-03-10T07:30:00.000Z');
+    // East of UTC the first guess lands on the other side of the jump
+    expect(iso(zonedTimeToUtc(Date.UTC(2024, 2, 31), 2 * 60 + 30, 'Europe/Berlin'))).toBe('2024-03-31T01:30:00.000Z');
+    expect(iso(zonedTimeToUtc(Date.UTC(2024, 2, 31), 90, 'Europe/Berlin'))).toBe('2024-03-31T00:30:00.000Z');
+  });
+
+  it('takes the first of a repeated time on the fall-back day', () => {
+    expect(iso(zonedTimeToUtc(FALL_BACK, 90, NEW_YORK))).toBe('2024-11-03T05:30:00.000Z');
+    expect(iso(zonedTimeToUtc(FALL_BACK, 9 * 60, NEW_YORK))).toBe('2024-11-03T14:00:00.000Z');
+  });
+});
+
+describe('buildSlots', () => {
+  it('keeps hour-long slots on the spring-forward day without inventing the lost hour', () => {
+    const slots = buildSlots(schedule(NEW_YORK, SPRING_FORWARD, '00:00', '05:00'), [], {
+      from: new Date(SPRING_FORWARD),
+      to: new Date(SPRING_FORWARD + 2 * 24 * HOUR),
+    });
+
+    // 00:00 and 01:00 EST, then 03:00 and 04:00 EDT; 02:00 never happens
+    expect(starts(slots)).toEqual([
+      '2024-03-10T05:00:00.000Z',
+      '2024-03-10T06:00:00.000Z',
+      '2024-03-10T07:00:00.000Z',
+      '2024-03-10T08:00:00.000Z',
+    ]);
+  });
+
+  it('lays slots out in local time across the fall-back day', () => {
+    const slots = buildSlots(schedule(NEW_YORK, FALL_BACK, '00:00', '03:00'), [], {
+      from: new Date(FALL_BACK),
+      to: new Date(FALL_BACK + 2 * 24 * HOUR),
+    });
+
+    // 00:00 and 01:00 EDT, then 02:00 EST, two hours later in UTC
+    expect(starts(slots)).toEqual([
+      '2024-11-03T04:00:00.000Z',
+      '2024-11-03T05:00:00.000Z',
+      '2024-11-03T07:00:00.000Z',
+    ]);
+  });
+
+  it('finds a window that starts on the previous UTC day', () => {
+    // Wednesday 06:00-10:00 in Tokyo runs from 21:00 UTC on Tuesday to 01:00 UTC on Wednesday
+    const wednesday = Date.UTC(2024, 5, 5);
+    const slots = buildSlots(schedule('Asia/Tokyo', wednesday, '06:00', '10:00'), [], {
+      from: new Date(wednesday - 24 * HOUR),
+      to: new Date(wednesday),
+    });
+
+    // The last slot ends after the range, so only the three on Tuesday UTC are offered
+    expect(starts(slots)).toEqual([
+      '2024-06-04T21:00:00.000Z',
+      '2024-06-04T22:00:00.000Z',
+      '2024-06-04T23:00:00.000Z',
+    ]);
+  });
+
+  it('leaves out slots an exception overlaps, even partly', () => {
+    const day = Date.UTC(2024, 5, 5);
+    const slots = buildSlots(
+      schedule('UTC', day, '09:00', '13:00'),
+      [{ start: new Date(day + 10.5 * HOUR), end: new Date(day + 11.5 * HOUR) }],
+      { from: new Date(day), to: new Date(day + 24 * HOUR) }
+    );
+
+    expect(starts(slots)).toEqual(['2024-06-05T09:00:00.000Z', '2024-06-05T12:00:00.000Z']);
+  });
+});
+
+describe('reserveSlot', () => {
+  it('gives a slot to only one of two clients booking it at the same time', async () => {
+    const providerUser = await storage.createUser({
+      username: randomUUID().slice(0, 8),
+      email: `${randomUUID().slice(0, 8)}@example.com`,
+      password: 'unused',
+      firstName: 'Test',
+      lastName: 'Provider',
+      isServiceProvider: true,
+    } as Parameters<typeof storage.createUser>[0]);
+    const category = await storage.createServiceCategory({ name: `Category ${randomUUID()}` });
+    const provider = await storage.createServiceProvider({
+      userId: providerUser.id,
+      categoryId: category.id,
+      hourlyRate: 50,
+    } as Parameters<typeof storage.createServiceProvider>[0]);
+    await storage.replaceAvailabilityRules(
+      provider.id,
+      [0, 1, 2, 3, 4, 5, 6].map((weekday) => ({ providerId: provider.id, weekday, startTime: '09:00', endTime: '17:00' }))
+    );
+
+    // 10:00 UTC a week from now
+    const start = new Date(zonedDay(Date.now(), 'UTC') + 7 * 24 * HOUR + 10 * HOUR);
+    const book = (clientId: number) => storage.transaction(async (tx) => {
+      const slot = await reserveSlot(provider.id, start, tx);
+      return tx.createServiceRequest({
+        providerId: provider.id,
+        clientId,
+        initiatedBy: 'client',
+        scheduledStart: slot.start,
+        scheduledEnd: slot.end,
+      } as Parameters<typeof tx.createServiceRequest>[0]);
+    });
+
+    const results = await Promise.allSettled([book(providerUser.id + 1000), book(providerUser.id + 2000)]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find((result) => result.status === 'rejected')).toMatchObject({ reason: expect.any(SlotUnavailableError) });
+  });
+});
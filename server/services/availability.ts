@@ -0,0 +1,265 @@
+import { storage, type IStorage, type TimeRange } from '../storage';
+import { serviceRequestStatuses } from '@shared/schema';
+import type {
+  AvailabilityException,
+  AvailabilityRule,
+  AvailabilitySchedule,
+  InsertAvailabilityException,
+  ProviderAvailability,
+  ServiceProvider,
+  TimeSlot,
+} from '@shared/schema';
+
+const { PENDING, ACCEPTED, IN_PROGRESS, COMPLETION_REQUESTED } = serviceRequestStatuses;
+
+// Requests in these states keep their slot; declined, withdrawn, finished or cancelled ones free it
+export const slotHoldingStatuses: string[] = [PENDING, ACCEPTED, IN_PROGRESS, COMPLETION_REQUESTED];
+
+// Longest span of slots that can be asked for at once
+export const MAX_SLOT_RANGE_DAYS = 31;
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+export class ProviderNotFoundError extends Error {
+  status = 404;
+
+  constructor(providerId: number) {
+    super(`Service provider ${providerId} not found`);
+  }
+}
+
+export class AvailabilityPermissionError extends Error {
+  status = 403;
+}
+
+export class AvailabilityExceptionNotFoundError extends Error {
+  status = 404;
+
+  constructor(exceptionId: number) {
+    super(`Availability exception ${exceptionId} not found`);
+  }
+}
+
+export class SlotUnavailableError extends Error {
+  status = 409;
+
+  constructor() {
+    super('That time slot is not available; please pick another one');
+  }
+}
+
+// How far ahead of UTC the zone's clocks are at the given instant, in minutes
+function zoneOffsetMinutes(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(new Date(instant));
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+
+  const wallClock = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+  return (wallClock - Math.floor(instant / 1000) * 1000) / MINUTE;
+}
+
+// Midnight UTC of the calendar day the instant falls on in the zone
+export function zonedDay(instant: number, timeZone: string): number {
+  const wallClock = instant + zoneOffsetMinutes(instant, timeZone) * MINUTE;
+  return wallClock - (((wallClock % DAY) + DAY) % DAY);
+}
+
+/**
+ * The instant a wall-clock time happens in the zone. `day` is that calendar day as
+ * midnight UTC. Times skipped by a daylight-saving jump land just after the jump.
+ */
+export function zonedTimeToUtc(day: number, minutes: number, timeZone: string): number {
+  const wallClock = day + minutes * MINUTE;
+  const offset = zoneOffsetMinutes(wallClock, timeZone);
+  const instant = wallClock - offset * MINUTE;
+  const actualOffset = zoneOffsetMinutes(instant, timeZone);
+  if (actualOffset === offset) return instant;
+
+  // The guess was on the wrong side of a transition. If the other offset doesn't fit either,
+  // the time was skipped, and the later reading is the one past the jump
+  const corrected = wallClock - actualOffset * MINUTE;
+  return zoneOffsetMinutes(corrected, timeZone) === actualOffset ? corrected : Math.max(instant, corrected);
+}
+
+function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Cuts the weekly schedule into slots inside the range, leaving out any that touch a busy period.
+ * Slots are laid end to end from the start of each rule window, e.g. 09:00, 10:00 for hour-long slots.
+ */
+export function buildSlots(
+  schedule: Pick<ServiceProvider, 'timezone' | 'slotMinutes'> & { rules: Pick<AvailabilityRule, 'weekday' | 'startTime' | 'endTime'>[] },
+  busy: { start: Date; end: Date }[],
+  range: TimeRange
+): TimeSlot[] {
+  const { timezone, slotMinutes, rules } = schedule;
+  const from = range.from.getTime();
+  const to = range.to.getTime();
+  const starts = new Set<number>();
+
+  // A day before and after covers windows that cross into the range from neighbouring local days
+  for (let day = zonedDay(from, timezone) - DAY; day <= zonedDay(to, timezone) + DAY; day += DAY) {
+    const weekday = new Date(day).getUTCDay();
+
+    for (const rule of rules) {
+      if (rule.weekday !== weekday) continue;
+
+      const windowEnd = minutesOfDay(rule.endTime);
+      for (let minute = minutesOfDay(rule.startTime); minute + slotMinutes <= windowEnd; minute += slotMinutes) {
+        const start = zonedTimeToUtc(day, minute, timezone);
+        const end = start + slotMinutes * MINUTE;
+        if (start < from || end > to) continue;
+        if (busy.some((period) => start < period.end.getTime() && end > period.start.getTime())) continue;
+        starts.add(start);
+      }
+    }
+  }
+
+  return Array.from(starts)
+    .sort((a, b) => a - b)
+    .map((start) => ({ start: new Date(start), end: new Date(start + slotMinutes * MINUTE) }));
+}
+
+async function freeSlots(provider: ServiceProvider, range: TimeRange, store: IStorage): Promise<TimeSlot[]> {
+  const [rules, exceptions, requests] = await Promise.all([
+    store.getAvailabilityRules(provider.id),
+    store.getAvailabilityExceptions(provider.id, range),
+    store.getScheduledServiceRequests(provider.id, range, slotHoldingStatuses),
+  ]);
+
+  const busy = [
+    ...exceptions.map((exception) => ({ start: exception.startsAt, end: exception.endsAt })),
+    ...requests.map((request) => ({ start: request.scheduledStart!, end: request.scheduledEnd! })),
+  ];
+  return buildSlots({ timezone: provider.timezone, slotMinutes: provider.slotMinutes, rules }, busy, range);
+}
+
+/**
+ * Slots a client can still book with the provider. Slots in the past are never offered.
+ */
+export async function getAvailableSlots(providerId: number, range: TimeRange, store: IStorage = storage): Promise<TimeSlot[]> {
+  const provider = await store.getServiceProvider(providerId);
+  if (!provider) {
+    throw new ProviderNotFoundError(providerId);
+  }
+
+  const now = new Date();
+  if (range.to <= now) return [];
+  return freeSlots(provider, { from: range.from > now ? range.from : now, to: range.to }, store);
+}
+
+/**
+ * Claims the slot starting at `start` for a new request. Must run inside a storage
+ * transaction: the provider row stays locked so two clients cannot take the same slot.
+ */
+export async function reserveSlot(providerId: number, start: Date, tx: IStorage): Promise<TimeSlot> {
+  const provider = await tx.lockServiceProvider(providerId);
+  if (!provider) {
+    throw new ProviderNotFoundError(providerId);
+  }
+
+  if (start <= new Date()) {
+    throw new SlotUnavailableError();
+  }
+
+  const end = new Date(start.getTime() + provider.slotMinutes * MINUTE);
+  const [slot] = await freeSlots(provider, { from: start, to: end }, tx);
+  if (!slot || slot.start.getTime() !== start.getTime()) {
+    throw new SlotUnavailableError();
+  }
+  return slot;
+}
+
+/**
+ * Claims an agreed time that need not line up with the weekly schedule, e.g. when rescheduling.
+ * It only has to miss the provider's blocks and the slots of their other live requests.
+ * Same locking rules as reserveSlot.
+ */
+export async function reserveTime(providerId: number, range: TimeRange, tx: IStorage, ignoreRequestId?: number): Promise<void> {
+  const provider = await tx.lockServiceProvider(providerId);
+  if (!provider) {
+    throw new ProviderNotFoundError(providerId);
+  }
+
+  const [exceptions, requests] = await Promise.all([
+    tx.getAvailabilityExceptions(providerId, range),
+    tx.getScheduledServiceRequests(providerId, range, slotHoldingStatuses),
+  ]);
+  if (exceptions.length > 0 || requests.some((request) => request.id !== ignoreRequestId)) {
+    throw new SlotUnavailableError();
+  }
+}
+
+export async function getProviderAvailability(providerId: number): Promise<ProviderAvailability> {
+  const provider = await storage.getServiceProvider(providerId);
+  if (!provider) {
+    throw new ProviderNotFoundError(providerId);
+  }
+
+  // Only blocks that have not ended yet are of interest
+  const [rules, exceptions] = await Promise.all([
+    storage.getAvailabilityRules(providerId),
+    storage.getAvailabilityExceptions(providerId, { from: new Date(), to: new Date(8.64e15) }),
+  ]);
+  return { timezone: provider.timezone, slotMinutes: provider.slotMinutes, rules, exceptions };
+}
+
+async function getOwnProvider(providerId: number, userId: number): Promise<ServiceProvider> {
+  const provider = await storage.getServiceProvider(providerId);
+  if (!provider) {
+    throw new ProviderNotFoundError(providerId);
+  }
+
+  if (provider.userId !== userId) {
+    throw new AvailabilityPermissionError('You can only manage your own availability');
+  }
+  return provider;
+}
+
+/**
+ * Replaces the provider's weekly schedule. Requests already holding a slot keep it.
+ */
+export async function updateAvailabilitySchedule(
+  providerId: number,
+  userId: number,
+  schedule: AvailabilitySchedule
+): Promise<ProviderAvailability> {
+  await getOwnProvider(providerId, userId);
+
+  await storage.transaction(async (tx) => {
+    await tx.updateServiceProvider(providerId, { timezone: schedule.timezone, slotMinutes: schedule.slotMinutes });
+    await tx.replaceAvailabilityRules(providerId, schedule.rules.map((rule) => ({ ...rule, providerId })));
+  });
+  return getProviderAvailability(providerId);
+}
+
+export async function addAvailabilityException(
+  providerId: number,
+  userId: number,
+  exception: Omit<InsertAvailabilityException, 'providerId'>
+): Promise<AvailabilityException> {
+  await getOwnProvider(providerId, userId);
+  return storage.createAvailabilityException({ ...exception, providerId });
+}
+
+export async function removeAvailabilityException(providerId: number, exceptionId: number, userId: number): Promise<void> {
+  await getOwnProvider(providerId, userId);
+
+  const exception = await storage.getAvailabilityException(exceptionId);
+  if (!exception || exception.providerId !== providerId) {
+    throw new AvailabilityExceptionNotFoundError(exceptionId);
+  }
+  await storage.deleteAvailabilityException(exceptionId);
+}
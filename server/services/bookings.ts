@@ -0,0 +1,257 @@
+import { randomBytes } from 'crypto';
+import { storage, type IStorage } from '../storage';
+import { bookingStatuses, serviceRequestStatuses } from '@shared/schema';
+import type { Booking, BookingTime, ServiceRequest } from '@shared/schema';
+import { reserveTime } from './availability';
+import { ServiceRequestNotFoundError } from './service-request-lifecycle';
+import { buildCalendar, type CalendarEvent } from './calendar';
+
+const { ACCEPTED, IN_PROGRESS } = serviceRequestStatuses;
+
+// Work that is agreed but not finished can still be (re)scheduled
+const schedulableStatuses: string[] = [ACCEPTED, IN_PROGRESS];
+
+// Host part of event UIDs; must never change or subscribers would see every booking twice
+const UID_DOMAIN = new URL(process.env.APP_URL || 'http://localhost:3000').hostname;
+
+type BookingParty = 'client' | 'provider';
+
+export class BookingNotFoundError extends Error {
+  status = 404;
+
+  constructor(bookingId: number) {
+    super(`Booking ${bookingId} not found`);
+  }
+}
+
+export class BookingPermissionError extends Error {
+  status = 403;
+}
+
+export class BookingStateError extends Error {
+  status = 409;
+}
+
+async function partyFor(
+  record: { clientId: number; providerId: number },
+  userId: number,
+  store: IStorage
+): Promise<BookingParty | null> {
+  if (record.clientId === userId) return 'client';
+  const provider = await store.getServiceProvider(record.providerId);
+  return provider?.userId === userId ? 'provider' : null;
+}
+
+// Jobs for a task happen at the task's location unless the parties agree otherwise
+async function defaultAddress(request: ServiceRequest, store: IStorage): Promise<string | null> {
+  if (!request.taskId) return null;
+  const task = await store.getTask(request.taskId);
+  return task?.location ?? null;
+}
+
+/**
+ * Books the slot a request was sent with. Called from the request lifecycle when the
+ * request is accepted, inside its transaction. Requests without a slot are scheduled later.
+ */
+export async function bookAcceptedRequest(request: ServiceRequest, tx: IStorage): Promise<Booking | null> {
+  if (!request.scheduledStart || !request.scheduledEnd) return null;
+
+  return tx.createBooking({
+    serviceRequestId: request.id,
+    providerId: request.providerId,
+    clientId: request.clientId,
+    startsAt: request.scheduledStart,
+    endsAt: request.scheduledEnd,
+    address: await defaultAddress(request, tx),
+  });
+}
+
+// Called from the request lifecycle when the request itself is cancelled
+export async function cancelRequestBooking(requestId: number, tx: IStorage): Promise<Booking | null> {
+  const booking = await tx.getBookingByServiceRequest(requestId);
+  if (!booking || booking.status !== bookingStatuses.CONFIRMED) return null;
+
+  return (await tx.updateBooking(booking.id, {
+    status: bookingStatuses.CANCELLED,
+    sequence: booking.sequence + 1,
+    updatedAt: new Date(),
+  })) ?? null;
+}
+
+/**
+ * Puts an accepted request without an appointment in the calendar. A previously
+ * cancelled booking is revived so calendar apps keep treating it as the same event.
+ */
+export async function scheduleBooking(requestId: number, userId: number, time: BookingTime): Promise<Booking> {
+  return storage.transaction(async (tx) => {
+    const request = await tx.getServiceRequest(requestId);
+    if (!request) {
+      throw new ServiceRequestNotFoundError(requestId);
+    }
+
+    if (!(await partyFor(request, userId, tx))) {
+      throw new BookingPermissionError('You can only schedule your own requests');
+    }
+
+    if (!schedulableStatuses.includes(request.status)) {
+      throw new BookingStateError(`Cannot schedule a service request that is "${request.status}"`);
+    }
+
+    const existing = await tx.getBookingByServiceRequest(requestId);
+    if (existing?.status === bookingStatuses.CONFIRMED) {
+      throw new BookingStateError('This request is already booked; reschedule the booking instead');
+    }
+
+    await reserveTime(request.providerId, { from: time.startsAt, to: time.endsAt }, tx, request.id);
+    await tx.updateServiceRequest(request.id, { scheduledStart: time.startsAt, scheduledEnd: time.endsAt });
+
+    const address = time.address ?? (await defaultAddress(request, tx));
+    if (existing) {
+      const revived = await tx.updateBooking(existing.id, {
+        startsAt: time.startsAt,
+        endsAt: time.endsAt,
+        address,
+        status: bookingStatuses.CONFIRMED,
+        sequence: existing.sequence + 1,
+        updatedAt: new Date(),
+      });
+      return revived!;
+    }
+
+    return tx.createBooking({
+      serviceRequestId: request.id,
+      providerId: request.providerId,
+      clientId: request.clientId,
+      startsAt: time.startsAt,
+      endsAt: time.endsAt,
+      address,
+    });
+  });
+}
+
+async function getOwnBooking(bookingId: number, userId: number, store: IStorage): Promise<Booking> {
+  const booking = await store.getBooking(bookingId);
+  if (!booking) {
+    throw new BookingNotFoundError(bookingId);
+  }
+
+  if (!(await partyFor(booking, userId, store))) {
+    throw new BookingPermissionError('You can only manage your own bookings');
+  }
+  return booking;
+}
+
+/**
+ * Moves a booking to a new time. Either party may do this; the provider's schedule is not
+ * enforced since the new time is assumed to be agreed, but it must not clash with other jobs.
+ */
+export async function rescheduleBooking(bookingId: number, userId: number, time: BookingTime): Promise<Booking> {
+  return storage.transaction(async (tx) => {
+    const booking = await getOwnBooking(bookingId, userId, tx);
+    if (booking.status !== bookingStatuses.CONFIRMED) {
+      throw new BookingStateError('Cancelled bookings cannot be rescheduled');
+    }
+
+    const request = await tx.getServiceRequest(booking.serviceRequestId);
+    if (!request || !schedulableStatuses.includes(request.status)) {
+      throw new BookingStateError('This job can no longer be rescheduled');
+    }
+
+    await reserveTime(booking.providerId, { from: time.startsAt, to: time.endsAt }, tx, request.id);
+    await tx.updateServiceRequest(request.id, { scheduledStart: time.startsAt, scheduledEnd: time.endsAt });
+
+    const updated = await tx.updateBooking(booking.id, {
+      startsAt: time.startsAt,
+      endsAt: time.endsAt,
+      // Leaving the address out keeps the current one
+      ...(time.address !== undefined ? { address: time.address } : {}),
+      sequence: booking.sequence + 1,
+      updatedAt: new Date(),
+    });
+    return updated!;
+  });
+}
+
+/**
+ * Cancels the appointment but not the job; the request stays accepted and can be booked again.
+ */
+export async function cancelBooking(bookingId: number, userId: number): Promise<Booking> {
+  return storage.transaction(async (tx) => {
+    const booking = await getOwnBooking(bookingId, userId, tx);
+    if (booking.status !== bookingStatuses.CONFIRMED) {
+      throw new BookingStateError('This booking is already cancelled');
+    }
+
+    // Frees the slot for other clients
+    await tx.updateServiceRequest(booking.serviceRequestId, { scheduledStart: null, scheduledEnd: null });
+
+    const updated = await tx.updateBooking(booking.id, {
+      status: bookingStatuses.CANCELLED,
+      sequence: booking.sequence + 1,
+      updatedAt: new Date(),
+    });
+    return updated!;
+  });
+}
+
+// Both parties see the same UID; only the wording differs
+async function toCalendarEvent(booking: Booking, viewer: BookingParty): Promise<CalendarEvent> {
+  const request = await storage.getServiceRequest(booking.serviceRequestId);
+  const task = request?.taskId ? await storage.getTask(request.taskId) : undefined;
+  const provider = await storage.getServiceProviderWithUser(booking.providerId);
+  const client = await storage.getUser(booking.clientId);
+
+  const job = task?.title ?? provider?.category.name ?? 'Service appointment';
+  const otherParty = viewer === 'provider'
+    ? client && `${client.firstName} ${client.lastName}`
+    : provider && `${provider.user.firstName} ${provider.user.lastName}`;
+
+  return {
+    uid: `booking-${booking.id}@${UID_DOMAIN}`,
+    sequence: booking.sequence,
+    status: booking.status === bookingStatuses.CANCELLED ? 'CANCELLED' : 'CONFIRMED',
+    start: booking.startsAt,
+    end: booking.endsAt,
+    summary: otherParty ? `${job} with ${otherParty}` : job,
+    description: task?.description ?? request?.message,
+    location: booking.address,
+    updatedAt: booking.updatedAt ?? booking.createdAt ?? new Date(),
+  };
+}
+
+// A single booking as a downloadable .ics file
+export async function getBookingCalendar(bookingId: number, userId: number): Promise<string> {
+  const booking = await getOwnBooking(bookingId, userId, storage);
+  const viewer = (await partyFor(booking, userId, storage))!;
+  return buildCalendar('Find My Helper booking', [await toCalendarEvent(booking, viewer)]);
+}
+
+/**
+ * Every booking of the feed owner that has not ended yet, whether they are the client or
+ * the provider. Returns null for unknown tokens.
+ */
+export async function getCalendarFeed(token: string): Promise<string | null> {
+  const user = await storage.getUserByCalendarToken(token);
+  if (!user) return null;
+
+  const provider = await storage.getServiceProviderByUserId(user.id);
+  const bookings = await storage.getUpcomingBookings({ clientId: user.id, providerId: provider?.id }, new Date());
+  const events = await Promise.all(
+    bookings.map((booking) => toCalendarEvent(booking, booking.clientId === user.id ? 'client' : 'provider'))
+  );
+  return buildCalendar('Find My Helper', events);
+}
+
+/**
+ * The user's feed token, created on first use. Resetting it breaks existing subscriptions.
+ */
+export async function getCalendarFeedToken(userId: number, reset = false): Promise<string> {
+  const user = await storage.getUser(userId);
+  if (user?.calendarToken && !reset) {
+    return user.calendarToken;
+  }
+
+  const calendarToken = randomBytes(24).toString('hex');
+  await storage.updateUser(userId, { calendarToken });
+  return calendarToken;
+}
@@ -0,0 +1,118 @@
+import { storage, type TimeRange } from '../storage';
+import type { EarningsPeriod, EarningsPeriodLength, EarningsSummary, PaymentHold } from '@shared/schema';
+import { zonedDay, zonedTimeToUtc } from './availability';
+import { getOwnProvider } from './payouts';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// How many periods the dashboard chart shows
+export const EARNINGS_PERIOD_COUNT = 12;
+
+// Longest range a statement can cover
+export const MAX_STATEMENT_DAYS = 366;
+
+// First day of the week (Monday) or month containing the day; both as midnight UTC
+function periodStart(day: number, period: EarningsPeriodLength): number {
+  const date = new Date(day);
+  return period === 'month'
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)
+    : day - ((date.getUTCDay() + 6) % 7) * DAY;
+}
+
+function previousPeriodStart(start: number, period: EarningsPeriodLength): number {
+  const date = new Date(start);
+  return period === 'month'
+    ? Date.UTC(date.getUTCFullYear(), date.getUTCMonth() - 1, 1)
+    : start - 7 * DAY;
+}
+
+function formatDay(day: number): string {
+  return new Date(day).toISOString().slice(0, 10);
+}
+
+function emptyPeriod(start: string): EarningsPeriod {
+  return { start, jobs: 0, grossCents: 0, feeCents: 0, netCents: 0 };
+}
+
+function addHold(period: Omit<EarningsPeriod, 'start'>, hold: PaymentHold) {
+  period.jobs++;
+  period.grossCents += hold.amountCents;
+  period.feeCents += hold.feeCents;
+  period.netCents += hold.amountCents - hold.feeCents;
+}
+
+/**
+ * The provider's earnings from jobs paid through the platform, bucketed into the last
+ * weeks or months in their own timezone. A job counts when its payment is released.
+ */
+export async function getEarnings(userId: number, period: EarningsPeriodLength, now: Date = new Date()): Promise<EarningsSummary> {
+  const provider = await getOwnProvider(userId);
+  const timezone = provider.timezone;
+
+  const starts = [periodStart(zonedDay(now.getTime(), timezone), period)];
+  while (starts.length < EARNINGS_PERIOD_COUNT) {
+    starts.unshift(previousPeriodStart(starts[0], period));
+  }
+
+  const range: TimeRange = { from: new Date(zonedTimeToUtc(starts[0], 0, timezone)), to: new Date(now.getTime() + 1) };
+  const holds = await storage.getReleasedPaymentHolds(provider.id, range);
+
+  const periods = new Map(starts.map((start) => [start, emptyPeriod(formatDay(start))]));
+  const totals = { jobs: 0, grossCents: 0, feeCents: 0, netCents: 0 };
+  for (const hold of holds) {
+    const start = periodStart(zonedDay(hold.settledAt!.getTime(), timezone), period);
+    const bucket = periods.get(start);
+    if (!bucket) continue;
+
+    addHold(bucket, hold);
+    addHold(totals, hold);
+  }
+
+  return { period, periods: Array.from(periods.values()), totals };
+}
+
+// Quotes fields that need it, and defuses values spreadsheets would run as formulas
+function csvField(value: string | number): string {
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function dollars(cents: number): string {
+  return (cents / 100).toFixed(2);
+}
+
+/**
+ * One row per job paid out between two dates, plus a totals row, as CSV. Both the
+ * range ("2026-03-01" to "2026-03-31", inclusive) and the row dates are in the provider's timezone.
+ */
+export async function getEarningsStatement(userId: number, fromDate: string, toDate: string): Promise<string> {
+  const provider = await getOwnProvider(userId);
+  const range: TimeRange = {
+    from: new Date(zonedTimeToUtc(Date.parse(fromDate), 0, provider.timezone)),
+    to: new Date(zonedTimeToUtc(Date.parse(toDate) + DAY, 0, provider.timezone)),
+  };
+  const holds = await storage.getReleasedPaymentHolds(provider.id, range);
+
+  const rows: (string | number)[][] = [['Date', 'Service request', 'Job', 'Gross', 'Platform fee', 'Net']];
+  const totals = { jobs: 0, grossCents: 0, feeCents: 0, netCents: 0 };
+  for (const hold of holds) {
+    const request = await storage.getServiceRequest(hold.serviceRequestId);
+    const task = request?.taskId ? await storage.getTask(request.taskId) : undefined;
+
+    rows.push([
+      formatDay(zonedDay(hold.settledAt!.getTime(), provider.timezone)),
+      hold.serviceRequestId,
+      task?.title ?? request?.message ?? '',
+      dollars(hold.amountCents),
+      dollars(hold.feeCents),
+      dollars(hold.amountCents - hold.feeCents),
+    ]);
+    addHold(totals, hold);
+  }
+  rows.push(['Total', '', `${totals.jobs} jobs`, dollars(totals.grossCents), dollars(totals.feeCents), dollars(totals.netCents)]);
+
+  return rows.map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
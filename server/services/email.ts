@@ -23,8 +23,8 @@ async function createTestAccount() {
   });
 }
 
-// Initialize the transporter
-createTestAccount();
+// Initialize the transporter; offline (e.g. in tests) sending fails later instead of crashing the process
+createTestAccount().catch((error) => console.error('Failed to create Ethereal test account:', error));
 
 export function generateVerificationToken(): string {
   return randomBytes(32).toString('hex');
@@ -92,4 +92,96 @@ export async function sendLoginVerificationEmail(email: string, token: string) {
   }
 
   return info;
-} 
\ No newline at end of file
+} 
+export async function sendPasswordResetEmail(email: string, token: string) {
+  const resetUrl = `${process.env.APP_URL || 'http://localhost:3000'}/reset-password?token=${token}`;
+
+  const info = await transporter.sendMail({
+    from: '"Find My Helper" <noreply@findmyhelper.com>',
+    to: email,
+    subject: "Reset your password",
+    text: `Reset your password by clicking on the following link: ${resetUrl}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>Reset Your Password</h2>
+        <p>Someone asked to reset the password for your Find My Helper account. Click the button below to choose a new one:</p>
+        <a href="${resetUrl}" style="display: inline-block; background-color: #0070f3; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; margin: 20px 0;">
+          Reset Password
+        </a>
+        <p>Or copy and paste this link in your browser:</p>
+        <p>${resetUrl}</p>
+        <p>This link will expire in 1 hour and can only be used once. Resetting your password signs you out everywhere.</p>
+        <p>If you didn't ask to reset your password, please ignore this email.</p>
+      </div>
+    `,
+  });
+
+  if (process.env.NODE_ENV === 'development') {
+    console.log('Preview URL: %s', nodemailer.getTestMessageUrl(info));
+  }
+
+  return info;
+}
+
+// Notification text contains user input (task titles, message previews)
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export async function sendNotificationEmail(email: string, title: string, message: string) {
+  const appUrl = process.env.APP_URL || 'http://localhost:3000';
+
+  const info = await transporter.sendMail({
+    from: '"Find My Helper" <noreply@findmyhelper.com>',
+    to: email,
+    subject: title,
+    text: `${message}\n\nView it on Find My Helper: ${appUrl}`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>${escapeHtml(title)}</h2>
+        <p>${escapeHtml(message)}</p>
+        <a href="${appUrl}" style="display: inline-block; background-color: #0070f3; color: white; padding: 12px 24px; text-decoration: none; border-radius: 5px; margin: 20px 0;">
+          Open Find My Helper
+        </a>
+        <p>You can change which emails you receive in your notification settings.</p>
+      </div>
+    `,
+  });
+
+  if (process.env.NODE_ENV === 'development') {
+    console.log('Preview URL: %s', nodemailer.getTestMessageUrl(info));
+  }
+
+  return info;
+}
+
+// Sends an invoice or credit note with its PDF attached
+export async function sendInvoiceEmail(email: string, invoice: { number: string; kind: string }, pdf: Buffer) {
+  const document = invoice.kind === 'credit_note' ? 'Credit note' : 'Invoice';
+
+  const info = await transporter.sendMail({
+    from: '"Find My Helper" <noreply@findmyhelper.com>',
+    to: email,
+    subject: `${document} ${invoice.number}`,
+    text: `${document} ${invoice.number} is attached. You can also download it from your dashboard.`,
+    html: `
+      <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+        <h2>${document} ${escapeHtml(invoice.number)}</h2>
+        <p>Your ${document.toLowerCase()} is attached as a PDF. You can also download it from your dashboard at any time.</p>
+      </div>
+    `,
+    attachments: [
+      { filename: `${invoice.number}.pdf`, content: pdf, contentType: 'application/pdf' },
+    ],
+  });
+
+  if (process.env.NODE_ENV === 'development') {
+    console.log('Preview URL: %s', nodemailer.getTestMessageUrl(info));
+  }
+
+  return info;
+}
@@ -0,0 +1,110 @@
+import { randomUUID } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { storage } from '../storage';
+import { paymentHoldStatuses, quotePricingTypes, serviceRequestStatuses } from '@shared/schema';
+import { getAvailableBalance, PLATFORM_FEE_RATE, settlePendingHolds } from './escrow';
+import { FakePaymentGateway, PaymentDeclinedError, setPaymentGateway } from './payment-gateway';
+import { performServiceRequestAction } from './service-request-lifecycle';
+
+let gateway: FakePaymentGateway;
+
+async function createUser(isServiceProvider = false) {
+  const name = randomUUID().slice(0, 8);
+  return storage.createUser({
+    username: name,
+    email: `${name}@example.com`,
+    password: 'unused',
+    firstName: 'Test',
+    lastName: 'User',
+    isServiceProvider,
+  } as Parameters<typeof storage.createUser>[0]);
+}
+
+// A provider's fixed-price offer to a client, waiting for the client to accept it
+async function quotedOffer(amount: number) {
+  const client = await createUser();
+  const providerUser = await createUser(true);
+  const category = await storage.createServiceCategory({ name: `Category ${randomUUID()}` });
+  const provider = await storage.createServiceProvider({
+    userId: providerUser.id,
+    categoryId: category.id,
+    hourlyRate: 50,
+  } as Parameters<typeof storage.createServiceProvider>[0]);
+  const request = await storage.createServiceRequest({
+    providerId: provider.id,
+    clientId: client.id,
+    initiatedBy: 'provider',
+  } as Parameters<typeof storage.createServiceRequest>[0]);
+  await storage.createQuote({ serviceRequestId: request.id, amount, pricingType: quotePricingTypes.FIXED });
+
+  return { client, providerUser, provider, request };
+}
+
+beforeEach(() => {
+  gateway = new FakePaymentGateway();
+  setPaymentGateway(gateway);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('escrow', () => {
+  it('authorizes a quoted offer before holding its funds on acceptance', async () => {
+    const { client, request } = await quotedOffer(200);
+    const authorize = vi.spyOn(gateway, 'authorize');
+
+    await performServiceRequestAction(request.id, 'accept', client.id);
+
+    const hold = await storage.getPaymentHoldByServiceRequest(request.id);
+    expect(hold).toMatchObject({ status: paymentHoldStatuses.HELD, amountCents: 20000 });
+    expect(hold?.authorizationId).toBeTruthy();
+    expect(authorize).toHaveBeenCalledOnce();
+    expect(authorize.mock.calls[0][0].idempotencyKey).toBe(`payment-hold-${hold!.id}-authorize`);
+  });
+
+  it('leaves the offer pending and drops the hold when the payment is declined', async () => {
+    // The fake gateway declines anything over $10,000
+    const { client, request } = await quotedOffer(20_000);
+
+    await expect(performServiceRequestAction(request.id, 'accept', client.id)).rejects.toThrow(PaymentDeclinedError);
+
+    expect((await storage.getServiceRequest(request.id))?.status).toBe(serviceRequestStatuses.PENDING);
+    expect(await storage.getPaymentHoldByServiceRequest(request.id)).toBeUndefined();
+  });
+
+  it('completes the job when the capture fails and settles the release on retry', async () => {
+    const { client, providerUser, provider, request } = await quotedOffer(100);
+    await performServiceRequestAction(request.id, 'accept', client.id);
+    await performServiceRequestAction(request.id, 'start', providerUser.id);
+
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const capture = vi.spyOn(gateway, 'capture').mockRejectedValueOnce(new Error('gateway timeout'));
+    const completed = await performServiceRequestAction(request.id, 'complete', client.id);
+
+    expect(completed.status).toBe(serviceRequestStatuses.COMPLETED);
+    expect((await storage.getPaymentHoldByServiceRequest(request.id))?.status).toBe(paymentHoldStatuses.RELEASING);
+    expect(await getAvailableBalance(provider.id, storage)).toBe(0);
+
+    expect(await settlePendingHolds()).toBeGreaterThanOrEqual(1);
+    const hold = await storage.getPaymentHoldByServiceRequest(request.id);
+    expect(hold?.status).toBe(paymentHoldStatuses.RELEASED);
+    expect(capture.mock.calls.map(([, , key]) => key)).toEqual([
+      `payment-hold-${hold!.id}-capture`,
+      `payment-hold-${hold!.id}-capture`,
+    ]);
+    expect(await getAvailableBalance(provider.id, storage)).toBe(10000 - Math.round(10000 * PLATFORM_FEE_RATE));
+  });
+
+  it('voids the authorization after a cancellation commits', async () => {
+    const { client, request } = await quotedOffer(80);
+    await performServiceRequestAction(request.id, 'accept', client.id);
+    const voidAuthorization = vi.spyOn(gateway, 'voidAuthorization');
+
+    await performServiceRequestAction(request.id, 'cancel', client.id);
+
+    const hold = await storage.getPaymentHoldByServiceRequest(request.id);
+    expect(hold?.status).toBe(paymentHoldStatuses.REFUNDED);
+    expect(voidAuthorization).toHaveBeenCalledWith(hold!.authorizationId, `payment-hold-${hold!.id}-void`);
+  });
+});
@@ -0,0 +1,337 @@
+import { storage, type IStorage, type JournalEntryWithPostings } from '../storage';
+import { journalEntryKinds, ledgerAccountTypes, paymentHoldStatuses } from '@shared/schema';
+import type {
+  InsertLedgerPosting,
+  LedgerAccount,
+  LedgerAccountType,
+  PaymentBalances,
+  PaymentHold,
+  PaymentTransaction,
+  ServiceRequest,
+} from '@shared/schema';
+import { getPaymentGateway, PaymentDeclinedError } from './payment-gateway';
+import { estimatedTotal } from './quotes';
+import { salesTaxCents } from './invoices';
+
+// Share of each job the platform keeps, e.g. PLATFORM_FEE_PERCENT=12.5
+export const PLATFORM_FEE_RATE = Number(process.env.PLATFORM_FEE_PERCENT ?? 10) / 100;
+
+const { GATEWAY, ESCROW, PLATFORM_FEES, PROVIDER } = ledgerAccountTypes;
+const { AUTHORIZING, HELD, RELEASING, RELEASED, REFUNDING, REFUNDED } = paymentHoldStatuses;
+
+// How often to retry captures and voids that failed after their transaction committed
+const SETTLEMENT_RETRY_INTERVAL_MS = 5 * 60 * 1000;
+
+export function toCents(amount: number): number {
+  return Math.round(amount * 100);
+}
+
+// Ledger accounts are created the first time money moves through them
+export async function getAccount(
+  code: string,
+  type: LedgerAccountType,
+  tx: IStorage,
+  userId: number | null = null
+): Promise<LedgerAccount> {
+  return (await tx.getLedgerAccount(code)) ?? tx.createLedgerAccount({ code, type, userId });
+}
+
+export function providerAccountCode(providerId: number): string {
+  return `${PROVIDER}:${providerId}`;
+}
+
+export async function getProviderAccount(providerId: number, tx: IStorage): Promise<LedgerAccount> {
+  const provider = await tx.getServiceProvider(providerId);
+  return getAccount(providerAccountCode(providerId), PROVIDER, tx, provider?.userId ?? null);
+}
+
+// What the platform owes the provider: released earnings not yet paid out
+export async function getAvailableBalance(providerId: number, store: IStorage): Promise<number> {
+  const account = await store.getLedgerAccount(providerAccountCode(providerId));
+  // Credits are negative, so flip the sign to get what is owed
+  return account ? -(await store.getAccountBalance(account.id)) : 0;
+}
+
+// Each gateway call on a hold has one key, so repeating it never moves the money twice
+function gatewayKey(hold: PaymentHold, operation: 'authorize' | 'capture' | 'void'): string {
+  return `payment-hold-${hold.id}-${operation}`;
+}
+
+/**
+ * Records a pending hold for the quoted price plus sales tax, before the gateway is asked for anything.
+ * Returns null for requests without a quote, which are settled off-platform. A hold left
+ * pending by an earlier attempt is returned as is, so retrying reuses its authorization.
+ */
+export async function reserveFundsForQuote(request: ServiceRequest, tx: IStorage): Promise<PaymentHold | null> {
+  const existing = await tx.getPaymentHoldByServiceRequest(request.id);
+  if (existing) return existing;
+
+  const quote = await tx.getQuoteByServiceRequest(request.id);
+  if (!quote) return null;
+
+  const priceCents = toCents(estimatedTotal(quote));
+  if (priceCents <= 0) return null;
+
+  // The client pays the tax on top, as the invoice shows; the provider collects it and the fee is on the price alone
+  return tx.createPaymentHold({
+    serviceRequestId: request.id,
+    clientId: request.clientId,
+    providerId: request.providerId,
+    amountCents: priceCents + salesTaxCents(priceCents),
+    feeCents: Math.round(priceCents * PLATFORM_FEE_RATE),
+  });
+}
+
+/**
+ * Authorizes a pending hold on the client's payment method. Call once the hold has been
+ * committed and outside any transaction. A declined payment drops the hold, so the next
+ * attempt starts afresh; any other failure leaves it pending for a retry.
+ */
+export async function authorizeHold(hold: PaymentHold, store: IStorage = storage): Promise<PaymentHold> {
+  if (hold.status !== AUTHORIZING || hold.authorizationId) return hold;
+
+  let authorizationId: string;
+  try {
+    ({ authorizationId } = await getPaymentGateway().authorize({
+      amountCents: hold.amountCents,
+      customerId: hold.clientId,
+      reference: `service-request-${hold.serviceRequestId}`,
+      idempotencyKey: gatewayKey(hold, 'authorize'),
+    }));
+  } catch (err) {
+    if (err instanceof PaymentDeclinedError) {
+      await store.deletePaymentHold(hold.id, AUTHORIZING);
+    }
+    throw err;
+  }
+
+  return (await store.updatePaymentHoldStatus(hold.id, AUTHORIZING, { authorizationId })) ?? hold;
+}
+
+/**
+ * Gives up on a hold whose acceptance failed: drops it and voids its authorization. Does
+ * nothing once the hold has moved on, e.g. because a concurrent acceptance went through.
+ */
+export async function abandonHold(hold: PaymentHold, store: IStorage = storage): Promise<void> {
+  const current = await store.getPaymentHoldByServiceRequest(hold.serviceRequestId);
+  if (!current || current.id !== hold.id || !(await store.deletePaymentHold(hold.id, AUTHORIZING))) return;
+
+  if (current.authorizationId) {
+    await getPaymentGateway()
+      .voidAuthorization(current.authorizationId, gatewayKey(current, 'void'))
+      .catch((err) => console.error(`Failed to void the authorization for payment hold ${hold.id}:`, err));
+  }
+}
+
+/**
+ * Moves the authorized funds into escrow. Called from the request lifecycle inside the
+ * acceptance transaction, after authorizeHold; requests without a hold need no funds.
+ */
+export async function holdFundsForQuote(request: ServiceRequest, tx: IStorage): Promise<PaymentHold | null> {
+  const hold = await tx.getPaymentHoldByServiceRequest(request.id);
+  if (!hold) return null;
+
+  const held = hold.authorizationId ? await tx.updatePaymentHoldStatus(hold.id, AUTHORIZING, { status: HELD }) : undefined;
+  if (!held) {
+    throw new Error(`Payment hold ${hold.id} has not been authorized`);
+  }
+
+  const gatewayAccount = await getAccount(GATEWAY, GATEWAY, tx);
+  const escrowAccount = await getAccount(ESCROW, ESCROW, tx);
+  await tx.createJournalEntry(
+    { kind: journalEntryKinds.HOLD, description: `Funds held for request #${request.id}`, holdId: held.id },
+    [
+      { accountId: gatewayAccount.id, amountCents: held.amountCents },
+      { accountId: escrowAccount.id, amountCents: -held.amountCents },
+    ]
+  );
+  return held;
+}
+
+/**
+ * Marks the held funds for release when the client confirms completion. Runs inside the
+ * lifecycle transaction; settleHold captures them once that transaction has committed.
+ */
+export async function releaseHeldFunds(requestId: number, tx: IStorage): Promise<PaymentHold | null> {
+  const hold = await tx.getPaymentHoldByServiceRequest(requestId);
+  if (!hold) return null;
+  return (await tx.updatePaymentHoldStatus(hold.id, HELD, { status: RELEASING })) ?? null;
+}
+
+// Marks the held funds for return to the client when the job is cancelled; settleHold voids them
+export async function refundHeldFunds(requestId: number, tx: IStorage): Promise<PaymentHold | null> {
+  const hold = await tx.getPaymentHoldByServiceRequest(requestId);
+  if (!hold) return null;
+  return (await tx.updatePaymentHoldStatus(hold.id, HELD, { status: REFUNDING })) ?? null;
+}
+
+/**
+ * Finishes a release or refund: captures or voids the authorization, then books the ledger
+ * entry and marks the hold settled. A release credits the provider their share and the
+ * platform its fee out of escrow; a refund returns the whole amount to the gateway.
+ * Call outside any transaction; if the gateway fails the hold stays pending and
+ * settlePendingHolds tries again.
+ */
+export async function settleHold(hold: PaymentHold, store: IStorage = storage): Promise<PaymentHold | null> {
+  const authorizationId = hold.authorizationId!;
+
+  if (hold.status === RELEASING) {
+    await getPaymentGateway().capture(authorizationId, hold.amountCents, gatewayKey(hold, 'capture'));
+
+    return store.transaction(async (tx) => {
+      const released = await tx.updatePaymentHoldStatus(hold.id, RELEASING, { status: RELEASED, settledAt: new Date() });
+      if (!released) return null;
+
+      const escrowAccount = await getAccount(ESCROW, ESCROW, tx);
+      const providerAccount = await getProviderAccount(hold.providerId, tx);
+      const feesAccount = await getAccount(PLATFORM_FEES, PLATFORM_FEES, tx);
+      const postings: InsertLedgerPosting[] = [
+        { accountId: escrowAccount.id, amountCents: hold.amountCents },
+        { accountId: providerAccount.id, amountCents: -(hold.amountCents - hold.feeCents) },
+      ];
+      if (hold.feeCents > 0) {
+        postings.push({ accountId: feesAccount.id, amountCents: -hold.feeCents });
+      }
+
+      await tx.createJournalEntry(
+        {
+          kind: journalEntryKinds.RELEASE,
+          description: `Payment released for request #${hold.serviceRequestId}`,
+          holdId: hold.id,
+        },
+        postings
+      );
+      return released;
+    });
+  }
+
+  if (hold.status === REFUNDING) {
+    await getPaymentGateway().voidAuthorization(authorizationId, gatewayKey(hold, 'void'));
+
+    return store.transaction(async (tx) => {
+      const refunded = await tx.updatePaymentHoldStatus(hold.id, REFUNDING, { status: REFUNDED, settledAt: new Date() });
+      if (!refunded) return null;
+
+      const escrowAccount = await getAccount(ESCROW, ESCROW, tx);
+      const gatewayAccount = await getAccount(GATEWAY, GATEWAY, tx);
+      await tx.createJournalEntry(
+        {
+          kind: journalEntryKinds.REFUND,
+          description: `Refund for cancelled request #${hold.serviceRequestId}`,
+          holdId: hold.id,
+        },
+        [
+          { accountId: escrowAccount.id, amountCents: hold.amountCents },
+          { accountId: gatewayAccount.id, amountCents: -hold.amountCents },
+        ]
+      );
+      return refunded;
+    });
+  }
+
+  return null;
+}
+
+// Retries every release or refund whose gateway call hasn't been confirmed. Returns how many settled.
+export async function settlePendingHolds(): Promise<number> {
+  let settled = 0;
+  for (const hold of await storage.getPaymentHoldsByStatus([RELEASING, REFUNDING])) {
+    try {
+      if (await settleHold(hold)) settled++;
+    } catch (err) {
+      console.error(`Settling payment hold ${hold.id} failed:`, err);
+    }
+  }
+  return settled;
+}
+
+export function startHoldSettlement() {
+  const timer = setInterval(() => {
+    settlePendingHolds().catch((err) => console.error('Settling pending payment holds failed:', err));
+  }, SETTLEMENT_RETRY_INTERVAL_MS);
+  // Don't keep the process alive just for retries
+  timer.unref();
+  return timer;
+}
+
+function sumCents(holds: PaymentHold[], statuses: string[], amount: (hold: PaymentHold) => number): number {
+  return holds.filter((hold) => statuses.includes(hold.status)).reduce((sum, hold) => sum + amount(hold), 0);
+}
+
+// Funds stay in escrow until the gateway confirms their capture or void
+const inEscrow = [HELD, RELEASING, REFUNDING];
+
+/**
+ * The user's money as a client and, if they are a provider, as a provider.
+ * A provider's available balance is what the ledger says the platform owes them.
+ */
+export async function getBalances(userId: number): Promise<PaymentBalances> {
+  const provider = await storage.getServiceProviderByUserId(userId);
+  const holds = await storage.getPaymentHolds({ clientId: userId, providerId: provider?.id });
+
+  const clientHolds = holds.filter((hold) => hold.clientId === userId);
+  const gross = (hold: PaymentHold) => hold.amountCents;
+  const balances: PaymentBalances = {
+    client: {
+      heldCents: sumCents(clientHolds, inEscrow, gross),
+      paidCents: sumCents(clientHolds, [RELEASED], gross),
+      refundedCents: sumCents(clientHolds, [REFUNDED], gross),
+    },
+    provider: null,
+  };
+
+  if (provider) {
+    const providerHolds = holds.filter((hold) => hold.providerId === provider.id);
+    balances.provider = {
+      pendingCents: sumCents(providerHolds, inEscrow, (hold) => hold.amountCents - hold.feeCents),
+      availableCents: await getAvailableBalance(provider.id, storage),
+    };
+  }
+
+  return balances;
+}
+
+/**
+ * Ledger entries touching the user's holds and payouts, newest first. Amounts are from the
+ * user's side: a client sees held funds leave and refunds come back, a provider sees releases
+ * come in and payouts leave for their bank.
+ */
+export async function getTransactionHistory(
+  userId: number,
+  options: { limit: number; offset: number }
+): Promise<PaymentTransaction[]> {
+  const provider = await storage.getServiceProviderByUserId(userId);
+  const holds = await storage.getPaymentHolds({ clientId: userId, providerId: provider?.id });
+  const holdsById = new Map(holds.map((hold) => [hold.id, hold]));
+  const payouts = provider ? await storage.getPayouts(provider.id) : [];
+  const providerAccount = provider ? await storage.getLedgerAccount(providerAccountCode(provider.id)) : undefined;
+  const providerAmount = (entry: JournalEntryWithPostings) => -entry.postings
+    .filter((posting) => posting.accountId === providerAccount?.id)
+    .reduce((sum, posting) => sum + posting.amountCents, 0);
+
+  const entries = await storage.getJournalEntries(
+    { holdIds: Array.from(holdsById.keys()), payoutIds: payouts.map((payout) => payout.id) },
+    options
+  );
+  return entries.map((entry) => {
+    const hold = entry.holdId !== null ? holdsById.get(entry.holdId) : undefined;
+
+    let amountCents: number;
+    if (hold?.clientId === userId) {
+      amountCents = entry.kind === journalEntryKinds.HOLD ? -hold.amountCents
+        : entry.kind === journalEntryKinds.REFUND ? hold.amountCents
+        : 0;
+    } else {
+      amountCents = providerAmount(entry);
+    }
+
+    return {
+      id: entry.id,
+      kind: entry.kind as PaymentTransaction['kind'],
+      description: entry.description,
+      serviceRequestId: hold?.serviceRequestId ?? null,
+      amountCents,
+      createdAt: entry.createdAt,
+    };
+  });
+}
@@ -0,0 +1,106 @@
+import { postalCodeCentroids } from '../data/postal-codes';
+import type { BoundingBox } from '../storage';
+
+export type GeoPoint = {
+  latitude: number;
+  longitude: number;
+};
+
+export type GeocodedLocation = GeoPoint & {
+  postalCode: string;
+  label: string;
+};
+
+const EARTH_RADIUS_KM = 6371;
+
+// Upper bound on any search or service radius
+export const MAX_SEARCH_RADIUS_KM = 100;
+export const DEFAULT_SEARCH_RADIUS_KM = 25;
+
+export class UnknownLocationError extends Error {
+  status = 400;
+
+  constructor(location: string) {
+    super(`We couldn't find "${location}". Try a postal code or city name.`);
+  }
+}
+
+type Centroid = GeocodedLocation & { place: string };
+
+const centroidsByPostalCode = new Map<string, Centroid>(
+  postalCodeCentroids.map(([postalCode, place, state, latitude, longitude]) => [
+    postalCode,
+    { postalCode, place: place.toLowerCase(), label: `${place}, ${state} ${postalCode}`, latitude, longitude },
+  ])
+);
+
+// Accepts ZIP and ZIP+4 forms
+export function normalizePostalCode(value: string): string | null {
+  const match = value.trim().match(/^(\d{5})(?:-\d{4})?$/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Resolves a postal code, or failing that a place name ("Austin" or "Austin, TX"),
+ * to coordinates using the bundled centroid table. Returns null when unknown.
+ */
+export function geocode(query: string): GeocodedLocation | null {
+  const postalCode = normalizePostalCode(query);
+  if (postalCode) {
+    const centroid = centroidsByPostalCode.get(postalCode);
+    return centroid ? toLocation(centroid) : null;
+  }
+
+  const [place, state] = query.split(',').map((part) => part.trim().toLowerCase());
+  if (!place) return null;
+
+  for (const centroid of Array.from(centroidsByPostalCode.values())) {
+    if (centroid.place === place && (!state || centroid.label.toLowerCase().includes(`, ${state} `))) {
+      return toLocation(centroid);
+    }
+  }
+
+  return null;
+}
+
+function toLocation({ postalCode, label, latitude, longitude }: Centroid): GeocodedLocation {
+  return { postalCode, label, latitude, longitude };
+}
+
+function toRadians(degrees: number) {
+  return (degrees * Math.PI) / 180;
+}
+
+// Great-circle distance using the haversine formula
+export function distanceKm(from: GeoPoint, to: GeoPoint): number {
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLng = toRadians(to.longitude - from.longitude);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+}
+
+// Smallest lat/lng rectangle containing every point within radiusKm of the origin
+export function boundingBox(origin: GeoPoint, radiusKm: number): BoundingBox {
+  const latDelta = (radiusKm / EARTH_RADIUS_KM) * (180 / Math.PI);
+  const lngDelta = latDelta / Math.max(Math.cos(toRadians(origin.latitude)), 0.01);
+
+  return {
+    minLatitude: origin.latitude - latDelta,
+    maxLatitude: origin.latitude + latDelta,
+    minLongitude: origin.longitude - lngDelta,
+    maxLongitude: origin.longitude + lngDelta,
+  };
+}
+
+// Coordinates to store alongside a postal code; nulls clear stale coordinates
+export function coordinatesForPostalCode(postalCode: string | null | undefined) {
+  const location = postalCode ? geocode(postalCode) : null;
+  return {
+    postalCode: location?.postalCode ?? postalCode ?? null,
+    latitude: location?.latitude ?? null,
+    longitude: location?.longitude ?? null,
+  };
+}
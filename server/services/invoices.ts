@@ -0,0 +1,318 @@
+import { storage, type IStorage } from '../storage';
+import { invoiceKinds, quotePricingTypes } from '@shared/schema';
+import type { CreditNoteRequest, Invoice, InvoiceKind, InvoiceLineItem, ServiceRequest } from '@shared/schema';
+import { PdfDocument, PAGE_WIDTH, PAGE_HEIGHT, fitText } from './pdf';
+import { toCents } from './escrow';
+import { sendInvoiceEmail } from './email';
+
+// Sales tax added on top of the job price, e.g. INVOICE_TAX_PERCENT=8.25. Off by default
+export const INVOICE_TAX_RATE = Number(process.env.INVOICE_TAX_PERCENT ?? 0) / 100;
+
+export function salesTaxCents(subtotalCents: number): number {
+  return Math.round(subtotalCents * INVOICE_TAX_RATE);
+}
+
+// Jobs without a quote or a booked time are billed as one hour
+const DEFAULT_BILLED_HOURS = 1;
+
+const { INVOICE, CREDIT_NOTE } = invoiceKinds;
+
+type InvoiceViewer = 'client' | 'provider';
+
+export class InvoiceNotFoundError extends Error {
+  status = 404;
+
+  constructor(invoiceId: number) {
+    super(`Invoice ${invoiceId} not found`);
+  }
+}
+
+export class InvoicePermissionError extends Error {
+  status = 403;
+}
+
+export class CreditNoteError extends Error {
+  status = 409;
+}
+
+// e.g. INV-12-00042; numbers are unique across providers and never reused
+function documentNumber(kind: InvoiceKind, providerId: number, sequence: number): string {
+  return `${kind === CREDIT_NOTE ? 'CN' : 'INV'}-${providerId}-${String(sequence).padStart(5, '0')}`;
+}
+
+function formatAmount(cents: number): string {
+  return (cents / 100).toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+}
+
+function lineItem(description: string, quantity: number, unitPriceCents: number): InvoiceLineItem {
+  return { description, quantity, unitPriceCents, amountCents: Math.round(quantity * unitPriceCents) };
+}
+
+/**
+ * Bills the quoted price if there is one; otherwise the provider's hourly rate for the
+ * booked time, rounded to the quarter hour.
+ */
+async function lineItemsFor(request: ServiceRequest, hourlyRate: number, tx: IStorage): Promise<InvoiceLineItem[]> {
+  const task = request.taskId ? await tx.getTask(request.taskId) : undefined;
+  const job = task?.title ?? `Service request #${request.id}`;
+
+  const quote = await tx.getQuoteByServiceRequest(request.id);
+  if (quote) {
+    return quote.pricingType === quotePricingTypes.HOURLY
+      ? [lineItem(`${job} (hourly, as quoted)`, quote.estimatedHours ?? DEFAULT_BILLED_HOURS, toCents(quote.amount))]
+      : [lineItem(`${job} (fixed price, as quoted)`, 1, toCents(quote.amount))];
+  }
+
+  const booking = await tx.getBookingByServiceRequest(request.id);
+  const start = booking?.startsAt ?? request.scheduledStart;
+  const end = booking?.endsAt ?? request.scheduledEnd;
+  const hours = start && end
+    ? Math.max(0.25, Math.round(((end.getTime() - start.getTime()) / 3_600_000) * 4) / 4)
+    : DEFAULT_BILLED_HOURS;
+  return [lineItem(`${job} (labour)`, hours, toCents(hourlyRate))];
+}
+
+async function partyNames(providerId: number, clientId: number, tx: IStorage) {
+  const provider = await tx.getServiceProviderWithUser(providerId);
+  const client = await tx.getUser(clientId);
+  return {
+    issuerName: provider ? `${provider.user.firstName} ${provider.user.lastName}` : `Provider #${providerId}`,
+    recipientName: client ? `${client.firstName} ${client.lastName}` : `Client #${clientId}`,
+  };
+}
+
+/**
+ * Issues the invoice for a completed request. Called from the request lifecycle inside its
+ * transaction; the provider row is locked so invoice numbers are handed out without gaps.
+ */
+export async function issueInvoice(request: ServiceRequest, tx: IStorage): Promise<Invoice> {
+  const existing = (await tx.getInvoicesByServiceRequest(request.id)).find((invoice) => invoice.kind === INVOICE);
+  if (existing) return existing;
+
+  const provider = await tx.lockServiceProvider(request.providerId);
+  const lineItems = await lineItemsFor(request, provider?.hourlyRate ?? 0, tx);
+  const subtotalCents = lineItems.reduce((sum, item) => sum + item.amountCents, 0);
+  const hold = await tx.getPaymentHoldByServiceRequest(request.id);
+  // Escrowed jobs are invoiced for exactly what was captured, which already includes the tax
+  const taxCents = hold ? hold.amountCents - subtotalCents : salesTaxCents(subtotalCents);
+  const sequence = (await tx.getLastInvoiceSequence(request.providerId, INVOICE)) + 1;
+
+  return tx.createInvoice({
+    kind: INVOICE,
+    sequence,
+    number: documentNumber(INVOICE, request.providerId, sequence),
+    providerId: request.providerId,
+    clientId: request.clientId,
+    serviceRequestId: request.id,
+    ...(await partyNames(request.providerId, request.clientId, tx)),
+    lineItems,
+    subtotalCents,
+    taxRate: INVOICE_TAX_RATE,
+    taxCents,
+    totalCents: subtotalCents + taxCents,
+    // Only jobs paid through escrow carry a platform fee
+    feeCents: hold?.feeCents ?? 0,
+  });
+}
+
+async function getOwnInvoice(invoiceId: number, userId: number, store: IStorage) {
+  const invoice = await store.getInvoice(invoiceId);
+  if (!invoice) {
+    throw new InvoiceNotFoundError(invoiceId);
+  }
+
+  const provider = await store.getServiceProvider(invoice.providerId);
+  const viewer: InvoiceViewer | null = invoice.clientId === userId ? 'client' : provider?.userId === userId ? 'provider' : null;
+  if (!viewer) {
+    throw new InvoicePermissionError('You can only view your own invoices');
+  }
+  return { invoice, viewer };
+}
+
+/**
+ * Issues a credit note against an invoice, in full or in part. The invoice itself is left
+ * untouched; credit notes can't add up to more than it. Only the issuing provider may do this.
+ */
+export async function createCreditNote(invoiceId: number, userId: number, { reason, amountCents }: CreditNoteRequest): Promise<Invoice> {
+  return storage.transaction(async (tx) => {
+    const { invoice, viewer } = await getOwnInvoice(invoiceId, userId, tx);
+    if (viewer !== 'provider') {
+      throw new InvoicePermissionError('Only the provider who issued an invoice can credit it');
+    }
+
+    if (invoice.kind !== INVOICE) {
+      throw new CreditNoteError('Credit notes can only be issued against invoices');
+    }
+
+    await tx.lockServiceProvider(invoice.providerId);
+    const credited = (await tx.getInvoicesByServiceRequest(invoice.serviceRequestId))
+      .filter((document) => document.creditedInvoiceId === invoice.id)
+      .reduce((sum, document) => sum - document.totalCents, 0);
+    const remaining = invoice.totalCents - credited;
+    const total = amountCents ?? remaining;
+    if (remaining <= 0) {
+      throw new CreditNoteError(`Invoice ${invoice.number} has already been credited in full`);
+    }
+    if (total > remaining) {
+      throw new CreditNoteError(`At most ${formatAmount(remaining)} of invoice ${invoice.number} can still be credited`);
+    }
+
+    // Tax is credited in the same proportion it was charged
+    const taxCents = invoice.totalCents > 0 ? Math.round((total * invoice.taxCents) / invoice.totalCents) : 0;
+    const subtotalCents = total - taxCents;
+    const sequence = (await tx.getLastInvoiceSequence(invoice.providerId, CREDIT_NOTE)) + 1;
+
+    return tx.createInvoice({
+      kind: CREDIT_NOTE,
+      sequence,
+      number: documentNumber(CREDIT_NOTE, invoice.providerId, sequence),
+      providerId: invoice.providerId,
+      clientId: invoice.clientId,
+      serviceRequestId: invoice.serviceRequestId,
+      creditedInvoiceId: invoice.id,
+      reason,
+      issuerName: invoice.issuerName,
+      recipientName: invoice.recipientName,
+      lineItems: [lineItem(`Credit against invoice ${invoice.number}`, 1, -subtotalCents)],
+      subtotalCents: -subtotalCents,
+      taxRate: invoice.taxRate,
+      taxCents: -taxCents,
+      totalCents: -total,
+      feeCents: 0,
+    });
+  });
+}
+
+// Every invoice and credit note where the user is the client or the provider
+export async function getInvoices(userId: number): Promise<Invoice[]> {
+  const provider = await storage.getServiceProviderByUserId(userId);
+  return storage.getInvoicesForParty({ clientId: userId, providerId: provider?.id });
+}
+
+const MARGIN = 56;
+const RIGHT = PAGE_WIDTH - MARGIN;
+const BOTTOM = 72;
+const columns = { quantity: 360, unitPrice: 450, amount: RIGHT };
+
+/**
+ * Lays an invoice or credit note out as a PDF. The provider's copy adds what the platform
+ * withheld from their payout; the client's copy leaves that out.
+ */
+export async function renderInvoicePdf(invoice: Invoice, viewer: InvoiceViewer): Promise<Buffer> {
+  const isCreditNote = invoice.kind === CREDIT_NOTE;
+  const title = isCreditNote ? 'CREDIT NOTE' : 'INVOICE';
+  const pdf = new PdfDocument(`${title} ${invoice.number}`);
+  let y = PAGE_HEIGHT - MARGIN - 20;
+
+  pdf.text(title, MARGIN, y, { size: 22, font: 'bold' });
+  pdf.text(invoice.number, RIGHT, y + 6, { font: 'bold', align: 'right' });
+  pdf.text(`Issued ${(invoice.issuedAt ?? new Date()).toLocaleDateString('en-US', { dateStyle: 'long' })}`, RIGHT, y - 8, { align: 'right' });
+  y -= 44;
+
+  pdf.text('From', MARGIN, y, { size: 9, font: 'bold' });
+  pdf.text('Billed to', 300, y, { size: 9, font: 'bold' });
+  y -= 14;
+  pdf.text(invoice.issuerName, MARGIN, y);
+  pdf.text(invoice.recipientName, 300, y);
+  y -= 14;
+  pdf.text(`Service request #${invoice.serviceRequestId}`, MARGIN, y, { size: 9 });
+  y -= 24;
+
+  if (isCreditNote) {
+    const credited = invoice.creditedInvoiceId ? await storage.getInvoice(invoice.creditedInvoiceId) : undefined;
+    pdf.text(`Corrects invoice ${credited?.number ?? `#${invoice.creditedInvoiceId}`}`, MARGIN, y);
+    y -= 14;
+    if (invoice.reason) {
+      pdf.text(fitText(`Reason: ${invoice.reason}`, RIGHT - MARGIN, 10), MARGIN, y);
+      y -= 14;
+    }
+    y -= 10;
+  }
+
+  const tableHeader = () => {
+    pdf.text('Description', MARGIN, y, { size: 9, font: 'bold' });
+    pdf.text('Qty', columns.quantity, y, { size: 9, font: 'bold', align: 'right' });
+    pdf.text('Unit price', columns.unitPrice, y, { size: 9, font: 'bold', align: 'right' });
+    pdf.text('Amount', columns.amount, y, { size: 9, font: 'bold', align: 'right' });
+    y -= 6;
+    pdf.line(MARGIN, y, RIGHT, y);
+    y -= 16;
+  };
+
+  tableHeader();
+  for (const item of invoice.lineItems) {
+    if (y < BOTTOM) {
+      pdf.addPage();
+      y = PAGE_HEIGHT - MARGIN;
+      tableHeader();
+    }
+    pdf.text(fitText(item.description, columns.quantity - MARGIN - 40, 10), MARGIN, y);
+    pdf.text(String(item.quantity), columns.quantity, y, { align: 'right' });
+    pdf.text(formatAmount(item.unitPriceCents), columns.unitPrice, y, { align: 'right' });
+    pdf.text(formatAmount(item.amountCents), columns.amount, y, { align: 'right' });
+    y -= 18;
+  }
+
+  const totals: [string, number][] = [
+    ['Subtotal', invoice.subtotalCents],
+    [`Tax (${Number((invoice.taxRate * 100).toFixed(3))}%)`, invoice.taxCents],
+  ];
+  const summaryLines = viewer === 'provider' ? 3 : 0;
+  if (y - (totals.length + summaryLines + 2) * 18 < BOTTOM) {
+    pdf.addPage();
+    y = PAGE_HEIGHT - MARGIN;
+  }
+
+  pdf.line(columns.unitPrice - 100, y + 8, RIGHT, y + 8);
+  y -= 6;
+  for (const [label, cents] of totals) {
+    pdf.text(label, columns.unitPrice, y, { align: 'right' });
+    pdf.text(formatAmount(cents), columns.amount, y, { align: 'right' });
+    y -= 16;
+  }
+  pdf.text(isCreditNote ? 'Total credited' : 'Total', columns.unitPrice, y, { font: 'bold', align: 'right' });
+  pdf.text(formatAmount(invoice.totalCents), columns.amount, y, { font: 'bold', align: 'right' });
+  y -= 36;
+
+  if (viewer === 'provider' && !isCreditNote) {
+    pdf.text('Provider copy', MARGIN, y, { size: 9, font: 'bold' });
+    y -= 14;
+    pdf.text(`Platform fee withheld: ${formatAmount(invoice.feeCents)}`, MARGIN, y, { size: 9 });
+    y -= 12;
+    pdf.text(`Net payout: ${formatAmount(invoice.totalCents - invoice.feeCents)}`, MARGIN, y, { size: 9 });
+  }
+
+  pdf.text('Issued through Find My Helper. This document cannot be changed once issued.', MARGIN, 40, { size: 8 });
+
+  return pdf.toBuffer();
+}
+
+// The PDF of an invoice or credit note, as the requesting party's copy
+export async function getInvoicePdf(invoiceId: number, userId: number): Promise<{ invoice: Invoice; pdf: Buffer }> {
+  const { invoice, viewer } = await getOwnInvoice(invoiceId, userId, storage);
+  return { invoice, pdf: await renderInvoicePdf(invoice, viewer) };
+}
+
+/**
+ * Emails each party their copy of an issued document. Runs after the issuing transaction
+ * commits; a failed email doesn't undo the invoice, which stays downloadable.
+ */
+export async function deliverInvoice(invoice: Invoice): Promise<void> {
+  const provider = await storage.getServiceProvider(invoice.providerId);
+  const recipients = [
+    { userId: invoice.clientId, viewer: 'client' as const },
+    ...(provider ? [{ userId: provider.userId, viewer: 'provider' as const }] : []),
+  ];
+
+  for (const { userId, viewer } of recipients) {
+    const user = await storage.getUser(userId);
+    if (!user) continue;
+    await sendInvoiceEmail(user.email, invoice, await renderInvoicePdf(invoice, viewer));
+  }
+}
+
+// Emails the invoice issued when a request was completed, if there is one
+export async function deliverRequestInvoice(requestId: number): Promise<void> {
+  const invoice = (await storage.getInvoicesByServiceRequest(requestId)).find((document) => document.kind === INVOICE);
+  if (invoice) await deliverInvoice(invoice);
+}
@@ -0,0 +1,84 @@
+import { createServer, type Server } from 'http';
+import { randomUUID } from 'crypto';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { storage } from '../storage';
+import { InvalidLoginLinkError, redeemLoginLink, requestLoginLink } from './magic-link';
+import { requestPasswordReset, resetPassword } from './password-reset';
+import { setupWebSocket, type WebSocketService } from './websocket';
+
+// The links each email would have carried, newest last
+const { loginLinks, resetLinks } = vi.hoisted(() => ({ loginLinks: [] as string[], resetLinks: [] as string[] }));
+
+vi.mock('./email', () => ({
+  sendLoginVerificationEmail: async (_email: string, token: string) => {
+    loginLinks.push(token);
+  },
+  sendPasswordResetEmail: async (_email: string, token: string) => {
+    resetLinks.push(token);
+  },
+}));
+
+let server: Server;
+let webSockets: WebSocketService;
+
+// A password reset signs the user out everywhere, which goes through the WebSocket service
+beforeAll(() => {
+  server = createServer();
+  webSockets = setupWebSocket(server);
+});
+
+afterAll(async () => {
+  await webSockets.close();
+});
+
+async function createUser() {
+  const name = randomUUID().slice(0, 8);
+  return storage.createUser({
+    username: name,
+    email: `${name}@example.com`,
+    password: 'unused',
+    firstName: 'Test',
+    lastName: 'User',
+    isServiceProvider: false,
+  } as Parameters<typeof storage.createUser>[0]);
+}
+
+async function sendLoginLink(email: string): Promise<string> {
+  await requestLoginLink(email);
+  return loginLinks[loginLinks.length - 1];
+}
+
+describe('login links', () => {
+  it('stops an earlier link working once a new one is sent', async () => {
+    const user = await createUser();
+    const first = await sendLoginLink(user.email);
+    const second = await sendLoginLink(user.email);
+
+    await expect(redeemLoginLink(first)).rejects.toBeInstanceOf(InvalidLoginLinkError);
+    expect((await redeemLoginLink(second)).id).toBe(user.id);
+  });
+
+  it('uses up every outstanding link when one is redeemed', async () => {
+    const user = await createUser();
+    const link = await sendLoginLink(user.email);
+    const leftover = await storage.createLoginToken({
+      userId: user.id,
+      tokenHash: randomUUID(),
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    await redeemLoginLink(link);
+
+    expect((await storage.getLoginTokenByHash(leftover.tokenHash))?.usedAt).not.toBeNull();
+  });
+
+  it('stops outstanding links working after a password reset', async () => {
+    const user = await createUser();
+    const link = await sendLoginLink(user.email);
+    await requestPasswordReset(user.email);
+
+    await resetPassword(resetLinks[resetLinks.length - 1], 'a-new-password');
+
+    await expect(redeemLoginLink(link)).rejects.toBeInstanceOf(InvalidLoginLinkError);
+  });
+});
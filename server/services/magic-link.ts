@@ -0,0 +1,89 @@
+import { storage } from '../storage';
+import type { User } from '@shared/schema';
+import { sendLoginVerificationEmail } from './email';
+import { generateEmailToken, hashEmailToken } from './passwords';
+import { enforceRateLimit } from './rate-limit';
+
+// Matches the expiry promised in the login email
+export const LOGIN_LINK_TTL_MS = 15 * 60 * 1000;
+
+export class InvalidLoginLinkError extends Error {
+  status = 400;
+
+  constructor() {
+    super('This login link is invalid or has expired');
+  }
+}
+
+export class LoginLinkSuspendedError extends Error {
+  status = 403;
+
+  constructor() {
+    super('This account has been suspended');
+  }
+}
+
+/**
+ * Emails a one-time login link, replacing any link they were sent before. Unknown and
+ * suspended addresses are ignored, so callers answer the same way either way.
+ */
+export async function requestLoginLink(email: string, ip?: string): Promise<void> {
+  // Counted whether or not the address has an account, so limiting gives nothing away
+  await enforceRateLimit('email', { ip, account: email.trim().toLowerCase() });
+
+  const now = new Date();
+
+  const user = await storage.getUserByEmail(email);
+  if (!user || user.suspendedAt) return;
+
+  const token = generateEmailToken();
+  await storage.transaction(async (tx) => {
+    await tx.revokeLoginTokens(user.id, now);
+    await tx.createLoginToken({
+      userId: user.id,
+      tokenHash: hashEmailToken(token),
+      expiresAt: new Date(now.getTime() + LOGIN_LINK_TTL_MS),
+    });
+  });
+
+  // Not awaited: a slow mail server would otherwise tell callers the account exists
+  sendLoginVerificationEmail(user.email, token).catch((error) => {
+    console.error(`Failed to send login link to user ${user.id}:`, error);
+  });
+}
+
+/**
+ * Uses up a login link, and any other the user still holds, and returns the user it
+ * signs in. Getting the link also proves the address, so unverified users are verified
+ * on the way.
+ */
+export async function redeemLoginLink(token: string): Promise<User> {
+  const loginToken = await storage.getLoginTokenByHash(hashEmailToken(token));
+  if (!loginToken || loginToken.usedAt || loginToken.expiresAt <= new Date()) {
+    throw new InvalidLoginLinkError();
+  }
+
+  return storage.transaction(async (tx) => {
+    const now = new Date();
+    if (!(await tx.useLoginToken(loginToken.id, now))) {
+      throw new InvalidLoginLinkError();
+    }
+    await tx.revokeLoginTokens(loginToken.userId, now);
+
+    const user = await tx.getUser(loginToken.userId);
+    if (!user) {
+      throw new InvalidLoginLinkError();
+    }
+    if (user.suspendedAt) {
+      throw new LoginLinkSuspendedError();
+    }
+
+    if (user.emailVerified) return user;
+    const verified = await tx.updateUser(user.id, {
+      emailVerified: true,
+      verificationToken: null,
+      verificationTokenExpires: null,
+    });
+    return verified ?? user;
+  });
+}
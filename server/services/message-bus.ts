@@ -0,0 +1,174 @@
+import { EventEmitter } from 'events';
+import type { Pool, PoolClient, Notification as PgNotification } from 'pg';
+import type { ServerMessage } from '@shared/websocket';
+
+export type BusMessage =
+  // Addressed to every socket of the given users, on whichever instance holds them
+  | { type: 'deliver'; userIds: number[]; data: ServerMessage }
+  // Some of these users' sessions ended; every instance drops the sockets opened with them
+  | { type: 'sessions_revoked'; userIds: number[] };
+
+export type BusHandler = (message: BusMessage) => void;
+
+/**
+ * Fans real-time messages out to every server instance. Each WebSocketService
+ * publishes outgoing messages here and delivers whatever arrives to its own sockets.
+ */
+export interface MessageBus {
+  publish(message: BusMessage): Promise<void>;
+  // Resolves once the handler is receiving messages; call the returned function to stop
+  subscribe(handler: BusHandler): Promise<() => Promise<void>>;
+  close(): Promise<void>;
+}
+
+// Single-process bus; every subscriber in this process sees every message
+export class InMemoryMessageBus implements MessageBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per WebSocketService; lift the default warning threshold
+    this.emitter.setMaxListeners(0);
+  }
+
+  async publish(message: BusMessage) {
+    this.emitter.emit('message', message);
+  }
+
+  async subscribe(handler: BusHandler) {
+    this.emitter.on('message', handler);
+    return async () => {
+      this.emitter.off('message', handler);
+    };
+  }
+
+  async close() {
+    this.emitter.removeAllListeners();
+  }
+}
+
+export const DEFAULT_BUS_CHANNEL = 'realtime_messages';
+
+// Postgres caps NOTIFY payloads at 8000 bytes
+const MAX_NOTIFY_PAYLOAD = 7999;
+
+const RECONNECT_DELAY_MS = 1000;
+
+/**
+ * Cross-instance bus over Postgres LISTEN/NOTIFY. Publishing borrows a pooled
+ * connection; listening holds one connection for the life of the bus and
+ * re-establishes it if the database drops it.
+ */
+export class PostgresMessageBus implements MessageBus {
+  private handlers = new Set<BusHandler>();
+  private listener: PoolClient | null = null;
+  private connecting: Promise<void> | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(private pool: Pool, private channel: string = DEFAULT_BUS_CHANNEL) {
+    if (!/^[a-z_][a-z0-9_]*$/.test(channel)) {
+      throw new Error(`Invalid bus channel name "${channel}"`);
+    }
+  }
+
+  async publish(message: BusMessage) {
+    const payload = JSON.stringify(message);
+    if (Buffer.byteLength(payload) > MAX_NOTIFY_PAYLOAD) {
+      throw new Error(`Real-time message too large for NOTIFY (${Buffer.byteLength(payload)} bytes)`);
+    }
+
+    await this.pool.query('SELECT pg_notify($1, $2)', [this.channel, payload]);
+  }
+
+  async subscribe(handler: BusHandler) {
+    this.handlers.add(handler);
+    await this.ensureListening();
+
+    return async () => {
+      this.handlers.delete(handler);
+      if (this.handlers.size === 0) {
+        await this.stopListening();
+      }
+    };
+  }
+
+  async close() {
+    this.closed = true;
+    this.handlers.clear();
+    await this.stopListening();
+  }
+
+  private ensureListening(): Promise<void> {
+    if (this.listener) return Promise.resolve();
+    if (!this.connecting) {
+      this.connecting = this.listen().finally(() => {
+        this.connecting = null;
+      });
+    }
+    return this.connecting;
+  }
+
+  private async listen() {
+    const client = await this.pool.connect();
+
+    client.on('notification', (notification: PgNotification) => this.dispatch(notification));
+    client.on('error', (error) => {
+      // Errors from a connection we've already let go of need no handling
+      if (this.listener !== client) return;
+
+      console.error('Message bus connection error:', error);
+      this.listener = null;
+      client.release(error);
+      this.scheduleReconnect();
+    });
+
+    try {
+      await client.query(`LISTEN ${this.channel}`);
+    } catch (error) {
+      client.release(error as Error);
+      throw error;
+    }
+
+    this.listener = client;
+  }
+
+  private dispatch(notification: PgNotification) {
+    if (notification.channel !== this.channel || !notification.payload) return;
+
+    let message: BusMessage;
+    try {
+      message = JSON.parse(notification.payload);
+    } catch (error) {
+      console.error('Ignoring malformed bus message:', error);
+      return;
+    }
+
+    this.handlers.forEach((handler) => handler(message));
+  }
+
+  private scheduleReconnect() {
+    if (this.closed || this.handlers.size === 0 || this.reconnectTimer) return;
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.ensureListening().catch((error) => {
+        console.error('Message bus reconnect failed:', error);
+        this.scheduleReconnect();
+      });
+    }, RECONNECT_DELAY_MS);
+  }
+
+  private async stopListening() {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    const client = this.listener;
+    if (!client) return;
+
+    // Destroy rather than return the connection so our listeners never leak into the pool
+    this.listener = null;
+    client.release(true);
+  }
+}
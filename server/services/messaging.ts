@@ -0,0 +1,128 @@
+import { storage } from '../storage';
+import { getWebSocketService } from './websocket';
+import { notifyNewMessage } from './notification';
+import type { Conversation, Message, ServiceRequest, Task, User } from '@shared/schema';
+import type { ServerMessage } from '@shared/websocket';
+
+export const MESSAGE_PAGE_SIZE = 30;
+
+export class ConversationNotFoundError extends Error {
+  status = 404;
+
+  constructor(conversationId: number) {
+    super(`Conversation ${conversationId} not found`);
+  }
+}
+
+export class ConversationAccessError extends Error {
+  status = 403;
+
+  constructor() {
+    super('You are not part of this conversation');
+  }
+}
+
+export type ConversationRole = 'client' | 'provider';
+
+// Resolves which side of the conversation a user is on, if any
+export async function getParticipantRole(conversation: Conversation, userId: number): Promise<ConversationRole | null> {
+  if (conversation.clientId === userId) return 'client';
+
+  const provider = await storage.getServiceProvider(conversation.providerId);
+  return provider?.userId === userId ? 'provider' : null;
+}
+
+export async function getConversationForUser(conversationId: number, userId: number) {
+  const conversation = await storage.getConversation(conversationId);
+  if (!conversation) {
+    throw new ConversationNotFoundError(conversationId);
+  }
+
+  const role = await getParticipantRole(conversation, userId);
+  if (!role) {
+    throw new ConversationAccessError();
+  }
+
+  return { conversation, role };
+}
+
+export async function getOrCreateServiceRequestConversation(request: ServiceRequest): Promise<Conversation> {
+  const existing = await storage.getConversationByServiceRequest(request.id);
+  if (existing) return existing;
+
+  return storage.createConversation({
+    serviceRequestId: request.id,
+    taskId: request.taskId,
+    clientId: request.clientId,
+    providerId: request.providerId,
+  });
+}
+
+// Lets a provider ask a client about a task before making an offer
+export async function getOrCreateTaskConversation(task: Task, providerId: number): Promise<Conversation> {
+  const existing = await storage.getConversationByTask(task.id, providerId);
+  if (existing) return existing;
+
+  return storage.createConversation({
+    taskId: task.id,
+    clientId: task.clientId,
+    providerId,
+  });
+}
+
+async function getOtherParticipantId(conversation: Conversation, userId: number): Promise<number | undefined> {
+  if (conversation.clientId !== userId) return conversation.clientId;
+
+  const provider = await storage.getServiceProvider(conversation.providerId);
+  return provider?.userId;
+}
+
+/**
+ * Stores a message and pushes it to both participants' open sockets.
+ * Recipients without an open socket get a stored notification instead.
+ */
+export async function sendMessage(conversation: Conversation, sender: User, body: string): Promise<Message> {
+  const message = await storage.createMessage({
+    conversationId: conversation.id,
+    senderId: sender.id,
+    body,
+  });
+  await storage.updateConversation(conversation.id, { lastMessageAt: message.createdAt });
+
+  const recipientId = await getOtherParticipantId(conversation, sender.id);
+  const wsService = getWebSocketService();
+  const payload: ServerMessage = { type: 'message', conversationId: conversation.id, messageId: message.id };
+
+  // Echo to the sender too so their other tabs stay in sync
+  wsService.sendToUser(sender.id, payload);
+
+  if (recipientId !== undefined) {
+    if (wsService.isUserOnline(recipientId)) {
+      wsService.sendToUser(recipientId, payload);
+    } else {
+      await notifyNewMessage(recipientId, sender, conversation, message);
+    }
+  }
+
+  return message;
+}
+
+// Marks the other participant's messages as read and sends them a read receipt
+export async function markConversationRead(conversation: Conversation, readerId: number): Promise<Message[]> {
+  const readAt = new Date();
+  const readMessages = await storage.markMessagesRead(conversation.id, readerId, readAt);
+
+  if (readMessages.length > 0) {
+    const senderId = await getOtherParticipantId(conversation, readerId);
+    if (senderId !== undefined) {
+      getWebSocketService().sendToUser(senderId, {
+        type: 'messages_read',
+        conversationId: conversation.id,
+        readerId,
+        readAt,
+      });
+    }
+  }
+
+  return readMessages;
+}
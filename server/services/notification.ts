@@ -1,46 +1,153 @@
-import { storage } from '../storage';
+import { storage, type NotificationQuery } from '../storage';
 import { getWebSocketService } from './websocket';
-import { notificationTypes } from '@shared/schema';
-import type { Task, ServiceProvider, User } from '@shared/schema';
+import { sendNotificationEmail } from './email';
+import { notificationTypes, notificationChannels } from '@shared/schema';
+import type {
+  Task,
+  ServiceProvider,
+  ServiceProviderWithUser,
+  User,
+  Conversation,
+  Message,
+  ServiceRequest,
+  Notification,
+  InsertNotification,
+  NotificationType,
+  NotificationChannel,
+  TaskStatus,
+  ServiceRequestStatus,
+} from '@shared/schema';
 
-export async function notifyNewTask(task: Task, providers: ServiceProvider[]) {
-  const providerUserIds = providers.map(p => p.userId);
-  
-  // Create notifications in database
-  const notifications = await Promise.all(
-    providerUserIds.map(userId =>
-      storage.createNotification({
-        userId,
-        type: notificationTypes.NEW_TASK,
-        title: 'New Task Available',
-        message: `New task: ${task.title}`,
-        data: { taskId: task.id },
-        read: false
-      })
-    )
+// Used when a user has no stored preference for a type/channel pair
+const channelDefaults: Record<NotificationChannel, boolean> = {
+  [notificationChannels.IN_APP]: true,
+  [notificationChannels.WEBSOCKET]: true,
+  [notificationChannels.EMAIL]: false,
+};
+
+export class NotificationNotFoundError extends Error {
+  status = 404;
+
+  constructor(notificationId: number) {
+    super(`Notification ${notificationId} not found`);
+  }
+}
+
+type NotificationContent = {
+  type: NotificationType;
+  title: string;
+  message: string;
+  // Stored in the notifications.data jsonb column
+  data?: InsertNotification['data'];
+};
+
+export type NotificationPreferenceSetting = {
+  type: NotificationType;
+  channel: NotificationChannel;
+  enabled: boolean;
+};
+
+/**
+ * Returns the user's effective setting for every type and channel,
+ * with stored preferences layered over the channel defaults.
+ */
+export async function getNotificationPreferences(userId: number): Promise<NotificationPreferenceSetting[]> {
+  const stored = await storage.getNotificationPreferences(userId);
+
+  return Object.values(notificationTypes).flatMap((type) =>
+    Object.values(notificationChannels).map((channel) => ({
+      type,
+      channel,
+      enabled: stored.find((preference) => preference.type === type && preference.channel === channel)?.enabled
+        ?? channelDefaults[channel],
+    }))
   );
+}
+
+export async function updateNotificationPreferences(userId: number, settings: NotificationPreferenceSetting[]) {
+  for (const setting of settings) {
+    await storage.upsertNotificationPreference({ userId, ...setting });
+  }
+
+  return getNotificationPreferences(userId);
+}
+
+async function getEnabledChannels(userId: number, type: NotificationType): Promise<Set<NotificationChannel>> {
+  const settings = await getNotificationPreferences(userId);
+  return new Set(
+    settings
+      .filter((setting) => setting.type === type && setting.enabled)
+      .map((setting) => setting.channel)
+  );
+}
+
+// Sends one notification to one user over every channel they have not muted
+async function deliver(userId: number, content: NotificationContent): Promise<Notification | undefined> {
+  const channels = await getEnabledChannels(userId, content.type);
 
-  // Send real-time notifications
-  const wsService = getWebSocketService();
-  await wsService.sendToUsers(providerUserIds, {
+  let notification: Notification | undefined;
+  if (channels.has(notificationChannels.IN_APP)) {
+    notification = await storage.createNotification({
+      userId,
+      type: content.type,
+      title: content.title,
+      message: content.message,
+      data: content.data,
+      read: false
+    });
+  }
+
+  if (channels.has(notificationChannels.WEBSOCKET)) {
+    getWebSocketService().sendToUser(userId, {
+      type: 'notification',
+      notification: {
+        id: notification?.id ?? null,
+        type: content.type,
+        title: content.title,
+        message: content.message,
+        data: content.data ?? null,
+        read: false,
+        createdAt: notification?.createdAt ?? new Date(),
+      },
+    });
+  }
+
+  if (channels.has(notificationChannels.EMAIL)) {
+    const user = await storage.getUser(userId);
+    if (user) {
+      try {
+        await sendNotificationEmail(user.email, content.title, content.message);
+      } catch (error) {
+        // Email is best effort; the other channels have already been delivered
+        console.error('Failed to send notification email:', error);
+      }
+    }
+  }
+
+  return notification;
+}
+
+async function deliverToMany(userIds: number[], content: NotificationContent): Promise<Notification[]> {
+  const notifications = await Promise.all(userIds.map((userId) => deliver(userId, content)));
+  return notifications.filter((notification): notification is Notification => !!notification);
+}
+
+export async function notifyNewTask(task: Task, providers: ServiceProvider[]) {
+  return deliverToMany(providers.map(p => p.userId), {
     type: notificationTypes.NEW_TASK,
     title: 'New Task Available',
     message: `New task: ${task.title}`,
     data: { taskId: task.id }
   });
-
-  return notifications;
 }
 
-export async function notifyTaskAccepted(task: Task, provider: ServiceProvider, client: User) {
+export async function notifyTaskAccepted(task: Task, provider: ServiceProviderWithUser, client: User) {
   // Notify the client
-  const clientNotification = await storage.createNotification({
-    userId: client.id,
+  const clientNotification = await deliver(client.id, {
     type: notificationTypes.TASK_ACCEPTED,
     title: 'Task Accepted',
     message: `Your task "${task.title}" has been accepted by ${provider.user.firstName} ${provider.user.lastName}`,
-    data: { taskId: task.id, providerId: provider.id },
-    read: false
+    data: { taskId: task.id, providerId: provider.id }
   });
 
   // Notify other providers that the task is no longer available
@@ -49,32 +156,7 @@ export async function notifyTaskAccepted(task: Task, provider: ServiceProvider,
     .filter(p => p.userId !== provider.userId)
     .map(p => p.userId);
 
-  const otherNotifications = await Promise.all(
-    otherProviderUserIds.map(userId =>
-      storage.createNotification({
-        userId,
-        type: notificationTypes.TASK_ACCEPTED,
-        title: 'Task No Longer Available',
-        message: `The task "${task.title}" has been accepted by another provider`,
-        data: { taskId: task.id },
-        read: false
-      })
-    )
-  );
-
-  // Send real-time notifications
-  const wsService = getWebSocketService();
-  
-  // Notify client
-  await wsService.sendToUser(client.id, {
-    type: notificationTypes.TASK_ACCEPTED,
-    title: 'Task Accepted',
-    message: `Your task "${task.title}" has been accepted by ${provider.user.firstName} ${provider.user.lastName}`,
-    data: { taskId: task.id, providerId: provider.id }
-  });
-
-  // Notify other providers
-  await wsService.sendToUsers(otherProviderUserIds, {
+  const otherNotifications = await deliverToMany(otherProviderUserIds, {
     type: notificationTypes.TASK_ACCEPTED,
     title: 'Task No Longer Available',
     message: `The task "${task.title}" has been accepted by another provider`,
@@ -87,16 +169,105 @@ export async function notifyTaskAccepted(task: Task, provider: ServiceProvider,
   };
 }
 
+// Tells the provider whose quote won, and every provider whose quote was declined because of it
+export async function notifyQuoteDecision(task: Task, accepted: ServiceRequest, declined: ServiceRequest[]) {
+  const winner = await storage.getServiceProvider(accepted.providerId);
+  const acceptedNotification = winner
+    ? await deliver(winner.userId, {
+        type: notificationTypes.QUOTE_ACCEPTED,
+        title: 'Quote Accepted',
+        message: `Your quote for "${task.title}" was accepted`,
+        data: { taskId: task.id, serviceRequestId: accepted.id }
+      })
+    : undefined;
+
+  const declinedProviders = await Promise.all(declined.map((request) => storage.getServiceProvider(request.providerId)));
+  const declinedNotifications = await deliverToMany(
+    declinedProviders.filter((provider): provider is ServiceProvider => !!provider).map((provider) => provider.userId),
+    {
+      type: notificationTypes.QUOTE_DECLINED,
+      title: 'Quote Not Selected',
+      message: `The client chose another quote for "${task.title}"`,
+      data: { taskId: task.id }
+    }
+  );
+
+  return {
+    acceptedNotification,
+    declinedNotifications
+  };
+}
+
+// Only used when the recipient has no open socket; online users get the message itself
+export async function notifyNewMessage(recipientId: number, sender: User, conversation: Conversation, message: Message) {
+  const preview = message.body.length > 100 ? `${message.body.slice(0, 97)}...` : message.body;
+
+  return deliver(recipientId, {
+    type: notificationTypes.NEW_MESSAGE,
+    title: `New message from ${sender.firstName} ${sender.lastName}`,
+    message: preview,
+    data: { conversationId: conversation.id, messageId: message.id }
+  });
+}
+
+// Pushes a task's new state to its client and assigned provider so open dashboards refresh
+export async function broadcastTaskUpdated(task: Task) {
+  const userIds = [task.clientId];
+  if (task.acceptedById) {
+    const provider = await storage.getServiceProvider(task.acceptedById);
+    if (provider) userIds.push(provider.userId);
+  }
+
+  getWebSocketService().sendToUsers(userIds, { type: 'task_updated', taskId: task.id, status: task.status as TaskStatus });
+}
+
+export async function broadcastServiceRequestUpdated(serviceRequest: ServiceRequest) {
+  const userIds = [serviceRequest.clientId];
+  const provider = await storage.getServiceProvider(serviceRequest.providerId);
+  if (provider) userIds.push(provider.userId);
+
+  getWebSocketService().sendToUsers(userIds, {
+    type: 'service_request_updated',
+    serviceRequestId: serviceRequest.id,
+    taskId: serviceRequest.taskId,
+    status: serviceRequest.status as ServiceRequestStatus,
+  });
+}
+
+// Looks up a notification, treating other users' notifications as missing
+async function getOwnNotification(notificationId: number, userId: number): Promise<Notification> {
+  const notification = await storage.getNotification(notificationId);
+  if (!notification || notification.userId !== userId) {
+    throw new NotificationNotFoundError(notificationId);
+  }
+
+  return notification;
+}
+
 export async function markNotificationAsRead(notificationId: number, userId: number) {
+  await getOwnNotification(notificationId, userId);
   return storage.updateNotification(notificationId, {
     read: true
   });
 }
 
+export async function markAllNotificationsAsRead(userId: number) {
+  return storage.markAllNotificationsRead(userId);
+}
+
+export async function deleteNotification(notificationId: number, userId: number) {
+  await getOwnNotification(notificationId, userId);
+  await storage.deleteNotification(notificationId);
+}
+
 export async function getUnreadNotifications(userId: number) {
   return storage.getUnreadNotifications(userId);
 }
 
 export async function getAllNotifications(userId: number) {
   return storage.getUserNotifications(userId);
-} 
\ No newline at end of file
+}
+
+export async function getNotificationsPage(userId: number, query: NotificationQuery) {
+  return storage.getNotificationsPage(userId, query);
+}
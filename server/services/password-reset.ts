@@ -0,0 +1,104 @@
+import { storage } from '../storage';
+import { sendPasswordResetEmail } from './email';
+import { comparePasswords, generateEmailToken, hashEmailToken, hashPassword } from './passwords';
+import { enforceRateLimit } from './rate-limit';
+import { IncorrectPasswordError } from './two-factor';
+import { getWebSocketService } from './websocket';
+
+// How long an emailed reset link keeps working
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+export class InvalidPasswordResetTokenError extends Error {
+  status = 400;
+
+  constructor() {
+    super('This reset link is invalid or has expired');
+  }
+}
+
+/**
+ * Emails the user a reset link, replacing any link they were sent before.
+ * Unknown addresses are ignored, so callers answer the same way either way.
+ */
+export async function requestPasswordReset(email: string, ip?: string): Promise<void> {
+  await enforceRateLimit('email', { ip, account: email.trim().toLowerCase() });
+
+  const user = await storage.getUserByEmail(email);
+  if (!user) return;
+
+  const token = generateEmailToken();
+  const now = new Date();
+  await storage.transaction(async (tx) => {
+    await tx.revokePasswordResetTokens(user.id, now);
+    await tx.createPasswordResetToken({
+      userId: user.id,
+      tokenHash: hashEmailToken(token),
+      expiresAt: new Date(now.getTime() + PASSWORD_RESET_TTL_MS),
+    });
+  });
+
+  // Not awaited: a slow mail server would otherwise tell callers the account exists
+  sendPasswordResetEmail(user.email, token).catch((error) => {
+    console.error(`Failed to send password reset email to user ${user.id}:`, error);
+  });
+}
+
+/**
+ * Sets a new password with an emailed token and signs the user out everywhere; login
+ * links sent before the reset stop working too.
+ * The token is used up even if it is replayed concurrently; only one reset goes through.
+ */
+export async function resetPassword(token: string, password: string): Promise<void> {
+  const resetToken = await storage.getPasswordResetTokenByHash(hashEmailToken(token));
+  if (!resetToken || resetToken.usedAt || resetToken.expiresAt <= new Date()) {
+    throw new InvalidPasswordResetTokenError();
+  }
+
+  const passwordHash = await hashPassword(password);
+  await storage.transaction(async (tx) => {
+    const now = new Date();
+    if (!(await tx.usePasswordResetToken(resetToken.id, now))) {
+      throw new InvalidPasswordResetTokenError();
+    }
+    await tx.revokePasswordResetTokens(resetToken.userId, now);
+    await tx.revokeLoginTokens(resetToken.userId, now);
+
+    // Following the emailed link proves the address as well as email verification would
+    await tx.updateUser(resetToken.userId, {
+      password: passwordHash,
+      emailVerified: true,
+      verificationToken: null,
+      verificationTokenExpires: null,
+    });
+  });
+
+  await storage.deleteUserSessions(resetToken.userId);
+  getWebSocketService().disconnectEndedSessions(resetToken.userId);
+}
+
+/**
+ * Changes a signed-in user's password. Every other session is signed out and any
+ * outstanding reset or login link stops working; the session making the change stays.
+ */
+export async function changePassword(
+  userId: number,
+  currentPassword: string,
+  password: string,
+  currentSessionId: string
+): Promise<void> {
+  const user = await storage.getUser(userId);
+  if (!user || !(await comparePasswords(currentPassword, user.password))) {
+    throw new IncorrectPasswordError();
+  }
+
+  const passwordHash = await hashPassword(password);
+  await storage.transaction(async (tx) => {
+    const now = new Date();
+    await tx.revokePasswordResetTokens(userId, now);
+    await tx.revokeLoginTokens(userId, now);
+    await tx.updateUser(userId, { password: passwordHash });
+  });
+
+  await storage.deleteUserSessions(userId, currentSessionId);
+  getWebSocketService().disconnectEndedSessions(userId);
+}
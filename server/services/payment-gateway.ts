@@ -0,0 +1,117 @@
+/**
+ * Moves real money on the platform's behalf. Funds are authorized when a client accepts
+ * a quote and later either captured (job done) or voided (job cancelled). Captured money
+ * reaches providers through payouts.
+ *
+ * Every call carries an idempotency key: repeating a call with the same key returns the
+ * first call's result instead of moving money again, so calls are safe to retry.
+ */
+export interface PaymentGateway {
+  // Rejects with PaymentDeclinedError if the client's payment method is refused
+  authorize(request: {
+    amountCents: number;
+    customerId: number;
+    reference: string;
+    idempotencyKey: string;
+  }): Promise<{ authorizationId: string }>;
+  capture(authorizationId: string, amountCents: number, idempotencyKey: string): Promise<{ chargeId: string }>;
+  voidAuthorization(authorizationId: string, idempotencyKey: string): Promise<void>;
+  // Sends money to a provider's bank account
+  payout(request: {
+    amountCents: number;
+    providerId: number;
+    reference: string;
+    idempotencyKey: string;
+  }): Promise<{ transferId: string }>;
+}
+
+export class PaymentDeclinedError extends Error {
+  status = 402;
+}
+
+type FakeAuthorization = {
+  amountCents: number;
+  state: 'authorized' | 'captured' | 'voided';
+};
+
+// Declines anything above this, so declines can be tried out locally
+const FAKE_DECLINE_ABOVE_CENTS = 1_000_000;
+
+/**
+ * In-memory gateway for development and tests. Keeps no money anywhere; it only checks
+ * that authorizations are captured or voided once and replays repeated idempotency keys,
+ * as a real gateway would.
+ */
+export class FakePaymentGateway implements PaymentGateway {
+  private authorizations = new Map<string, FakeAuthorization>();
+  private replies = new Map<string, Promise<unknown>>();
+  private nextId = 1;
+
+  async authorize({ amountCents, idempotencyKey }: Parameters<PaymentGateway['authorize']>[0]) {
+    return this.once(idempotencyKey, async () => {
+      if (amountCents <= 0 || amountCents > FAKE_DECLINE_ABOVE_CENTS) {
+        throw new PaymentDeclinedError('The payment was declined');
+      }
+
+      const authorizationId = `fake_auth_${this.nextId++}`;
+      this.authorizations.set(authorizationId, { amountCents, state: 'authorized' });
+      return { authorizationId };
+    });
+  }
+
+  async capture(authorizationId: string, amountCents: number, idempotencyKey: string) {
+    return this.once(idempotencyKey, async () => {
+      const authorization = this.pending(authorizationId);
+      if (authorization && amountCents > authorization.amountCents) {
+        throw new Error(`Cannot capture more than was authorized on ${authorizationId}`);
+      }
+
+      if (authorization) authorization.state = 'captured';
+      return { chargeId: `fake_charge_${this.nextId++}` };
+    });
+  }
+
+  async voidAuthorization(authorizationId: string, idempotencyKey: string) {
+    return this.once(idempotencyKey, async () => {
+      const authorization = this.pending(authorizationId);
+      if (authorization) authorization.state = 'voided';
+    });
+  }
+
+  async payout({ amountCents, idempotencyKey }: Parameters<PaymentGateway['payout']>[0]) {
+    return this.once(idempotencyKey, async () => {
+      if (amountCents <= 0) {
+        throw new Error('Payouts must be for a positive amount');
+      }
+      return { transferId: `fake_transfer_${this.nextId++}` };
+    });
+  }
+
+  // The first call with a key runs; later ones get its result, or its error, again
+  private once<T>(idempotencyKey: string, run: () => Promise<T>): Promise<T> {
+    if (!this.replies.has(idempotencyKey)) {
+      this.replies.set(idempotencyKey, run());
+    }
+    return this.replies.get(idempotencyKey) as Promise<T>;
+  }
+
+  // Authorizations made before a restart are forgotten; those are taken on trust
+  private pending(authorizationId: string): FakeAuthorization | undefined {
+    const authorization = this.authorizations.get(authorizationId);
+    if (authorization && authorization.state !== 'authorized') {
+      throw new Error(`Authorization ${authorizationId} is already ${authorization.state}`);
+    }
+    return authorization;
+  }
+}
+
+let gateway: PaymentGateway = new FakePaymentGateway();
+
+export function getPaymentGateway(): PaymentGateway {
+  return gateway;
+}
+
+// A real gateway is installed here at startup; until then the fake one is used
+export function setPaymentGateway(next: PaymentGateway) {
+  gateway = next;
+}
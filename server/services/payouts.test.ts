@@ -0,0 +1,92 @@
+import { randomUUID } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { storage } from '../storage';
+import { payoutStatuses, quotePricingTypes } from '@shared/schema';
+import { getAvailableBalance, PLATFORM_FEE_RATE } from './escrow';
+import { FakePaymentGateway, setPaymentGateway } from './payment-gateway';
+import { requestPayout, sendPendingPayouts } from './payouts';
+import { performServiceRequestAction } from './service-request-lifecycle';
+
+let gateway: FakePaymentGateway;
+
+async function createUser(isServiceProvider = false) {
+  const name = randomUUID().slice(0, 8);
+  return storage.createUser({
+    username: name,
+    email: `${name}@example.com`,
+    password: 'unused',
+    firstName: 'Test',
+    lastName: 'User',
+    isServiceProvider,
+  } as Parameters<typeof storage.createUser>[0]);
+}
+
+// A provider whose completed fixed-price job has been released to their balance
+async function providerWithEarnings(amount: number) {
+  const client = await createUser();
+  const providerUser = await createUser(true);
+  const category = await storage.createServiceCategory({ name: `Category ${randomUUID()}` });
+  const provider = await storage.createServiceProvider({
+    userId: providerUser.id,
+    categoryId: category.id,
+    hourlyRate: 50,
+  } as Parameters<typeof storage.createServiceProvider>[0]);
+  const request = await storage.createServiceRequest({
+    providerId: provider.id,
+    clientId: client.id,
+    initiatedBy: 'provider',
+  } as Parameters<typeof storage.createServiceRequest>[0]);
+  await storage.createQuote({ serviceRequestId: request.id, amount, pricingType: quotePricingTypes.FIXED });
+
+  await performServiceRequestAction(request.id, 'accept', client.id);
+  await performServiceRequestAction(request.id, 'start', providerUser.id);
+  await performServiceRequestAction(request.id, 'complete', client.id);
+
+  return { providerUser, provider };
+}
+
+beforeEach(() => {
+  gateway = new FakePaymentGateway();
+  setPaymentGateway(gateway);
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('payouts', () => {
+  it('transfers the available balance under the payout id and marks it paid', async () => {
+    const { providerUser, provider } = await providerWithEarnings(100);
+    const transfer = vi.spyOn(gateway, 'payout');
+
+    const payout = await requestPayout(providerUser.id);
+
+    expect(payout).toMatchObject({
+      status: payoutStatuses.PAID,
+      amountCents: 10000 - Math.round(10000 * PLATFORM_FEE_RATE),
+    });
+    expect(payout.transferId).toBeTruthy();
+    expect(transfer.mock.calls[0][0].idempotencyKey).toBe(`payout-${payout.id}`);
+    expect(await getAvailableBalance(provider.id, storage)).toBeCloseTo(0);
+  });
+
+  it('keeps the balance set aside when the transfer fails and sends it on retry', async () => {
+    const { providerUser, provider } = await providerWithEarnings(100);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const transfer = vi.spyOn(gateway, 'payout').mockRejectedValueOnce(new Error('gateway timeout'));
+
+    const pending = await requestPayout(providerUser.id);
+
+    expect(pending.status).toBe(payoutStatuses.PENDING);
+    expect(pending.transferId).toBeNull();
+    expect(await getAvailableBalance(provider.id, storage)).toBeCloseTo(0);
+
+    expect(await sendPendingPayouts()).toBeGreaterThanOrEqual(1);
+    const [paid] = await storage.getPayouts(provider.id);
+    expect(paid).toMatchObject({ id: pending.id, status: payoutStatuses.PAID });
+    expect(transfer.mock.calls.map(([request]) => request.idempotencyKey)).toEqual([
+      `payout-${pending.id}`,
+      `payout-${pending.id}`,
+    ]);
+  });
+});
@@ -0,0 +1,177 @@
+import { storage, type IStorage } from '../storage';
+import { journalEntryKinds, ledgerAccountTypes, payoutSchedules, payoutStatuses, payoutTriggers } from '@shared/schema';
+import type { Payout, PayoutOverview, PayoutSchedule, ServiceProvider } from '@shared/schema';
+import { getPaymentGateway } from './payment-gateway';
+import { getAccount, getAvailableBalance, getProviderAccount } from './escrow';
+
+// Smallest balance worth a bank transfer, e.g. PAYOUT_MINIMUM_CENTS=5000 for $50
+export const MINIMUM_PAYOUT_CENTS = Number(process.env.PAYOUT_MINIMUM_CENTS ?? 2500);
+
+const WEEK = 7 * 24 * 60 * 60 * 1000;
+
+// How often to look for weekly payouts that have come due
+const SCHEDULER_INTERVAL_MS = 60 * 60 * 1000;
+
+const { GATEWAY } = ledgerAccountTypes;
+const { PENDING, PAID } = payoutStatuses;
+
+export class PayoutPermissionError extends Error {
+  status = 403;
+}
+
+export class PayoutThresholdError extends Error {
+  status = 409;
+
+  constructor(availableCents: number) {
+    super(
+      `Payouts start at $${(MINIMUM_PAYOUT_CENTS / 100).toFixed(2)}; ` +
+      `you have $${(availableCents / 100).toFixed(2)} available`
+    );
+  }
+}
+
+export async function getOwnProvider(userId: number, store: IStorage = storage): Promise<ServiceProvider> {
+  const provider = await store.getServiceProviderByUserId(userId);
+  if (!provider) {
+    throw new PayoutPermissionError('Only service providers have earnings');
+  }
+  return provider;
+}
+
+/**
+ * Records a pending payout of the provider's whole available balance and debits it in the
+ * ledger, before the gateway is asked to transfer anything. Must run in a transaction; the
+ * provider row is locked so two payouts can't both spend the same balance.
+ */
+async function reservePayout(providerId: number, trigger: string, tx: IStorage): Promise<Payout> {
+  await tx.lockServiceProvider(providerId);
+
+  const amountCents = await getAvailableBalance(providerId, tx);
+  if (amountCents < MINIMUM_PAYOUT_CENTS) {
+    throw new PayoutThresholdError(amountCents);
+  }
+
+  const payout = await tx.createPayout({ providerId, amountCents, trigger });
+
+  const providerAccount = await getProviderAccount(providerId, tx);
+  const gatewayAccount = await getAccount(GATEWAY, GATEWAY, tx);
+  await tx.createJournalEntry(
+    { kind: journalEntryKinds.PAYOUT, description: 'Payout to your bank account', payoutId: payout.id },
+    [
+      { accountId: providerAccount.id, amountCents },
+      { accountId: gatewayAccount.id, amountCents: -amountCents },
+    ]
+  );
+  return payout;
+}
+
+/**
+ * Transfers a pending payout to the provider's bank and marks it paid. Keyed by the payout's
+ * id, so a retried transfer isn't sent twice. Call outside any transaction; if the gateway
+ * fails the payout stays pending and sendPendingPayouts tries again.
+ */
+export async function sendPayout(payout: Payout, store: IStorage = storage): Promise<Payout> {
+  const { transferId } = await getPaymentGateway().payout({
+    amountCents: payout.amountCents,
+    providerId: payout.providerId,
+    reference: `payout-${payout.id}`,
+    idempotencyKey: `payout-${payout.id}`,
+  });
+  return (await store.updatePayoutStatus(payout.id, PENDING, { status: PAID, transferId })) ?? payout;
+}
+
+// Retries every payout whose transfer hasn't been confirmed. Returns how many were sent.
+export async function sendPendingPayouts(): Promise<number> {
+  let sent = 0;
+  for (const payout of await storage.getPayoutsByStatus([PENDING])) {
+    try {
+      await sendPayout(payout);
+      sent++;
+    } catch (err) {
+      console.error(`Sending payout ${payout.id} failed:`, err);
+    }
+  }
+  return sent;
+}
+
+// Pays out now at the provider's request, whatever their schedule
+export async function requestPayout(userId: number): Promise<Payout> {
+  const provider = await getOwnProvider(userId);
+  const payout = await storage.transaction((tx) => reservePayout(provider.id, payoutTriggers.ON_DEMAND, tx));
+
+  try {
+    return await sendPayout(payout);
+  } catch (err) {
+    // The balance is already set aside; the scheduler sends it on its next run
+    console.error(`Sending payout ${payout.id} failed:`, err);
+    return payout;
+  }
+}
+
+// Weekly payouts go out a week after the previous payout of any kind
+function nextScheduledAt(provider: ServiceProvider, lastPayout: Payout | undefined): Date | null {
+  if (provider.payoutSchedule !== payoutSchedules.WEEKLY) return null;
+  return lastPayout?.createdAt ? new Date(lastPayout.createdAt.getTime() + WEEK) : new Date();
+}
+
+export async function getPayoutOverview(userId: number): Promise<PayoutOverview> {
+  const provider = await getOwnProvider(userId);
+  const payouts = await storage.getPayouts(provider.id);
+
+  return {
+    schedule: provider.payoutSchedule as PayoutSchedule,
+    availableCents: await getAvailableBalance(provider.id, storage),
+    minimumPayoutCents: MINIMUM_PAYOUT_CENTS,
+    nextScheduledAt: nextScheduledAt(provider, payouts[0]),
+    payouts,
+  };
+}
+
+export async function updatePayoutSchedule(userId: number, schedule: PayoutSchedule): Promise<PayoutOverview> {
+  const provider = await getOwnProvider(userId);
+  await storage.updateServiceProvider(provider.id, { payoutSchedule: schedule });
+  return getPayoutOverview(userId);
+}
+
+/**
+ * Retries pending payouts, then pays out every weekly provider whose payout is due and whose
+ * balance has reached the minimum. Each provider gets their own transaction, so one failure
+ * doesn't hold up the rest. Returns how many payouts went out.
+ */
+export async function runScheduledPayouts(now: Date = new Date()): Promise<number> {
+  let paid = await sendPendingPayouts();
+
+  const providers = await storage.getServiceProvidersByPayoutSchedule(payoutSchedules.WEEKLY);
+
+  for (const provider of providers) {
+    try {
+      const payout = await storage.transaction(async (tx) => {
+        // Checked under the lock so instances running this at once don't both pay
+        const locked = await tx.lockServiceProvider(provider.id);
+        const [lastPayout] = await tx.getPayouts(provider.id);
+        const due = locked && nextScheduledAt(locked, lastPayout);
+        if (!due || due > now) return null;
+
+        if ((await getAvailableBalance(provider.id, tx)) < MINIMUM_PAYOUT_CENTS) return null;
+        return reservePayout(provider.id, payoutTriggers.SCHEDULED, tx);
+      });
+      if (payout) {
+        await sendPayout(payout);
+        paid++;
+      }
+    } catch (err) {
+      console.error(`Scheduled payout failed for provider ${provider.id}:`, err);
+    }
+  }
+
+  return paid;
+}
+
+export function startPayoutScheduler() {
+  const timer = setInterval(() => {
+    runScheduledPayouts().catch((err) => console.error('Scheduled payouts failed:', err));
+  }, SCHEDULER_INTERVAL_MS);
+  // Don't keep the process alive just for payouts
+  timer.unref();
+  return timer;
+}
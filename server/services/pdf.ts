@@ -0,0 +1,151 @@
+// Just enough of PDF 1.4 to lay out text documents such as invoices, using the built-in Helvetica fonts
+
+// US Letter, in points
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+export type PdfFont = 'regular' | 'bold';
+
+type TextOptions = {
+  size?: number;
+  font?: PdfFont;
+  align?: 'left' | 'right';
+};
+
+const fontResources: Record<PdfFont, string> = {
+  regular: 'F1',
+  bold: 'F2',
+};
+
+// Helvetica advance widths (1/1000 em) for printable ASCII, from its standard font metrics.
+// Bold glyphs are slightly wider but digits and punctuation match, so amounts still line up
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const DEFAULT_WIDTH = 556;
+
+// WinAnsiEncoding matches Latin-1 except for these, which it moves into 128-159
+const winAnsiExtras: Record<string, number> = {
+  '€': 128, '‘': 145, '’': 146, '“': 147, '”': 148, '•': 149, '–': 150, '—': 151,
+};
+
+function charWidth(char: string): number {
+  const code = char.charCodeAt(0);
+  return code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : DEFAULT_WIDTH;
+}
+
+export function textWidth(text: string, size: number): number {
+  let width = 0;
+  for (const char of text) width += charWidth(char);
+  return (width * size) / 1000;
+}
+
+// Shortens text with an ellipsis so it fits in the given width
+export function fitText(text: string, maxWidth: number, size: number): string {
+  if (textWidth(text, size) <= maxWidth) return text;
+
+  let fitted = text;
+  while (fitted.length > 0 && textWidth(`${fitted}...`, size) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}...`;
+}
+
+// A PDF string literal; characters the standard fonts can't show become "?"
+function encodeText(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    const code = winAnsiExtras[char] ?? char.charCodeAt(0);
+    if (char === '\\' || char === '(' || char === ')') {
+      encoded += `\\${char}`;
+    } else if (code >= 32 && code <= 126) {
+      encoded += char;
+    } else if (code >= 128 && code <= 255 && char.length === 1) {
+      encoded += `\\${code.toString(8).padStart(3, '0')}`;
+    } else {
+      encoded += '?';
+    }
+  }
+  return `(${encoded})`;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+/**
+ * Builds a PDF page by page. Coordinates are in points from the bottom-left corner
+ * of the page, as in PDF itself; drawing always goes to the last page added.
+ */
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  constructor(private title: string) {
+    this.addPage();
+  }
+
+  addPage() {
+    this.pages.push([]);
+  }
+
+  text(text: string, x: number, y: number, { size = 10, font = 'regular', align = 'left' }: TextOptions = {}) {
+    const left = align === 'right' ? x - textWidth(text, size) : x;
+    this.current().push(
+      `BT /${fontResources[font]} ${size} Tf ${formatNumber(left)} ${formatNumber(y)} Td ${encodeText(text)} Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5) {
+    this.current().push(
+      `${formatNumber(width)} w ${formatNumber(x1)} ${formatNumber(y1)} m ${formatNumber(x2)} ${formatNumber(y2)} l S`
+    );
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const fontIds = { regular: 3, bold: 4 };
+    const firstPageId = 6;
+
+    const pageIds = this.pages.map((_, index) => firstPageId + index * 2);
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    objects[fontIds.regular] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[fontIds.bold] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    objects[5] = `<< /Title ${encodeText(this.title)} /Producer (Find My Helper) >>`;
+
+    this.pages.forEach((operations, index) => {
+      const pageId = pageIds[index];
+      // Content is plain ASCII once encoded, so its length in characters is its length in bytes
+      const content = operations.join('\n');
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 ${fontIds.regular} 0 R /F2 ${fontIds.bold} 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+}
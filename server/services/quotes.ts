@@ -0,0 +1,109 @@
+import { storage } from '../storage';
+import { quotePricingTypes, serviceRequestStatuses } from '@shared/schema';
+import type { Quote, QuoteComparison, ServiceRequest } from '@shared/schema';
+import { performServiceRequestAction, isQuoteExpired } from './service-request-lifecycle';
+import { TaskNotFoundError } from './task-lifecycle';
+import { notifyQuoteDecision, broadcastServiceRequestUpdated } from './notification';
+
+export class QuoteNotFoundError extends Error {
+  status = 404;
+
+  constructor(quoteId: number) {
+    super(`Quote ${quoteId} not found`);
+  }
+}
+
+export class QuotePermissionError extends Error {
+  status = 403;
+}
+
+// What the whole job should cost; hourly quotes are priced at their estimated hours
+export function estimatedTotal(quote: Quote): number {
+  return quote.pricingType === quotePricingTypes.HOURLY ? quote.amount * (quote.estimatedHours ?? 0) : quote.amount;
+}
+
+/**
+ * Every quote made on a task, for its owner to compare. Cheapest estimated total first.
+ */
+export async function getTaskQuotes(taskId: number, userId: number): Promise<QuoteComparison[]> {
+  const task = await storage.getTask(taskId);
+  if (!task) {
+    throw new TaskNotFoundError(taskId);
+  }
+
+  if (task.clientId !== userId) {
+    throw new QuotePermissionError('Only the task owner can compare its quotes');
+  }
+
+  const now = new Date();
+  const requests = await storage.getServiceRequestsByTask(taskId);
+  const comparisons = await Promise.all(
+    requests.map(async (serviceRequest): Promise<QuoteComparison | null> => {
+      const quote = await storage.getQuoteByServiceRequest(serviceRequest.id);
+      const provider = await storage.getServiceProviderWithUser(serviceRequest.providerId);
+      if (!quote || !provider) return null;
+
+      return {
+        ...quote,
+        serviceRequest,
+        provider: {
+          ...provider,
+          user: {
+            id: provider.user.id,
+            firstName: provider.user.firstName,
+            lastName: provider.user.lastName,
+            profilePicture: provider.user.profilePicture,
+            username: provider.user.username
+          }
+        },
+        estimatedTotal: estimatedTotal(quote),
+        expired: isQuoteExpired(quote, now)
+      };
+    })
+  );
+
+  return comparisons
+    .filter((comparison): comparison is QuoteComparison => comparison !== null)
+    .sort((a, b) => a.estimatedTotal - b.estimatedTotal);
+}
+
+/**
+ * Accepts an offer on behalf of the client. For task offers this assigns the task,
+ * declines every other pending offer on it and tells each bidder how they fared.
+ */
+export async function acceptOffer(requestId: number, userId: number): Promise<ServiceRequest> {
+  const request = await storage.getServiceRequest(requestId);
+
+  // Remember who was still in the running so only offers declined by this acceptance are reported
+  const competingIds = request?.taskId
+    ? (await storage.getServiceRequestsByTask(request.taskId))
+        .filter((other) => other.id !== requestId && other.status === serviceRequestStatuses.PENDING)
+        .map((other) => other.id)
+    : [];
+
+  const accepted = await performServiceRequestAction(requestId, 'accept', userId);
+  if (!accepted.taskId) return accepted;
+
+  const task = await storage.getTask(accepted.taskId);
+  const declined = (await storage.getServiceRequestsByTask(accepted.taskId)).filter(
+    (other) => competingIds.includes(other.id) && other.status === serviceRequestStatuses.DECLINED
+  );
+
+  for (const other of declined) {
+    await broadcastServiceRequestUpdated(other);
+  }
+  if (task) {
+    await notifyQuoteDecision(task, accepted, declined);
+  }
+
+  return accepted;
+}
+
+export async function acceptQuote(quoteId: number, userId: number): Promise<ServiceRequest> {
+  const quote = await storage.getQuote(quoteId);
+  if (!quote) {
+    throw new QuoteNotFoundError(quoteId);
+  }
+
+  return acceptOffer(quote.serviceRequestId, userId);
+}
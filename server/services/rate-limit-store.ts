@@ -0,0 +1,92 @@
+import type { Pool } from 'pg';
+
+// Hits counted against one key in a fixed window
+export type RateLimitCounter = {
+  count: number;
+  resetAt: Date;
+  lastHitAt: Date;
+};
+
+/**
+ * Where rate limit counters live. The in-memory store counts per process; the Postgres
+ * one is shared by every server instance, so limits hold however requests are balanced.
+ */
+export interface RateLimitStore {
+  // Counts one hit, starting a new window of the given length if the last one has ended
+  hit(key: string, windowMs: number, now: Date): Promise<RateLimitCounter>;
+  // The key's counter, or null once its window has ended
+  get(key: string, now: Date): Promise<RateLimitCounter | null>;
+  reset(key: string): Promise<void>;
+  // Drops counters whose windows ended before now
+  prune(now: Date): Promise<void>;
+}
+
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, RateLimitCounter>();
+
+  async hit(key: string, windowMs: number, now: Date) {
+    const current = this.counters.get(key);
+    const counter = current && current.resetAt > now
+      ? { ...current, count: current.count + 1, lastHitAt: now }
+      : { count: 1, resetAt: new Date(now.getTime() + windowMs), lastHitAt: now };
+
+    this.counters.set(key, counter);
+    return counter;
+  }
+
+  async get(key: string, now: Date) {
+    const counter = this.counters.get(key);
+    return counter && counter.resetAt > now ? counter : null;
+  }
+
+  async reset(key: string) {
+    this.counters.delete(key);
+  }
+
+  async prune(now: Date) {
+    this.counters.forEach((counter, key) => {
+      if (counter.resetAt <= now) this.counters.delete(key);
+    });
+  }
+}
+
+type CounterRow = { count: number; reset_at: Date; last_hit_at: Date };
+
+function toCounter(row: CounterRow): RateLimitCounter {
+  return { count: row.count, resetAt: row.reset_at, lastHitAt: row.last_hit_at };
+}
+
+// Counters in the rate_limits table; each hit is a single upsert, so concurrent hits all count
+export class PostgresRateLimitStore implements RateLimitStore {
+  constructor(private pool: Pool) {}
+
+  async hit(key: string, windowMs: number, now: Date) {
+    const { rows } = await this.pool.query<CounterRow>(
+      `INSERT INTO rate_limits (key, count, reset_at, last_hit_at)
+       VALUES ($1, 1, $2, $3)
+       ON CONFLICT (key) DO UPDATE SET
+         count = CASE WHEN rate_limits.reset_at <= $3 THEN 1 ELSE rate_limits.count + 1 END,
+         reset_at = CASE WHEN rate_limits.reset_at <= $3 THEN $2 ELSE rate_limits.reset_at END,
+         last_hit_at = $3
+       RETURNING count, reset_at, last_hit_at`,
+      [key, new Date(now.getTime() + windowMs), now]
+    );
+    return toCounter(rows[0]);
+  }
+
+  async get(key: string, now: Date) {
+    const { rows } = await this.pool.query<CounterRow>(
+      'SELECT count, reset_at, last_hit_at FROM rate_limits WHERE key = $1 AND reset_at > $2',
+      [key, now]
+    );
+    return rows[0] ? toCounter(rows[0]) : null;
+  }
+
+  async reset(key: string) {
+    await this.pool.query('DELETE FROM rate_limits WHERE key = $1', [key]);
+  }
+
+  async prune(now: Date) {
+    await this.pool.query('DELETE FROM rate_limits WHERE reset_at <= $1', [now]);
+  }
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { loadPolicies } from './rate-limit';
+
+describe('loadPolicies', () => {
+  it('merges overrides into the defaults', () => {
+    const policies = loadPolicies('{"messaging":{"perAccount":60}}');
+    expect(policies.messaging).toMatchObject({ perAccount: 60, perIp: 60 });
+    expect(policies.auth).toEqual(loadPolicies(undefined).auth);
+  });
+
+  it('names an unknown group or field', () => {
+    expect(() => loadPolicies('{"mesaging":{"perAccount":60}}')).toThrow('Invalid RATE_LIMIT_POLICIES at "mesaging"');
+    expect(() => loadPolicies('{"auth":{"perAcount":5}}')).toThrow('Invalid RATE_LIMIT_POLICIES at "auth.perAcount"');
+  });
+
+  it('names a value that is not a positive whole number', () => {
+    expect(() => loadPolicies('{"auth":{"windowMs":"15m"}}')).toThrow('Invalid RATE_LIMIT_POLICIES at "auth.windowMs"');
+    expect(() => loadPolicies('{"email":{"perIp":0}}')).toThrow('Invalid RATE_LIMIT_POLICIES at "email.perIp"');
+  });
+
+  it('rejects malformed JSON', () => {
+    expect(() => loadPolicies('{auth:')).toThrow('RATE_LIMIT_POLICIES is not valid JSON');
+  });
+});
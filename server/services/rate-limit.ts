@@ -0,0 +1,190 @@
+import { z } from 'zod';
+import { pool } from '../db';
+import { InMemoryRateLimitStore, PostgresRateLimitStore, type RateLimitStore } from './rate-limit-store';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+// Fixed-window limits for one group of routes; each request counts against its IP and, when known, its account
+export type RateLimitPolicy = {
+  windowMs: number;
+  perIp: number;
+  perAccount: number;
+};
+
+const defaultPolicies = {
+  // Login, registration, verification and password reset endpoints
+  auth: { windowMs: 15 * MINUTE, perIp: 50, perAccount: 10 },
+  // Verification, reset and login-link emails, counted per address whatever they're for
+  email: { windowMs: HOUR, perIp: 20, perAccount: 5 },
+  taskCreation: { windowMs: HOUR, perIp: 60, perAccount: 20 },
+  serviceRequests: { windowMs: HOUR, perIp: 120, perAccount: 60 },
+  messaging: { windowMs: MINUTE, perIp: 60, perAccount: 30 },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitGroup = keyof typeof defaultPolicies;
+
+const policyOverrideSchema = z.object({
+  windowMs: z.number().int().positive(),
+  perIp: z.number().int().positive(),
+  perAccount: z.number().int().positive(),
+}).partial().strict();
+
+const policyOverridesSchema = z.object(
+  Object.fromEntries(Object.keys(defaultPolicies).map((group) => [group, policyOverrideSchema]))
+).partial().strict();
+
+// Names the offending key, so a typo in the environment fails at startup instead of being ignored
+function parsePolicyOverrides(json: string): Partial<Record<RateLimitGroup, Partial<RateLimitPolicy>>> {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('RATE_LIMIT_POLICIES is not valid JSON');
+  }
+
+  const result = policyOverridesSchema.safeParse(value);
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    const path = [...issue.path, ...(issue.code === 'unrecognized_keys' ? issue.keys : [])].join('.');
+    throw new Error(`Invalid RATE_LIMIT_POLICIES${path ? ` at "${path}"` : ''}: ${issue.message}`);
+  }
+  return result.data;
+}
+
+// Partial overrides as JSON, e.g. RATE_LIMIT_POLICIES='{"messaging":{"perAccount":60}}'
+export function loadPolicies(json = process.env.RATE_LIMIT_POLICIES): Record<RateLimitGroup, RateLimitPolicy> {
+  const overrides = json ? parsePolicyOverrides(json) : {};
+
+  const policies = { ...defaultPolicies } as Record<RateLimitGroup, RateLimitPolicy>;
+  for (const group of Object.keys(policies) as RateLimitGroup[]) {
+    policies[group] = { ...policies[group], ...overrides[group] };
+  }
+  return policies;
+}
+
+export const rateLimitPolicies = loadPolicies();
+
+// Failed logins lock the account (and, at a higher bar, the IP) for a minute, doubling with each further failure
+const LOGIN_FAILURE_WINDOW_MS = 24 * HOUR;
+const ACCOUNT_LOCKOUT_THRESHOLD = 5;
+const IP_LOCKOUT_THRESHOLD = 20;
+const BASE_LOCKOUT_MS = MINUTE;
+const MAX_LOCKOUT_MS = HOUR;
+
+const PRUNE_INTERVAL_MS = 10 * MINUTE;
+
+function createRateLimitStore(): RateLimitStore {
+  return process.env.RATE_LIMIT_STORE === 'memory' ? new InMemoryRateLimitStore() : new PostgresRateLimitStore(pool);
+}
+
+// RATE_LIMIT_STORE=memory counts per process, for single-instance setups without the rate_limits table
+const store = createRateLimitStore();
+
+export function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+// The error handler turns retryAfterSeconds into a Retry-After header
+export class RateLimitExceededError extends Error {
+  status = 429;
+
+  constructor(public retryAfterSeconds: number, message?: string) {
+    super(message ?? `Too many requests. Try again in ${formatRetryAfter(retryAfterSeconds)}.`);
+  }
+}
+
+// Who a request is counted against; accounts are "user:<id>" or a lowercased email address
+export type RateLimitSubject = {
+  ip?: string;
+  account?: string;
+};
+
+export type RateLimitResult = {
+  allowed: boolean;
+  // 0 when allowed
+  retryAfterSeconds: number;
+};
+
+function secondsUntil(time: Date, now: Date): number {
+  return Math.max(1, Math.ceil((time.getTime() - now.getTime()) / 1000));
+}
+
+/**
+ * Counts a request against the group's limits and says whether it may go ahead.
+ * Requests over the limit still count, so hammering doesn't find a gap.
+ */
+export async function checkRateLimit(group: RateLimitGroup, subject: RateLimitSubject, now = new Date()): Promise<RateLimitResult> {
+  const policy = rateLimitPolicies[group];
+  const limits: Array<[string, number]> = [];
+  if (subject.ip) limits.push([`${group}:ip:${subject.ip}`, policy.perIp]);
+  if (subject.account) limits.push([`${group}:account:${subject.account}`, policy.perAccount]);
+
+  let retryAfterSeconds = 0;
+  for (const [key, max] of limits) {
+    const counter = await store.hit(key, policy.windowMs, now);
+    if (counter.count > max) {
+      retryAfterSeconds = Math.max(retryAfterSeconds, secondsUntil(counter.resetAt, now));
+    }
+  }
+
+  return { allowed: retryAfterSeconds === 0, retryAfterSeconds };
+}
+
+export async function enforceRateLimit(group: RateLimitGroup, subject: RateLimitSubject, now = new Date()): Promise<void> {
+  const { allowed, retryAfterSeconds } = await checkRateLimit(group, subject, now);
+  if (!allowed) {
+    throw new RateLimitExceededError(retryAfterSeconds);
+  }
+}
+
+function loginFailureKeys(ip: string | undefined, email: string | undefined) {
+  const keys: Array<[string, number]> = [];
+  if (email) keys.push([`login-failures:account:${email.trim().toLowerCase()}`, ACCOUNT_LOCKOUT_THRESHOLD]);
+  if (ip) keys.push([`login-failures:ip:${ip}`, IP_LOCKOUT_THRESHOLD]);
+  return keys;
+}
+
+function lockoutMs(failures: number, threshold: number): number {
+  if (failures < threshold) return 0;
+  return Math.min(BASE_LOCKOUT_MS * 2 ** (failures - threshold), MAX_LOCKOUT_MS);
+}
+
+// Seconds until the account or IP may try a password again; 0 if neither is locked out
+export async function getLoginLockout(ip: string | undefined, email: string | undefined, now = new Date()): Promise<number> {
+  let retryAfterSeconds = 0;
+  for (const [key, threshold] of loginFailureKeys(ip, email)) {
+    const counter = await store.get(key, now);
+    if (!counter) continue;
+
+    const lockedUntil = new Date(counter.lastHitAt.getTime() + lockoutMs(counter.count, threshold));
+    if (lockedUntil > now) {
+      retryAfterSeconds = Math.max(retryAfterSeconds, secondsUntil(lockedUntil, now));
+    }
+  }
+  return retryAfterSeconds;
+}
+
+export async function recordFailedLogin(ip: string | undefined, email: string, now = new Date()): Promise<void> {
+  for (const [key] of loginFailureKeys(ip, email)) {
+    await store.hit(key, LOGIN_FAILURE_WINDOW_MS, now);
+  }
+}
+
+// A successful login clears the account's failures; the IP's stay, as it may be trying many accounts
+export async function clearFailedLogins(email: string): Promise<void> {
+  for (const [key] of loginFailureKeys(undefined, email)) {
+    await store.reset(key);
+  }
+}
+
+export function startRateLimitPruner() {
+  const timer = setInterval(() => {
+    store.prune(new Date()).catch((err) => console.error('Pruning rate limit counters failed:', err));
+  }, PRUNE_INTERVAL_MS);
+  // Don't keep the process alive just for pruning
+  timer.unref();
+  return timer;
+}
@@ -0,0 +1,175 @@
+import { randomUUID } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { storage } from '../storage';
+import { reviewerRoles, reviewModerationActions, type Review } from '@shared/schema';
+import { applyReview, addReviewToRating, bayesianScore, emptyAggregate, recomputeAllRatings, RATING_PRIOR_MEAN } from './ratings';
+import { moderateReview } from './review-moderation';
+import { ReviewNotAllowedError } from './reviews';
+
+async function createUser(isServiceProvider = false) {
+  const name = randomUUID().slice(0, 8);
+  return storage.createUser({
+    username: name,
+    email: `${name}@example.com`,
+    password: 'unused',
+    firstName: 'Test',
+    lastName: 'User',
+    isServiceProvider,
+  } as Parameters<typeof storage.createUser>[0]);
+}
+
+async function createProvider() {
+  const providerUser = await createUser(true);
+  const category = await storage.createServiceCategory({ name: `Category ${randomUUID()}` });
+  return storage.createServiceProvider({
+    userId: providerUser.id,
+    categoryId: category.id,
+    hourlyRate: 50,
+  } as Parameters<typeof storage.createServiceProvider>[0]);
+}
+
+// A published review of the provider on a request of its own, counted in their rating if it's a client's
+async function publishedReview(
+  providerId: number,
+  fields: Partial<Pick<Review, 'rating' | 'reviewerRole' | 'qualityRating'>> = {}
+): Promise<Review> {
+  const client = await createUser();
+  const request = await storage.createServiceRequest({
+    providerId,
+    clientId: client.id,
+    initiatedBy: 'client',
+  } as Parameters<typeof storage.createServiceRequest>[0]);
+  const review = await storage.createReview({
+    serviceRequestId: request.id,
+    clientId: client.id,
+    providerId,
+    reviewerRole: reviewerRoles.CLIENT,
+    rating: 5,
+    comment: null,
+    ...fields,
+  } as Parameters<typeof storage.createReview>[0]);
+
+  return storage.transaction(async (tx) => {
+    const [published] = await tx.publishReviews([review.id], new Date());
+    if (published.reviewerRole === reviewerRoles.CLIENT) {
+      await addReviewToRating(published, tx);
+    }
+    return published;
+  });
+}
+
+// Just the fields applyReview reads
+function review(rating: number, subRatings: Partial<Review> = {}): Review {
+  return {
+    rating,
+    punctualityRating: null,
+    qualityRating: null,
+    communicationRating: null,
+    valueRating: null,
+    ...subRatings,
+  } as Review;
+}
+
+describe('bayesianScore', () => {
+  it('starts every provider at the prior mean', () => {
+    expect(bayesianScore(0, 0)).toBe(RATING_PRIOR_MEAN);
+  });
+
+  it('moves towards the average as reviews accumulate', () => {
+    expect(bayesianScore(1, 5)).toBeCloseTo(3.75);
+    expect(bayesianScore(100, 500)).toBeGreaterThan(4.9);
+  });
+
+  it('ranks a long record above a single perfect review', () => {
+    expect(bayesianScore(20, 20 * 4.5)).toBeGreaterThan(bayesianScore(1, 5));
+  });
+});
+
+describe('applyReview', () => {
+  it('adds the rating, its star and the sub-ratings given', () => {
+    const aggregate = applyReview(emptyAggregate(1), review(4, { qualityRating: 5 }), 1);
+
+    expect(aggregate).toMatchObject({ reviewCount: 1, ratingSum: 4, distribution: [0, 0, 0, 1, 0] });
+    expect(aggregate.dimensions.quality).toEqual({ count: 1, sum: 5 });
+    expect(aggregate.dimensions.punctuality).toEqual({ count: 0, sum: 0 });
+    expect(aggregate.bayesianScore).toBe(bayesianScore(1, 4));
+  });
+
+  it('takes a review back out with weight -1', () => {
+    const added = applyReview(applyReview(emptyAggregate(1), review(2), 1), review(5, { valueRating: 3 }), 1);
+    const removed = applyReview(added, review(5, { valueRating: 3 }), -1);
+
+    expect(removed).toMatchObject({ reviewCount: 1, ratingSum: 2, distribution: [0, 1, 0, 0, 0] });
+    expect(removed.dimensions.value).toEqual({ count: 0, sum: 0 });
+    expect(removed.bayesianScore).toBe(bayesianScore(1, 2));
+  });
+});
+
+describe('recomputeAllRatings', () => {
+  it('rebuilds drifted totals from the reviews that count', async () => {
+    const provider = await createProvider();
+    await publishedReview(provider.id, { rating: 5 });
+    await publishedReview(provider.id, { rating: 3 });
+    await publishedReview(provider.id, { rating: 1, reviewerRole: reviewerRoles.PROVIDER });
+    const hidden = await publishedReview(provider.id, { rating: 1 });
+    await storage.updateReview(hidden.id, { hiddenAt: new Date() });
+    await storage.saveProviderRatingAggregate({ ...emptyAggregate(provider.id), reviewCount: 40, ratingSum: 41 });
+
+    expect(await recomputeAllRatings()).toBeGreaterThanOrEqual(1);
+
+    expect(await storage.getProviderRatingAggregate(provider.id)).toMatchObject({
+      reviewCount: 2,
+      ratingSum: 8,
+      distribution: [0, 0, 1, 0, 1],
+    });
+    expect(await storage.getServiceProvider(provider.id)).toMatchObject({
+      rating: 4,
+      ratingScore: Number(bayesianScore(2, 8).toFixed(3)),
+    });
+  });
+});
+
+describe('moderateReview', () => {
+  it("takes a hidden review out of the provider's rating and puts it back on restore", async () => {
+    const provider = await createProvider();
+    const moderator = await createUser();
+    await publishedReview(provider.id, { rating: 5 });
+    const harsh = await publishedReview(provider.id, { rating: 1 });
+
+    await moderateReview(moderator.id, harsh.id, { action: reviewModerationActions.HIDE });
+    expect(await storage.getProviderRatingAggregate(provider.id)).toMatchObject({ reviewCount: 1, ratingSum: 5 });
+    expect((await storage.getServiceProvider(provider.id))?.rating).toBe(5);
+
+    await moderateReview(moderator.id, harsh.id, { action: reviewModerationActions.RESTORE });
+    expect(await storage.getProviderRatingAggregate(provider.id)).toMatchObject({ reviewCount: 2, ratingSum: 6 });
+    expect((await storage.getServiceProvider(provider.id))?.rating).toBe(3);
+  });
+
+  it("leaves the rating alone when dismissing reports or hiding a provider's review", async () => {
+    const provider = await createProvider();
+    const moderator = await createUser();
+    const counted = await publishedReview(provider.id, { rating: 4 });
+    const providers = await publishedReview(provider.id, { rating: 1, reviewerRole: reviewerRoles.PROVIDER });
+
+    await moderateReview(moderator.id, counted.id, { action: reviewModerationActions.DISMISS });
+    await moderateReview(moderator.id, providers.id, { action: reviewModerationActions.HIDE });
+
+    expect(await storage.getProviderRatingAggregate(provider.id)).toMatchObject({ reviewCount: 1, ratingSum: 4 });
+  });
+
+  it('takes a review out of the rating once when two moderators hide it at the same time', async () => {
+    const provider = await createProvider();
+    const [first, second] = [await createUser(), await createUser()];
+    await publishedReview(provider.id, { rating: 5 });
+    const harsh = await publishedReview(provider.id, { rating: 1 });
+
+    const results = await Promise.allSettled([
+      moderateReview(first.id, harsh.id, { action: reviewModerationActions.HIDE }),
+      moderateReview(second.id, harsh.id, { action: reviewModerationActions.HIDE }),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find((result) => result.status === 'rejected')).toMatchObject({ reason: expect.any(ReviewNotAllowedError) });
+    expect(await storage.getProviderRatingAggregate(provider.id)).toMatchObject({ reviewCount: 1, ratingSum: 5 });
+  });
+});
@@ -0,0 +1,166 @@
+import { storage, type IStorage } from '../storage';
+import { ratingDimensions, reviewerRoles } from '@shared/schema';
+import type { ProviderRatingAggregate, ProviderRatingSummary, RatingDimension, RatingTally, Review } from '@shared/schema';
+
+/**
+ * Bayesian prior for ranking: every provider starts at RATING_PRIOR_MEAN as if they had
+ * RATING_PRIOR_WEIGHT reviews of it, so one lucky 5-star review can't outrank a long record.
+ */
+export const RATING_PRIOR_MEAN = 3.5;
+export const RATING_PRIOR_WEIGHT = 5;
+
+// How often the aggregates are rebuilt from the reviews table, to undo any drift
+const RECOMPUTE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const dimensionColumns: Record<RatingDimension, 'punctualityRating' | 'qualityRating' | 'communicationRating' | 'valueRating'> = {
+  punctuality: 'punctualityRating',
+  quality: 'qualityRating',
+  communication: 'communicationRating',
+  value: 'valueRating',
+};
+
+function round(value: number, digits: number): number {
+  return parseFloat(value.toFixed(digits));
+}
+
+export function bayesianScore(reviewCount: number, ratingSum: number): number {
+  return (RATING_PRIOR_WEIGHT * RATING_PRIOR_MEAN + ratingSum) / (RATING_PRIOR_WEIGHT + reviewCount);
+}
+
+export function emptyAggregate(providerId: number): ProviderRatingAggregate {
+  const dimensions = {} as Record<RatingDimension, RatingTally>;
+  for (const dimension of ratingDimensions) {
+    dimensions[dimension] = { count: 0, sum: 0 };
+  }
+
+  return {
+    providerId,
+    reviewCount: 0,
+    ratingSum: 0,
+    distribution: [0, 0, 0, 0, 0],
+    dimensions,
+    bayesianScore: bayesianScore(0, 0),
+    updatedAt: new Date(),
+  };
+}
+
+// Client reviews count once published, for as long as no moderator has hidden them
+export function countsTowardsRating(review: Review): boolean {
+  return review.reviewerRole === reviewerRoles.CLIENT && review.publishedAt !== null && review.hiddenAt === null;
+}
+
+// The aggregate with the review added (weight 1) or taken back out (weight -1)
+export function applyReview(aggregate: ProviderRatingAggregate, review: Review, weight: 1 | -1): ProviderRatingAggregate {
+  const distribution = [...aggregate.distribution];
+  distribution[review.rating - 1] += weight;
+
+  const dimensions = { ...aggregate.dimensions };
+  for (const dimension of ratingDimensions) {
+    const value = review[dimensionColumns[dimension]];
+    if (value === null) continue;
+
+    const tally = dimensions[dimension] ?? { count: 0, sum: 0 };
+    dimensions[dimension] = { count: tally.count + weight, sum: tally.sum + weight * value };
+  }
+
+  const reviewCount = aggregate.reviewCount + weight;
+  const ratingSum = aggregate.ratingSum + weight * review.rating;
+  return {
+    ...aggregate,
+    reviewCount,
+    ratingSum,
+    distribution,
+    dimensions,
+    bayesianScore: bayesianScore(reviewCount, ratingSum),
+    updatedAt: new Date(),
+  };
+}
+
+// Stores the aggregate and the two figures cached on the provider for display and search
+async function saveAggregate(aggregate: ProviderRatingAggregate, tx: IStorage) {
+  await tx.saveProviderRatingAggregate(aggregate);
+  await tx.updateServiceProvider(aggregate.providerId, {
+    rating: aggregate.reviewCount > 0 ? round(aggregate.ratingSum / aggregate.reviewCount, 1) : 0,
+    ratingScore: round(aggregate.bayesianScore, 3),
+  });
+}
+
+async function adjustRating(review: Review, weight: 1 | -1, tx: IStorage) {
+  // Serializes updates to the same provider's totals
+  await tx.lockServiceProvider(review.providerId);
+  const current = (await tx.getProviderRatingAggregate(review.providerId)) ?? emptyAggregate(review.providerId);
+  await saveAggregate(applyReview(current, review, weight), tx);
+}
+
+// Call in the transaction that publishes or restores the review
+export async function addReviewToRating(review: Review, tx: IStorage) {
+  await adjustRating(review, 1, tx);
+}
+
+// Call in the transaction that hides the review
+export async function removeReviewFromRating(review: Review, tx: IStorage) {
+  await adjustRating(review, -1, tx);
+}
+
+// Rebuilds the provider's aggregate from their reviews, discarding the running totals
+export async function recomputeProviderRating(providerId: number, tx: IStorage): Promise<ProviderRatingAggregate> {
+  await tx.lockServiceProvider(providerId);
+  const reviews = await tx.getPublishedProviderReviews(providerId);
+  const aggregate = reviews
+    .filter(countsTowardsRating)
+    .reduce((totals, review) => applyReview(totals, review, 1), emptyAggregate(providerId));
+
+  await saveAggregate(aggregate, tx);
+  return aggregate;
+}
+
+/**
+ * Rebuilds every provider's aggregate, each in its own transaction so one failure doesn't
+ * stop the rest. Returns how many were rebuilt.
+ */
+export async function recomputeAllRatings(): Promise<number> {
+  const providers = await storage.getServiceProviders();
+  let rebuilt = 0;
+
+  for (const provider of providers) {
+    try {
+      await storage.transaction((tx) => recomputeProviderRating(provider.id, tx));
+      rebuilt++;
+    } catch (err) {
+      console.error(`Rebuilding ratings failed for provider ${provider.id}:`, err);
+    }
+  }
+
+  return rebuilt;
+}
+
+export function startRatingRecompute() {
+  const run = () => {
+    recomputeAllRatings().catch((err) => console.error('Rebuilding ratings failed:', err));
+  };
+
+  // Once at startup so aggregates exist for reviews written before they did
+  run();
+  const timer = setInterval(run, RECOMPUTE_INTERVAL_MS);
+  // Don't keep the process alive just for ratings
+  timer.unref();
+  return timer;
+}
+
+export async function getRatingSummary(providerId: number): Promise<ProviderRatingSummary> {
+  const aggregate = (await storage.getProviderRatingAggregate(providerId)) ?? emptyAggregate(providerId);
+
+  const dimensions = {} as Record<RatingDimension, number | null>;
+  for (const dimension of ratingDimensions) {
+    const tally = aggregate.dimensions[dimension];
+    dimensions[dimension] = tally && tally.count > 0 ? round(tally.sum / tally.count, 1) : null;
+  }
+
+  return {
+    reviewCount: aggregate.reviewCount,
+    average: aggregate.reviewCount > 0 ? round(aggregate.ratingSum / aggregate.reviewCount, 1) : null,
+    bayesianScore: round(aggregate.bayesianScore, 2),
+    distribution: aggregate.distribution,
+    dimensions,
+  };
+}
@@ -0,0 +1,76 @@
+import { storage } from '../storage';
+import { reviewModerationActions } from '@shared/schema';
+import type { ModerationQueueItem, Review, ReviewModerationRequest } from '@shared/schema';
+import { ReviewNotAllowedError, ReviewNotFoundError } from './reviews';
+import { addReviewToRating, countsTowardsRating, removeReviewFromRating } from './ratings';
+
+const { HIDE, RESTORE } = reviewModerationActions;
+
+async function toQueueItem(review: Review): Promise<ModerationQueueItem> {
+  return {
+    review,
+    reports: await storage.getReviewReports(review.id),
+    history: await storage.getReviewModerationEvents(review.id),
+  };
+}
+
+/**
+ * Reviews with open reports, longest-waiting first, or the reviews currently hidden
+ * so a moderator can restore them.
+ */
+export async function getModerationQueue(status: 'reported' | 'hidden'): Promise<ModerationQueueItem[]> {
+  if (status === 'hidden') {
+    return Promise.all((await storage.getHiddenReviews()).map(toQueueItem));
+  }
+
+  const reviewIds = Array.from(new Set((await storage.getOpenReviewReports()).map((report) => report.reviewId)));
+  const items: ModerationQueueItem[] = [];
+  for (const reviewId of reviewIds) {
+    const review = await storage.getReview(reviewId);
+    if (review) items.push(await toQueueItem(review));
+  }
+  return items;
+}
+
+/**
+ * Hides, restores or clears a review on a moderator's say-so. Every decision closes the
+ * review's open reports and is written to its audit trail, and the provider's rating is
+ * adjusted whenever the review drops out of or comes back into it.
+ */
+export async function moderateReview(moderatorId: number, reviewId: number, { action, note }: ReviewModerationRequest): Promise<ModerationQueueItem> {
+  return storage.transaction(async (tx) => {
+    // Locked so a second moderator's hide waits and then sees the review already hidden,
+    // rather than taking it out of the rating twice
+    const review = await tx.lockReview(reviewId);
+    if (!review) {
+      throw new ReviewNotFoundError(reviewId);
+    }
+
+    if (action === HIDE && review.hiddenAt) {
+      throw new ReviewNotAllowedError('This review is already hidden');
+    }
+    if (action === RESTORE && !review.hiddenAt) {
+      throw new ReviewNotAllowedError('Only hidden reviews can be restored');
+    }
+
+    const now = new Date();
+    let updated = review;
+    if (action === HIDE || action === RESTORE) {
+      updated = (await tx.updateReview(review.id, { hiddenAt: action === HIDE ? now : null })) ?? review;
+      if (countsTowardsRating(review)) {
+        await removeReviewFromRating(review, tx);
+      } else if (countsTowardsRating(updated)) {
+        await addReviewToRating(updated, tx);
+      }
+    }
+
+    await tx.resolveReviewReports(review.id, now);
+    await tx.createReviewModerationEvent({ reviewId: review.id, moderatorId, action, note: note || null });
+
+    return {
+      review: updated,
+      reports: await tx.getReviewReports(review.id),
+      history: await tx.getReviewModerationEvents(review.id),
+    };
+  });
+}
@@ -0,0 +1,222 @@
+import { storage, type IStorage } from '../storage';
+import { reviewerRoles, serviceRequestStatuses } from '@shared/schema';
+import type {
+  ClientReputation,
+  Review,
+  ReviewerRole,
+  ReviewReport,
+  ReviewReportRequest,
+  ReviewRequest,
+  ReviewState,
+  ServiceRequest,
+} from '@shared/schema';
+import { ServiceRequestNotFoundError } from './service-request-lifecycle';
+import { addReviewToRating, countsTowardsRating } from './ratings';
+
+// How long after completion both sides have to review each other
+export const REVIEW_WINDOW_DAYS = 14;
+
+const REVIEW_WINDOW_MS = REVIEW_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+
+// How often to publish reviews whose window has closed
+const PUBLISHER_INTERVAL_MS = 60 * 60 * 1000;
+
+export class ReviewNotFoundError extends Error {
+  status = 404;
+
+  constructor(reviewId: number) {
+    super(`Review ${reviewId} not found`);
+  }
+}
+
+export class ReviewPermissionError extends Error {
+  status = 403;
+}
+
+export class ReviewNotAllowedError extends Error {
+  status = 409;
+}
+
+export function reviewWindowClosesAt(request: ServiceRequest): Date | null {
+  return request.completedAt ? new Date(request.completedAt.getTime() + REVIEW_WINDOW_MS) : null;
+}
+
+function counterpartRole(role: ReviewerRole): ReviewerRole {
+  return role === reviewerRoles.CLIENT ? reviewerRoles.PROVIDER : reviewerRoles.CLIENT;
+}
+
+function average(reviews: Review[]): number | null {
+  if (reviews.length === 0) return null;
+  return reviews.reduce((sum, review) => sum + review.rating, 0) / reviews.length;
+}
+
+// Postgres' unique_violation, raised when two submissions race past the duplicate check
+function isUniqueViolation(err: unknown): boolean {
+  return (err as { code?: string } | null)?.code === '23505';
+}
+
+// The provider's rating only ever counts published reviews, so hidden ones can't be inferred from it
+async function publish(reviews: Review[], now: Date, tx: IStorage): Promise<Review[]> {
+  const published = await tx.publishReviews(reviews.map((review) => review.id), now);
+
+  for (const review of published.filter(countsTowardsRating)) {
+    await addReviewToRating(review, tx);
+  }
+  return published;
+}
+
+/**
+ * Records the user's review of a completed request they were part of, as the client or
+ * the provider. Reviews are double-blind: each stays hidden until the other side has
+ * reviewed too, or until the review window closes, so neither can answer the other's.
+ */
+export async function submitReview(userId: number, { serviceRequestId, rating, comment, subRatings }: ReviewRequest): Promise<Review> {
+  return storage.transaction(async (tx) => {
+    const request = await tx.getServiceRequest(serviceRequestId);
+    if (!request) {
+      throw new ServiceRequestNotFoundError(serviceRequestId);
+    }
+
+    const provider = await tx.getServiceProvider(request.providerId);
+    const role: ReviewerRole | null =
+      request.clientId === userId ? reviewerRoles.CLIENT : provider?.userId === userId ? reviewerRoles.PROVIDER : null;
+    if (!role) {
+      throw new ReviewPermissionError('You can only review your own service requests');
+    }
+    if (role === reviewerRoles.PROVIDER && subRatings && Object.values(subRatings).some((value) => value != null)) {
+      throw new ReviewNotAllowedError('Only clients can rate punctuality, quality, communication and value');
+    }
+
+    const closesAt = reviewWindowClosesAt(request);
+    if (request.status !== serviceRequestStatuses.COMPLETED || !closesAt) {
+      throw new ReviewNotAllowedError('You can only review completed service requests');
+    }
+
+    const now = new Date();
+    if (closesAt <= now) {
+      throw new ReviewNotAllowedError(`Reviews for this request closed on ${closesAt.toLocaleDateString('en-US')}`);
+    }
+
+    const existing = await tx.getReviewsByServiceRequest(request.id);
+    if (existing.some((review) => review.reviewerRole === role)) {
+      throw new ReviewNotAllowedError('You have already reviewed this request');
+    }
+
+    const review = await tx.createReview({
+      serviceRequestId: request.id,
+      clientId: request.clientId,
+      providerId: request.providerId,
+      reviewerRole: role,
+      rating,
+      punctualityRating: subRatings?.punctuality ?? null,
+      qualityRating: subRatings?.quality ?? null,
+      communicationRating: subRatings?.communication ?? null,
+      valueRating: subRatings?.value ?? null,
+      comment: comment || null,
+    });
+
+    // Both sides are in, so neither review can be swayed by the other any more
+    const counterpart = existing.find((candidate) => candidate.reviewerRole === counterpartRole(role));
+    if (counterpart) {
+      await publish([review, counterpart], now, tx);
+      return { ...review, publishedAt: now };
+    }
+    return review;
+  }).catch((err) => {
+    throw isUniqueViolation(err) ? new ReviewNotAllowedError('You have already reviewed this request') : err;
+  });
+}
+
+// A review anyone can see: published and not taken down by a moderator
+async function getPublicReview(reviewId: number): Promise<Review> {
+  const review = await storage.getReview(reviewId);
+  if (!review || !review.publishedAt || review.hiddenAt) {
+    throw new ReviewNotFoundError(reviewId);
+  }
+  return review;
+}
+
+// Lets the provider answer a client's review once, in public
+export async function replyToReview(userId: number, reviewId: number, reply: string): Promise<Review> {
+  const review = await getPublicReview(reviewId);
+
+  const provider = await storage.getServiceProvider(review.providerId);
+  if (review.reviewerRole !== reviewerRoles.CLIENT || provider?.userId !== userId) {
+    throw new ReviewPermissionError('Only the reviewed provider can reply to a review');
+  }
+  if (review.reply !== null) {
+    throw new ReviewNotAllowedError('You have already replied to this review');
+  }
+
+  const updated = await storage.updateReview(review.id, { reply, repliedAt: new Date() });
+  if (!updated) {
+    throw new ReviewNotFoundError(reviewId);
+  }
+  return updated;
+}
+
+// Flags a review for the moderators; each user can report a review once
+export async function reportReview(userId: number, reviewId: number, { reason, details }: ReviewReportRequest): Promise<ReviewReport> {
+  const review = await getPublicReview(reviewId);
+
+  const existing = await storage.getReviewReports(review.id);
+  if (existing.some((report) => report.reporterId === userId)) {
+    throw new ReviewNotAllowedError('You have already reported this review');
+  }
+
+  try {
+    return await storage.createReviewReport({ reviewId: review.id, reporterId: userId, reason, details: details || null });
+  } catch (err) {
+    throw isUniqueViolation(err) ? new ReviewNotAllowedError('You have already reported this review') : err;
+  }
+}
+
+/**
+ * Publishes reviews whose window has closed without the other side reviewing.
+ * Returns how many were published.
+ */
+export async function publishExpiredReviews(now: Date = new Date()): Promise<number> {
+  return storage.transaction(async (tx) => {
+    const expired = await tx.getUnpublishedReviews(new Date(now.getTime() - REVIEW_WINDOW_MS));
+    return (await publish(expired, now, tx)).length;
+  });
+}
+
+export function startReviewPublisher() {
+  const timer = setInterval(() => {
+    publishExpiredReviews().catch((err) => console.error('Publishing expired reviews failed:', err));
+  }, PUBLISHER_INTERVAL_MS);
+  // Don't keep the process alive just for reviews
+  timer.unref();
+  return timer;
+}
+
+/**
+ * The request's reviews as one party may see them: their own always, the other
+ * side's only once published.
+ */
+export async function getReviewState(request: ServiceRequest, role: ReviewerRole, now: Date = new Date()): Promise<ReviewState> {
+  const reviews = await storage.getReviewsByServiceRequest(request.id);
+  const review = reviews.find((candidate) => candidate.reviewerRole === role) ?? null;
+  const counterpart = reviews.find((candidate) => candidate.reviewerRole === counterpartRole(role));
+  const windowClosesAt = reviewWindowClosesAt(request);
+
+  return {
+    review,
+    counterpartReview: counterpart?.publishedAt ? counterpart : null,
+    counterpartSubmitted: !!counterpart,
+    windowClosesAt,
+    canReview: !review && request.status === serviceRequestStatuses.COMPLETED && !!windowClosesAt && windowClosesAt > now,
+  };
+}
+
+// How providers have rated the client, from published reviews only
+export async function getClientReputation(clientId: number): Promise<ClientReputation> {
+  const reviews = await storage.getPublishedClientReviews(clientId);
+  const rating = average(reviews);
+
+  return {
+    rating: rating === null ? null : parseFloat(rating.toFixed(1)),
+    reviewCount: reviews.length,
+  };
+}
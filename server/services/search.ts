@@ -0,0 +1,47 @@
+import { storage } from '../storage';
+import { taskStatuses } from '@shared/schema';
+import type { ServiceProvider, Task } from '@shared/schema';
+import { boundingBox, distanceKm, MAX_SEARCH_RADIUS_KM, type GeoPoint } from './geocoding';
+
+export type WithDistance<T> = T & { distanceKm: number };
+
+function withDistance<T extends { latitude: number | null; longitude: number | null }>(
+  origin: GeoPoint,
+  item: T
+): WithDistance<T> {
+  return { ...item, distanceKm: distanceKm(origin, { latitude: item.latitude!, longitude: item.longitude! }) };
+}
+
+/**
+ * Providers who serve the origin: the origin has to be inside the provider's own
+ * service radius and, when given, within radiusKm of the provider. Nearest first.
+ */
+export async function searchProvidersNear(
+  origin: GeoPoint,
+  { radiusKm, categoryId }: { radiusKm?: number; categoryId?: number }
+): Promise<WithDistance<ServiceProvider>[]> {
+  const searchRadius = Math.min(radiusKm ?? MAX_SEARCH_RADIUS_KM, MAX_SEARCH_RADIUS_KM);
+  const candidates = await storage.getServiceProvidersInArea(boundingBox(origin, searchRadius), categoryId);
+
+  return candidates
+    .map((provider) => withDistance(origin, provider))
+    .filter((provider) => provider.distanceKm <= Math.min(provider.serviceRadiusKm, searchRadius))
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+}
+
+// Open tasks within radiusKm of the origin, nearest first
+export async function searchTasksNear(
+  origin: GeoPoint,
+  { radiusKm, categoryId }: { radiusKm: number; categoryId?: number }
+): Promise<WithDistance<Task>[]> {
+  const searchRadius = Math.min(radiusKm, MAX_SEARCH_RADIUS_KM);
+  const candidates = await storage.getTasksInArea(boundingBox(origin, searchRadius), {
+    categoryId,
+    status: taskStatuses.OPEN,
+  });
+
+  return candidates
+    .map((task) => withDistance(origin, task))
+    .filter((task) => task.distanceKm <= searchRadius)
+    .sort((a, b) => a.distanceKm - b.distanceKm);
+}
@@ -0,0 +1,361 @@
+import { storage, type IStorage } from '../storage';
+import { serviceRequestStatuses, taskStatuses } from '@shared/schema';
+import type { PaymentHold, Quote, ServiceProvider, ServiceRequest, ServiceRequestStatus, Task, TaskStatus } from '@shared/schema';
+import { transitionTask } from './task-lifecycle';
+import { bookAcceptedRequest, cancelRequestBooking } from './bookings';
+import {
+  abandonHold,
+  authorizeHold,
+  holdFundsForQuote,
+  releaseHeldFunds,
+  refundHeldFunds,
+  reserveFundsForQuote,
+  settleHold,
+} from './escrow';
+import { deliverRequestInvoice, issueInvoice } from './invoices';
+import { broadcastServiceRequestUpdated, broadcastTaskUpdated } from './notification';
+
+export const serviceRequestActions = ['accept', 'decline', 'start', 'complete', 'cancel', 'withdraw'] as const;
+
+export type ServiceRequestAction = typeof serviceRequestActions[number];
+
+export type ServiceRequestParty = 'client' | 'provider';
+
+// Roles are either the party itself or its position relative to whoever sent the request
+type Role = ServiceRequestParty | 'initiator' | 'recipient';
+
+type TransitionRule = {
+  role: Role;
+  from: ServiceRequestStatus[];
+  to: ServiceRequestStatus;
+};
+
+const { PENDING, ACCEPTED, DECLINED, WITHDRAWN, IN_PROGRESS, COMPLETION_REQUESTED, COMPLETED, CANCELLED } =
+  serviceRequestStatuses;
+
+const transitionRules: Record<ServiceRequestAction, TransitionRule[]> = {
+  accept: [{ role: 'recipient', from: [PENDING], to: ACCEPTED }],
+  decline: [{ role: 'recipient', from: [PENDING], to: DECLINED }],
+  withdraw: [{ role: 'initiator', from: [PENDING], to: WITHDRAWN }],
+  start: [{ role: 'provider', from: [ACCEPTED], to: IN_PROGRESS }],
+  // A provider can only ask for completion; the client has to confirm it
+  complete: [
+    { role: 'provider', from: [IN_PROGRESS], to: COMPLETION_REQUESTED },
+    { role: 'client', from: [IN_PROGRESS, COMPLETION_REQUESTED], to: COMPLETED },
+  ],
+  cancel: [
+    { role: 'client', from: [ACCEPTED, IN_PROGRESS, COMPLETION_REQUESTED], to: CANCELLED },
+    { role: 'provider', from: [ACCEPTED, IN_PROGRESS], to: CANCELLED },
+  ],
+};
+
+export class ServiceRequestNotFoundError extends Error {
+  status = 404;
+
+  constructor(requestId: number) {
+    super(`Service request ${requestId} not found`);
+  }
+}
+
+export class ServiceRequestPermissionError extends Error {
+  status = 403;
+}
+
+export class ServiceRequestTransitionError extends Error {
+  status = 409;
+
+  constructor(action: ServiceRequestAction, from: string) {
+    super(`Cannot ${action} a service request that is "${from}"`);
+  }
+}
+
+export class TaskManagedByRequestError extends Error {
+  status = 409;
+
+  constructor() {
+    super('This task is booked through a service request; update the request instead');
+  }
+}
+
+export class QuoteExpiredError extends Error {
+  status = 409;
+
+  constructor() {
+    super('This quote has expired and can no longer be accepted');
+  }
+}
+
+export function isQuoteExpired(quote: Quote, now: Date = new Date()): boolean {
+  return quote.expiresAt !== null && quote.expiresAt <= now;
+}
+
+export function isServiceRequestAction(value: unknown): value is ServiceRequestAction {
+  return typeof value === 'string' && (serviceRequestActions as readonly string[]).includes(value);
+}
+
+// Once accepted, a request owns its task's lifecycle along with the booking and escrowed payment
+const engagedStatuses: ServiceRequestStatus[] = [ACCEPTED, IN_PROGRESS, COMPLETION_REQUESTED];
+
+// The request action that stands in for a direct change of the task's status
+const taskStatusActions: Partial<Record<TaskStatus, ServiceRequestAction>> = {
+  [taskStatuses.IN_PROGRESS]: 'start',
+  [taskStatuses.COMPLETED]: 'complete',
+  [taskStatuses.CANCELLED]: 'cancel',
+  // The provider backing out; cancelling the request puts the task back on the market
+  [taskStatuses.OPEN]: 'cancel',
+};
+
+function rolesFor(request: ServiceRequest, party: ServiceRequestParty): Role[] {
+  return [party, request.initiatedBy === party ? 'initiator' : 'recipient'];
+}
+
+/**
+ * Returns the actions the given party may currently take on a request.
+ * Used by the dashboards to decide which buttons to show.
+ */
+export function getAvailableActions(request: ServiceRequest, party: ServiceRequestParty): ServiceRequestAction[] {
+  const roles = rolesFor(request, party);
+  return serviceRequestActions.filter((action) =>
+    transitionRules[action].some(
+      (rule) => roles.includes(rule.role) && rule.from.includes(request.status as ServiceRequestStatus)
+    )
+  );
+}
+
+// Checks that the user may take the action on the request now, and which rule applies
+async function resolveTransition(
+  requestId: number,
+  action: ServiceRequestAction,
+  userId: number,
+  store: IStorage
+): Promise<{ request: ServiceRequest; provider: ServiceProvider; party: ServiceRequestParty; rule: TransitionRule }> {
+  const request = await store.getServiceRequest(requestId);
+  if (!request) {
+    throw new ServiceRequestNotFoundError(requestId);
+  }
+
+  const provider = await store.getServiceProvider(request.providerId);
+  const party: ServiceRequestParty | null =
+    request.clientId === userId ? 'client' : provider?.userId === userId ? 'provider' : null;
+  if (!party || !provider) {
+    throw new ServiceRequestPermissionError('You can only update your own requests');
+  }
+
+  const roles = rolesFor(request, party);
+  const rules = transitionRules[action].filter((rule) => roles.includes(rule.role));
+  if (rules.length === 0) {
+    throw new ServiceRequestPermissionError(`You are not allowed to ${action} this request`);
+  }
+
+  const rule = rules.find((candidate) => candidate.from.includes(request.status as ServiceRequestStatus));
+  if (!rule) {
+    throw new ServiceRequestTransitionError(action, request.status);
+  }
+
+  // A lapsed quote can still be declined, but not accepted
+  if (rule.to === ACCEPTED) {
+    const quote = await store.getQuoteByServiceRequest(request.id);
+    if (quote && isQuoteExpired(quote)) {
+      throw new QuoteExpiredError();
+    }
+  }
+
+  return { request, provider, party, rule };
+}
+
+/**
+ * Authorizes a quoted offer's price ahead of its acceptance: the pending hold is committed
+ * first and the gateway called after, so no transaction waits on the gateway. A declined
+ * payment fails the acceptance before anything else has changed.
+ */
+async function authorizeAcceptance(requestId: number, userId: number, store: IStorage): Promise<PaymentHold | null> {
+  const hold = await store.transaction(async (tx) => {
+    const { request } = await resolveTransition(requestId, 'accept', userId, tx);
+    return reserveFundsForQuote(request, tx);
+  });
+  return hold && authorizeHold(hold, store);
+}
+
+/**
+ * Applies a lifecycle action on behalf of a user, keeping the linked task in step
+ * and crediting the provider on completion. Runs in a single storage transaction,
+ * which also moves any escrowed payment (held on acceptance, marked for release or
+ * refund at the end) and issues the invoice once the job is completed. Gateway calls
+ * happen outside that transaction: authorization before it, capture or void after it.
+ */
+export async function performServiceRequestAction(
+  requestId: number,
+  action: ServiceRequestAction,
+  userId: number,
+  store: IStorage = storage
+): Promise<ServiceRequest> {
+  const authorized = action === 'accept' ? await authorizeAcceptance(requestId, userId, store) : null;
+
+  let updated: ServiceRequest;
+  try {
+    updated = await store.transaction((tx) => applyServiceRequestAction(requestId, action, userId, tx));
+  } catch (err) {
+    if (authorized) await abandonHold(authorized, store);
+    throw err;
+  }
+
+  // A failed capture or void is retried by the settlement job; the action itself has happened
+  const hold = await store.getPaymentHoldByServiceRequest(requestId);
+  if (hold) {
+    await settleHold(hold, store).catch((err) =>
+      console.error(`Failed to settle payment hold ${hold.id}; it will be retried:`, err)
+    );
+  }
+
+  return updated;
+}
+
+async function applyServiceRequestAction(
+  requestId: number,
+  action: ServiceRequestAction,
+  userId: number,
+  tx: IStorage
+): Promise<ServiceRequest> {
+  const { request, provider, party, rule } = await resolveTransition(requestId, action, userId, tx);
+
+  // Completion opens the window for both sides to review each other
+  const changes: Partial<ServiceRequest> = { status: rule.to };
+  if (rule.to === COMPLETED) {
+    changes.completedAt = new Date();
+  }
+
+  const updatedRequest = await tx.updateServiceRequestStatus(requestId, request.status, changes);
+  if (!updatedRequest) {
+    throw new ServiceRequestTransitionError(action, request.status);
+  }
+
+  // Keep the linked task's lifecycle in step with the request
+  if (request.taskId) {
+    if (rule.to === ACCEPTED) {
+      await transitionTask(request.taskId, taskStatuses.ACCEPTED, userId, {
+        acceptedById: provider.id,
+        acceptedAt: new Date(),
+      }, tx);
+
+      // The task is taken, so the remaining offers on it are declined
+      await declinePendingRequests(request.taskId, tx);
+    } else if (rule.to === IN_PROGRESS) {
+      await transitionTask(request.taskId, taskStatuses.IN_PROGRESS, userId, {}, tx);
+    } else if (rule.to === COMPLETED) {
+      await transitionTask(request.taskId, taskStatuses.COMPLETED, userId, {}, tx);
+    } else if (rule.to === CANCELLED && party === 'provider') {
+      // The client still needs the job done, so the task reopens for other providers
+      await transitionTask(request.taskId, taskStatuses.OPEN, userId, {
+        acceptedById: null,
+        acceptedAt: null,
+      }, tx);
+    } else if (rule.to === CANCELLED) {
+      await transitionTask(request.taskId, taskStatuses.CANCELLED, userId, {}, tx);
+    }
+  }
+
+  // A request sent with a slot becomes a booking once accepted
+  if (rule.to === ACCEPTED) {
+    await bookAcceptedRequest(updatedRequest, tx);
+    await holdFundsForQuote(updatedRequest, tx);
+  } else if (rule.to === CANCELLED) {
+    await cancelRequestBooking(request.id, tx);
+    await refundHeldFunds(request.id, tx);
+  }
+
+  if (rule.to === COMPLETED) {
+    await releaseHeldFunds(request.id, tx);
+    await issueInvoice(updatedRequest, tx);
+    await tx.updateServiceProvider(provider.id, {
+      completedJobs: (provider.completedJobs ?? 0) + 1,
+    });
+  }
+
+  return updatedRequest;
+}
+
+// Declines the offers still pending on a task once it has been taken
+async function declinePendingRequests(taskId: number, store: IStorage): Promise<ServiceRequest[]> {
+  const declined: ServiceRequest[] = [];
+  for (const other of await store.getServiceRequestsByTask(taskId)) {
+    if (other.status !== PENDING) continue;
+    const updated = await store.updateServiceRequestStatus(other.id, PENDING, { status: DECLINED });
+    if (updated) declined.push(updated);
+  }
+  return declined;
+}
+
+// The request that has been accepted for a task and not yet finished, if any
+export async function getEngagedServiceRequest(taskId: number, store: IStorage = storage): Promise<ServiceRequest | undefined> {
+  const requests = await store.getServiceRequestsByTask(taskId);
+  return requests.find((request) => engagedStatuses.includes(request.status as ServiceRequestStatus));
+}
+
+/**
+ * A provider taking an open task directly rather than through a request. Offers still
+ * pending on the task are declined in the same transaction and returned.
+ */
+export async function acceptTaskDirectly(
+  taskId: number,
+  providerId: number,
+  userId: number,
+  store: IStorage = storage
+): Promise<{ task: Task; declined: ServiceRequest[] }> {
+  return store.transaction(async (tx) => {
+    const task = await transitionTask(taskId, taskStatuses.ACCEPTED, userId, {
+      acceptedById: providerId,
+      acceptedAt: new Date(),
+    }, tx);
+    return { task, declined: await declinePendingRequests(taskId, tx) };
+  });
+}
+
+/**
+ * Changes a task's status on behalf of its client or provider. While a request is engaged
+ * the change goes through that request's lifecycle instead, so its booking and escrowed
+ * payment follow; changes the request has no action for are rejected. Returns the task and,
+ * when one was acted on, the updated request.
+ */
+export async function changeTaskStatus(
+  taskId: number,
+  to: TaskStatus,
+  userId: number,
+  store: IStorage = storage
+): Promise<{ task: Task; request?: ServiceRequest }> {
+  const engaged = await getEngagedServiceRequest(taskId, store);
+  if (!engaged) {
+    const changes: Partial<Task> = to === taskStatuses.OPEN ? { acceptedById: null, acceptedAt: null } : {};
+    return { task: await transitionTask(taskId, to, userId, changes, store) };
+  }
+
+  const action = taskStatusActions[to];
+  if (!action) {
+    throw new TaskManagedByRequestError();
+  }
+
+  const request = await performServiceRequestAction(engaged.id, action, userId, store);
+  const task = await store.getTask(taskId);
+  if (!task) {
+    throw new TaskManagedByRequestError();
+  }
+  return { task, request };
+}
+
+/**
+ * Tells both parties about a request that has just changed, and its task, and emails the
+ * invoice once the job is completed. Call after the action's transaction has committed.
+ */
+export async function announceServiceRequestChange(request: ServiceRequest, store: IStorage = storage): Promise<void> {
+  await broadcastServiceRequestUpdated(request);
+  if (request.taskId) {
+    const task = await store.getTask(request.taskId);
+    if (task) await broadcastTaskUpdated(task);
+  }
+
+  // Email failures must not fail the completion; the invoice can be downloaded anyway
+  if (request.status === COMPLETED) {
+    deliverRequestInvoice(request.id).catch((err) =>
+      console.error(`Failed to email invoice for service request ${request.id}:`, err)
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { createHash } from 'crypto';
+import { storage, type StoredSession } from '../storage';
+import type { ActiveSession } from '@shared/schema';
+import { getWebSocketService } from './websocket';
+
+export class SessionNotFoundError extends Error {
+  status = 404;
+
+  constructor() {
+    super('Session not found');
+  }
+}
+
+// Session ids are bearer credentials, so clients only ever see a hash of them
+export function sessionPublicId(sid: string): string {
+  return createHash('sha256').update(sid).digest('hex').slice(0, 32);
+}
+
+const browsers: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Firefox\//, 'Firefox'],
+  [/Chrome\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+];
+
+const platforms: Array<[RegExp, string]> = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X/, 'macOS'],
+  [/Linux/, 'Linux'],
+];
+
+// "Chrome on macOS" from a User-Agent header; good enough to tell a user's devices apart
+export function describeDevice(userAgent: string | undefined): string {
+  if (!userAgent) return 'Unknown device';
+  const browser = browsers.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = platforms.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser && platform) return `${browser} on ${platform}`;
+  return browser ?? platform ?? 'Unknown device';
+}
+
+function toActiveSession(stored: StoredSession, currentSessionId: string): ActiveSession {
+  const device = stored.session.device;
+  return {
+    id: sessionPublicId(stored.sid),
+    device: describeDevice(device?.userAgent),
+    ip: device?.ip ?? null,
+    createdAt: device ? new Date(device.createdAt) : null,
+    lastSeenAt: device ? new Date(device.lastSeenAt) : null,
+    expiresAt: stored.expiresAt,
+    current: stored.sid === currentSessionId,
+  };
+}
+
+// The user's signed-in sessions, this one first and then the most recently used
+export async function listSessions(userId: number, currentSessionId: string): Promise<ActiveSession[]> {
+  const sessions = (await storage.getUserSessions(userId)).map((stored) => toActiveSession(stored, currentSessionId));
+  return sessions.sort((a, b) =>
+    Number(b.current) - Number(a.current) || (b.lastSeenAt?.getTime() ?? 0) - (a.lastSeenAt?.getTime() ?? 0)
+  );
+}
+
+export async function revokeSession(userId: number, id: string): Promise<void> {
+  const stored = (await storage.getUserSessions(userId)).find((session) => sessionPublicId(session.sid) === id);
+  if (!stored || !(await storage.deleteUserSession(userId, stored.sid))) {
+    throw new SessionNotFoundError();
+  }
+  getWebSocketService().disconnectEndedSessions(userId);
+}
+
+// "Sign out everywhere": every session but the one asking, which the client can log out itself
+export async function revokeOtherSessions(userId: number, currentSessionId: string): Promise<number> {
+  const revoked = await storage.deleteUserSessions(userId, currentSessionId);
+  getWebSocketService().disconnectEndedSessions(userId);
+  return revoked;
+}
@@ -0,0 +1,115 @@
+import { storage, type IStorage } from '../storage';
+import { taskStatuses } from '@shared/schema';
+import type { Task, TaskStatus } from '@shared/schema';
+
+// Every legal move between task states; anything not listed here is rejected.
+// Going back to open is the assigned provider backing out before the job is done
+const allowedTransitions: Record<TaskStatus, TaskStatus[]> = {
+  [taskStatuses.OPEN]: [taskStatuses.ACCEPTED, taskStatuses.CANCELLED],
+  [taskStatuses.ACCEPTED]: [taskStatuses.OPEN, taskStatuses.IN_PROGRESS, taskStatuses.CANCELLED],
+  [taskStatuses.IN_PROGRESS]: [taskStatuses.OPEN, taskStatuses.COMPLETED, taskStatuses.CANCELLED, taskStatuses.DISPUTED],
+  [taskStatuses.COMPLETED]: [taskStatuses.DISPUTED],
+  [taskStatuses.CANCELLED]: [],
+  [taskStatuses.DISPUTED]: [taskStatuses.COMPLETED, taskStatuses.CANCELLED],
+};
+
+export class TaskNotFoundError extends Error {
+  status = 404;
+
+  constructor(taskId: number) {
+    super(`Task ${taskId} not found`);
+  }
+}
+
+export class TaskTransitionError extends Error {
+  status = 409;
+
+  constructor(from: string, to: string) {
+    super(`Cannot change task status from "${from}" to "${to}"`);
+  }
+}
+
+export class TaskNotEditableError extends Error {
+  status = 409;
+
+  constructor() {
+    super('Only open tasks can be edited');
+  }
+}
+
+export function isTaskStatus(value: unknown): value is TaskStatus {
+  return typeof value === 'string' && value in allowedTransitions;
+}
+
+export function canTransition(from: string, to: string): boolean {
+  return isTaskStatus(from) && isTaskStatus(to) && allowedTransitions[from].includes(to);
+}
+
+export function getAllowedTransitions(from: string): TaskStatus[] {
+  return isTaskStatus(from) ? allowedTransitions[from] : [];
+}
+
+/**
+ * Moves a task to a new status and records the change in task_status_history.
+ * `changes` are written together with the new status (e.g. acceptedById on accept).
+ * Throws TaskTransitionError when the move is illegal or the task changed underneath us.
+ */
+export async function transitionTask(
+  taskId: number,
+  to: TaskStatus,
+  actorId: number,
+  changes: Partial<Task> = {},
+  store: IStorage = storage
+): Promise<Task> {
+  return store.transaction(async (tx) => {
+    const task = await tx.getTask(taskId);
+    if (!task) {
+      throw new TaskNotFoundError(taskId);
+    }
+
+    if (!canTransition(task.status, to)) {
+      throw new TaskTransitionError(task.status, to);
+    }
+
+    const updatedTask = await tx.updateTaskStatus(taskId, task.status, {
+      ...changes,
+      status: to,
+      ...(to === taskStatuses.COMPLETED ? { completedAt: new Date() } : {}),
+    });
+
+    // Another request moved the task first
+    if (!updatedTask) {
+      throw new TaskTransitionError(task.status, to);
+    }
+
+    await tx.createTaskStatusHistory({
+      taskId,
+      actorId,
+      fromStatus: task.status,
+      toStatus: to,
+    });
+
+    return updatedTask;
+  });
+}
+
+/**
+ * Writes the client's edits to a task's details while it is still open; once a provider has
+ * taken the job, what they agreed to must not change underneath them.
+ * Throws TaskNotEditableError when the task is no longer open, including if it was taken
+ * between reading and writing.
+ */
+export async function editOpenTask(taskId: number, details: Partial<Task>, store: IStorage = storage): Promise<Task> {
+  const task = await store.getTask(taskId);
+  if (!task) {
+    throw new TaskNotFoundError(taskId);
+  }
+
+  const updatedTask = task.status === taskStatuses.OPEN
+    ? await store.updateTaskStatus(taskId, taskStatuses.OPEN, details)
+    : undefined;
+  if (!updatedTask) {
+    throw new TaskNotEditableError();
+  }
+  return updatedTask;
+}
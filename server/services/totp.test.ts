@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { base32Decode, base32Encode, generateTotpSecret, totpCode, totpStep, TOTP_STEP_SECONDS, verifyTotp } from './totp';
+
+// RFC 6238 appendix B's SHA-1 key, "12345678901234567890"
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+const at = (seconds: number) => new Date(seconds * 1000);
+
+describe('totp', () => {
+  it('matches the RFC 6238 test vectors', () => {
+    // The RFC lists 8 digits; apps show the last 6
+    expect(totpCode(RFC_SECRET, totpStep(at(59)))).toBe('287082');
+    expect(totpCode(RFC_SECRET, totpStep(at(1111111109)))).toBe('081804');
+    expect(totpCode(RFC_SECRET, totpStep(at(2000000000)))).toBe('279037');
+  });
+
+  it('round-trips secrets through base32, however they are typed', () => {
+    const secret = generateTotpSecret();
+    expect(base32Decode(secret)).toHaveLength(20);
+    expect(base32Encode(base32Decode(secret.toLowerCase().replace(/(.{4})/g, '$1 ')))).toBe(secret);
+  });
+
+  it('returns the step the code belongs to', () => {
+    const now = at(1111111109);
+    expect(verifyTotp(RFC_SECRET, '081804', now)).toBe(totpStep(now));
+    expect(verifyTotp(RFC_SECRET, '081 804', now)).toBe(totpStep(now));
+  });
+
+  it('accepts codes one step either side of now and no further', () => {
+    const now = at(1111111109);
+    const step = totpStep(now);
+
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 1), now)).toBe(step - 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 1), now)).toBe(step + 1);
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step - 2), now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, totpCode(RFC_SECRET, step + 2), now)).toBeNull();
+  });
+
+  it('stops accepting a code once its drift window has passed', () => {
+    const issued = at(1111111109);
+    const code = totpCode(RFC_SECRET, totpStep(issued));
+
+    expect(verifyTotp(RFC_SECRET, code, at(1111111109 + TOTP_STEP_SECONDS))).toBe(totpStep(issued));
+    expect(verifyTotp(RFC_SECRET, code, at(1111111109 + 2 * TOTP_STEP_SECONDS))).toBeNull();
+  });
+
+  it('rejects codes that are not six digits', () => {
+    const now = at(1111111109);
+    expect(verifyTotp(RFC_SECRET, '81804', now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '0818045', now)).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '08180a', now)).toBeNull();
+  });
+});
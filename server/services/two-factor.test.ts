@@ -0,0 +1,61 @@
+import { randomUUID } from 'crypto';
+import { describe, expect, it } from 'vitest';
+import { storage } from '../storage';
+import { totpCode, totpStep } from './totp';
+import { confirmEnrollment, getTwoFactorStatus, startEnrollment, verifySecondFactor } from './two-factor';
+
+async function createUser() {
+  const name = randomUUID().slice(0, 8);
+  return storage.createUser({
+    username: name,
+    email: `${name}@example.com`,
+    password: 'unused',
+    firstName: 'Test',
+    lastName: 'User',
+    isServiceProvider: false,
+  } as Parameters<typeof storage.createUser>[0]);
+}
+
+// A user who has set up their authenticator app, with the secret and recovery codes they were given
+async function enrolledUser(now: Date) {
+  const user = await createUser();
+  const { secret } = await startEnrollment(user);
+  const recoveryCodes = await confirmEnrollment(user.id, totpCode(secret, totpStep(now)), now);
+  return { user, secret, recoveryCodes };
+}
+
+describe('two-factor', () => {
+  it('accepts each authenticator code once', async () => {
+    const enrolledAt = new Date('2026-01-01T12:00:00Z');
+    const { user, secret } = await enrolledUser(enrolledAt);
+    const now = new Date(enrolledAt.getTime() + 5 * 60 * 1000);
+    const code = totpCode(secret, totpStep(now));
+
+    expect(await verifySecondFactor(user.id, code, now)).toBe(true);
+    expect(await verifySecondFactor(user.id, code, now)).toBe(false);
+  });
+
+  it("doesn't take the enrollment code again at login", async () => {
+    const now = new Date('2026-01-01T12:00:00Z');
+    const { user, secret } = await enrolledUser(now);
+
+    expect(await verifySecondFactor(user.id, totpCode(secret, totpStep(now)), now)).toBe(false);
+  });
+
+  it('uses up each recovery code, however it is typed', async () => {
+    const now = new Date('2026-01-01T12:00:00Z');
+    const { user, recoveryCodes } = await enrolledUser(now);
+    const [first, second] = recoveryCodes;
+
+    expect(recoveryCodes).toHaveLength(10);
+    expect(await verifySecondFactor(user.id, first, now)).toBe(true);
+    expect(await verifySecondFactor(user.id, first, now)).toBe(false);
+    expect(await verifySecondFactor(user.id, ` ${second.replace('-', '').toUpperCase()} `, now)).toBe(true);
+    expect((await getTwoFactorStatus(user.id)).recoveryCodesRemaining).toBe(8);
+  });
+
+  it('refuses codes for users without 2FA', async () => {
+    const user = await createUser();
+    expect(await verifySecondFactor(user.id, '123456')).toBe(false);
+  });
+});
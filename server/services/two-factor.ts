@@ -0,0 +1,137 @@
+import { createHash, randomBytes } from 'crypto';
+import QRCode from 'qrcode';
+import { storage } from '../storage';
+import type { TwoFactorEnrollment, TwoFactorStatus, User } from '@shared/schema';
+import { comparePasswords } from './passwords';
+import { generateTotpSecret, totpUri, verifyTotp } from './totp';
+
+// Shown as the account's name in authenticator apps
+const TOTP_ISSUER = 'Find My Helper';
+const RECOVERY_CODE_COUNT = 10;
+
+export class TwoFactorStateError extends Error {
+  status = 409;
+}
+
+export class InvalidTwoFactorCodeError extends Error {
+  status = 400;
+
+  constructor() {
+    super('Invalid authentication code');
+  }
+}
+
+export class IncorrectPasswordError extends Error {
+  status = 403;
+
+  constructor() {
+    super('Incorrect password');
+  }
+}
+
+// Formatted "xxxxx-xxxxx"; case, spaces and dashes don't matter when it's typed back in
+function generateRecoveryCode(): string {
+  const hex = randomBytes(5).toString('hex');
+  return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.toLowerCase().replace(/[\s-]/g, '')).digest('hex');
+}
+
+export async function isTwoFactorEnabled(userId: number): Promise<boolean> {
+  const credential = await storage.getTwoFactorCredential(userId);
+  return !!credential?.enabledAt;
+}
+
+export async function getTwoFactorStatus(userId: number): Promise<TwoFactorStatus> {
+  const credential = await storage.getTwoFactorCredential(userId);
+  if (!credential?.enabledAt) {
+    return { enabled: false, enabledAt: null, recoveryCodesRemaining: 0 };
+  }
+
+  const recoveryCodes = await storage.getUnusedTwoFactorRecoveryCodes(userId);
+  return { enabled: true, enabledAt: credential.enabledAt, recoveryCodesRemaining: recoveryCodes.length };
+}
+
+/**
+ * Creates a new secret for the user to add to their authenticator app. Nothing changes
+ * at login until confirmEnrollment sees a code from the app; starting again replaces the secret.
+ */
+export async function startEnrollment(user: User): Promise<TwoFactorEnrollment> {
+  if (await isTwoFactorEnabled(user.id)) {
+    throw new TwoFactorStateError('Two-factor authentication is already on');
+  }
+
+  const secret = generateTotpSecret();
+  await storage.saveTwoFactorCredential({ userId: user.id, secret });
+
+  const otpauthUrl = totpUri(secret, user.email, TOTP_ISSUER);
+  return { secret, otpauthUrl, qrCode: await QRCode.toDataURL(otpauthUrl) };
+}
+
+/**
+ * Turns 2FA on once the user proves their app produces the right codes.
+ * Returns the recovery codes, which are only ever shown this once.
+ */
+export async function confirmEnrollment(userId: number, code: string, now = new Date()): Promise<string[]> {
+  const credential = await storage.getTwoFactorCredential(userId);
+  if (!credential) {
+    throw new TwoFactorStateError('Start setting up two-factor authentication first');
+  }
+  if (credential.enabledAt) {
+    throw new TwoFactorStateError('Two-factor authentication is already on');
+  }
+
+  const step = verifyTotp(credential.secret, code, now);
+  if (step === null) {
+    throw new InvalidTwoFactorCodeError();
+  }
+
+  const recoveryCodes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+  await storage.transaction(async (tx) => {
+    if (!(await tx.useTwoFactorStep(userId, step))) {
+      throw new InvalidTwoFactorCodeError();
+    }
+    await tx.updateTwoFactorCredential(userId, { enabledAt: now });
+    await tx.replaceTwoFactorRecoveryCodes(userId, recoveryCodes.map(hashRecoveryCode));
+  });
+
+  return recoveryCodes;
+}
+
+/**
+ * Checks a code from the authenticator app, or failing that a recovery code, and uses it up.
+ * False for users without 2FA, so callers must check it's on before relying on this.
+ */
+export async function verifySecondFactor(userId: number, code: string, now = new Date()): Promise<boolean> {
+  const credential = await storage.getTwoFactorCredential(userId);
+  if (!credential?.enabledAt) return false;
+
+  const step = verifyTotp(credential.secret, code, now);
+  if (step !== null) {
+    return !!(await storage.useTwoFactorStep(userId, step));
+  }
+
+  const codeHash = hashRecoveryCode(code);
+  const recoveryCode = (await storage.getUnusedTwoFactorRecoveryCodes(userId)).find((unused) => unused.codeHash === codeHash);
+  return !!recoveryCode && !!(await storage.useTwoFactorRecoveryCode(recoveryCode.id, now));
+}
+
+// Needs the password as well as a code, so a session left open can't quietly turn 2FA off
+export async function disableTwoFactor(user: User, password: string, code: string, now = new Date()): Promise<void> {
+  if (!(await comparePasswords(password, user.password))) {
+    throw new IncorrectPasswordError();
+  }
+  if (!(await isTwoFactorEnabled(user.id))) {
+    throw new TwoFactorStateError('Two-factor authentication is already off');
+  }
+  if (!(await verifySecondFactor(user.id, code, now))) {
+    throw new InvalidTwoFactorCodeError();
+  }
+
+  await storage.transaction(async (tx) => {
+    await tx.deleteTwoFactorCredential(user.id);
+    await tx.replaceTwoFactorRecoveryCodes(user.id, []);
+  });
+}
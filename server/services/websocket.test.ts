@@ -0,0 +1,197 @@
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { createHmac, randomUUID } from 'crypto';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocket } from 'ws';
+import { storage } from '../storage';
+import { SESSION_COOKIE_NAME, SESSION_SECRET } from '../auth';
+import { WS_PATH, WS_SESSION_ENDED, type ServerMessage } from '@shared/websocket';
+import { InMemoryMessageBus, type MessageBus } from './message-bus';
+import { WebSocketService } from './websocket';
+
+// Two instances sharing one bus, as two app servers share Postgres in production
+let bus: InMemoryMessageBus;
+let servers: Server[];
+let services: WebSocketService[];
+let sockets: WebSocket[];
+
+async function startInstance(messageBus: MessageBus = bus) {
+  const server = createServer();
+  const service = new WebSocketService(server, messageBus);
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  await service.ready();
+
+  servers.push(server);
+  services.push(service);
+  return { server, service };
+}
+
+async function createUser() {
+  const name = randomUUID().slice(0, 8);
+  return storage.createUser({
+    username: name,
+    email: `${name}@example.com`,
+    password: 'unused',
+    firstName: 'Test',
+    lastName: 'User',
+    isServiceProvider: false,
+  } as Parameters<typeof storage.createUser>[0]);
+}
+
+// Stores a logged-in session and returns the signed cookie express-session would have set
+async function signIn(userId: number) {
+  const sessionId = randomUUID();
+  await new Promise<void>((resolve, reject) =>
+    storage.sessionStore.set(
+      sessionId,
+      { cookie: { originalMaxAge: 60_000, expires: new Date(Date.now() + 60_000) }, passport: { user: userId } } as never,
+      (err) => (err ? reject(err) : resolve())
+    )
+  );
+
+  const mac = createHmac('sha256', SESSION_SECRET).update(sessionId).digest('base64').replace(/=+$/, '');
+  return { sessionId, cookie: `${SESSION_COOKIE_NAME}=${encodeURIComponent(`s:${sessionId}.${mac}`)}` };
+}
+
+function connect(server: Server, cookie: string): Promise<WebSocket> {
+  const { port } = server.address() as AddressInfo;
+  const socket = new WebSocket(`ws://127.0.0.1:${port}${WS_PATH}`, { headers: { cookie } });
+  sockets.push(socket);
+
+  return new Promise((resolve, reject) => {
+    socket.once('open', () => resolve(socket));
+    socket.once('unexpected-response', (_request, response) =>
+      reject(new Error(`Upgrade rejected with ${response.statusCode}`))
+    );
+    socket.once('error', reject);
+  });
+}
+
+function nextMessage(socket: WebSocket): Promise<ServerMessage> {
+  return new Promise((resolve) => socket.once('message', (raw) => resolve(JSON.parse(raw.toString()))));
+}
+
+function closed(socket: WebSocket): Promise<number> {
+  return new Promise((resolve) => socket.once('close', (code) => resolve(code)));
+}
+
+// Lets the server register a socket it has just accepted before we publish to it
+const settle = () => new Promise((resolve) => setTimeout(resolve, 20));
+
+beforeEach(() => {
+  bus = new InMemoryMessageBus();
+  servers = [];
+  services = [];
+  sockets = [];
+});
+
+afterEach(async () => {
+  sockets.forEach((socket) => socket.terminate());
+  await Promise.all(services.map((service) => service.close()));
+  await Promise.all(servers.map((server) => new Promise((resolve) => server.close(resolve))));
+  await bus.close();
+  vi.restoreAllMocks();
+});
+
+describe('WebSocketService', () => {
+  it('delivers a message sent on one instance to a user connected to another', async () => {
+    const a = await startInstance();
+    const b = await startInstance();
+    const user = await createUser();
+    const socket = await connect(a.server, (await signIn(user.id)).cookie);
+    await settle();
+
+    const received = nextMessage(socket);
+    b.service.sendToUser(user.id, { type: 'task_updated', taskId: 7, status: 'open' });
+
+    expect(await received).toEqual({ type: 'task_updated', taskId: 7, status: 'open' });
+    expect(a.service.isUserOnline(user.id)).toBe(true);
+    expect(b.service.isUserOnline(user.id)).toBe(false);
+  });
+
+  it("reaches each user's sockets on every instance and nobody else's", async () => {
+    const a = await startInstance();
+    const b = await startInstance();
+    const [first, second, bystander] = await Promise.all([createUser(), createUser(), createUser()]);
+    const onA = await connect(a.server, (await signIn(first.id)).cookie);
+    const onB = await connect(b.server, (await signIn(second.id)).cookie);
+    const other = await connect(b.server, (await signIn(bystander.id)).cookie);
+    await settle();
+
+    const stray = vi.fn();
+    other.on('message', stray);
+    const received = Promise.all([nextMessage(onA), nextMessage(onB)]);
+    a.service.sendToUsers([first.id, second.id], { type: 'message', conversationId: 3, messageId: 9 });
+
+    expect(await received).toEqual([
+      { type: 'message', conversationId: 3, messageId: 9 },
+      { type: 'message', conversationId: 3, messageId: 9 },
+    ]);
+    await settle();
+    expect(stray).not.toHaveBeenCalled();
+  });
+
+  it('rejects the upgrade for a suspended user', async () => {
+    const a = await startInstance();
+    const user = await createUser();
+    const { cookie } = await signIn(user.id);
+    await storage.updateUser(user.id, { suspendedAt: new Date() });
+
+    await expect(connect(a.server, cookie)).rejects.toThrow('Upgrade rejected with 401');
+  });
+
+  it('rejects a forged session cookie', async () => {
+    const a = await startInstance();
+    const user = await createUser();
+    const { sessionId } = await signIn(user.id);
+
+    await expect(connect(a.server, `${SESSION_COOKIE_NAME}=s:${sessionId}.forged`)).rejects.toThrow(
+      'Upgrade rejected with 401'
+    );
+  });
+
+  it('closes sockets of a revoked session on every instance and keeps the others', async () => {
+    const a = await startInstance();
+    const b = await startInstance();
+    const user = await createUser();
+    const revoked = await signIn(user.id);
+    const kept = await signIn(user.id);
+    const revokedSocket = await connect(b.server, revoked.cookie);
+    const keptSocket = await connect(b.server, kept.cookie);
+    await settle();
+
+    const revokedClose = closed(revokedSocket);
+    await storage.deleteUserSessions(user.id, kept.sessionId);
+    a.service.disconnectEndedSessions(user.id);
+
+    expect(await revokedClose).toBe(WS_SESSION_ENDED);
+    expect(keptSocket.readyState).toBe(WebSocket.OPEN);
+  });
+
+  it('closes every socket of a user once they are suspended', async () => {
+    const a = await startInstance();
+    const user = await createUser();
+    const socket = await connect(a.server, (await signIn(user.id)).cookie);
+    await settle();
+
+    const socketClose = closed(socket);
+    await storage.updateUser(user.id, { suspendedAt: new Date() });
+    a.service.disconnectEndedSessions(user.id);
+
+    expect(await socketClose).toBe(WS_SESSION_ENDED);
+  });
+
+  it('logs rather than throws when the bus fails to publish', async () => {
+    const failingBus: MessageBus = {
+      publish: () => Promise.reject(new Error('bus down')),
+      subscribe: async () => async () => {},
+      close: async () => {},
+    };
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const { service } = await startInstance(failingBus);
+
+    expect(() => service.sendToUser(1, { type: 'pong' })).not.toThrow();
+    await settle();
+    expect(error).toHaveBeenCalledWith('Failed to publish real-time message:', expect.any(Error));
+  });
+});
@@ -1,36 +1,114 @@
 import { WebSocketServer, WebSocket } from 'ws';
-import { Server } from 'http';
+import { Server, IncomingMessage } from 'http';
 import { parse } from 'url';
-import { storage } from '../storage';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { storage, type PassportSessionData } from '../storage';
+import { SESSION_COOKIE_NAME, SESSION_SECRET } from '../auth';
+import { WS_PATH, WS_SESSION_ENDED, type ServerMessage, type ClientMessage } from '@shared/websocket';
+import { pool } from '../db';
+import { InMemoryMessageBus, PostgresMessageBus, type MessageBus, type BusMessage } from './message-bus';
 
 interface WebSocketClient extends WebSocket {
   userId?: number;
+  sessionId?: string;
   isAlive: boolean;
 }
 
-class WebSocketService {
+function parseCookies(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) return cookies;
+
+  for (const pair of header.split(';')) {
+    const index = pair.indexOf('=');
+    if (index < 0) continue;
+
+    const name = pair.slice(0, index).trim();
+    const value = pair.slice(index + 1).trim().replace(/^"(.*)"$/, '$1');
+    if (!(name in cookies)) {
+      try {
+        cookies[name] = decodeURIComponent(value);
+      } catch {
+        cookies[name] = value;
+      }
+    }
+  }
+
+  return cookies;
+}
+
+// Reverses express-session's cookie signing ("s:<id>.<hmac>"); returns null if tampered with
+function unsignSessionId(cookieValue: string, secret: string): string | null {
+  if (!cookieValue.startsWith('s:')) return null;
+
+  const signed = cookieValue.slice(2);
+  const dot = signed.lastIndexOf('.');
+  if (dot < 0) return null;
+
+  const sessionId = signed.slice(0, dot);
+  const expected = Buffer.from(
+    `${sessionId}.${createHmac('sha256', secret).update(sessionId).digest('base64').replace(/=+$/, '')}`
+  );
+  const actual = Buffer.from(signed);
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual) ? sessionId : null;
+}
+
+function loadSession(sessionId: string): Promise<PassportSessionData | null | undefined> {
+  return new Promise((resolve, reject) => {
+    storage.sessionStore.get(sessionId, (err, session) => (err ? reject(err) : resolve(session)));
+  });
+}
+
+// The session's user, or null once the session is gone or the user has been suspended
+async function activeSessionUser(sessionId: string): Promise<number | null> {
+  if (await storage.isSessionRevoked(sessionId)) return null;
+
+  const session = await loadSession(sessionId);
+  const userId = session?.passport?.user;
+  if (!userId) return null;
+
+  const user = await storage.getUser(userId);
+  return user && !user.suspendedAt ? user.id : null;
+}
+
+/**
+ * Resolves the logged-in user for an upgrade request from the session cookie,
+ * the same way express-session and passport do for regular requests.
+ */
+async function authenticateUpgrade(request: IncomingMessage): Promise<{ userId: number; sessionId: string } | null> {
+  const cookieValue = parseCookies(request.headers.cookie)[SESSION_COOKIE_NAME];
+  if (!cookieValue) return null;
+
+  const sessionId = unsignSessionId(cookieValue, SESSION_SECRET);
+  if (!sessionId) return null;
+
+  const userId = await activeSessionUser(sessionId);
+  return userId ? { userId, sessionId } : null;
+}
+
+export class WebSocketService {
   private wss: WebSocketServer;
   private clients: Map<number, Set<WebSocketClient>> = new Map();
+  private heartbeat?: NodeJS.Timeout;
+  private subscription: Promise<() => Promise<void>>;
 
-  constructor(server: Server) {
+  constructor(server: Server, private bus: MessageBus) {
     this.wss = new WebSocketServer({ noServer: true });
     this.setupWebSocketServer();
 
+    // Every instance delivers whatever is published on the bus to its own sockets
+    this.subscription = bus.subscribe((message) => this.handleBusMessage(message));
+    this.subscription.catch((error) => console.error('Failed to subscribe to message bus:', error));
+
     // Handle upgrade requests
     server.on('upgrade', async (request, socket, head) => {
-      try {
-        const { query } = parse(request.url || '', true);
-        const token = query.token as string;
+      // Other upgrade listeners (e.g. Vite's HMR socket) handle their own paths
+      const { pathname } = parse(request.url || '');
+      if (pathname !== WS_PATH) return;
 
-        if (!token) {
-          socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
-          socket.destroy();
-          return;
-        }
-
-        // Verify session and get user
-        const session = await storage.getSession(token);
-        if (!session?.userId) {
+      try {
+        const auth = await authenticateUpgrade(request);
+        if (!auth) {
           socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
           socket.destroy();
           return;
@@ -38,7 +116,8 @@ class WebSocketService {
 
         this.wss.handleUpgrade(request, socket, head, (ws) => {
           const client = ws as WebSocketClient;
-          client.userId = session.userId;
+          client.userId = auth.userId;
+          client.sessionId = auth.sessionId;
           client.isAlive = true;
           this.wss.emit('connection', client, request);
         });
@@ -66,6 +145,19 @@ class WebSocketService {
         ws.isAlive = true;
       });
 
+      // Browsers can't send protocol pings, so they send an application-level one
+      ws.on('message', (raw) => {
+        try {
+          const message = JSON.parse(raw.toString()) as ClientMessage;
+          if (message.type === 'ping') {
+            ws.isAlive = true;
+            this.send(ws, { type: 'pong' });
+          }
+        } catch {
+          // Ignore malformed client messages
+        }
+      });
+
       // Handle client disconnect
       ws.on('close', () => {
         this.clients.get(userId)?.delete(ws);
@@ -76,7 +168,7 @@ class WebSocketService {
     });
 
     // Ping all clients every 30 seconds
-    setInterval(() => {
+    this.heartbeat = setInterval(() => {
       this.wss.clients.forEach((ws: WebSocketClient) => {
         if (!ws.isAlive) {
           this.clients.get(ws.userId!)?.delete(ws);
@@ -88,21 +180,36 @@ class WebSocketService {
     }, 30000);
   }
 
-  // Send notification to specific user
-  async sendToUser(userId: number, data: any) {
-    const userClients = this.clients.get(userId);
-    if (!userClients) return;
+  // Resolves once this instance is receiving bus messages
+  async ready() {
+    await this.subscription;
+  }
 
-    const message = JSON.stringify(data);
-    userClients.forEach(client => {
-      if (client.readyState === WebSocket.OPEN) {
-        client.send(message);
-      }
-    });
+  /**
+   * Whether the user has at least one open socket on this instance. With several
+   * instances a user connected elsewhere reads as offline here.
+   */
+  isUserOnline(userId: number) {
+    return (this.clients.get(userId)?.size ?? 0) > 0;
   }
 
-  // Send notification to multiple users
-  async sendToUsers(userIds: number[], data: any) {
+  private send(client: WebSocket, data: ServerMessage) {
+    if (client.readyState === WebSocket.OPEN) {
+      client.send(JSON.stringify(data));
+    }
+  }
+
+  private handleBusMessage(message: BusMessage) {
+    if (message.type === 'deliver') {
+      this.deliverLocally(message.userIds, message.data);
+    } else {
+      this.closeEndedSessions(message.userIds).catch((error) =>
+        console.error('Failed to check WebSocket sessions:', error)
+      );
+    }
+  }
+
+  private deliverLocally(userIds: number[], data: ServerMessage) {
     const message = JSON.stringify(data);
     userIds.forEach(userId => {
       const userClients = this.clients.get(userId);
@@ -115,12 +222,60 @@ class WebSocketService {
       });
     });
   }
+
+  // Closes this instance's sockets whose session has ended since they connected
+  private async closeEndedSessions(userIds: number[]) {
+    for (const userId of userIds) {
+      for (const client of Array.from(this.clients.get(userId) ?? [])) {
+        if (!client.sessionId || (await activeSessionUser(client.sessionId)) !== userId) {
+          client.close(WS_SESSION_ENDED, 'Session ended');
+        }
+      }
+    }
+  }
+
+  // Live updates are best effort: a bus outage is logged, never surfaced to the request that caused it
+  private publish(message: BusMessage) {
+    this.bus.publish(message).catch((error) => console.error('Failed to publish real-time message:', error));
+  }
+
+  // Send notification to specific user, wherever they are connected
+  sendToUser(userId: number, data: ServerMessage) {
+    this.publish({ type: 'deliver', userIds: [userId], data });
+  }
+
+  // Send notification to multiple users
+  sendToUsers(userIds: number[], data: ServerMessage) {
+    if (userIds.length === 0) return;
+    this.publish({ type: 'deliver', userIds, data });
+  }
+
+  // Call after revoking sessions or suspending a user; every instance closes the sockets that no longer check out
+  disconnectEndedSessions(userId: number) {
+    this.publish({ type: 'sessions_revoked', userIds: [userId] });
+  }
+
+  // Stops the heartbeat, leaves the bus and disconnects every local socket
+  async close() {
+    clearInterval(this.heartbeat);
+    const unsubscribe = await this.subscription;
+    await unsubscribe();
+
+    this.wss.clients.forEach((client) => client.terminate());
+    await new Promise<void>((resolve) => this.wss.close(() => resolve()));
+    this.clients.clear();
+  }
+}
+
+// Postgres LISTEN/NOTIFY reaches every instance; set REALTIME_BUS=memory for a single node
+function createMessageBus(): MessageBus {
+  return process.env.REALTIME_BUS === 'memory' ? new InMemoryMessageBus() : new PostgresMessageBus(pool);
 }
 
 let wsService: WebSocketService;
 
-export function setupWebSocket(server: Server) {
-  wsService = new WebSocketService(server);
+export function setupWebSocket(server: Server, bus: MessageBus = createMessageBus()) {
+  wsService = new WebSocketService(server, bus);
   return wsService;
 }
 
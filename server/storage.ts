@@ -1,20 +1,61 @@
 import { 
-  users, type User, type InsertUser,
+  users, userRoles, type User, type InsertUser,
+  passwordResetTokens, type PasswordResetToken, type InsertPasswordResetToken,
+  loginTokens, type LoginToken, type InsertLoginToken,
+  twoFactorCredentials, type TwoFactorCredential, type InsertTwoFactorCredential,
+  twoFactorRecoveryCodes, type TwoFactorRecoveryCode,
   serviceCategories, type ServiceCategory, type InsertServiceCategory,
   serviceProviders, type ServiceProvider, type InsertServiceProvider,
+  availabilityRules, type AvailabilityRule, type InsertAvailabilityRule,
+  availabilityExceptions, type AvailabilityException, type InsertAvailabilityException,
   tasks, type Task, type InsertTask,
+  taskStatusHistory, type TaskStatusHistory, type InsertTaskStatusHistory,
   serviceRequests, type ServiceRequest, type InsertServiceRequest,
-  reviews, type Review, type InsertReview,
-  notifications, type InsertNotification, type Notification
+  quotes, type Quote, type InsertQuote,
+  bookings, type Booking, type InsertBooking,
+  ledgerAccounts, type LedgerAccount, type InsertLedgerAccount,
+  journalEntries, type JournalEntry, type InsertJournalEntry,
+  ledgerPostings, type LedgerPosting, type InsertLedgerPosting,
+  paymentHolds, type PaymentHold, type InsertPaymentHold,
+  invoices, type Invoice, type InsertInvoice,
+  payouts, type Payout, type InsertPayout,
+  reviews, reviewerRoles, type Review, type InsertReview,
+  providerRatingAggregates, type ProviderRatingAggregate,
+  reviewReports, type ReviewReport, type InsertReviewReport,
+  reviewModerationEvents, type ReviewModerationEvent, type InsertReviewModerationEvent,
+  notifications, type InsertNotification, type Notification,
+  notificationPreferences, type NotificationPreference, type InsertNotificationPreference,
+  conversations, type Conversation, type InsertConversation,
+  messages, type Message, type InsertMessage,
+  providerSortOptions, type ProviderSort, type ProviderListing, toProviderListing,
+  type TaskSearchHit, type SnippetSegment
 } from "@shared/schema";
-import session from "express-session";
+import session, { type SessionData } from "express-session";
 import createMemoryStore from "memorystore";
 import connectPg from "connect-pg-simple";
-import { db, pool } from "./db";
-import { eq, and, desc } from "drizzle-orm";
+import { db as rootDb, pool } from "./db";
+import { eq, and, or, ne, lt, gt, lte, gte, between, ilike, inArray, isNull, isNotNull, desc, asc, sql, type SQL } from "drizzle-orm";
+import type { PgDatabase } from "drizzle-orm/pg-core";
+import type { NodePgQueryResultHKT } from "drizzle-orm/node-postgres";
+import type * as schema from "@shared/schema";
 
 const MemoryStore = createMemoryStore(session);
 
+// Either the root connection or a transaction handle; both expose the same query builder
+type Database = PgDatabase<NodePgQueryResultHKT, typeof schema>;
+
+// express-session keeps passport's serialized user under session.passport
+export type PassportSessionData = SessionData & { passport?: { user?: number } };
+
+export type StoredSession = {
+  sid: string;
+  session: PassportSessionData;
+  expiresAt: Date | null;
+};
+
+// How long a revoked session id is remembered when its expiry is unknown: the longest a session can live
+const REVOKED_SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
 // Define the storage interface
 export interface IStorage {
   // User methods
@@ -22,81 +63,493 @@ export interface IStorage {
   getUserByUsername(username: string): Promise<User | undefined>;
   getUserByEmail(email: string): Promise<User | undefined>;
   getUserByVerificationToken(token: string): Promise<User | undefined>;
+  getUserByCalendarToken(token: string): Promise<User | undefined>;
+  getUsers(): Promise<User[]>;
   createUser(user: InsertUser & { verificationToken?: string; verificationTokenExpires?: Date }): Promise<User>;
   updateUser(id: number, user: Partial<User>): Promise<User | undefined>;
+
+  // Password reset token methods
+  createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken>;
+  getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined>;
+  // Marks the token used unless it already was; undefined means someone else used it first
+  usePasswordResetToken(id: number, usedAt: Date): Promise<PasswordResetToken | undefined>;
+  // Marks every unused token the user has as used and returns them
+  revokePasswordResetTokens(userId: number, usedAt: Date): Promise<PasswordResetToken[]>;
+
+  // Login token methods
+  createLoginToken(token: InsertLoginToken): Promise<LoginToken>;
+  getLoginTokenByHash(tokenHash: string): Promise<LoginToken | undefined>;
+  // Marks the token used unless it already was; undefined means someone else used it first
+  useLoginToken(id: number, usedAt: Date): Promise<LoginToken | undefined>;
+  // Marks every unused token the user has as used and returns them
+  revokeLoginTokens(userId: number, usedAt: Date): Promise<LoginToken[]>;
+
+  // Two-factor methods
+  getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined>;
+  // Inserts or replaces the user's credential, which starts enrollment over
+  saveTwoFactorCredential(credential: InsertTwoFactorCredential): Promise<TwoFactorCredential>;
+  updateTwoFactorCredential(userId: number, credential: Partial<TwoFactorCredential>): Promise<TwoFactorCredential | undefined>;
+  // Records the time step of an accepted code unless that step or a later one was used already
+  useTwoFactorStep(userId: number, step: number): Promise<TwoFactorCredential | undefined>;
+  deleteTwoFactorCredential(userId: number): Promise<boolean>;
+  // Drops the user's recovery codes, used or not, and stores the new hashes
+  replaceTwoFactorRecoveryCodes(userId: number, codeHashes: string[]): Promise<TwoFactorRecoveryCode[]>;
+  getUnusedTwoFactorRecoveryCodes(userId: number): Promise<TwoFactorRecoveryCode[]>;
+  // Marks the code used unless it already was; undefined means someone else used it first
+  useTwoFactorRecoveryCode(id: number, usedAt: Date): Promise<TwoFactorRecoveryCode | undefined>;
   
   // Service Category methods
   getServiceCategories(): Promise<ServiceCategory[]>;
   getServiceCategory(id: number): Promise<ServiceCategory | undefined>;
   createServiceCategory(category: InsertServiceCategory): Promise<ServiceCategory>;
+  updateServiceCategory(id: number, category: Partial<InsertServiceCategory>): Promise<ServiceCategory | undefined>;
+  deleteServiceCategory(id: number): Promise<boolean>;
   
   // Service Provider methods
-  createServiceProvider(provider: InsertServiceProvider): Promise<ServiceProvider>;
+  createServiceProvider(provider: InsertServiceProvider & Partial<Coordinates>): Promise<ServiceProvider>;
   getServiceProvider(id: number): Promise<ServiceProvider | undefined>;
   getServiceProviderByUserId(userId: number): Promise<ServiceProvider | undefined>;
   getServiceProviders(): Promise<ServiceProvider[]>;
   getServiceProvidersByCategory(categoryId: number): Promise<ServiceProvider[]>;
   getServiceProviderWithUser(id: number): Promise<any | undefined>;
   updateServiceProvider(id: number, provider: Partial<ServiceProvider>): Promise<ServiceProvider | undefined>;
+  // The marketplace listings; both leave out providers whose account is suspended
+  getServiceProvidersInArea(area: BoundingBox, categoryId?: number): Promise<ServiceProvider[]>;
+  searchServiceProviders(query: ProviderSearchQuery): Promise<{ providers: ProviderListing[]; nextCursor: ProviderSearchCursor | null }>;
+  // Holds the provider's row until the surrounding transaction ends, serializing bookings against them
+  lockServiceProvider(id: number): Promise<ServiceProvider | undefined>;
+  
+  // Availability methods
+  getAvailabilityRules(providerId: number): Promise<AvailabilityRule[]>;
+  replaceAvailabilityRules(providerId: number, rules: InsertAvailabilityRule[]): Promise<AvailabilityRule[]>;
+  getAvailabilityException(id: number): Promise<AvailabilityException | undefined>;
+  getAvailabilityExceptions(providerId: number, range?: TimeRange): Promise<AvailabilityException[]>;
+  createAvailabilityException(exception: InsertAvailabilityException): Promise<AvailabilityException>;
+  deleteAvailabilityException(id: number): Promise<boolean>;
   
   // Task methods
-  createTask(task: InsertTask): Promise<Task>;
+  createTask(task: InsertTask & Partial<Coordinates>): Promise<Task>;
   getTask(id: number): Promise<Task | undefined>;
   getTasks(): Promise<Task[]>;
   getTasksByClient(clientId: number): Promise<Task[]>;
   getTasksByCategory(categoryId: number): Promise<Task[]>;
   updateTask(id: number, task: Partial<Task>): Promise<Task | undefined>;
+  updateTaskStatus(id: number, expectedStatus: string, task: Partial<Task>): Promise<Task | undefined>;
+  getTasksInArea(area: BoundingBox, filters: { categoryId?: number; status?: string }): Promise<Task[]>;
+  searchTasks(query: TaskSearchQuery): Promise<TaskSearchHit[]>;
+  
+  // Task status history methods
+  createTaskStatusHistory(entry: InsertTaskStatusHistory): Promise<TaskStatusHistory>;
+  getTaskStatusHistory(taskId: number): Promise<TaskStatusHistory[]>;
   
   // Service Request methods
   createServiceRequest(request: InsertServiceRequest): Promise<ServiceRequest>;
   getServiceRequest(id: number): Promise<ServiceRequest | undefined>;
+  getServiceRequests(): Promise<ServiceRequest[]>;
   getServiceRequestsByProvider(providerId: number): Promise<ServiceRequest[]>;
   getServiceRequestsByClient(clientId: number): Promise<ServiceRequest[]>;
+  getServiceRequestsByTask(taskId: number): Promise<ServiceRequest[]>;
   updateServiceRequest(id: number, request: Partial<ServiceRequest>): Promise<ServiceRequest | undefined>;
+  updateServiceRequestStatus(id: number, expectedStatus: string, request: Partial<ServiceRequest>): Promise<ServiceRequest | undefined>;
+  // Requests holding a slot that overlaps the range, limited to the given statuses
+  getScheduledServiceRequests(providerId: number, range: TimeRange, statuses: string[]): Promise<ServiceRequest[]>;
+  
+  // Quote methods
+  createQuote(quote: InsertQuote): Promise<Quote>;
+  getQuote(id: number): Promise<Quote | undefined>;
+  getQuoteByServiceRequest(serviceRequestId: number): Promise<Quote | undefined>;
+  
+  // Booking methods
+  createBooking(booking: InsertBooking): Promise<Booking>;
+  getBooking(id: number): Promise<Booking | undefined>;
+  getBookingByServiceRequest(serviceRequestId: number): Promise<Booking | undefined>;
+  updateBooking(id: number, booking: Partial<Booking>): Promise<Booking | undefined>;
+  // Bookings that have not ended, where the user is the client or (given their provider id) the provider
+  getUpcomingBookings(party: { clientId: number; providerId?: number }, after: Date): Promise<Booking[]>;
+  
+  // Ledger methods
+  getLedgerAccount(code: string): Promise<LedgerAccount | undefined>;
+  createLedgerAccount(account: InsertLedgerAccount): Promise<LedgerAccount>;
+  // Callers make sure the postings balance; run it in a transaction alongside whatever it records
+  createJournalEntry(entry: InsertJournalEntry, postings: InsertLedgerPosting[]): Promise<JournalEntry>;
+  getAccountBalance(accountId: number): Promise<number>;
+  // Entries for any of the given holds or payouts, newest first
+  getJournalEntries(
+    sources: { holdIds: number[]; payoutIds: number[] },
+    options: { limit: number; offset: number }
+  ): Promise<JournalEntryWithPostings[]>;
+  
+  // Payment hold methods
+  createPaymentHold(hold: InsertPaymentHold): Promise<PaymentHold>;
+  getPaymentHoldByServiceRequest(serviceRequestId: number): Promise<PaymentHold | undefined>;
+  updatePaymentHoldStatus(id: number, expectedStatus: string, hold: Partial<PaymentHold>): Promise<PaymentHold | undefined>;
+  // Only deletes the hold while it still has the expected status
+  deletePaymentHold(id: number, expectedStatus: string): Promise<boolean>;
+  getPaymentHoldsByStatus(statuses: string[]): Promise<PaymentHold[]>;
+  // Holds where the user is the client or (given their provider id) the provider
+  getPaymentHolds(party: { clientId: number; providerId?: number }): Promise<PaymentHold[]>;
+  // Holds paid out to the provider during the range, by settlement time
+  getReleasedPaymentHolds(providerId: number, range: TimeRange): Promise<PaymentHold[]>;
+  
+  // Payout methods
+  createPayout(payout: InsertPayout): Promise<Payout>;
+  // Only updates the payout while it still has the expected status
+  updatePayoutStatus(id: number, expectedStatus: string, payout: Partial<Payout>): Promise<Payout | undefined>;
+  // Newest first
+  getPayouts(providerId: number): Promise<Payout[]>;
+  getPayoutsByStatus(statuses: string[]): Promise<Payout[]>;
+  getServiceProvidersByPayoutSchedule(schedule: string): Promise<ServiceProvider[]>;
+  
+  // Invoice methods; issued invoices are never updated or deleted
+  createInvoice(invoice: InsertInvoice): Promise<Invoice>;
+  getInvoice(id: number): Promise<Invoice | undefined>;
+  // Oldest first, so an invoice comes before its credit notes
+  getInvoicesByServiceRequest(serviceRequestId: number): Promise<Invoice[]>;
+  // Newest first
+  getInvoicesForParty(party: { clientId: number; providerId?: number }): Promise<Invoice[]>;
+  // 0 when the provider has issued none of this kind yet
+  getLastInvoiceSequence(providerId: number, kind: string): Promise<number>;
   
   // Review methods
   createReview(review: InsertReview): Promise<Review>;
-  getReviewsByProvider(providerId: number): Promise<Review[]>;
+  getReview(id: number): Promise<Review | undefined>;
+  // Holds the review's row until the surrounding transaction ends, so two moderators can't both act on what they read
+  lockReview(id: number): Promise<Review | undefined>;
+  updateReview(id: number, review: Partial<Review>): Promise<Review | undefined>;
+  // Both sides' reviews of the request, published or not
+  getReviewsByServiceRequest(serviceRequestId: number): Promise<Review[]>;
+  // Published reviews clients wrote about the provider, newest first
+  getPublishedProviderReviews(providerId: number): Promise<Review[]>;
+  // Published reviews providers wrote about the client, newest first
+  getPublishedClientReviews(clientId: number): Promise<Review[]>;
+  // Hidden reviews on requests completed before the given time
+  getUnpublishedReviews(completedBefore: Date): Promise<Review[]>;
+  // Publishes whichever of the reviews are still hidden and returns those
+  publishReviews(ids: number[], publishedAt: Date): Promise<Review[]>;
+  // Reviews a moderator has taken down, most recently hidden first
+  getHiddenReviews(): Promise<Review[]>;
+
+  // Provider rating methods
+  getProviderRatingAggregate(providerId: number): Promise<ProviderRatingAggregate | undefined>;
+  // Inserts or replaces the provider's aggregate
+  saveProviderRatingAggregate(aggregate: ProviderRatingAggregate): Promise<ProviderRatingAggregate>;
+
+  // Review report methods
+  createReviewReport(report: InsertReviewReport): Promise<ReviewReport>;
+  // Oldest first, resolved or not
+  getReviewReports(reviewId: number): Promise<ReviewReport[]>;
+  // Unresolved reports across all reviews, oldest first
+  getOpenReviewReports(): Promise<ReviewReport[]>;
+  // Closes the review's open reports and returns them
+  resolveReviewReports(reviewId: number, resolvedAt: Date): Promise<ReviewReport[]>;
+
+  // Review moderation methods
+  createReviewModerationEvent(event: InsertReviewModerationEvent): Promise<ReviewModerationEvent>;
+  // Oldest first
+  getReviewModerationEvents(reviewId: number): Promise<ReviewModerationEvent[]>;
   
   // Notification methods
   createNotification(data: InsertNotification): Promise<Notification>;
   updateNotification(id: number, data: Partial<InsertNotification>): Promise<Notification>;
   getUnreadNotifications(userId: number): Promise<Notification[]>;
   getUserNotifications(userId: number): Promise<Notification[]>;
+  getNotification(id: number): Promise<Notification | undefined>;
+  getNotificationsPage(userId: number, options: NotificationQuery): Promise<{ notifications: Notification[]; total: number }>;
+  markAllNotificationsRead(userId: number): Promise<number>;
+  deleteNotification(id: number): Promise<boolean>;
+  
+  // Notification preference methods
+  getNotificationPreferences(userId: number): Promise<NotificationPreference[]>;
+  upsertNotificationPreference(preference: InsertNotificationPreference): Promise<NotificationPreference>;
+  
+  // Conversation methods
+  createConversation(conversation: InsertConversation): Promise<Conversation>;
+  getConversation(id: number): Promise<Conversation | undefined>;
+  getConversationByServiceRequest(serviceRequestId: number): Promise<Conversation | undefined>;
+  getConversationByTask(taskId: number, providerId: number): Promise<Conversation | undefined>;
+  getConversationsByParticipant(userId: number, providerId?: number): Promise<Conversation[]>;
+  updateConversation(id: number, conversation: Partial<Conversation>): Promise<Conversation | undefined>;
+  
+  // Message methods (pages are returned newest first)
+  createMessage(message: InsertMessage): Promise<Message>;
+  getMessages(conversationId: number, options: { before?: number; limit: number }): Promise<Message[]>;
+  getUnreadMessageCount(conversationId: number, readerId: number): Promise<number>;
+  markMessagesRead(conversationId: number, readerId: number, readAt: Date): Promise<Message[]>;
+  
+  // Runs the callback atomically against a transaction-scoped storage
+  transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T>;
   
   // Session store
   sessionStore: session.Store;
+  // Unexpired sessions signed in as the user
+  getUserSessions(userId: number): Promise<StoredSession[]>;
+  // Destroys the session only if it is signed in as the user. Destroyed sessions are revoked
+  // for good, so a request still running on one can't bring it back by saving it
+  deleteUserSession(userId: number, sid: string): Promise<boolean>;
+  // Destroys every stored session signed in as the user, but for exceptSid, and returns how many there were
+  deleteUserSessions(userId: number, exceptSid?: string): Promise<number>;
+  isSessionRevoked(sid: string): Promise<boolean>;
+}
+
+export type Coordinates = {
+  latitude: number | null;
+  longitude: number | null;
+};
+
+// Coarse lat/lng rectangle used to narrow distance searches before exact filtering
+export type BoundingBox = {
+  minLatitude: number;
+  maxLatitude: number;
+  minLongitude: number;
+  maxLongitude: number;
+};
+
+function isInArea(point: Coordinates, area: BoundingBox): boolean {
+  return point.latitude !== null && point.longitude !== null &&
+    point.latitude >= area.minLatitude && point.latitude <= area.maxLatitude &&
+    point.longitude >= area.minLongitude && point.longitude <= area.maxLongitude;
+}
+
+// Half-open span of time; anything overlapping it starts before `to` and ends after `from`
+export type TimeRange = {
+  from: Date;
+  to: Date;
+};
+
+function overlaps(start: Date, end: Date, range: TimeRange): boolean {
+  return start < range.to && end > range.from;
+}
+
+export type JournalEntryWithPostings = JournalEntry & {
+  postings: LedgerPosting[];
+};
+
+// Filters for paging through a user's notifications, newest first
+export type NotificationQuery = {
+  read?: boolean;
+  type?: string;
+  limit: number;
+  offset: number;
+};
+
+// Position of the last provider on a search page, in that search's sort order
+export type ProviderSearchCursor = {
+  value: number;
+  id: number;
+};
+
+// Filters, ordering and page for provider search; only providers after the cursor are returned
+export type ProviderSearchQuery = {
+  categoryId?: number;
+  minHourlyRate?: number;
+  maxHourlyRate?: number;
+  minRating?: number;
+  minYearsOfExperience?: number;
+  text?: string;
+  sort: ProviderSort;
+  after?: ProviderSearchCursor;
+  limit: number;
+};
+
+// Unrated providers and missing job counts sort as zero
+function providerSortValue(
+  provider: Pick<ServiceProvider, "id" | "hourlyRate" | "ratingScore" | "completedJobs">,
+  sort: ProviderSort
+): number {
+  switch (sort) {
+    case providerSortOptions.RATING:
+      return provider.ratingScore ?? 0;
+    case providerSortOptions.PRICE:
+      return provider.hourlyRate;
+    case providerSortOptions.COMPLETED_JOBS:
+      return provider.completedJobs ?? 0;
+    case providerSortOptions.NEWEST:
+      return provider.id;
+  }
+}
+
+// Cheapest first; every other ordering is highest first. Ties break on id in the same direction
+function isAscendingSort(sort: ProviderSort) {
+  return sort === providerSortOptions.PRICE;
+}
+
+// Full-text task search; results come back best match first
+export type TaskSearchQuery = {
+  text: string;
+  categoryId?: number;
+  status?: string;
+  limit: number;
+  offset: number;
+};
+
+// Relative weight of each searchable task field, matching the A/B/C weights of tasks.search_vector
+const taskSearchFields = [
+  { field: "title", weight: 1 },
+  { field: "description", weight: 0.4 },
+  { field: "location", weight: 0.2 },
+] as const;
+
+// Words of context kept around the first match in a snippet
+const SNIPPET_WORDS = 30;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+}
+
+// Prefix matching stands in for stemming, so "plumb" finds "plumbing"
+function matchesAnyTerm(word: string, terms: string[]) {
+  return terms.some((term) => word.startsWith(term));
+}
+
+// Sum of weighted matches; zero unless every term appears in some field
+function rankTask(task: Task, terms: string[]): number {
+  const fieldWords = taskSearchFields.map(({ field, weight }) => ({ words: tokenize(task[field]), weight }));
+  const allTermsFound = terms.every((term) => fieldWords.some(({ words }) => words.some((word) => word.startsWith(term))));
+  if (!allTermsFound) return 0;
+
+  return fieldWords.reduce((rank, { words, weight }) => {
+    const matches = words.filter((word) => matchesAnyTerm(word, terms)).length;
+    return words.length > 0 ? rank + (weight * matches) / words.length : rank;
+  }, 0);
+}
+
+// A window of text around the first matching word, with every matching word highlighted
+function snippetFor(text: string, terms: string[]): SnippetSegment[] {
+  // Odd indexes are words, even indexes the punctuation and spaces between them
+  const parts = text.split(/([\p{L}\p{N}]+)/u);
+  const wordIndexes = parts.flatMap((_, i) => (i % 2 === 1 ? [i] : []));
+  const firstMatch = wordIndexes.findIndex((i) => matchesAnyTerm(parts[i].toLowerCase(), terms));
+
+  const startWord = Math.max(0, firstMatch - SNIPPET_WORDS / 3);
+  const endWord = Math.min(wordIndexes.length, startWord + SNIPPET_WORDS);
+  const start = startWord === 0 ? 0 : wordIndexes[startWord];
+  const end = endWord === wordIndexes.length ? parts.length : wordIndexes[endWord];
+
+  const segments: SnippetSegment[] = [];
+  const append = (text: string, highlighted: boolean) => {
+    const previous = segments[segments.length - 1];
+    if (previous && previous.highlighted === highlighted) {
+      previous.text += text;
+    } else if (text) {
+      segments.push({ text, highlighted });
+    }
+  };
+
+  if (start > 0) append("... ", false);
+  for (let i = start; i < end; i++) {
+    append(parts[i], i % 2 === 1 && matchesAnyTerm(parts[i].toLowerCase(), terms));
+  }
+  if (end < parts.length) append(" ...", false);
+
+  return segments;
+}
+
+// Markers ts_headline wraps around matches; chosen to be vanishingly rare in task text
+const HIGHLIGHT_START = "\u27E6";
+const HIGHLIGHT_END = "\u27E7";
+const TASK_HEADLINE_OPTIONS =
+  `StartSel="${HIGHLIGHT_START}", StopSel="${HIGHLIGHT_END}", MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" ... "`;
+
+function parseHeadline(headline: string): SnippetSegment[] {
+  return headline
+    .split(new RegExp(`${HIGHLIGHT_START}(.*?)${HIGHLIGHT_END}`, "s"))
+    .map((text, i) => ({ text, highlighted: i % 2 === 1 }))
+    .filter(({ text }) => text.length > 0);
 }
 
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
+  private passwordResetTokens: Map<number, PasswordResetToken>;
+  private loginTokens: Map<number, LoginToken>;
+  private twoFactorCredentials: Map<number, TwoFactorCredential>;
+  private twoFactorRecoveryCodes: Map<number, TwoFactorRecoveryCode>;
   private serviceCategories: Map<number, ServiceCategory>;
   private serviceProviders: Map<number, ServiceProvider>;
+  private availabilityRules: Map<number, AvailabilityRule>;
+  private availabilityExceptions: Map<number, AvailabilityException>;
   private tasks: Map<number, Task>;
+  private taskStatusHistory: Map<number, TaskStatusHistory>;
   private serviceRequests: Map<number, ServiceRequest>;
+  private quotes: Map<number, Quote>;
+  private bookings: Map<number, Booking>;
+  private ledgerAccounts: Map<number, LedgerAccount>;
+  private journalEntries: Map<number, JournalEntry>;
+  private ledgerPostings: Map<number, LedgerPosting>;
+  private paymentHolds: Map<number, PaymentHold>;
+  private invoices: Map<number, Invoice>;
+  private payouts: Map<number, Payout>;
   private reviews: Map<number, Review>;
+  private providerRatingAggregates: Map<number, ProviderRatingAggregate>;
+  private reviewReports: Map<number, ReviewReport>;
+  private reviewModerationEvents: Map<number, ReviewModerationEvent>;
   private notifications: Map<number, Notification>;
+  private notificationPreferences: Map<number, NotificationPreference>;
+  private conversations: Map<number, Conversation>;
+  private messages: Map<number, Message>;
+  // Revoked session ids and when each would have expired anyway
+  private revokedSessions: Map<string, Date> = new Map();
   
   sessionStore: session.Store;
   currentId: { [key: string]: number };
+  private transactionQueue: Promise<unknown> = Promise.resolve();
 
   constructor() {
     this.users = new Map();
+    this.passwordResetTokens = new Map();
+    this.loginTokens = new Map();
+    this.twoFactorCredentials = new Map();
+    this.twoFactorRecoveryCodes = new Map();
     this.serviceCategories = new Map();
     this.serviceProviders = new Map();
+    this.availabilityRules = new Map();
+    this.availabilityExceptions = new Map();
     this.tasks = new Map();
+    this.taskStatusHistory = new Map();
     this.serviceRequests = new Map();
+    this.quotes = new Map();
+    this.bookings = new Map();
+    this.ledgerAccounts = new Map();
+    this.journalEntries = new Map();
+    this.ledgerPostings = new Map();
+    this.paymentHolds = new Map();
+    this.invoices = new Map();
+    this.payouts = new Map();
     this.reviews = new Map();
+    this.providerRatingAggregates = new Map();
+    this.reviewReports = new Map();
+    this.reviewModerationEvents = new Map();
     this.notifications = new Map();
+    this.notificationPreferences = new Map();
+    this.conversations = new Map();
+    this.messages = new Map();
     
     this.currentId = {
       users: 1,
+      passwordResetTokens: 1,
+      loginTokens: 1,
+      twoFactorRecoveryCodes: 1,
       serviceCategories: 1,
       serviceProviders: 1,
+      availabilityRules: 1,
+      availabilityExceptions: 1,
       tasks: 1,
+      taskStatusHistory: 1,
       serviceRequests: 1,
+      quotes: 1,
+      bookings: 1,
+      ledgerAccounts: 1,
+      journalEntries: 1,
+      ledgerPostings: 1,
+      paymentHolds: 1,
+      invoices: 1,
+      payouts: 1,
       reviews: 1,
-      notifications: 1
+      reviewReports: 1,
+      reviewModerationEvents: 1,
+      notifications: 1,
+      notificationPreferences: 1,
+      conversations: 1,
+      messages: 1
     };
     
     this.sessionStore = new MemoryStore({
@@ -144,6 +597,14 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values()).find(user => user.verificationToken === token);
   }
 
+  async getUserByCalendarToken(token: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.calendarToken === token);
+  }
+
+  async getUsers(): Promise<User[]> {
+    return Array.from(this.users.values());
+  }
+
   async createUser(insertUser: InsertUser & { verificationToken?: string; verificationTokenExpires?: Date }): Promise<User> {
     const id = this.currentId.users++;
     const createdAt = new Date();
@@ -156,7 +617,11 @@ export class MemStorage implements IStorage {
       phoneNumber: insertUser.phoneNumber || null,
       emailVerified: false,
       verificationToken: insertUser.verificationToken || null,
-      verificationTokenExpires: insertUser.verificationTokenExpires || null
+      verificationTokenExpires: insertUser.verificationTokenExpires || null,
+      calendarToken: null,
+      role: insertUser.isServiceProvider ? userRoles.PROVIDER : userRoles.CLIENT,
+      suspendedAt: null,
+      suspensionReason: null
     };
     this.users.set(id, user);
     return user;
@@ -171,6 +636,161 @@ export class MemStorage implements IStorage {
     return updatedUser;
   }
 
+  // Password reset token methods
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const duplicate = Array.from(this.passwordResetTokens.values()).some((existing) => existing.tokenHash === token.tokenHash);
+    if (duplicate) {
+      throw new Error("Password reset token already exists");
+    }
+
+    const id = this.currentId.passwordResetTokens++;
+    const newToken: PasswordResetToken = {
+      ...token,
+      id,
+      usedAt: null,
+      createdAt: new Date()
+    };
+    this.passwordResetTokens.set(id, newToken);
+    return newToken;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    return Array.from(this.passwordResetTokens.values()).find((token) => token.tokenHash === tokenHash);
+  }
+
+  async usePasswordResetToken(id: number, usedAt: Date): Promise<PasswordResetToken | undefined> {
+    const token = this.passwordResetTokens.get(id);
+    if (!token || token.usedAt) return undefined;
+
+    const used = { ...token, usedAt };
+    this.passwordResetTokens.set(id, used);
+    return used;
+  }
+
+  async revokePasswordResetTokens(userId: number, usedAt: Date): Promise<PasswordResetToken[]> {
+    const revoked: PasswordResetToken[] = [];
+    for (const token of Array.from(this.passwordResetTokens.values())) {
+      if (token.userId !== userId || token.usedAt) continue;
+
+      const used = { ...token, usedAt };
+      this.passwordResetTokens.set(token.id, used);
+      revoked.push(used);
+    }
+    return revoked;
+  }
+
+  // Login token methods
+  async createLoginToken(token: InsertLoginToken): Promise<LoginToken> {
+    const duplicate = Array.from(this.loginTokens.values()).some((existing) => existing.tokenHash === token.tokenHash);
+    if (duplicate) {
+      throw new Error("Login token already exists");
+    }
+
+    const id = this.currentId.loginTokens++;
+    const newToken: LoginToken = {
+      ...token,
+      id,
+      usedAt: null,
+      createdAt: new Date()
+    };
+    this.loginTokens.set(id, newToken);
+    return newToken;
+  }
+
+  async getLoginTokenByHash(tokenHash: string): Promise<LoginToken | undefined> {
+    return Array.from(this.loginTokens.values()).find((token) => token.tokenHash === tokenHash);
+  }
+
+  async useLoginToken(id: number, usedAt: Date): Promise<LoginToken | undefined> {
+    const token = this.loginTokens.get(id);
+    if (!token || token.usedAt) return undefined;
+
+    const used = { ...token, usedAt };
+    this.loginTokens.set(id, used);
+    return used;
+  }
+
+  async revokeLoginTokens(userId: number, usedAt: Date): Promise<LoginToken[]> {
+    const revoked: LoginToken[] = [];
+    for (const token of Array.from(this.loginTokens.values())) {
+      if (token.userId !== userId || token.usedAt) continue;
+
+      const used = { ...token, usedAt };
+      this.loginTokens.set(token.id, used);
+      revoked.push(used);
+    }
+    return revoked;
+  }
+
+  // Two-factor methods
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    return this.twoFactorCredentials.get(userId);
+  }
+
+  async saveTwoFactorCredential(credential: InsertTwoFactorCredential): Promise<TwoFactorCredential> {
+    const saved: TwoFactorCredential = {
+      ...credential,
+      enabledAt: null,
+      lastUsedStep: null,
+      createdAt: new Date()
+    };
+    this.twoFactorCredentials.set(credential.userId, saved);
+    return saved;
+  }
+
+  async updateTwoFactorCredential(userId: number, credential: Partial<TwoFactorCredential>): Promise<TwoFactorCredential | undefined> {
+    const existing = this.twoFactorCredentials.get(userId);
+    if (!existing) return undefined;
+
+    const updated = { ...existing, ...credential, userId };
+    this.twoFactorCredentials.set(userId, updated);
+    return updated;
+  }
+
+  async useTwoFactorStep(userId: number, step: number): Promise<TwoFactorCredential | undefined> {
+    const existing = this.twoFactorCredentials.get(userId);
+    if (!existing || (existing.lastUsedStep !== null && existing.lastUsedStep >= step)) return undefined;
+
+    const updated = { ...existing, lastUsedStep: step };
+    this.twoFactorCredentials.set(userId, updated);
+    return updated;
+  }
+
+  async deleteTwoFactorCredential(userId: number): Promise<boolean> {
+    return this.twoFactorCredentials.delete(userId);
+  }
+
+  async replaceTwoFactorRecoveryCodes(userId: number, codeHashes: string[]): Promise<TwoFactorRecoveryCode[]> {
+    for (const code of Array.from(this.twoFactorRecoveryCodes.values())) {
+      if (code.userId === userId) {
+        this.twoFactorRecoveryCodes.delete(code.id);
+      }
+    }
+
+    const createdAt = new Date();
+    return codeHashes.map((codeHash) => {
+      const id = this.currentId.twoFactorRecoveryCodes++;
+      const code: TwoFactorRecoveryCode = { id, userId, codeHash, usedAt: null, createdAt };
+      this.twoFactorRecoveryCodes.set(id, code);
+      return code;
+    });
+  }
+
+  async getUnusedTwoFactorRecoveryCodes(userId: number): Promise<TwoFactorRecoveryCode[]> {
+    return Array.from(this.twoFactorRecoveryCodes.values())
+      .filter((code) => code.userId === userId && code.usedAt === null)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async useTwoFactorRecoveryCode(id: number, usedAt: Date): Promise<TwoFactorRecoveryCode | undefined> {
+    const code = this.twoFactorRecoveryCodes.get(id);
+    if (!code || code.usedAt) return undefined;
+
+    const used = { ...code, usedAt };
+    this.twoFactorRecoveryCodes.set(id, used);
+    return used;
+  }
+
   // Service Category methods
   async getServiceCategories(): Promise<ServiceCategory[]> {
     return Array.from(this.serviceCategories.values());
@@ -181,6 +801,10 @@ export class MemStorage implements IStorage {
   }
   
   async createServiceCategory(category: InsertServiceCategory): Promise<ServiceCategory> {
+    if (Array.from(this.serviceCategories.values()).some((other) => other.name === category.name)) {
+      throw new Error(`Service category ${category.name} already exists`);
+    }
+
     const id = this.currentId.serviceCategories++;
     const newCategory: ServiceCategory = { 
       ...category, 
@@ -192,17 +816,47 @@ export class MemStorage implements IStorage {
     return newCategory;
   }
 
+  async updateServiceCategory(id: number, categoryData: Partial<InsertServiceCategory>): Promise<ServiceCategory | undefined> {
+    const category = await this.getServiceCategory(id);
+    if (!category) return undefined;
+
+    if (categoryData.name !== undefined && Array.from(this.serviceCategories.values()).some(
+      (other) => other.id !== id && other.name === categoryData.name
+    )) {
+      // Mirrors the unique constraint on service_categories.name
+      throw new Error(`Service category ${categoryData.name} already exists`);
+    }
+
+    const updatedCategory = { ...category, ...categoryData };
+    this.serviceCategories.set(id, updatedCategory);
+    return updatedCategory;
+  }
+
+  async deleteServiceCategory(id: number): Promise<boolean> {
+    return this.serviceCategories.delete(id);
+  }
+
   // Service Provider methods
-  async createServiceProvider(provider: InsertServiceProvider): Promise<ServiceProvider> {
+  async createServiceProvider(provider: InsertServiceProvider & Partial<Coordinates>): Promise<ServiceProvider> {
     const id = this.currentId.serviceProviders++;
     const newProvider: ServiceProvider = { 
       ...provider, 
       id, 
       rating: 0, 
+      ratingScore: null,
       completedJobs: 0,
       bio: provider.bio || null,
       yearsOfExperience: provider.yearsOfExperience || null,
-      availability: provider.availability || null
+      availability: provider.availability || null,
+      timezone: provider.timezone ?? "UTC",
+      slotMinutes: provider.slotMinutes ?? 60,
+      payoutSchedule: "weekly",
+      verifiedAt: null,
+      address: provider.address ?? null,
+      postalCode: provider.postalCode ?? null,
+      latitude: provider.latitude ?? null,
+      longitude: provider.longitude ?? null,
+      serviceRadiusKm: provider.serviceRadiusKm ?? 25
     };
     this.serviceProviders.set(id, newProvider);
     return newProvider;
@@ -253,8 +907,122 @@ export class MemStorage implements IStorage {
     return updatedProvider;
   }
 
+  async getServiceProvidersInArea(area: BoundingBox, categoryId?: number): Promise<ServiceProvider[]> {
+    return Array.from(this.serviceProviders.values()).filter(
+      (provider) =>
+        isInArea(provider, area) &&
+        (categoryId === undefined || provider.categoryId === categoryId) &&
+        !this.users.get(provider.userId)?.suspendedAt
+    );
+  }
+
+  async searchServiceProviders({
+    categoryId,
+    minHourlyRate,
+    maxHourlyRate,
+    minRating,
+    minYearsOfExperience,
+    text,
+    sort,
+    after,
+    limit
+  }: ProviderSearchQuery): Promise<{ providers: ProviderListing[]; nextCursor: ProviderSearchCursor | null }> {
+    const needle = text?.toLowerCase();
+    const direction = isAscendingSort(sort) ? 1 : -1;
+    const compare = (a: ProviderSearchCursor, b: ProviderSearchCursor) =>
+      direction * (a.value - b.value || a.id - b.id);
+
+    const matches = Array.from(this.serviceProviders.values())
+      .filter((provider) =>
+        (categoryId === undefined || provider.categoryId === categoryId) &&
+        (minHourlyRate === undefined || provider.hourlyRate >= minHourlyRate) &&
+        (maxHourlyRate === undefined || provider.hourlyRate <= maxHourlyRate) &&
+        (minRating === undefined || (provider.rating ?? 0) >= minRating) &&
+        (minYearsOfExperience === undefined || (provider.yearsOfExperience ?? 0) >= minYearsOfExperience) &&
+        (after === undefined || compare({ value: providerSortValue(provider, sort), id: provider.id }, after) > 0)
+      )
+      .flatMap((provider) => {
+        const user = this.users.get(provider.userId);
+        const category = this.serviceCategories.get(provider.categoryId);
+        if (!user || user.suspendedAt || !category) return [];
+
+        const fullName = `${user.firstName} ${user.lastName}`.toLowerCase();
+        if (needle && !fullName.includes(needle) && !provider.bio?.toLowerCase().includes(needle)) {
+          return [];
+        }
+
+        return [toProviderListing(provider, user, category)];
+      })
+      .sort((a, b) => compare(
+        { value: providerSortValue(a, sort), id: a.id },
+        { value: providerSortValue(b, sort), id: b.id }
+      ));
+
+    const providers = matches.slice(0, limit);
+    const last = providers[providers.length - 1];
+    return {
+      providers,
+      nextCursor: matches.length > limit ? { value: providerSortValue(last, sort), id: last.id } : null
+    };
+  }
+
+  async lockServiceProvider(id: number): Promise<ServiceProvider | undefined> {
+    // Transactions already run one at a time here
+    return this.getServiceProvider(id);
+  }
+
+  // Availability methods
+  async getAvailabilityRules(providerId: number): Promise<AvailabilityRule[]> {
+    return Array.from(this.availabilityRules.values())
+      .filter((rule) => rule.providerId === providerId)
+      .sort((a, b) => a.weekday - b.weekday || a.startTime.localeCompare(b.startTime));
+  }
+
+  async replaceAvailabilityRules(providerId: number, rules: InsertAvailabilityRule[]): Promise<AvailabilityRule[]> {
+    for (const rule of Array.from(this.availabilityRules.values())) {
+      if (rule.providerId === providerId) {
+        this.availabilityRules.delete(rule.id);
+      }
+    }
+
+    for (const rule of rules) {
+      const id = this.currentId.availabilityRules++;
+      this.availabilityRules.set(id, { ...rule, id, providerId });
+    }
+    return this.getAvailabilityRules(providerId);
+  }
+
+  async getAvailabilityException(id: number): Promise<AvailabilityException | undefined> {
+    return this.availabilityExceptions.get(id);
+  }
+
+  async getAvailabilityExceptions(providerId: number, range?: TimeRange): Promise<AvailabilityException[]> {
+    return Array.from(this.availabilityExceptions.values())
+      .filter((exception) =>
+        exception.providerId === providerId &&
+        (!range || overlaps(exception.startsAt, exception.endsAt, range))
+      )
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  async createAvailabilityException(exception: InsertAvailabilityException): Promise<AvailabilityException> {
+    const id = this.currentId.availabilityExceptions++;
+    const newException: AvailabilityException = {
+      ...exception,
+      id,
+      reason: exception.reason ?? null,
+      createdAt: new Date()
+    };
+    this.availabilityExceptions.set(id, newException);
+    return newException;
+  }
+
+  async deleteAvailabilityException(id: number): Promise<boolean> {
+    return this.availabilityExceptions.delete(id);
+  }
+
   // Task methods
-  async createTask(task: InsertTask): Promise<Task> {
+  async createTask(task: InsertTask & Partial<Coordinates>): Promise<Task> {
     const id = this.currentId.tasks++;
     const createdAt = new Date();
     const newTask: Task = { 
@@ -262,8 +1030,13 @@ export class MemStorage implements IStorage {
       id, 
       createdAt, 
       completedAt: null,
-      status: task.status || "open", // ensure status is always defined
-      budget: task.budget !== undefined ? task.budget : null
+      status: "open",
+      acceptedById: null,
+      acceptedAt: null,
+      budget: task.budget !== undefined ? task.budget : null,
+      postalCode: task.postalCode ?? null,
+      latitude: task.latitude ?? null,
+      longitude: task.longitude ?? null
     };
     this.tasks.set(id, newTask);
     return newTask;
@@ -288,7 +1061,31 @@ export class MemStorage implements IStorage {
       (task) => task.categoryId === categoryId
     );
   }
+
+  async getTasksInArea(area: BoundingBox, { categoryId, status }: { categoryId?: number; status?: string }): Promise<Task[]> {
+    return Array.from(this.tasks.values()).filter(
+      (task) =>
+        isInArea(task, area) &&
+        (categoryId === undefined || task.categoryId === categoryId) &&
+        (status === undefined || task.status === status)
+    );
+  }
   
+  async searchTasks({ text, categoryId, status, limit, offset }: TaskSearchQuery): Promise<TaskSearchHit[]> {
+    const terms = tokenize(text);
+    if (terms.length === 0) return [];
+
+    return Array.from(this.tasks.values())
+      .filter((task) =>
+        (categoryId === undefined || task.categoryId === categoryId) &&
+        (status === undefined || task.status === status)
+      )
+      .map((task) => ({ ...task, rank: rankTask(task, terms), snippet: snippetFor(task.description, terms) }))
+      .filter((hit) => hit.rank > 0)
+      .sort((a, b) => b.rank - a.rank || (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0))
+      .slice(offset, offset + limit);
+  }
+
   async updateTask(id: number, taskData: Partial<Task>): Promise<Task | undefined> {
     const task = await this.getTask(id);
     if (!task) return undefined;
@@ -297,6 +1094,27 @@ export class MemStorage implements IStorage {
     this.tasks.set(id, updatedTask);
     return updatedTask;
   }
+  
+  async updateTaskStatus(id: number, expectedStatus: string, taskData: Partial<Task>): Promise<Task | undefined> {
+    const task = await this.getTask(id);
+    if (!task || task.status !== expectedStatus) return undefined;
+    
+    return this.updateTask(id, taskData);
+  }
+
+  // Task status history methods
+  async createTaskStatusHistory(entry: InsertTaskStatusHistory): Promise<TaskStatusHistory> {
+    const id = this.currentId.taskStatusHistory++;
+    const newEntry: TaskStatusHistory = { ...entry, id, createdAt: new Date() };
+    this.taskStatusHistory.set(id, newEntry);
+    return newEntry;
+  }
+  
+  async getTaskStatusHistory(taskId: number): Promise<TaskStatusHistory[]> {
+    return Array.from(this.taskStatusHistory.values()).filter(
+      (entry) => entry.taskId === taskId
+    );
+  }
 
   // Service Request methods
   async createServiceRequest(request: InsertServiceRequest): Promise<ServiceRequest> {
@@ -306,9 +1124,13 @@ export class MemStorage implements IStorage {
       ...request, 
       id, 
       createdAt,
-      status: request.status || "pending", // ensure status is always defined
+      status: "pending",
+      initiatedBy: request.initiatedBy || "client",
       message: request.message !== undefined ? request.message : null,
-      taskId: request.taskId !== undefined ? request.taskId : null
+      taskId: request.taskId !== undefined ? request.taskId : null,
+      scheduledStart: request.scheduledStart ?? null,
+      scheduledEnd: request.scheduledEnd ?? null,
+      completedAt: null
     };
     this.serviceRequests.set(id, newRequest);
     return newRequest;
@@ -318,6 +1140,10 @@ export class MemStorage implements IStorage {
     return this.serviceRequests.get(id);
   }
   
+  async getServiceRequests(): Promise<ServiceRequest[]> {
+    return Array.from(this.serviceRequests.values());
+  }
+  
   async getServiceRequestsByProvider(providerId: number): Promise<ServiceRequest[]> {
     return Array.from(this.serviceRequests.values()).filter(
       (request) => request.providerId === providerId
@@ -330,6 +1156,12 @@ export class MemStorage implements IStorage {
     );
   }
   
+  async getServiceRequestsByTask(taskId: number): Promise<ServiceRequest[]> {
+    return Array.from(this.serviceRequests.values()).filter(
+      (request) => request.taskId === taskId
+    );
+  }
+  
   async updateServiceRequest(id: number, requestData: Partial<ServiceRequest>): Promise<ServiceRequest | undefined> {
     const request = await this.getServiceRequest(id);
     if (!request) return undefined;
@@ -338,127 +1170,736 @@ export class MemStorage implements IStorage {
     this.serviceRequests.set(id, updatedRequest);
     return updatedRequest;
   }
-
-  // Review methods
-  async createReview(review: InsertReview): Promise<Review> {
-    const id = this.currentId.reviews++;
-    const createdAt = new Date();
-    const newReview: Review = { 
-      ...review, 
-      id, 
-      createdAt,
-      comment: review.comment !== undefined ? review.comment : null
-    };
-    this.reviews.set(id, newReview);
-    
-    // Update service provider rating
-    const providerReviews = await this.getReviewsByProvider(review.providerId);
-    const provider = await this.getServiceProvider(review.providerId);
-    
-    if (provider) {
-      const totalRating = providerReviews.reduce((sum, review) => sum + review.rating, 0) + review.rating;
-      const newRating = totalRating / (providerReviews.length + 1);
-      
-      await this.updateServiceProvider(review.providerId, {
-        rating: parseFloat(newRating.toFixed(1))
-      });
-    }
+  
+  async updateServiceRequestStatus(id: number, expectedStatus: string, requestData: Partial<ServiceRequest>): Promise<ServiceRequest | undefined> {
+    const request = await this.getServiceRequest(id);
+    if (!request || request.status !== expectedStatus) return undefined;
     
-    return newReview;
+    return this.updateServiceRequest(id, requestData);
   }
-  
-  async getReviewsByProvider(providerId: number): Promise<Review[]> {
-    return Array.from(this.reviews.values()).filter(
-      (review) => review.providerId === providerId
+
+  async getScheduledServiceRequests(providerId: number, range: TimeRange, statuses: string[]): Promise<ServiceRequest[]> {
+    return Array.from(this.serviceRequests.values()).filter(
+      (request) =>
+        request.providerId === providerId &&
+        statuses.includes(request.status) &&
+        request.scheduledStart !== null &&
+        request.scheduledEnd !== null &&
+        overlaps(request.scheduledStart, request.scheduledEnd, range)
     );
   }
 
-  // Notification methods
-  async createNotification(data: InsertNotification): Promise<Notification> {
-    const id = this.currentId.notifications++;
-    const createdAt = new Date();
-    const notification: Notification = {
-      ...data,
+  // Quote methods
+  async createQuote(quote: InsertQuote): Promise<Quote> {
+    const id = this.currentId.quotes++;
+    const newQuote: Quote = {
+      ...quote,
       id,
-      createdAt,
-      read: false
+      estimatedHours: quote.estimatedHours ?? null,
+      earliestStartAt: quote.earliestStartAt ?? null,
+      expiresAt: quote.expiresAt ?? null,
+      createdAt: new Date()
     };
-    this.notifications.set(id, notification);
-    return notification;
+    this.quotes.set(id, newQuote);
+    return newQuote;
   }
 
-  async updateNotification(id: number, data: Partial<InsertNotification>): Promise<Notification> {
-    const notification = await this.getNotification(id);
-    if (!notification) throw new Error("Notification not found");
-    
-    const updatedNotification = { ...notification, ...data };
-    this.notifications.set(id, updatedNotification);
-    return updatedNotification;
+  async getQuote(id: number): Promise<Quote | undefined> {
+    return this.quotes.get(id);
   }
 
-  async getUnreadNotifications(userId: number): Promise<Notification[]> {
-    return Array.from(this.notifications.values()).filter(
-      (notification) => notification.userId === userId && !notification.read
-    );
+  async getQuoteByServiceRequest(serviceRequestId: number): Promise<Quote | undefined> {
+    return Array.from(this.quotes.values()).find((quote) => quote.serviceRequestId === serviceRequestId);
   }
 
-  async getUserNotifications(userId: number): Promise<Notification[]> {
-    return Array.from(this.notifications.values()).filter(
-      (notification) => notification.userId === userId
-    );
+  // Booking methods
+  async createBooking(booking: InsertBooking): Promise<Booking> {
+    const id = this.currentId.bookings++;
+    const now = new Date();
+    const newBooking: Booking = {
+      ...booking,
+      id,
+      address: booking.address ?? null,
+      status: "confirmed",
+      sequence: 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.bookings.set(id, newBooking);
+    return newBooking;
   }
 
-  async getNotification(id: number): Promise<Notification | undefined> {
-    return this.notifications.get(id);
+  async getBooking(id: number): Promise<Booking | undefined> {
+    return this.bookings.get(id);
   }
-}
 
-export class DatabaseStorage implements IStorage {
-  sessionStore: session.Store;
+  async getBookingByServiceRequest(serviceRequestId: number): Promise<Booking | undefined> {
+    return Array.from(this.bookings.values()).find((booking) => booking.serviceRequestId === serviceRequestId);
+  }
 
-  constructor() {
-    // Set up PostgreSQL session store
-    const PostgresSessionStore = connectPg(session);
-    this.sessionStore = new PostgresSessionStore({ 
-      pool, 
-      createTableIfMissing: true
-    });
-    
-    // Initialize sample service categories
-    this.initializeServiceCategories();
+  async updateBooking(id: number, bookingData: Partial<Booking>): Promise<Booking | undefined> {
+    const booking = this.bookings.get(id);
+    if (!booking) return undefined;
+
+    const updatedBooking = { ...booking, ...bookingData };
+    this.bookings.set(id, updatedBooking);
+    return updatedBooking;
   }
-  
-  private async initializeServiceCategories() {
-    // Add some default service categories if none exist
-    const categories = await db.select().from(serviceCategories);
-    
-    if (categories.length === 0) {
-      await Promise.all([
-        db.insert(serviceCategories).values({ 
-          name: "Home Cleaning", 
-          description: "House cleaning, carpet cleaning, and other home cleaning services",
-          icon: "Trash2"
-        }),
-        
-        db.insert(serviceCategories).values({ 
+
+  async getUpcomingBookings(party: { clientId: number; providerId?: number }, after: Date): Promise<Booking[]> {
+    return Array.from(this.bookings.values())
+      .filter((booking) =>
+        (booking.clientId === party.clientId || booking.providerId === party.providerId) &&
+        booking.endsAt > after
+      )
+      .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  }
+
+  // Ledger methods
+  async getLedgerAccount(code: string): Promise<LedgerAccount | undefined> {
+    return Array.from(this.ledgerAccounts.values()).find((account) => account.code === code);
+  }
+
+  async createLedgerAccount(account: InsertLedgerAccount): Promise<LedgerAccount> {
+    const id = this.currentId.ledgerAccounts++;
+    const newAccount: LedgerAccount = { ...account, id, userId: account.userId ?? null, createdAt: new Date() };
+    this.ledgerAccounts.set(id, newAccount);
+    return newAccount;
+  }
+
+  async createJournalEntry(entry: InsertJournalEntry, postings: InsertLedgerPosting[]): Promise<JournalEntry> {
+    const id = this.currentId.journalEntries++;
+    const newEntry: JournalEntry = {
+      ...entry,
+      id,
+      holdId: entry.holdId ?? null,
+      payoutId: entry.payoutId ?? null,
+      createdAt: new Date(),
+    };
+    this.journalEntries.set(id, newEntry);
+
+    for (const posting of postings) {
+      const postingId = this.currentId.ledgerPostings++;
+      this.ledgerPostings.set(postingId, { ...posting, id: postingId, entryId: id });
+    }
+    return newEntry;
+  }
+
+  async getAccountBalance(accountId: number): Promise<number> {
+    return Array.from(this.ledgerPostings.values())
+      .filter((posting) => posting.accountId === accountId)
+      .reduce((sum, posting) => sum + posting.amountCents, 0);
+  }
+
+  async getJournalEntries(
+    { holdIds, payoutIds }: { holdIds: number[]; payoutIds: number[] },
+    { limit, offset }: { limit: number; offset: number }
+  ): Promise<JournalEntryWithPostings[]> {
+    const postings = Array.from(this.ledgerPostings.values());
+    return Array.from(this.journalEntries.values())
+      .filter((entry) =>
+        (entry.holdId !== null && holdIds.includes(entry.holdId)) ||
+        (entry.payoutId !== null && payoutIds.includes(entry.payoutId))
+      )
+      .sort((a, b) => b.id - a.id)
+      .slice(offset, offset + limit)
+      .map((entry) => ({ ...entry, postings: postings.filter((posting) => posting.entryId === entry.id) }));
+  }
+
+  // Payment hold methods
+  async createPaymentHold(hold: InsertPaymentHold): Promise<PaymentHold> {
+    const id = this.currentId.paymentHolds++;
+    const newHold: PaymentHold = {
+      ...hold,
+      id,
+      status: "authorizing",
+      authorizationId: hold.authorizationId ?? null,
+      createdAt: new Date(),
+      settledAt: null
+    };
+    this.paymentHolds.set(id, newHold);
+    return newHold;
+  }
+
+  async getPaymentHoldByServiceRequest(serviceRequestId: number): Promise<PaymentHold | undefined> {
+    return Array.from(this.paymentHolds.values()).find((hold) => hold.serviceRequestId === serviceRequestId);
+  }
+
+  async updatePaymentHoldStatus(id: number, expectedStatus: string, holdData: Partial<PaymentHold>): Promise<PaymentHold | undefined> {
+    const hold = this.paymentHolds.get(id);
+    if (!hold || hold.status !== expectedStatus) return undefined;
+
+    const updatedHold = { ...hold, ...holdData };
+    this.paymentHolds.set(id, updatedHold);
+    return updatedHold;
+  }
+
+  async deletePaymentHold(id: number, expectedStatus: string): Promise<boolean> {
+    if (this.paymentHolds.get(id)?.status !== expectedStatus) return false;
+    return this.paymentHolds.delete(id);
+  }
+
+  async getPaymentHoldsByStatus(statuses: string[]): Promise<PaymentHold[]> {
+    return Array.from(this.paymentHolds.values()).filter((hold) => statuses.includes(hold.status));
+  }
+
+  async getPaymentHolds(party: { clientId: number; providerId?: number }): Promise<PaymentHold[]> {
+    return Array.from(this.paymentHolds.values()).filter(
+      (hold) => hold.clientId === party.clientId || hold.providerId === party.providerId
+    );
+  }
+
+  async getReleasedPaymentHolds(providerId: number, range: TimeRange): Promise<PaymentHold[]> {
+    return Array.from(this.paymentHolds.values()).filter(
+      (hold) =>
+        hold.providerId === providerId &&
+        hold.status === "released" &&
+        hold.settledAt !== null &&
+        hold.settledAt >= range.from &&
+        hold.settledAt < range.to
+    ).sort((a, b) => a.settledAt!.getTime() - b.settledAt!.getTime());
+  }
+
+  // Payout methods
+  async createPayout(payout: InsertPayout): Promise<Payout> {
+    const id = this.currentId.payouts++;
+    const newPayout: Payout = {
+      ...payout,
+      id,
+      status: "pending",
+      transferId: payout.transferId ?? null,
+      createdAt: new Date()
+    };
+    this.payouts.set(id, newPayout);
+    return newPayout;
+  }
+
+  async updatePayoutStatus(id: number, expectedStatus: string, payoutData: Partial<Payout>): Promise<Payout | undefined> {
+    const payout = this.payouts.get(id);
+    if (!payout || payout.status !== expectedStatus) return undefined;
+
+    const updatedPayout = { ...payout, ...payoutData };
+    this.payouts.set(id, updatedPayout);
+    return updatedPayout;
+  }
+
+  async getPayouts(providerId: number): Promise<Payout[]> {
+    return Array.from(this.payouts.values())
+      .filter((payout) => payout.providerId === providerId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getPayoutsByStatus(statuses: string[]): Promise<Payout[]> {
+    return Array.from(this.payouts.values()).filter((payout) => statuses.includes(payout.status));
+  }
+
+  async getServiceProvidersByPayoutSchedule(schedule: string): Promise<ServiceProvider[]> {
+    return Array.from(this.serviceProviders.values()).filter((provider) => provider.payoutSchedule === schedule);
+  }
+
+  // Invoice methods
+  async createInvoice(invoice: InsertInvoice): Promise<Invoice> {
+    const duplicate = Array.from(this.invoices.values()).some(
+      (existing) => existing.providerId === invoice.providerId && existing.kind === invoice.kind && existing.sequence === invoice.sequence
+    );
+    if (duplicate) {
+      throw new Error(`Invoice sequence ${invoice.sequence} is already taken`);
+    }
+
+    const id = this.currentId.invoices++;
+    const newInvoice: Invoice = {
+      ...invoice,
+      id,
+      creditedInvoiceId: invoice.creditedInvoiceId ?? null,
+      reason: invoice.reason ?? null,
+      issuedAt: new Date(),
+    };
+    this.invoices.set(id, newInvoice);
+    return newInvoice;
+  }
+
+  async getInvoice(id: number): Promise<Invoice | undefined> {
+    return this.invoices.get(id);
+  }
+
+  async getInvoicesByServiceRequest(serviceRequestId: number): Promise<Invoice[]> {
+    return Array.from(this.invoices.values())
+      .filter((invoice) => invoice.serviceRequestId === serviceRequestId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getInvoicesForParty(party: { clientId: number; providerId?: number }): Promise<Invoice[]> {
+    return Array.from(this.invoices.values())
+      .filter((invoice) => invoice.clientId === party.clientId || invoice.providerId === party.providerId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getLastInvoiceSequence(providerId: number, kind: string): Promise<number> {
+    return Array.from(this.invoices.values())
+      .filter((invoice) => invoice.providerId === providerId && invoice.kind === kind)
+      .reduce((last, invoice) => Math.max(last, invoice.sequence), 0);
+  }
+
+  // Review methods
+  async createReview(review: InsertReview): Promise<Review> {
+    const reviewerRole = review.reviewerRole || "client";
+    const duplicate = Array.from(this.reviews.values()).some(
+      (existing) => existing.serviceRequestId === review.serviceRequestId && existing.reviewerRole === reviewerRole
+    );
+    if (duplicate) {
+      throw new Error(`Service request ${review.serviceRequestId} already has a ${reviewerRole} review`);
+    }
+
+    const id = this.currentId.reviews++;
+    const createdAt = new Date();
+    const newReview: Review = { 
+      ...review, 
+      id, 
+      createdAt,
+      reviewerRole,
+      punctualityRating: review.punctualityRating ?? null,
+      qualityRating: review.qualityRating ?? null,
+      communicationRating: review.communicationRating ?? null,
+      valueRating: review.valueRating ?? null,
+      comment: review.comment !== undefined ? review.comment : null,
+      publishedAt: null,
+      reply: null,
+      repliedAt: null,
+      hiddenAt: null
+    };
+    this.reviews.set(id, newReview);
+    return newReview;
+  }
+
+  async getReview(id: number): Promise<Review | undefined> {
+    return this.reviews.get(id);
+  }
+
+  async lockReview(id: number): Promise<Review | undefined> {
+    // Transactions already run one at a time here
+    return this.getReview(id);
+  }
+
+  async updateReview(id: number, reviewData: Partial<Review>): Promise<Review | undefined> {
+    const review = this.reviews.get(id);
+    if (!review) return undefined;
+
+    const updatedReview = { ...review, ...reviewData };
+    this.reviews.set(id, updatedReview);
+    return updatedReview;
+  }
+
+  async getReviewsByServiceRequest(serviceRequestId: number): Promise<Review[]> {
+    return Array.from(this.reviews.values()).filter(
+      (review) => review.serviceRequestId === serviceRequestId
+    );
+  }
+
+  private getPublishedReviews(filter: (review: Review) => boolean): Review[] {
+    return Array.from(this.reviews.values())
+      .filter((review) => review.publishedAt !== null && review.hiddenAt === null && filter(review))
+      .sort((a, b) => (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0));
+  }
+
+  async getPublishedProviderReviews(providerId: number): Promise<Review[]> {
+    return this.getPublishedReviews(
+      (review) => review.providerId === providerId && review.reviewerRole === reviewerRoles.CLIENT
+    );
+  }
+
+  async getPublishedClientReviews(clientId: number): Promise<Review[]> {
+    return this.getPublishedReviews(
+      (review) => review.clientId === clientId && review.reviewerRole === reviewerRoles.PROVIDER
+    );
+  }
+
+  async getUnpublishedReviews(completedBefore: Date): Promise<Review[]> {
+    return Array.from(this.reviews.values()).filter((review) => {
+      const request = this.serviceRequests.get(review.serviceRequestId);
+      return review.publishedAt === null && !!request?.completedAt && request.completedAt < completedBefore;
+    });
+  }
+
+  async publishReviews(ids: number[], publishedAt: Date): Promise<Review[]> {
+    const published: Review[] = [];
+    for (const id of ids) {
+      const review = this.reviews.get(id);
+      if (!review || review.publishedAt !== null) continue;
+
+      const updated = { ...review, publishedAt };
+      this.reviews.set(id, updated);
+      published.push(updated);
+    }
+    return published;
+  }
+
+  async getHiddenReviews(): Promise<Review[]> {
+    return Array.from(this.reviews.values())
+      .filter((review) => review.hiddenAt !== null)
+      .sort((a, b) => b.hiddenAt!.getTime() - a.hiddenAt!.getTime());
+  }
+
+  // Provider rating methods
+  async getProviderRatingAggregate(providerId: number): Promise<ProviderRatingAggregate | undefined> {
+    return this.providerRatingAggregates.get(providerId);
+  }
+
+  async saveProviderRatingAggregate(aggregate: ProviderRatingAggregate): Promise<ProviderRatingAggregate> {
+    this.providerRatingAggregates.set(aggregate.providerId, aggregate);
+    return aggregate;
+  }
+
+  // Review report methods
+  async createReviewReport(report: InsertReviewReport): Promise<ReviewReport> {
+    const duplicate = Array.from(this.reviewReports.values()).some(
+      (existing) => existing.reviewId === report.reviewId && existing.reporterId === report.reporterId
+    );
+    if (duplicate) {
+      throw new Error(`User ${report.reporterId} already reported review ${report.reviewId}`);
+    }
+
+    const id = this.currentId.reviewReports++;
+    const newReport: ReviewReport = {
+      ...report,
+      id,
+      details: report.details ?? null,
+      resolvedAt: null,
+      createdAt: new Date()
+    };
+    this.reviewReports.set(id, newReport);
+    return newReport;
+  }
+
+  async getReviewReports(reviewId: number): Promise<ReviewReport[]> {
+    return Array.from(this.reviewReports.values())
+      .filter((report) => report.reviewId === reviewId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getOpenReviewReports(): Promise<ReviewReport[]> {
+    return Array.from(this.reviewReports.values())
+      .filter((report) => report.resolvedAt === null)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async resolveReviewReports(reviewId: number, resolvedAt: Date): Promise<ReviewReport[]> {
+    const resolved: ReviewReport[] = [];
+    for (const report of Array.from(this.reviewReports.values())) {
+      if (report.reviewId !== reviewId || report.resolvedAt !== null) continue;
+
+      const updated = { ...report, resolvedAt };
+      this.reviewReports.set(report.id, updated);
+      resolved.push(updated);
+    }
+    return resolved;
+  }
+
+  // Review moderation methods
+  async createReviewModerationEvent(event: InsertReviewModerationEvent): Promise<ReviewModerationEvent> {
+    const id = this.currentId.reviewModerationEvents++;
+    const newEvent: ReviewModerationEvent = {
+      ...event,
+      id,
+      note: event.note ?? null,
+      createdAt: new Date()
+    };
+    this.reviewModerationEvents.set(id, newEvent);
+    return newEvent;
+  }
+
+  async getReviewModerationEvents(reviewId: number): Promise<ReviewModerationEvent[]> {
+    return Array.from(this.reviewModerationEvents.values())
+      .filter((event) => event.reviewId === reviewId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  // Notification methods
+  async createNotification(data: InsertNotification): Promise<Notification> {
+    const id = this.currentId.notifications++;
+    const createdAt = new Date();
+    const notification: Notification = {
+      ...data,
+      id,
+      createdAt,
+      read: false
+    };
+    this.notifications.set(id, notification);
+    return notification;
+  }
+
+  async updateNotification(id: number, data: Partial<InsertNotification>): Promise<Notification> {
+    const notification = await this.getNotification(id);
+    if (!notification) throw new Error("Notification not found");
+    
+    const updatedNotification = { ...notification, ...data };
+    this.notifications.set(id, updatedNotification);
+    return updatedNotification;
+  }
+
+  async getUnreadNotifications(userId: number): Promise<Notification[]> {
+    return Array.from(this.notifications.values()).filter(
+      (notification) => notification.userId === userId && !notification.read
+    );
+  }
+
+  async getUserNotifications(userId: number): Promise<Notification[]> {
+    return Array.from(this.notifications.values()).filter(
+      (notification) => notification.userId === userId
+    );
+  }
+
+  async getNotification(id: number): Promise<Notification | undefined> {
+    return this.notifications.get(id);
+  }
+
+  async getNotificationsPage(
+    userId: number,
+    { read, type, limit, offset }: NotificationQuery
+  ): Promise<{ notifications: Notification[]; total: number }> {
+    const matching = Array.from(this.notifications.values())
+      .filter((notification) =>
+        notification.userId === userId &&
+        (read === undefined || notification.read === read) &&
+        (type === undefined || notification.type === type)
+      )
+      .sort((a, b) => b.id - a.id);
+
+    return {
+      notifications: matching.slice(offset, offset + limit),
+      total: matching.length
+    };
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    let count = 0;
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.userId === userId && !notification.read) {
+        this.notifications.set(notification.id, { ...notification, read: true });
+        count++;
+      }
+    }
+    return count;
+  }
+
+  async deleteNotification(id: number): Promise<boolean> {
+    return this.notifications.delete(id);
+  }
+
+  // Notification preference methods
+  async getNotificationPreferences(userId: number): Promise<NotificationPreference[]> {
+    return Array.from(this.notificationPreferences.values()).filter(
+      (preference) => preference.userId === userId
+    );
+  }
+
+  async upsertNotificationPreference(preference: InsertNotificationPreference): Promise<NotificationPreference> {
+    const existing = Array.from(this.notificationPreferences.values()).find(
+      (candidate) =>
+        candidate.userId === preference.userId &&
+        candidate.type === preference.type &&
+        candidate.channel === preference.channel
+    );
+
+    const id = existing?.id ?? this.currentId.notificationPreferences++;
+    const updatedPreference: NotificationPreference = { ...preference, id, updatedAt: new Date() };
+    this.notificationPreferences.set(id, updatedPreference);
+    return updatedPreference;
+  }
+
+  // Conversation methods
+  async createConversation(conversation: InsertConversation): Promise<Conversation> {
+    const id = this.currentId.conversations++;
+    const newConversation: Conversation = {
+      ...conversation,
+      id,
+      serviceRequestId: conversation.serviceRequestId ?? null,
+      taskId: conversation.taskId ?? null,
+      lastMessageAt: null,
+      createdAt: new Date()
+    };
+    this.conversations.set(id, newConversation);
+    return newConversation;
+  }
+
+  async getConversation(id: number): Promise<Conversation | undefined> {
+    return this.conversations.get(id);
+  }
+
+  async getConversationByServiceRequest(serviceRequestId: number): Promise<Conversation | undefined> {
+    return Array.from(this.conversations.values()).find(
+      (conversation) => conversation.serviceRequestId === serviceRequestId
+    );
+  }
+
+  async getConversationByTask(taskId: number, providerId: number): Promise<Conversation | undefined> {
+    return Array.from(this.conversations.values()).find(
+      (conversation) =>
+        conversation.taskId === taskId &&
+        conversation.providerId === providerId &&
+        conversation.serviceRequestId === null
+    );
+  }
+
+  async getConversationsByParticipant(userId: number, providerId?: number): Promise<Conversation[]> {
+    return Array.from(this.conversations.values())
+      .filter((conversation) => conversation.clientId === userId || conversation.providerId === providerId)
+      .sort((a, b) => (b.lastMessageAt?.getTime() ?? 0) - (a.lastMessageAt?.getTime() ?? 0));
+  }
+
+  async updateConversation(id: number, conversationData: Partial<Conversation>): Promise<Conversation | undefined> {
+    const conversation = await this.getConversation(id);
+    if (!conversation) return undefined;
+
+    const updatedConversation = { ...conversation, ...conversationData };
+    this.conversations.set(id, updatedConversation);
+    return updatedConversation;
+  }
+
+  // Message methods
+  async createMessage(message: InsertMessage): Promise<Message> {
+    const id = this.currentId.messages++;
+    const newMessage: Message = { ...message, id, readAt: null, createdAt: new Date() };
+    this.messages.set(id, newMessage);
+    return newMessage;
+  }
+
+  async getMessages(conversationId: number, { before, limit }: { before?: number; limit: number }): Promise<Message[]> {
+    return Array.from(this.messages.values())
+      .filter((message) => message.conversationId === conversationId && (before === undefined || message.id < before))
+      .sort((a, b) => b.id - a.id)
+      .slice(0, limit);
+  }
+
+  async getUnreadMessageCount(conversationId: number, readerId: number): Promise<number> {
+    return Array.from(this.messages.values()).filter(
+      (message) => message.conversationId === conversationId && message.senderId !== readerId && !message.readAt
+    ).length;
+  }
+
+  async markMessagesRead(conversationId: number, readerId: number, readAt: Date): Promise<Message[]> {
+    const updated: Message[] = [];
+    this.messages.forEach((message, id) => {
+      if (message.conversationId === conversationId && message.senderId !== readerId && !message.readAt) {
+        const readMessage = { ...message, readAt };
+        this.messages.set(id, readMessage);
+        updated.push(readMessage);
+      }
+    });
+    return updated;
+  }
+
+  // Session methods
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    const store = this.sessionStore;
+    const sessions = await new Promise<Record<string, PassportSessionData>>((resolve, reject) => {
+      if (!store.all) return resolve({});
+      store.all((err, all) => (err ? reject(err) : resolve((all ?? {}) as Record<string, PassportSessionData>)));
+    });
+
+    return Object.keys(sessions)
+      .filter((sid) => sessions[sid].passport?.user === userId)
+      .map((sid) => {
+        const expires = sessions[sid].cookie?.expires;
+        return { sid, session: sessions[sid], expiresAt: expires ? new Date(expires) : null };
+      });
+  }
+
+  private revokeSession({ sid, expiresAt }: StoredSession): Promise<void> {
+    const now = Date.now();
+    this.revokedSessions.forEach((until, revokedSid) => {
+      if (until.getTime() <= now) this.revokedSessions.delete(revokedSid);
+    });
+    this.revokedSessions.set(sid, expiresAt ?? new Date(now + REVOKED_SESSION_TTL_MS));
+
+    return new Promise((resolve, reject) => {
+      this.sessionStore.destroy(sid, (err) => (err ? reject(err) : resolve()));
+    });
+  }
+
+  async deleteUserSession(userId: number, sid: string): Promise<boolean> {
+    const owned = (await this.getUserSessions(userId)).find((stored) => stored.sid === sid);
+    if (owned) await this.revokeSession(owned);
+    return !!owned;
+  }
+
+  async deleteUserSessions(userId: number, exceptSid?: string): Promise<number> {
+    const sessions = (await this.getUserSessions(userId)).filter((stored) => stored.sid !== exceptSid);
+    await Promise.all(sessions.map((stored) => this.revokeSession(stored)));
+    return sessions.length;
+  }
+
+  async isSessionRevoked(sid: string): Promise<boolean> {
+    const until = this.revokedSessions.get(sid);
+    return !!until && until > new Date();
+  }
+
+  // There is no rollback in memory; callbacks are queued so check-then-write sequences can't interleave
+  async transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    // Nested transactions run inline instead of waiting behind their parent
+    const tx: IStorage = Object.create(this, {
+      transaction: { value: <U>(inner: (tx: IStorage) => Promise<U>) => inner(tx) }
+    });
+    const result = this.transactionQueue.then(() => fn(tx));
+    this.transactionQueue = result.catch(() => undefined);
+    return result;
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+  private readonly db: Database;
+
+  constructor(db: Database = rootDb, sessionStore?: session.Store) {
+    this.db = db;
+
+    // Transaction-scoped instances share the parent's session store and skip seeding
+    if (sessionStore) {
+      this.sessionStore = sessionStore;
+      return;
+    }
+
+    // Set up PostgreSQL session store
+    const PostgresSessionStore = connectPg(session);
+    this.sessionStore = new PostgresSessionStore({ 
+      pool, 
+      createTableIfMissing: true
+    });
+    
+    // Initialize sample service categories
+    this.initializeServiceCategories();
+  }
+  
+  private async initializeServiceCategories() {
+    // Add some default service categories if none exist
+    const categories = await this.db.select().from(serviceCategories);
+    
+    if (categories.length === 0) {
+      await Promise.all([
+        this.db.insert(serviceCategories).values({ 
+          name: "Home Cleaning", 
+          description: "House cleaning, carpet cleaning, and other home cleaning services",
+          icon: "Trash2"
+        }),
+        
+        this.db.insert(serviceCategories).values({ 
           name: "Handyman", 
           description: "General home repairs, furniture assembly, and other handyman services",
           icon: "Hammer"
         }),
         
-        db.insert(serviceCategories).values({ 
+        this.db.insert(serviceCategories).values({ 
           name: "Lawn Care", 
           description: "Lawn mowing, gardening, landscaping, and other yard work",
           icon: "Scissors"
         }),
         
-        db.insert(serviceCategories).values({ 
+        this.db.insert(serviceCategories).values({ 
           name: "Tutoring", 
           description: "Academic tutoring, test preparation, and other educational services",
           icon: "BookOpen"
         }),
         
-        db.insert(serviceCategories).values({ 
+        this.db.insert(serviceCategories).values({ 
           name: "Pet Care", 
           description: "Pet sitting, dog walking, grooming, and other pet services",
           icon: "PawPrint"
@@ -467,47 +1908,183 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
-    return user;
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
+    return user;
+  }
+
+  async getUsers(): Promise<User[]> {
+    return this.db.select().from(users);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values({
+      ...insertUser,
+      role: insertUser.isServiceProvider ? userRoles.PROVIDER : userRoles.CLIENT
+    }).returning();
+    return user;
+  }
+
+  async updateUser(id: number, userData: Partial<User>): Promise<User | undefined> {
+    const [user] = await this.db.update(users).set(userData).where(eq(users.id, id)).returning();
+    return user;
+  }
+
+  async createPasswordResetToken(token: InsertPasswordResetToken): Promise<PasswordResetToken> {
+    const [newToken] = await this.db.insert(passwordResetTokens).values(token).returning();
+    return newToken;
+  }
+
+  async getPasswordResetTokenByHash(tokenHash: string): Promise<PasswordResetToken | undefined> {
+    const [token] = await this.db.select().from(passwordResetTokens).where(eq(passwordResetTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async usePasswordResetToken(id: number, usedAt: Date): Promise<PasswordResetToken | undefined> {
+    const [token] = await this.db.update(passwordResetTokens)
+      .set({ usedAt })
+      .where(and(eq(passwordResetTokens.id, id), isNull(passwordResetTokens.usedAt)))
+      .returning();
+    return token;
+  }
+
+  async revokePasswordResetTokens(userId: number, usedAt: Date): Promise<PasswordResetToken[]> {
+    return this.db.update(passwordResetTokens)
+      .set({ usedAt })
+      .where(and(eq(passwordResetTokens.userId, userId), isNull(passwordResetTokens.usedAt)))
+      .returning();
+  }
+
+  async createLoginToken(token: InsertLoginToken): Promise<LoginToken> {
+    const [newToken] = await this.db.insert(loginTokens).values(token).returning();
+    return newToken;
+  }
+
+  async getLoginTokenByHash(tokenHash: string): Promise<LoginToken | undefined> {
+    const [token] = await this.db.select().from(loginTokens).where(eq(loginTokens.tokenHash, tokenHash));
+    return token;
+  }
+
+  async useLoginToken(id: number, usedAt: Date): Promise<LoginToken | undefined> {
+    const [token] = await this.db.update(loginTokens)
+      .set({ usedAt })
+      .where(and(eq(loginTokens.id, id), isNull(loginTokens.usedAt)))
+      .returning();
+    return token;
+  }
+
+  async revokeLoginTokens(userId: number, usedAt: Date): Promise<LoginToken[]> {
+    return this.db.update(loginTokens)
+      .set({ usedAt })
+      .where(and(eq(loginTokens.userId, userId), isNull(loginTokens.usedAt)))
+      .returning();
+  }
+
+  async getTwoFactorCredential(userId: number): Promise<TwoFactorCredential | undefined> {
+    const [credential] = await this.db.select().from(twoFactorCredentials).where(eq(twoFactorCredentials.userId, userId));
+    return credential;
+  }
+
+  async saveTwoFactorCredential(credential: InsertTwoFactorCredential): Promise<TwoFactorCredential> {
+    const restart = { secret: credential.secret, enabledAt: null, lastUsedStep: null, createdAt: new Date() };
+    const [saved] = await this.db.insert(twoFactorCredentials)
+      .values(credential)
+      .onConflictDoUpdate({ target: twoFactorCredentials.userId, set: restart })
+      .returning();
+    return saved;
   }
 
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
-    return user;
+  async updateTwoFactorCredential(userId: number, credential: Partial<TwoFactorCredential>): Promise<TwoFactorCredential | undefined> {
+    const [updated] = await this.db.update(twoFactorCredentials)
+      .set(credential)
+      .where(eq(twoFactorCredentials.userId, userId))
+      .returning();
+    return updated;
   }
 
-  async getUserByEmail(email: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.email, email));
-    return user;
+  async useTwoFactorStep(userId: number, step: number): Promise<TwoFactorCredential | undefined> {
+    const [updated] = await this.db.update(twoFactorCredentials)
+      .set({ lastUsedStep: step })
+      .where(and(
+        eq(twoFactorCredentials.userId, userId),
+        or(isNull(twoFactorCredentials.lastUsedStep), lt(twoFactorCredentials.lastUsedStep, step))
+      ))
+      .returning();
+    return updated;
   }
 
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values(insertUser).returning();
-    return user;
+  async deleteTwoFactorCredential(userId: number): Promise<boolean> {
+    const deleted = await this.db.delete(twoFactorCredentials)
+      .where(eq(twoFactorCredentials.userId, userId))
+      .returning({ userId: twoFactorCredentials.userId });
+    return deleted.length > 0;
   }
 
-  async updateUser(id: number, userData: Partial<User>): Promise<User | undefined> {
-    const [user] = await db.update(users).set(userData).where(eq(users.id, id)).returning();
-    return user;
+  async replaceTwoFactorRecoveryCodes(userId: number, codeHashes: string[]): Promise<TwoFactorRecoveryCode[]> {
+    await this.db.delete(twoFactorRecoveryCodes).where(eq(twoFactorRecoveryCodes.userId, userId));
+    if (codeHashes.length === 0) return [];
+
+    return this.db.insert(twoFactorRecoveryCodes)
+      .values(codeHashes.map((codeHash) => ({ userId, codeHash })))
+      .returning();
+  }
+
+  async getUnusedTwoFactorRecoveryCodes(userId: number): Promise<TwoFactorRecoveryCode[]> {
+    return this.db.select()
+      .from(twoFactorRecoveryCodes)
+      .where(and(eq(twoFactorRecoveryCodes.userId, userId), isNull(twoFactorRecoveryCodes.usedAt)))
+      .orderBy(asc(twoFactorRecoveryCodes.id));
+  }
+
+  async useTwoFactorRecoveryCode(id: number, usedAt: Date): Promise<TwoFactorRecoveryCode | undefined> {
+    const [code] = await this.db.update(twoFactorRecoveryCodes)
+      .set({ usedAt })
+      .where(and(eq(twoFactorRecoveryCodes.id, id), isNull(twoFactorRecoveryCodes.usedAt)))
+      .returning();
+    return code;
   }
 
   async getServiceCategories(): Promise<ServiceCategory[]> {
-    return db.select().from(serviceCategories);
+    return this.db.select().from(serviceCategories);
   }
 
   async getServiceCategory(id: number): Promise<ServiceCategory | undefined> {
-    const [category] = await db.select().from(serviceCategories).where(eq(serviceCategories.id, id));
+    const [category] = await this.db.select().from(serviceCategories).where(eq(serviceCategories.id, id));
     return category;
   }
 
   async createServiceCategory(category: InsertServiceCategory): Promise<ServiceCategory> {
-    const [newCategory] = await db.insert(serviceCategories).values(category).returning();
+    const [newCategory] = await this.db.insert(serviceCategories).values(category).returning();
     return newCategory;
   }
 
-  async createServiceProvider(provider: InsertServiceProvider): Promise<ServiceProvider> {
-    const [newProvider] = await db.insert(serviceProviders).values({
+  async updateServiceCategory(id: number, categoryData: Partial<InsertServiceCategory>): Promise<ServiceCategory | undefined> {
+    const [category] = await this.db.update(serviceCategories)
+      .set(categoryData)
+      .where(eq(serviceCategories.id, id))
+      .returning();
+    return category;
+  }
+
+  async deleteServiceCategory(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(serviceCategories)
+      .where(eq(serviceCategories.id, id))
+      .returning({ id: serviceCategories.id });
+    return deleted.length > 0;
+  }
+
+  async createServiceProvider(provider: InsertServiceProvider & Partial<Coordinates>): Promise<ServiceProvider> {
+    const [newProvider] = await this.db.insert(serviceProviders).values({
       ...provider,
       rating: 0,
       completedJobs: 0
@@ -517,21 +2094,102 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getServiceProvider(id: number): Promise<ServiceProvider | undefined> {
-    const [provider] = await db.select().from(serviceProviders).where(eq(serviceProviders.id, id));
+    const [provider] = await this.db.select().from(serviceProviders).where(eq(serviceProviders.id, id));
     return provider;
   }
 
   async getServiceProviderByUserId(userId: number): Promise<ServiceProvider | undefined> {
-    const [provider] = await db.select().from(serviceProviders).where(eq(serviceProviders.userId, userId));
+    const [provider] = await this.db.select().from(serviceProviders).where(eq(serviceProviders.userId, userId));
     return provider;
   }
 
   async getServiceProviders(): Promise<ServiceProvider[]> {
-    return db.select().from(serviceProviders);
+    return this.db.select().from(serviceProviders);
   }
 
   async getServiceProvidersByCategory(categoryId: number): Promise<ServiceProvider[]> {
-    return db.select().from(serviceProviders).where(eq(serviceProviders.categoryId, categoryId));
+    return this.db.select().from(serviceProviders).where(eq(serviceProviders.categoryId, categoryId));
+  }
+
+  async getServiceProvidersInArea(area: BoundingBox, categoryId?: number): Promise<ServiceProvider[]> {
+    const rows = await this.db
+      .select({ provider: serviceProviders })
+      .from(serviceProviders)
+      .innerJoin(users, eq(serviceProviders.userId, users.id))
+      .where(and(
+        between(serviceProviders.latitude, area.minLatitude, area.maxLatitude),
+        between(serviceProviders.longitude, area.minLongitude, area.maxLongitude),
+        categoryId === undefined ? undefined : eq(serviceProviders.categoryId, categoryId),
+        isNull(users.suspendedAt)
+      ));
+    return rows.map(({ provider }) => provider);
+  }
+
+  async searchServiceProviders({
+    categoryId,
+    minHourlyRate,
+    maxHourlyRate,
+    minRating,
+    minYearsOfExperience,
+    text,
+    sort,
+    after,
+    limit
+  }: ProviderSearchQuery): Promise<{ providers: ProviderListing[]; nextCursor: ProviderSearchCursor | null }> {
+    // Same keys as providerSortValue, so cursors compare against exactly what was sorted on
+    const sortKey = {
+      [providerSortOptions.RATING]: sql<number>`coalesce(${serviceProviders.ratingScore}, 0)`,
+      [providerSortOptions.PRICE]: sql<number>`${serviceProviders.hourlyRate}`,
+      [providerSortOptions.COMPLETED_JOBS]: sql<number>`coalesce(${serviceProviders.completedJobs}, 0)`,
+      [providerSortOptions.NEWEST]: sql<number>`${serviceProviders.id}`,
+    }[sort];
+    const ascending = isAscendingSort(sort);
+    const pattern = text ? `%${text.replace(/[\\%_]/g, "\\$&")}%` : undefined;
+
+    const rows = await this.db
+      .select({
+        provider: serviceProviders,
+        user: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          profilePicture: users.profilePicture,
+          username: users.username
+        },
+        category: serviceCategories
+      })
+      .from(serviceProviders)
+      .innerJoin(users, eq(serviceProviders.userId, users.id))
+      .innerJoin(serviceCategories, eq(serviceProviders.categoryId, serviceCategories.id))
+      .where(and(
+        isNull(users.suspendedAt),
+        categoryId === undefined ? undefined : eq(serviceProviders.categoryId, categoryId),
+        minHourlyRate === undefined ? undefined : gte(serviceProviders.hourlyRate, minHourlyRate),
+        maxHourlyRate === undefined ? undefined : lte(serviceProviders.hourlyRate, maxHourlyRate),
+        minRating === undefined ? undefined : gte(sql`coalesce(${serviceProviders.rating}, 0)`, minRating),
+        minYearsOfExperience === undefined
+          ? undefined
+          : gte(sql`coalesce(${serviceProviders.yearsOfExperience}, 0)`, minYearsOfExperience),
+        pattern === undefined ? undefined : or(
+          ilike(serviceProviders.bio, pattern),
+          sql`${users.firstName} || ' ' || ${users.lastName} ilike ${pattern}`
+        ),
+        after === undefined ? undefined : ascending
+          ? or(gt(sortKey, after.value), and(eq(sortKey, after.value), gt(serviceProviders.id, after.id)))
+          : or(lt(sortKey, after.value), and(eq(sortKey, after.value), lt(serviceProviders.id, after.id)))
+      ))
+      .orderBy(
+        ascending ? asc(sortKey) : desc(sortKey),
+        ascending ? asc(serviceProviders.id) : desc(serviceProviders.id)
+      )
+      .limit(limit + 1);
+
+    const providers = rows.slice(0, limit).map(({ provider, user, category }) => toProviderListing(provider, user, category));
+    const last = providers[providers.length - 1];
+    return {
+      providers,
+      nextCursor: rows.length > limit ? { value: providerSortValue(last, sort), id: last.id } : null
+    };
   }
 
   async getServiceProviderWithUser(id: number): Promise<any | undefined> {
@@ -556,7 +2214,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async updateServiceProvider(id: number, providerData: Partial<ServiceProvider>): Promise<ServiceProvider | undefined> {
-    const [provider] = await db.update(serviceProviders)
+    const [provider] = await this.db.update(serviceProviders)
       .set(providerData)
       .where(eq(serviceProviders.id, id))
       .returning();
@@ -564,30 +2222,115 @@ export class DatabaseStorage implements IStorage {
     return provider;
   }
 
-  async createTask(task: InsertTask): Promise<Task> {
-    const [newTask] = await db.insert(tasks).values(task).returning();
+  async lockServiceProvider(id: number): Promise<ServiceProvider | undefined> {
+    const [provider] = await this.db.select()
+      .from(serviceProviders)
+      .where(eq(serviceProviders.id, id))
+      .for("update");
+    return provider;
+  }
+
+  // Availability methods
+  async getAvailabilityRules(providerId: number): Promise<AvailabilityRule[]> {
+    return this.db.select()
+      .from(availabilityRules)
+      .where(eq(availabilityRules.providerId, providerId))
+      .orderBy(asc(availabilityRules.weekday), asc(availabilityRules.startTime));
+  }
+
+  async replaceAvailabilityRules(providerId: number, rules: InsertAvailabilityRule[]): Promise<AvailabilityRule[]> {
+    await this.db.delete(availabilityRules).where(eq(availabilityRules.providerId, providerId));
+    if (rules.length > 0) {
+      await this.db.insert(availabilityRules).values(rules.map((rule) => ({ ...rule, providerId })));
+    }
+    return this.getAvailabilityRules(providerId);
+  }
+
+  async getAvailabilityException(id: number): Promise<AvailabilityException | undefined> {
+    const [exception] = await this.db.select().from(availabilityExceptions).where(eq(availabilityExceptions.id, id));
+    return exception;
+  }
+
+  async getAvailabilityExceptions(providerId: number, range?: TimeRange): Promise<AvailabilityException[]> {
+    const conditions = [eq(availabilityExceptions.providerId, providerId)];
+    if (range) {
+      conditions.push(lt(availabilityExceptions.startsAt, range.to), gt(availabilityExceptions.endsAt, range.from));
+    }
+
+    return this.db.select()
+      .from(availabilityExceptions)
+      .where(and(...conditions))
+      .orderBy(asc(availabilityExceptions.startsAt));
+  }
+
+  async createAvailabilityException(exception: InsertAvailabilityException): Promise<AvailabilityException> {
+    const [newException] = await this.db.insert(availabilityExceptions).values(exception).returning();
+    return newException;
+  }
+
+  async deleteAvailabilityException(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(availabilityExceptions)
+      .where(eq(availabilityExceptions.id, id))
+      .returning({ id: availabilityExceptions.id });
+    return deleted.length > 0;
+  }
+
+  async createTask(task: InsertTask & Partial<Coordinates>): Promise<Task> {
+    const [newTask] = await this.db.insert(tasks).values(task).returning();
     return newTask;
   }
 
   async getTask(id: number): Promise<Task | undefined> {
-    const [task] = await db.select().from(tasks).where(eq(tasks.id, id));
+    const [task] = await this.db.select().from(tasks).where(eq(tasks.id, id));
     return task;
   }
 
   async getTasks(): Promise<Task[]> {
-    return db.select().from(tasks);
+    return this.db.select().from(tasks);
   }
 
   async getTasksByClient(clientId: number): Promise<Task[]> {
-    return db.select().from(tasks).where(eq(tasks.clientId, clientId));
+    return this.db.select().from(tasks).where(eq(tasks.clientId, clientId));
   }
 
   async getTasksByCategory(categoryId: number): Promise<Task[]> {
-    return db.select().from(tasks).where(eq(tasks.categoryId, categoryId));
+    return this.db.select().from(tasks).where(eq(tasks.categoryId, categoryId));
+  }
+
+  async getTasksInArea(area: BoundingBox, { categoryId, status }: { categoryId?: number; status?: string }): Promise<Task[]> {
+    return this.db.select().from(tasks).where(and(
+      between(tasks.latitude, area.minLatitude, area.maxLatitude),
+      between(tasks.longitude, area.minLongitude, area.maxLongitude),
+      categoryId === undefined ? undefined : eq(tasks.categoryId, categoryId),
+      status === undefined ? undefined : eq(tasks.status, status)
+    ));
+  }
+
+  async searchTasks({ text, categoryId, status, limit, offset }: TaskSearchQuery): Promise<TaskSearchHit[]> {
+    const query = sql`websearch_to_tsquery('english', ${text})`;
+    const rank = sql<number>`ts_rank("tasks"."search_vector", ${query})`.mapWith(Number);
+
+    const rows = await this.db
+      .select({
+        task: tasks,
+        rank,
+        headline: sql<string>`ts_headline('english', ${tasks.description}, ${query}, ${TASK_HEADLINE_OPTIONS})`
+      })
+      .from(tasks)
+      .where(and(
+        sql`"tasks"."search_vector" @@ ${query}`,
+        categoryId === undefined ? undefined : eq(tasks.categoryId, categoryId),
+        status === undefined ? undefined : eq(tasks.status, status)
+      ))
+      .orderBy(desc(rank), desc(tasks.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    return rows.map(({ task, rank, headline }) => ({ ...task, rank, snippet: parseHeadline(headline) }));
   }
 
   async updateTask(id: number, taskData: Partial<Task>): Promise<Task | undefined> {
-    const [task] = await db.update(tasks)
+    const [task] = await this.db.update(tasks)
       .set(taskData)
       .where(eq(tasks.id, id))
       .returning();
@@ -595,26 +2338,54 @@ export class DatabaseStorage implements IStorage {
     return task;
   }
 
+  async updateTaskStatus(id: number, expectedStatus: string, taskData: Partial<Task>): Promise<Task | undefined> {
+    const [task] = await this.db.update(tasks)
+      .set(taskData)
+      .where(and(eq(tasks.id, id), eq(tasks.status, expectedStatus)))
+      .returning();
+    
+    return task;
+  }
+
+  async createTaskStatusHistory(entry: InsertTaskStatusHistory): Promise<TaskStatusHistory> {
+    const [newEntry] = await this.db.insert(taskStatusHistory).values(entry).returning();
+    return newEntry;
+  }
+
+  async getTaskStatusHistory(taskId: number): Promise<TaskStatusHistory[]> {
+    return this.db.select().from(taskStatusHistory)
+      .where(eq(taskStatusHistory.taskId, taskId))
+      .orderBy(asc(taskStatusHistory.createdAt), asc(taskStatusHistory.id));
+  }
+
   async createServiceRequest(request: InsertServiceRequest): Promise<ServiceRequest> {
-    const [newRequest] = await db.insert(serviceRequests).values(request).returning();
+    const [newRequest] = await this.db.insert(serviceRequests).values(request).returning();
     return newRequest;
   }
 
   async getServiceRequest(id: number): Promise<ServiceRequest | undefined> {
-    const [request] = await db.select().from(serviceRequests).where(eq(serviceRequests.id, id));
+    const [request] = await this.db.select().from(serviceRequests).where(eq(serviceRequests.id, id));
     return request;
   }
 
+  async getServiceRequests(): Promise<ServiceRequest[]> {
+    return this.db.select().from(serviceRequests);
+  }
+
   async getServiceRequestsByProvider(providerId: number): Promise<ServiceRequest[]> {
-    return db.select().from(serviceRequests).where(eq(serviceRequests.providerId, providerId));
+    return this.db.select().from(serviceRequests).where(eq(serviceRequests.providerId, providerId));
   }
 
   async getServiceRequestsByClient(clientId: number): Promise<ServiceRequest[]> {
-    return db.select().from(serviceRequests).where(eq(serviceRequests.clientId, clientId));
+    return this.db.select().from(serviceRequests).where(eq(serviceRequests.clientId, clientId));
+  }
+
+  async getServiceRequestsByTask(taskId: number): Promise<ServiceRequest[]> {
+    return this.db.select().from(serviceRequests).where(eq(serviceRequests.taskId, taskId));
   }
 
   async updateServiceRequest(id: number, requestData: Partial<ServiceRequest>): Promise<ServiceRequest | undefined> {
-    const [request] = await db.update(serviceRequests)
+    const [request] = await this.db.update(serviceRequests)
       .set(requestData)
       .where(eq(serviceRequests.id, id))
       .returning();
@@ -622,42 +2393,390 @@ export class DatabaseStorage implements IStorage {
     return request;
   }
 
-  async createReview(review: InsertReview): Promise<Review> {
-    const [newReview] = await db.insert(reviews).values(review).returning();
-    
-    // Update service provider rating
-    const providerReviews = await this.getReviewsByProvider(review.providerId);
-    const provider = await this.getServiceProvider(review.providerId);
-    
-    if (provider) {
-      const totalRating = providerReviews.reduce((sum, review) => sum + review.rating, 0) + review.rating;
-      const newRating = totalRating / (providerReviews.length + 1);
-      
-      await this.updateServiceProvider(review.providerId, {
-        rating: parseFloat(newRating.toFixed(1))
-      });
-    }
+  async updateServiceRequestStatus(id: number, expectedStatus: string, requestData: Partial<ServiceRequest>): Promise<ServiceRequest | undefined> {
+    const [request] = await this.db.update(serviceRequests)
+      .set(requestData)
+      .where(and(eq(serviceRequests.id, id), eq(serviceRequests.status, expectedStatus)))
+      .returning();
     
+    return request;
+  }
+
+  async getScheduledServiceRequests(providerId: number, range: TimeRange, statuses: string[]): Promise<ServiceRequest[]> {
+    if (statuses.length === 0) return [];
+
+    return this.db.select()
+      .from(serviceRequests)
+      .where(and(
+        eq(serviceRequests.providerId, providerId),
+        inArray(serviceRequests.status, statuses),
+        isNotNull(serviceRequests.scheduledStart),
+        lt(serviceRequests.scheduledStart, range.to),
+        gt(serviceRequests.scheduledEnd, range.from)
+      ));
+  }
+
+  // Quote methods
+  async createQuote(quote: InsertQuote): Promise<Quote> {
+    const [newQuote] = await this.db.insert(quotes).values(quote).returning();
+    return newQuote;
+  }
+
+  async getQuote(id: number): Promise<Quote | undefined> {
+    const [quote] = await this.db.select().from(quotes).where(eq(quotes.id, id));
+    return quote;
+  }
+
+  async getQuoteByServiceRequest(serviceRequestId: number): Promise<Quote | undefined> {
+    const [quote] = await this.db.select().from(quotes).where(eq(quotes.serviceRequestId, serviceRequestId));
+    return quote;
+  }
+
+  // Booking methods
+  async createBooking(booking: InsertBooking): Promise<Booking> {
+    const [newBooking] = await this.db.insert(bookings).values(booking).returning();
+    return newBooking;
+  }
+
+  async getBooking(id: number): Promise<Booking | undefined> {
+    const [booking] = await this.db.select().from(bookings).where(eq(bookings.id, id));
+    return booking;
+  }
+
+  async getBookingByServiceRequest(serviceRequestId: number): Promise<Booking | undefined> {
+    const [booking] = await this.db.select().from(bookings).where(eq(bookings.serviceRequestId, serviceRequestId));
+    return booking;
+  }
+
+  async updateBooking(id: number, bookingData: Partial<Booking>): Promise<Booking | undefined> {
+    const [booking] = await this.db.update(bookings)
+      .set(bookingData)
+      .where(eq(bookings.id, id))
+      .returning();
+    return booking;
+  }
+
+  async getUpcomingBookings(party: { clientId: number; providerId?: number }, after: Date): Promise<Booking[]> {
+    const isParty = party.providerId !== undefined
+      ? or(eq(bookings.clientId, party.clientId), eq(bookings.providerId, party.providerId))
+      : eq(bookings.clientId, party.clientId);
+
+    return this.db.select()
+      .from(bookings)
+      .where(and(isParty, gt(bookings.endsAt, after)))
+      .orderBy(asc(bookings.startsAt));
+  }
+
+  // Ledger methods
+  async getLedgerAccount(code: string): Promise<LedgerAccount | undefined> {
+    const [account] = await this.db.select().from(ledgerAccounts).where(eq(ledgerAccounts.code, code));
+    return account;
+  }
+
+  async createLedgerAccount(account: InsertLedgerAccount): Promise<LedgerAccount> {
+    const [newAccount] = await this.db.insert(ledgerAccounts).values(account).returning();
+    return newAccount;
+  }
+
+  async createJournalEntry(entry: InsertJournalEntry, postings: InsertLedgerPosting[]): Promise<JournalEntry> {
+    const [newEntry] = await this.db.insert(journalEntries).values(entry).returning();
+    await this.db.insert(ledgerPostings).values(postings.map((posting) => ({ ...posting, entryId: newEntry.id })));
+    return newEntry;
+  }
+
+  async getAccountBalance(accountId: number): Promise<number> {
+    const [result] = await this.db.select({ balance: sql<number>`COALESCE(SUM(${ledgerPostings.amountCents}), 0)::int` })
+      .from(ledgerPostings)
+      .where(eq(ledgerPostings.accountId, accountId));
+    return result.balance;
+  }
+
+  async getJournalEntries(
+    { holdIds, payoutIds }: { holdIds: number[]; payoutIds: number[] },
+    { limit, offset }: { limit: number; offset: number }
+  ): Promise<JournalEntryWithPostings[]> {
+    const conditions = [
+      ...(holdIds.length > 0 ? [inArray(journalEntries.holdId, holdIds)] : []),
+      ...(payoutIds.length > 0 ? [inArray(journalEntries.payoutId, payoutIds)] : []),
+    ];
+    if (conditions.length === 0) return [];
+
+    const entries = await this.db.select()
+      .from(journalEntries)
+      .where(or(...conditions))
+      .orderBy(desc(journalEntries.id))
+      .limit(limit)
+      .offset(offset);
+    if (entries.length === 0) return [];
+
+    const postings = await this.db.select()
+      .from(ledgerPostings)
+      .where(inArray(ledgerPostings.entryId, entries.map((entry) => entry.id)));
+    return entries.map((entry) => ({ ...entry, postings: postings.filter((posting) => posting.entryId === entry.id) }));
+  }
+
+  // Payment hold methods
+  async createPaymentHold(hold: InsertPaymentHold): Promise<PaymentHold> {
+    const [newHold] = await this.db.insert(paymentHolds).values(hold).returning();
+    return newHold;
+  }
+
+  async getPaymentHoldByServiceRequest(serviceRequestId: number): Promise<PaymentHold | undefined> {
+    const [hold] = await this.db.select().from(paymentHolds).where(eq(paymentHolds.serviceRequestId, serviceRequestId));
+    return hold;
+  }
+
+  async updatePaymentHoldStatus(id: number, expectedStatus: string, holdData: Partial<PaymentHold>): Promise<PaymentHold | undefined> {
+    const [hold] = await this.db.update(paymentHolds)
+      .set(holdData)
+      .where(and(eq(paymentHolds.id, id), eq(paymentHolds.status, expectedStatus)))
+      .returning();
+    return hold;
+  }
+
+  async deletePaymentHold(id: number, expectedStatus: string): Promise<boolean> {
+    const deleted = await this.db.delete(paymentHolds)
+      .where(and(eq(paymentHolds.id, id), eq(paymentHolds.status, expectedStatus)))
+      .returning({ id: paymentHolds.id });
+    return deleted.length > 0;
+  }
+
+  async getPaymentHoldsByStatus(statuses: string[]): Promise<PaymentHold[]> {
+    return this.db.select().from(paymentHolds).where(inArray(paymentHolds.status, statuses));
+  }
+
+  async getPaymentHolds(party: { clientId: number; providerId?: number }): Promise<PaymentHold[]> {
+    const isParty = party.providerId !== undefined
+      ? or(eq(paymentHolds.clientId, party.clientId), eq(paymentHolds.providerId, party.providerId))
+      : eq(paymentHolds.clientId, party.clientId);
+
+    return this.db.select().from(paymentHolds).where(isParty);
+  }
+
+  async getReleasedPaymentHolds(providerId: number, range: TimeRange): Promise<PaymentHold[]> {
+    return this.db.select()
+      .from(paymentHolds)
+      .where(and(
+        eq(paymentHolds.providerId, providerId),
+        eq(paymentHolds.status, "released"),
+        gte(paymentHolds.settledAt, range.from),
+        lt(paymentHolds.settledAt, range.to)
+      ))
+      .orderBy(asc(paymentHolds.settledAt));
+  }
+
+  // Payout methods
+  async createPayout(payout: InsertPayout): Promise<Payout> {
+    const [newPayout] = await this.db.insert(payouts).values(payout).returning();
+    return newPayout;
+  }
+
+  async updatePayoutStatus(id: number, expectedStatus: string, payoutData: Partial<Payout>): Promise<Payout | undefined> {
+    const [payout] = await this.db.update(payouts)
+      .set(payoutData)
+      .where(and(eq(payouts.id, id), eq(payouts.status, expectedStatus)))
+      .returning();
+    return payout;
+  }
+
+  async getPayouts(providerId: number): Promise<Payout[]> {
+    return this.db.select()
+      .from(payouts)
+      .where(eq(payouts.providerId, providerId))
+      .orderBy(desc(payouts.id));
+  }
+
+  async getPayoutsByStatus(statuses: string[]): Promise<Payout[]> {
+    return this.db.select().from(payouts).where(inArray(payouts.status, statuses));
+  }
+
+  async getServiceProvidersByPayoutSchedule(schedule: string): Promise<ServiceProvider[]> {
+    return this.db.select().from(serviceProviders).where(eq(serviceProviders.payoutSchedule, schedule));
+  }
+
+  // Invoice methods
+  async createInvoice(invoice: InsertInvoice): Promise<Invoice> {
+    const [newInvoice] = await this.db.insert(invoices).values(invoice).returning();
+    return newInvoice;
+  }
+
+  async getInvoice(id: number): Promise<Invoice | undefined> {
+    const [invoice] = await this.db.select().from(invoices).where(eq(invoices.id, id));
+    return invoice;
+  }
+
+  async getInvoicesByServiceRequest(serviceRequestId: number): Promise<Invoice[]> {
+    return this.db.select()
+      .from(invoices)
+      .where(eq(invoices.serviceRequestId, serviceRequestId))
+      .orderBy(asc(invoices.id));
+  }
+
+  async getInvoicesForParty(party: { clientId: number; providerId?: number }): Promise<Invoice[]> {
+    const isParty = party.providerId !== undefined
+      ? or(eq(invoices.clientId, party.clientId), eq(invoices.providerId, party.providerId))
+      : eq(invoices.clientId, party.clientId);
+
+    return this.db.select().from(invoices).where(isParty).orderBy(desc(invoices.id));
+  }
+
+  async getLastInvoiceSequence(providerId: number, kind: string): Promise<number> {
+    const [result] = await this.db.select({ last: sql<number>`COALESCE(MAX(${invoices.sequence}), 0)::int` })
+      .from(invoices)
+      .where(and(eq(invoices.providerId, providerId), eq(invoices.kind, kind)));
+    return result.last;
+  }
+
+  async createReview(review: InsertReview): Promise<Review> {
+    const [newReview] = await this.db.insert(reviews).values(review).returning();
     return newReview;
   }
 
-  async getReviewsByProvider(providerId: number): Promise<Review[]> {
-    return db.select().from(reviews).where(eq(reviews.providerId, providerId));
+  async getReview(id: number): Promise<Review | undefined> {
+    const [review] = await this.db.select().from(reviews).where(eq(reviews.id, id));
+    return review;
+  }
+
+  async lockReview(id: number): Promise<Review | undefined> {
+    const [review] = await this.db.select()
+      .from(reviews)
+      .where(eq(reviews.id, id))
+      .for("update");
+    return review;
+  }
+
+  async updateReview(id: number, reviewData: Partial<Review>): Promise<Review | undefined> {
+    const [review] = await this.db.update(reviews)
+      .set(reviewData)
+      .where(eq(reviews.id, id))
+      .returning();
+    return review;
+  }
+
+  async getReviewsByServiceRequest(serviceRequestId: number): Promise<Review[]> {
+    return this.db.select().from(reviews).where(eq(reviews.serviceRequestId, serviceRequestId));
+  }
+
+  async getPublishedProviderReviews(providerId: number): Promise<Review[]> {
+    return this.db.select()
+      .from(reviews)
+      .where(and(
+        eq(reviews.providerId, providerId),
+        eq(reviews.reviewerRole, reviewerRoles.CLIENT),
+        isNotNull(reviews.publishedAt),
+        isNull(reviews.hiddenAt)
+      ))
+      .orderBy(desc(reviews.createdAt));
+  }
+
+  async getPublishedClientReviews(clientId: number): Promise<Review[]> {
+    return this.db.select()
+      .from(reviews)
+      .where(and(
+        eq(reviews.clientId, clientId),
+        eq(reviews.reviewerRole, reviewerRoles.PROVIDER),
+        isNotNull(reviews.publishedAt),
+        isNull(reviews.hiddenAt)
+      ))
+      .orderBy(desc(reviews.createdAt));
+  }
+
+  async getUnpublishedReviews(completedBefore: Date): Promise<Review[]> {
+    const rows = await this.db.select({ review: reviews })
+      .from(reviews)
+      .innerJoin(serviceRequests, eq(reviews.serviceRequestId, serviceRequests.id))
+      .where(and(isNull(reviews.publishedAt), lt(serviceRequests.completedAt, completedBefore)));
+    return rows.map((row) => row.review);
+  }
+
+  async publishReviews(ids: number[], publishedAt: Date): Promise<Review[]> {
+    if (ids.length === 0) return [];
+
+    return this.db.update(reviews)
+      .set({ publishedAt })
+      .where(and(inArray(reviews.id, ids), isNull(reviews.publishedAt)))
+      .returning();
+  }
+
+  async getHiddenReviews(): Promise<Review[]> {
+    return this.db.select()
+      .from(reviews)
+      .where(isNotNull(reviews.hiddenAt))
+      .orderBy(desc(reviews.hiddenAt));
+  }
+
+  async getProviderRatingAggregate(providerId: number): Promise<ProviderRatingAggregate | undefined> {
+    const [aggregate] = await this.db.select()
+      .from(providerRatingAggregates)
+      .where(eq(providerRatingAggregates.providerId, providerId));
+    return aggregate;
+  }
+
+  async saveProviderRatingAggregate(aggregate: ProviderRatingAggregate): Promise<ProviderRatingAggregate> {
+    const { providerId, ...totals } = aggregate;
+    const [saved] = await this.db.insert(providerRatingAggregates)
+      .values(aggregate)
+      .onConflictDoUpdate({ target: providerRatingAggregates.providerId, set: totals })
+      .returning();
+    return saved;
+  }
+
+  async createReviewReport(report: InsertReviewReport): Promise<ReviewReport> {
+    const [newReport] = await this.db.insert(reviewReports).values(report).returning();
+    return newReport;
+  }
+
+  async getReviewReports(reviewId: number): Promise<ReviewReport[]> {
+    return this.db.select()
+      .from(reviewReports)
+      .where(eq(reviewReports.reviewId, reviewId))
+      .orderBy(asc(reviewReports.id));
+  }
+
+  async getOpenReviewReports(): Promise<ReviewReport[]> {
+    return this.db.select()
+      .from(reviewReports)
+      .where(isNull(reviewReports.resolvedAt))
+      .orderBy(asc(reviewReports.id));
+  }
+
+  async resolveReviewReports(reviewId: number, resolvedAt: Date): Promise<ReviewReport[]> {
+    return this.db.update(reviewReports)
+      .set({ resolvedAt })
+      .where(and(eq(reviewReports.reviewId, reviewId), isNull(reviewReports.resolvedAt)))
+      .returning();
+  }
+
+  async createReviewModerationEvent(event: InsertReviewModerationEvent): Promise<ReviewModerationEvent> {
+    const [newEvent] = await this.db.insert(reviewModerationEvents).values(event).returning();
+    return newEvent;
+  }
+
+  async getReviewModerationEvents(reviewId: number): Promise<ReviewModerationEvent[]> {
+    return this.db.select()
+      .from(reviewModerationEvents)
+      .where(eq(reviewModerationEvents.reviewId, reviewId))
+      .orderBy(asc(reviewModerationEvents.id));
   }
 
   async getUserByVerificationToken(token: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.verificationToken, token));
+    const [user] = await this.db.select().from(users).where(eq(users.verificationToken, token));
+    return user;
+  }
+
+  async getUserByCalendarToken(token: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.calendarToken, token));
     return user;
   }
 
   // Notification methods
   async createNotification(data: InsertNotification): Promise<Notification> {
-    const [notification] = await db.insert(notifications).values(data).returning();
+    const [notification] = await this.db.insert(notifications).values(data).returning();
     return notification;
   }
 
   async updateNotification(id: number, data: Partial<InsertNotification>): Promise<Notification> {
-    const [notification] = await db.update(notifications)
+    const [notification] = await this.db.update(notifications)
       .set(data)
       .where(eq(notifications.id, id))
       .returning();
@@ -665,16 +2784,200 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getUnreadNotifications(userId: number): Promise<Notification[]> {
-    return db.select().from(notifications)
+    return this.db.select().from(notifications)
       .where(and(eq(notifications.userId, userId), eq(notifications.read, false)))
       .orderBy(desc(notifications.createdAt));
   }
 
   async getUserNotifications(userId: number): Promise<Notification[]> {
-    return db.select().from(notifications)
+    return this.db.select().from(notifications)
       .where(eq(notifications.userId, userId))
       .orderBy(desc(notifications.createdAt));
   }
+
+  async getNotification(id: number): Promise<Notification | undefined> {
+    const [notification] = await this.db.select().from(notifications).where(eq(notifications.id, id));
+    return notification;
+  }
+
+  async getNotificationsPage(
+    userId: number,
+    { read, type, limit, offset }: NotificationQuery
+  ): Promise<{ notifications: Notification[]; total: number }> {
+    const where = and(
+      eq(notifications.userId, userId),
+      read === undefined ? undefined : eq(notifications.read, read),
+      type === undefined ? undefined : eq(notifications.type, type)
+    );
+
+    const page = await this.db.select().from(notifications)
+      .where(where)
+      .orderBy(desc(notifications.id))
+      .limit(limit)
+      .offset(offset);
+    const [{ total }] = await this.db.select({ total: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(where);
+
+    return { notifications: page, total };
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const updated = await this.db.update(notifications)
+      .set({ read: true })
+      .where(and(eq(notifications.userId, userId), eq(notifications.read, false)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
+  async deleteNotification(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(notifications)
+      .where(eq(notifications.id, id))
+      .returning({ id: notifications.id });
+    return deleted.length > 0;
+  }
+
+  // Notification preference methods
+  async getNotificationPreferences(userId: number): Promise<NotificationPreference[]> {
+    return this.db.select().from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+  }
+
+  async upsertNotificationPreference(preference: InsertNotificationPreference): Promise<NotificationPreference> {
+    const [saved] = await this.db.insert(notificationPreferences)
+      .values(preference)
+      .onConflictDoUpdate({
+        target: [notificationPreferences.userId, notificationPreferences.type, notificationPreferences.channel],
+        set: { enabled: preference.enabled, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  // Conversation methods
+  async createConversation(conversation: InsertConversation): Promise<Conversation> {
+    const [newConversation] = await this.db.insert(conversations).values(conversation).returning();
+    return newConversation;
+  }
+
+  async getConversation(id: number): Promise<Conversation | undefined> {
+    const [conversation] = await this.db.select().from(conversations).where(eq(conversations.id, id));
+    return conversation;
+  }
+
+  async getConversationByServiceRequest(serviceRequestId: number): Promise<Conversation | undefined> {
+    const [conversation] = await this.db.select().from(conversations)
+      .where(eq(conversations.serviceRequestId, serviceRequestId));
+    return conversation;
+  }
+
+  async getConversationByTask(taskId: number, providerId: number): Promise<Conversation | undefined> {
+    const [conversation] = await this.db.select().from(conversations)
+      .where(and(
+        eq(conversations.taskId, taskId),
+        eq(conversations.providerId, providerId),
+        isNull(conversations.serviceRequestId)
+      ));
+    return conversation;
+  }
+
+  async getConversationsByParticipant(userId: number, providerId?: number): Promise<Conversation[]> {
+    const participant = providerId === undefined
+      ? eq(conversations.clientId, userId)
+      : or(eq(conversations.clientId, userId), eq(conversations.providerId, providerId));
+
+    return this.db.select().from(conversations)
+      .where(participant)
+      .orderBy(sql`${conversations.lastMessageAt} desc nulls last`);
+  }
+
+  async updateConversation(id: number, conversationData: Partial<Conversation>): Promise<Conversation | undefined> {
+    const [conversation] = await this.db.update(conversations)
+      .set(conversationData)
+      .where(eq(conversations.id, id))
+      .returning();
+    return conversation;
+  }
+
+  // Message methods
+  async createMessage(message: InsertMessage): Promise<Message> {
+    const [newMessage] = await this.db.insert(messages).values(message).returning();
+    return newMessage;
+  }
+
+  async getMessages(conversationId: number, { before, limit }: { before?: number; limit: number }): Promise<Message[]> {
+    const conditions = before === undefined
+      ? eq(messages.conversationId, conversationId)
+      : and(eq(messages.conversationId, conversationId), lt(messages.id, before));
+
+    return this.db.select().from(messages)
+      .where(conditions)
+      .orderBy(desc(messages.id))
+      .limit(limit);
+  }
+
+  async getUnreadMessageCount(conversationId: number, readerId: number): Promise<number> {
+    const [result] = await this.db.select({ count: sql<number>`count(*)::int` }).from(messages)
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        ne(messages.senderId, readerId),
+        isNull(messages.readAt)
+      ));
+    return result?.count ?? 0;
+  }
+
+  async markMessagesRead(conversationId: number, readerId: number, readAt: Date): Promise<Message[]> {
+    return this.db.update(messages)
+      .set({ readAt })
+      .where(and(
+        eq(messages.conversationId, conversationId),
+        ne(messages.senderId, readerId),
+        isNull(messages.readAt)
+      ))
+      .returning();
+  }
+
+  // connect-pg-simple keeps sessions as JSON in its "session" table
+  async getUserSessions(userId: number): Promise<StoredSession[]> {
+    const result = await this.db.execute<{ sid: string; sess: PassportSessionData; expire: Date }>(
+      sql`SELECT sid, sess, expire FROM "session"
+          WHERE (sess -> 'passport' ->> 'user')::int = ${userId} AND expire > NOW()`
+    );
+    return result.rows.map((row) => ({ sid: row.sid, session: row.sess, expiresAt: row.expire }));
+  }
+
+  // Moves the matching sessions to revoked_sessions in one statement, returning how many there were
+  private async revokeSessions(where: SQL): Promise<number> {
+    await this.db.execute(sql`DELETE FROM revoked_sessions WHERE expires_at <= NOW()`);
+    const result = await this.db.execute(
+      sql`WITH deleted AS (DELETE FROM "session" WHERE ${where} RETURNING sid, expire)
+          INSERT INTO revoked_sessions (sid, expires_at) SELECT sid, expire FROM deleted
+          ON CONFLICT (sid) DO NOTHING`
+    );
+    return result.rowCount ?? 0;
+  }
+
+  async deleteUserSession(userId: number, sid: string): Promise<boolean> {
+    return (await this.revokeSessions(sql`sid = ${sid} AND (sess -> 'passport' ->> 'user')::int = ${userId}`)) > 0;
+  }
+
+  async deleteUserSessions(userId: number, exceptSid?: string): Promise<number> {
+    return this.revokeSessions(
+      sql`(sess -> 'passport' ->> 'user')::int = ${userId} AND sid IS DISTINCT FROM ${exceptSid ?? null}`
+    );
+  }
+
+  async isSessionRevoked(sid: string): Promise<boolean> {
+    const result = await this.db.execute(
+      sql`SELECT 1 FROM revoked_sessions WHERE sid = ${sid} AND expires_at > NOW()`
+    );
+    return result.rows.length > 0;
+  }
+
+  async transaction<T>(fn: (tx: IStorage) => Promise<T>): Promise<T> {
+    return this.db.transaction((tx) => fn(new DatabaseStorage(tx, this.sessionStore)));
+  }
 }
 
-export const storage = new DatabaseStorage();
+// STORAGE=memory keeps everything in process, e.g. for the test suite; nothing survives a restart
+export const storage: IStorage = process.env.STORAGE === "memory" ? new MemStorage() : new DatabaseStorage();
@@ -0,0 +1,25 @@
+import { fileURLToPath } from "url";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": fileURLToPath(new URL("../shared", import.meta.url)),
+    },
+    // shared/ has no node_modules of its own; resolve its imports from here
+    dedupe: ["drizzle-orm", "drizzle-zod", "zod"],
+  },
+  // Keep Vite from picking up the client's PostCSS/Tailwind setup from the repo root
+  css: { postcss: {} },
+  test: {
+    include: ["**/*.test.ts"],
+    exclude: ["node_modules", "dist"],
+    env: {
+      // Tests never reach a database: storage, rate limits and the real-time bus stay in process
+      DATABASE_URL: "postgres://localhost/unused",
+      STORAGE: "memory",
+      RATE_LIMIT_STORE: "memory",
+      REALTIME_BUS: "memory",
+    },
+  },
+});
@@ -1,8 +1,17 @@
-import { pgTable, text, serial, integer, boolean, timestamp, doublePrecision, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, doublePrecision, jsonb, unique, type AnyPgColumn } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
+// What a user may do; a provider is still a client when they book someone else
+export const userRoles = {
+  CLIENT: 'client',
+  PROVIDER: 'provider',
+  ADMIN: 'admin',
+} as const;
+
+export type UserRole = typeof userRoles[keyof typeof userRoles];
+
 // User table for both clients and service providers
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
@@ -17,6 +26,13 @@ export const users = pgTable("users", {
   emailVerified: boolean("email_verified").notNull().default(false),
   verificationToken: text("verification_token"),
   verificationTokenExpires: timestamp("verification_token_expires"),
+  // Secret in the user's iCalendar feed URL; reset it to revoke old subscriptions
+  calendarToken: text("calendar_token").unique(),
+  // See userRoles; set from isServiceProvider on sign-up, admins are promoted in the database
+  role: text("role").notNull().default("client"),
+  // Suspended users can't log in and their sessions stop working
+  suspendedAt: timestamp("suspended_at"),
+  suspensionReason: text("suspension_reason"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -31,6 +47,46 @@ export const usersRelations = relations(users, ({ many, one }) => ({
   clientReviews: many(reviews, { relationName: 'client' }),
 }));
 
+// Password reset links. Only a hash of the emailed token is stored, and each one works once
+export const passwordResetTokens = pgTable("password_reset_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Passwordless login links, stored the same way as password reset tokens
+export const loginTokens = pgTable("login_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// A user's authenticator app. Enrollment stays pending (enabledAt null) until a first code is confirmed
+export const twoFactorCredentials = pgTable("two_factor_credentials", {
+  userId: integer("user_id").primaryKey().references(() => users.id),
+  // Base32 TOTP secret
+  secret: text("secret").notNull(),
+  enabledAt: timestamp("enabled_at"),
+  // Time step of the last accepted code, so a code can't be used twice
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// One-time codes for when the authenticator app is lost; only hashes are stored
+export const twoFactorRecoveryCodes = pgTable("two_factor_recovery_codes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  codeHash: text("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Service categories
 export const serviceCategories = pgTable("service_categories", {
   id: serial("id").primaryKey(),
@@ -53,9 +109,26 @@ export const serviceProviders = pgTable("service_providers", {
   bio: text("bio"),
   hourlyRate: doublePrecision("hourly_rate").notNull(),
   yearsOfExperience: integer("years_of_experience"),
+  // Free-text note from before structured schedules; bookable slots come from availabilityRules
   availability: text("availability"),
+  // IANA zone the weekly schedule is written in, and the length of each bookable slot
+  timezone: text("timezone").notNull().default("UTC"),
+  slotMinutes: integer("slot_minutes").notNull().default(60),
+  // Plain average of published reviews, for display
   rating: doublePrecision("rating"),
+  // Bayesian-adjusted rating, for ranking; see services/ratings.ts
+  ratingScore: doublePrecision("rating_score"),
   completedJobs: integer("completed_jobs").default(0),
+  // Where the provider works from; coordinates are geocoded from the postal code
+  address: text("address"),
+  postalCode: text("postal_code"),
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+  serviceRadiusKm: doublePrecision("service_radius_km").notNull().default(25),
+  // When earnings are paid out; see payoutSchedules
+  payoutSchedule: text("payout_schedule").notNull().default("weekly"),
+  // Set once an admin has checked the provider's identity and credentials
+  verifiedAt: timestamp("verified_at"),
 });
 
 // Service providers relations
@@ -70,6 +143,45 @@ export const serviceProvidersRelations = relations(serviceProviders, ({ one, man
   }),
   serviceRequests: many(serviceRequests),
   reviews: many(reviews),
+  availabilityRules: many(availabilityRules),
+  availabilityExceptions: many(availabilityExceptions),
+}));
+
+// Weekly opening hours in the provider's timezone; a weekday may have several windows
+export const availabilityRules = pgTable("availability_rules", {
+  id: serial("id").primaryKey(),
+  providerId: integer("provider_id").notNull().references(() => serviceProviders.id),
+  // 0 is Sunday, matching Date.getDay()
+  weekday: integer("weekday").notNull(),
+  // "HH:MM" wall-clock times
+  startTime: text("start_time").notNull(),
+  endTime: text("end_time").notNull(),
+});
+
+// Availability rules relations
+export const availabilityRulesRelations = relations(availabilityRules, ({ one }) => ({
+  provider: one(serviceProviders, {
+    fields: [availabilityRules.providerId],
+    references: [serviceProviders.id],
+  }),
+}));
+
+// One-off blocks such as vacations; no slots are offered while one is in effect
+export const availabilityExceptions = pgTable("availability_exceptions", {
+  id: serial("id").primaryKey(),
+  providerId: integer("provider_id").notNull().references(() => serviceProviders.id),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  reason: text("reason"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Availability exceptions relations
+export const availabilityExceptionsRelations = relations(availabilityExceptions, ({ one }) => ({
+  provider: one(serviceProviders, {
+    fields: [availabilityExceptions.providerId],
+    references: [serviceProviders.id],
+  }),
 }));
 
 // Add notification types
@@ -78,6 +190,9 @@ export const notificationTypes = {
   TASK_ACCEPTED: 'task_accepted',
   TASK_COMPLETED: 'task_completed',
   TASK_CANCELLED: 'task_cancelled',
+  NEW_MESSAGE: 'new_message',
+  QUOTE_ACCEPTED: 'quote_accepted',
+  QUOTE_DECLINED: 'quote_declined',
 } as const;
 
 // Notifications table
@@ -100,6 +215,49 @@ export const notificationsRelations = relations(notifications, ({ one }) => ({
   }),
 }));
 
+export type NotificationType = typeof notificationTypes[keyof typeof notificationTypes];
+
+// Ways a notification can reach a user
+export const notificationChannels = {
+  IN_APP: 'in_app',
+  WEBSOCKET: 'websocket',
+  EMAIL: 'email',
+} as const;
+
+export type NotificationChannel = typeof notificationChannels[keyof typeof notificationChannels];
+
+// Per-user overrides; a missing row falls back to the channel default in server/services/notification.ts
+export const notificationPreferences = pgTable("notification_preferences", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  type: text("type").notNull(),
+  channel: text("channel").notNull(),
+  enabled: boolean("enabled").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  userTypeChannel: unique().on(table.userId, table.type, table.channel),
+}));
+
+// Notification preferences relations
+export const notificationPreferencesRelations = relations(notificationPreferences, ({ one }) => ({
+  user: one(users, {
+    fields: [notificationPreferences.userId],
+    references: [users.id],
+  }),
+}));
+
+// Task lifecycle states; allowed transitions live in server/services/task-lifecycle.ts
+export const taskStatuses = {
+  OPEN: 'open',
+  ACCEPTED: 'accepted',
+  IN_PROGRESS: 'in_progress',
+  COMPLETED: 'completed',
+  CANCELLED: 'cancelled',
+  DISPUTED: 'disputed',
+} as const;
+
+export type TaskStatus = typeof taskStatuses[keyof typeof taskStatuses];
+
 // Update tasks table to include acceptance tracking
 export const tasks = pgTable("tasks", {
   id: serial("id").primaryKey(),
@@ -107,13 +265,19 @@ export const tasks = pgTable("tasks", {
   categoryId: integer("category_id").notNull().references(() => serviceCategories.id),
   title: text("title").notNull(),
   description: text("description").notNull(),
+  // Free-text address; coordinates are geocoded from the postal code
   location: text("location").notNull(),
+  postalCode: text("postal_code"),
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
   budget: doublePrecision("budget"),
   status: text("status").notNull().default("open"),
   acceptedById: integer("accepted_by_id").references(() => serviceProviders.id),
   acceptedAt: timestamp("accepted_at"),
   createdAt: timestamp("created_at").defaultNow(),
   completedAt: timestamp("completed_at"),
+  // search_vector (tsvector over title, description and location) is generated by
+  // Postgres in migrations/0009_task_search.sql and deliberately left unmapped
 });
 
 // Update tasks relations
@@ -131,16 +295,59 @@ export const tasksRelations = relations(tasks, ({ one, many }) => ({
     references: [serviceProviders.id],
   }),
   serviceRequests: many(serviceRequests),
+  statusHistory: many(taskStatusHistory),
+}));
+
+// Audit trail of every task status transition
+export const taskStatusHistory = pgTable("task_status_history", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull().references(() => tasks.id),
+  actorId: integer("actor_id").notNull().references(() => users.id),
+  fromStatus: text("from_status").notNull(),
+  toStatus: text("to_status").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Task status history relations
+export const taskStatusHistoryRelations = relations(taskStatusHistory, ({ one }) => ({
+  task: one(tasks, {
+    fields: [taskStatusHistory.taskId],
+    references: [tasks.id],
+  }),
+  actor: one(users, {
+    fields: [taskStatusHistory.actorId],
+    references: [users.id],
+  }),
 }));
 
-// Service requests
+// Service request lifecycle states; role rules live in server/services/service-request-lifecycle.ts
+export const serviceRequestStatuses = {
+  PENDING: 'pending',
+  ACCEPTED: 'accepted',
+  DECLINED: 'declined',
+  WITHDRAWN: 'withdrawn',
+  IN_PROGRESS: 'in_progress',
+  COMPLETION_REQUESTED: 'completion_requested',
+  COMPLETED: 'completed',
+  CANCELLED: 'cancelled',
+} as const;
+
+export type ServiceRequestStatus = typeof serviceRequestStatuses[keyof typeof serviceRequestStatuses];
+
+// Service requests are either sent by a client to a provider or offered by a provider on a task
 export const serviceRequests = pgTable("service_requests", {
   id: serial("id").primaryKey(),
   taskId: integer("task_id").references(() => tasks.id),
   providerId: integer("provider_id").notNull().references(() => serviceProviders.id),
   clientId: integer("client_id").notNull().references(() => users.id),
+  initiatedBy: text("initiated_by").notNull().default("client"),
   status: text("status").notNull().default("pending"),
   message: text("message"),
+  // Slot the client picked, if any; it stays taken while the request is live
+  scheduledStart: timestamp("scheduled_start"),
+  scheduledEnd: timestamp("scheduled_end"),
+  // When the client confirmed completion; opens the review window
+  completedAt: timestamp("completed_at"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -160,21 +367,338 @@ export const serviceRequestsRelations = relations(serviceRequests, ({ one, many
     relationName: 'client',
   }),
   reviews: many(reviews),
+  booking: one(bookings),
+}));
+
+// How a quoted amount is charged
+export const quotePricingTypes = {
+  FIXED: 'fixed',
+  HOURLY: 'hourly',
+} as const;
+
+export type QuotePricingType = typeof quotePricingTypes[keyof typeof quotePricingTypes];
+
+// A provider's price and timing for a task offer; whether it won follows the service request's status
+export const quotes = pgTable("quotes", {
+  id: serial("id").primaryKey(),
+  serviceRequestId: integer("service_request_id").notNull().unique().references(() => serviceRequests.id),
+  amount: doublePrecision("amount").notNull(),
+  pricingType: text("pricing_type").notNull(),
+  estimatedHours: doublePrecision("estimated_hours"),
+  earliestStartAt: timestamp("earliest_start_at"),
+  expiresAt: timestamp("expires_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Quotes relations
+export const quotesRelations = relations(quotes, ({ one }) => ({
+  serviceRequest: one(serviceRequests, {
+    fields: [quotes.serviceRequestId],
+    references: [serviceRequests.id],
+  }),
 }));
 
+export const bookingStatuses = {
+  CONFIRMED: 'confirmed',
+  CANCELLED: 'cancelled',
+} as const;
+
+export type BookingStatus = typeof bookingStatuses[keyof typeof bookingStatuses];
+
+// The appointment for an accepted request. Its time is mirrored on the request so the slot stays taken
+export const bookings = pgTable("bookings", {
+  id: serial("id").primaryKey(),
+  serviceRequestId: integer("service_request_id").notNull().unique().references(() => serviceRequests.id),
+  providerId: integer("provider_id").notNull().references(() => serviceProviders.id),
+  clientId: integer("client_id").notNull().references(() => users.id),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  address: text("address"),
+  status: text("status").notNull().default("confirmed"),
+  // iCalendar SEQUENCE; bumped on every change so calendar apps replace their copy
+  sequence: integer("sequence").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Bookings relations
+export const bookingsRelations = relations(bookings, ({ one }) => ({
+  serviceRequest: one(serviceRequests, {
+    fields: [bookings.serviceRequestId],
+    references: [serviceRequests.id],
+  }),
+  provider: one(serviceProviders, {
+    fields: [bookings.providerId],
+    references: [serviceProviders.id],
+  }),
+  client: one(users, {
+    fields: [bookings.clientId],
+    references: [users.id],
+  }),
+}));
+
+// Ledger accounts. Postings are signed: debits positive, credits negative
+export const ledgerAccountTypes = {
+  // Money sitting with the payment gateway on the platform's behalf
+  GATEWAY: 'gateway',
+  // Client money held until the job is completed or cancelled
+  ESCROW: 'escrow',
+  PLATFORM_FEES: 'platform_fees',
+  // What the platform owes one provider
+  PROVIDER: 'provider',
+} as const;
+
+export type LedgerAccountType = typeof ledgerAccountTypes[keyof typeof ledgerAccountTypes];
+
+export const ledgerAccounts = pgTable("ledger_accounts", {
+  id: serial("id").primaryKey(),
+  // Stable lookup key, e.g. "escrow" or "provider:12"
+  code: text("code").notNull().unique(),
+  type: text("type").notNull(),
+  userId: integer("user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const journalEntryKinds = {
+  HOLD: 'hold',
+  RELEASE: 'release',
+  REFUND: 'refund',
+  PAYOUT: 'payout',
+} as const;
+
+export type JournalEntryKind = typeof journalEntryKinds[keyof typeof journalEntryKinds];
+
+// A balanced set of postings recorded together
+export const journalEntries = pgTable("journal_entries", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull(),
+  description: text("description").notNull(),
+  // Set for entries moving held funds
+  holdId: integer("hold_id").references(() => paymentHolds.id),
+  // Set for entries paying a provider out
+  payoutId: integer("payout_id").references(() => payouts.id),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Amounts are in cents; the postings of an entry always sum to zero
+export const ledgerPostings = pgTable("ledger_postings", {
+  id: serial("id").primaryKey(),
+  entryId: integer("entry_id").notNull().references(() => journalEntries.id),
+  accountId: integer("account_id").notNull().references(() => ledgerAccounts.id),
+  amountCents: integer("amount_cents").notNull(),
+});
+
+/**
+ * Gateway calls never run inside a database transaction. A hold is recorded as AUTHORIZING
+ * before the gateway is asked for the funds, and as RELEASING or REFUNDING before the capture
+ * or void; the ledger entry is booked once the gateway has confirmed.
+ */
+export const paymentHoldStatuses = {
+  AUTHORIZING: 'authorizing',
+  HELD: 'held',
+  RELEASING: 'releasing',
+  RELEASED: 'released',
+  REFUNDING: 'refunding',
+  REFUNDED: 'refunded',
+} as const;
+
+export type PaymentHoldStatus = typeof paymentHoldStatuses[keyof typeof paymentHoldStatuses];
+
+// Funds authorized by the client for an accepted quote, held until the job ends
+export const paymentHolds = pgTable("payment_holds", {
+  id: serial("id").primaryKey(),
+  serviceRequestId: integer("service_request_id").notNull().unique().references(() => serviceRequests.id),
+  clientId: integer("client_id").notNull().references(() => users.id),
+  providerId: integer("provider_id").notNull().references(() => serviceProviders.id),
+  amountCents: integer("amount_cents").notNull(),
+  // The platform's cut, fixed when the funds are held
+  feeCents: integer("fee_cents").notNull(),
+  status: text("status").notNull().default("authorizing"),
+  // The gateway's reference for the authorization; null until the gateway has granted it
+  authorizationId: text("authorization_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+  settledAt: timestamp("settled_at"),
+});
+
+export const payoutSchedules = {
+  // Paid automatically once a week when the balance reaches the minimum
+  WEEKLY: 'weekly',
+  // Only paid when the provider asks
+  ON_DEMAND: 'on_demand',
+} as const;
+
+export type PayoutSchedule = typeof payoutSchedules[keyof typeof payoutSchedules];
+
+export const payoutTriggers = {
+  SCHEDULED: 'scheduled',
+  ON_DEMAND: 'on_demand',
+} as const;
+
+/**
+ * A payout is recorded as PENDING, with its ledger entry, before the gateway is asked to
+ * transfer anything, and marked PAID once the gateway has confirmed the transfer.
+ */
+export const payoutStatuses = {
+  PENDING: 'pending',
+  PAID: 'paid',
+} as const;
+
+// A transfer of a provider's available balance to their bank account
+export const payouts = pgTable("payouts", {
+  id: serial("id").primaryKey(),
+  providerId: integer("provider_id").notNull().references(() => serviceProviders.id),
+  amountCents: integer("amount_cents").notNull(),
+  trigger: text("trigger").notNull(),
+  status: text("status").notNull().default("pending"),
+  // The gateway's reference for the transfer; null until the gateway has confirmed it
+  transferId: text("transfer_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Payouts relations
+export const payoutsRelations = relations(payouts, ({ one, many }) => ({
+  provider: one(serviceProviders, {
+    fields: [payouts.providerId],
+    references: [serviceProviders.id],
+  }),
+  entries: many(journalEntries),
+}));
+
+// Payment holds relations
+export const paymentHoldsRelations = relations(paymentHolds, ({ one, many }) => ({
+  serviceRequest: one(serviceRequests, {
+    fields: [paymentHolds.serviceRequestId],
+    references: [serviceRequests.id],
+  }),
+  entries: many(journalEntries),
+}));
+
+// Journal entries relations
+export const journalEntriesRelations = relations(journalEntries, ({ one, many }) => ({
+  hold: one(paymentHolds, {
+    fields: [journalEntries.holdId],
+    references: [paymentHolds.id],
+  }),
+  payout: one(payouts, {
+    fields: [journalEntries.payoutId],
+    references: [payouts.id],
+  }),
+  postings: many(ledgerPostings),
+}));
+
+// Ledger postings relations
+export const ledgerPostingsRelations = relations(ledgerPostings, ({ one }) => ({
+  entry: one(journalEntries, {
+    fields: [ledgerPostings.entryId],
+    references: [journalEntries.id],
+  }),
+  account: one(ledgerAccounts, {
+    fields: [ledgerPostings.accountId],
+    references: [ledgerAccounts.id],
+  }),
+}));
+
+export const invoiceKinds = {
+  INVOICE: 'invoice',
+  // Corrects an issued invoice, which itself is never changed
+  CREDIT_NOTE: 'credit_note',
+} as const;
+
+export type InvoiceKind = typeof invoiceKinds[keyof typeof invoiceKinds];
+
+// One line of an invoice; credit note lines have negative amounts
+export type InvoiceLineItem = {
+  description: string;
+  quantity: number;
+  unitPriceCents: number;
+  amountCents: number;
+};
+
+// Invoices and credit notes, issued by a provider to a client. Rows are never updated
+export const invoices = pgTable("invoices", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull(),
+  // Counts up per provider and kind without gaps; the number is derived from it
+  sequence: integer("sequence").notNull(),
+  number: text("number").notNull().unique(),
+  providerId: integer("provider_id").notNull().references(() => serviceProviders.id),
+  clientId: integer("client_id").notNull().references(() => users.id),
+  serviceRequestId: integer("service_request_id").notNull().references(() => serviceRequests.id),
+  // The invoice a credit note corrects
+  creditedInvoiceId: integer("credited_invoice_id").references((): AnyPgColumn => invoices.id),
+  reason: text("reason"),
+  // Names as they were when issued, so later profile edits don't alter the document
+  issuerName: text("issuer_name").notNull(),
+  recipientName: text("recipient_name").notNull(),
+  lineItems: jsonb("line_items").$type<InvoiceLineItem[]>().notNull(),
+  subtotalCents: integer("subtotal_cents").notNull(),
+  taxRate: doublePrecision("tax_rate").notNull(),
+  taxCents: integer("tax_cents").notNull(),
+  totalCents: integer("total_cents").notNull(),
+  // Platform fee withheld from the provider's payout; not charged to the client
+  feeCents: integer("fee_cents").notNull(),
+  issuedAt: timestamp("issued_at").notNull().defaultNow(),
+}, (table) => ({
+  providerKindSequence: unique().on(table.providerId, table.kind, table.sequence),
+}));
+
+// Invoices relations
+export const invoicesRelations = relations(invoices, ({ one }) => ({
+  serviceRequest: one(serviceRequests, {
+    fields: [invoices.serviceRequestId],
+    references: [serviceRequests.id],
+  }),
+  provider: one(serviceProviders, {
+    fields: [invoices.providerId],
+    references: [serviceProviders.id],
+  }),
+  client: one(users, {
+    fields: [invoices.clientId],
+    references: [users.id],
+  }),
+  creditedInvoice: one(invoices, {
+    fields: [invoices.creditedInvoiceId],
+    references: [invoices.id],
+  }),
+}));
+
+// Which side of a completed request wrote a review; the other side is the one rated
+export const reviewerRoles = {
+  CLIENT: 'client',
+  PROVIDER: 'provider',
+} as const;
+
+export type ReviewerRole = typeof reviewerRoles[keyof typeof reviewerRoles];
+
 // Reviews
 export const reviews = pgTable("reviews", {
   id: serial("id").primaryKey(),
   serviceRequestId: integer("service_request_id").notNull().references(() => serviceRequests.id),
   clientId: integer("client_id").notNull().references(() => users.id),
   providerId: integer("provider_id").notNull().references(() => serviceProviders.id),
+  reviewerRole: text("reviewer_role").notNull().default("client"),
   rating: integer("rating").notNull(),
+  // Optional 1-5 sub-ratings a client can give a provider
+  punctualityRating: integer("punctuality_rating"),
+  qualityRating: integer("quality_rating"),
+  communicationRating: integer("communication_rating"),
+  valueRating: integer("value_rating"),
   comment: text("comment"),
+  // Hidden from everyone but its author until both sides have reviewed or the window closes
+  publishedAt: timestamp("published_at"),
+  // The provider's one public answer to a client's review
+  reply: text("reply"),
+  repliedAt: timestamp("replied_at"),
+  // Set while a moderator has taken the review down
+  hiddenAt: timestamp("hidden_at"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => ({
+  // Each side reviews a request once
+  serviceRequestReviewer: unique().on(table.serviceRequestId, table.reviewerRole),
+}));
 
 // Reviews relations
-export const reviewsRelations = relations(reviews, ({ one }) => ({
+export const reviewsRelations = relations(reviews, ({ one, many }) => ({
   serviceRequest: one(serviceRequests, {
     fields: [reviews.serviceRequestId],
     references: [serviceRequests.id],
@@ -188,6 +712,157 @@ export const reviewsRelations = relations(reviews, ({ one }) => ({
     fields: [reviews.providerId],
     references: [serviceProviders.id],
   }),
+  reports: many(reviewReports),
+  moderationEvents: many(reviewModerationEvents),
+}));
+
+// Aspects of a job a client can rate separately from the overall rating
+export const ratingDimensions = ['punctuality', 'quality', 'communication', 'value'] as const;
+
+export type RatingDimension = typeof ratingDimensions[number];
+
+export type RatingTally = { count: number; sum: number };
+
+// Running totals over a provider's published, visible reviews; rebuilt from `reviews` by the recompute job
+export const providerRatingAggregates = pgTable("provider_rating_aggregates", {
+  providerId: integer("provider_id").primaryKey().references(() => serviceProviders.id),
+  reviewCount: integer("review_count").notNull().default(0),
+  ratingSum: integer("rating_sum").notNull().default(0),
+  // Review counts by star, index 0 holding the 1-star reviews
+  distribution: jsonb("distribution").$type<number[]>().notNull(),
+  dimensions: jsonb("dimensions").$type<Record<RatingDimension, RatingTally>>().notNull(),
+  bayesianScore: doublePrecision("bayesian_score").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Provider rating aggregates relations
+export const providerRatingAggregatesRelations = relations(providerRatingAggregates, ({ one }) => ({
+  provider: one(serviceProviders, {
+    fields: [providerRatingAggregates.providerId],
+    references: [serviceProviders.id],
+  }),
+}));
+
+// Why a user flagged a review
+export const reviewReportReasons = {
+  SPAM: 'spam',
+  OFFENSIVE: 'offensive',
+  FAKE: 'fake',
+  PERSONAL_INFO: 'personal_info',
+  OFF_TOPIC: 'off_topic',
+  OTHER: 'other',
+} as const;
+
+export type ReviewReportReason = typeof reviewReportReasons[keyof typeof reviewReportReasons];
+
+// Reports users file against reviews; open until a moderator acts on the review
+export const reviewReports = pgTable("review_reports", {
+  id: serial("id").primaryKey(),
+  reviewId: integer("review_id").notNull().references(() => reviews.id),
+  reporterId: integer("reporter_id").notNull().references(() => users.id),
+  reason: text("reason").notNull(),
+  details: text("details"),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  reviewReporter: unique().on(table.reviewId, table.reporterId),
+}));
+
+// Review reports relations
+export const reviewReportsRelations = relations(reviewReports, ({ one }) => ({
+  review: one(reviews, {
+    fields: [reviewReports.reviewId],
+    references: [reviews.id],
+  }),
+  reporter: one(users, {
+    fields: [reviewReports.reporterId],
+    references: [users.id],
+  }),
+}));
+
+// What a moderator can do with a review; dismissing closes its reports and leaves it up
+export const reviewModerationActions = {
+  HIDE: 'hide',
+  RESTORE: 'restore',
+  DISMISS: 'dismiss',
+} as const;
+
+export type ReviewModerationAction = typeof reviewModerationActions[keyof typeof reviewModerationActions];
+
+// Audit trail of moderation decisions; rows are never updated or deleted
+export const reviewModerationEvents = pgTable("review_moderation_events", {
+  id: serial("id").primaryKey(),
+  reviewId: integer("review_id").notNull().references(() => reviews.id),
+  moderatorId: integer("moderator_id").notNull().references(() => users.id),
+  action: text("action").notNull(),
+  note: text("note"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Review moderation events relations
+export const reviewModerationEventsRelations = relations(reviewModerationEvents, ({ one }) => ({
+  review: one(reviews, {
+    fields: [reviewModerationEvents.reviewId],
+    references: [reviews.id],
+  }),
+  moderator: one(users, {
+    fields: [reviewModerationEvents.moderatorId],
+    references: [users.id],
+  }),
+}));
+
+// Message threads between a client and a provider about a service request or task
+export const conversations = pgTable("conversations", {
+  id: serial("id").primaryKey(),
+  serviceRequestId: integer("service_request_id").unique().references(() => serviceRequests.id),
+  taskId: integer("task_id").references(() => tasks.id),
+  clientId: integer("client_id").notNull().references(() => users.id),
+  providerId: integer("provider_id").notNull().references(() => serviceProviders.id),
+  lastMessageAt: timestamp("last_message_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Conversations relations
+export const conversationsRelations = relations(conversations, ({ one, many }) => ({
+  serviceRequest: one(serviceRequests, {
+    fields: [conversations.serviceRequestId],
+    references: [serviceRequests.id],
+  }),
+  task: one(tasks, {
+    fields: [conversations.taskId],
+    references: [tasks.id],
+  }),
+  client: one(users, {
+    fields: [conversations.clientId],
+    references: [users.id],
+  }),
+  provider: one(serviceProviders, {
+    fields: [conversations.providerId],
+    references: [serviceProviders.id],
+  }),
+  messages: many(messages),
+}));
+
+// Messages; readAt doubles as the read receipt since threads only have two participants
+export const messages = pgTable("messages", {
+  id: serial("id").primaryKey(),
+  conversationId: integer("conversation_id").notNull().references(() => conversations.id),
+  senderId: integer("sender_id").notNull().references(() => users.id),
+  body: text("body").notNull(),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Messages relations
+export const messagesRelations = relations(messages, ({ one }) => ({
+  conversation: one(conversations, {
+    fields: [messages.conversationId],
+    references: [conversations.id],
+  }),
+  sender: one(users, {
+    fields: [messages.senderId],
+    references: [users.id],
+  }),
 }));
 
 // Insert schemas
@@ -200,42 +875,358 @@ export const insertUserSchema = createInsertSchema(users, {
   isServiceProvider: z.boolean().default(false),
   profilePicture: z.string().nullable().optional(),
   phoneNumber: z.string().nullable().optional(),
+}).omit({
+  role: true,
+  suspendedAt: true,
+  suspensionReason: true
+});
+
+export const insertPasswordResetTokenSchema = createInsertSchema(passwordResetTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true
+});
+
+export const insertLoginTokenSchema = createInsertSchema(loginTokens).omit({
+  id: true,
+  usedAt: true,
+  createdAt: true
 });
 
-export const insertServiceCategorySchema = createInsertSchema(serviceCategories).omit({
+export const insertTwoFactorCredentialSchema = createInsertSchema(twoFactorCredentials).omit({
+  enabledAt: true,
+  lastUsedStep: true,
+  createdAt: true
+});
+
+export const insertServiceCategorySchema = createInsertSchema(serviceCategories, {
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().trim().max(500).nullable().optional(),
+  icon: z.string().trim().max(50).nullable().optional(),
+}).omit({
   id: true
 });
 
-export const insertServiceProviderSchema = createInsertSchema(serviceProviders).omit({
+export const userSuspensionRequestSchema = z.object({
+  reason: z.string().trim().min(1, "Give a reason for the suspension").max(500),
+});
+
+export const providerVerificationRequestSchema = z.object({
+  verified: z.boolean(),
+});
+
+export const passwordResetRequestSchema = z.object({
+  email: z.string().trim().email("Invalid email address"),
+});
+
+export const magicLinkRequestSchema = z.object({
+  email: z.string().trim().email("Invalid email address"),
+});
+
+// A code from the authenticator app, or one of the recovery codes
+export const twoFactorCodeSchema = z.object({
+  code: z.string().trim().min(1, "Enter your authentication code").max(32),
+});
+
+// Turning 2FA off needs the password as well as a code
+export const twoFactorDisableSchema = twoFactorCodeSchema.extend({
+  password: z.string().min(1, "Password is required"),
+});
+
+// Signed-in users changing their password; every other session is signed out
+export const passwordChangeSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"]
+});
+
+export const passwordResetConfirmSchema = z.object({
+  token: z.string().min(1, "Reset token is required"),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  confirmPassword: z.string(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords do not match",
+  path: ["confirmPassword"]
+});
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const timeZoneSchema = z.string().refine(isValidTimeZone, "Unknown timezone");
+const slotMinutesSchema = z.number().int().min(15, "Slots must be at least 15 minutes").max(480, "Slots must not exceed 8 hours");
+
+// Coordinates are derived from the postal code on the server
+export const insertServiceProviderSchema = createInsertSchema(serviceProviders, {
+  serviceRadiusKm: z.number().positive().max(100, "Service radius must not exceed 100 km").optional(),
+  timezone: timeZoneSchema.optional(),
+  slotMinutes: slotMinutesSchema.optional(),
+}).omit({
   id: true,
   completedJobs: true,
-  rating: true
+  rating: true,
+  ratingScore: true,
+  latitude: true,
+  longitude: true,
+  payoutSchedule: true,
+  verifiedAt: true
 });
 
+// Status and acceptance fields are only changed through the task lifecycle
 export const insertTaskSchema = createInsertSchema(tasks).omit({
   id: true,
+  status: true,
+  acceptedById: true,
+  acceptedAt: true,
   createdAt: true,
-  completedAt: true
+  completedAt: true,
+  latitude: true,
+  longitude: true
+});
+
+export const insertTaskStatusHistorySchema = createInsertSchema(taskStatusHistory).omit({
+  id: true,
+  createdAt: true
+});
+
+// Status only changes through the service request lifecycle
+export const insertServiceRequestSchema = createInsertSchema(serviceRequests, {
+  scheduledStart: z.coerce.date().nullish(),
+  scheduledEnd: z.coerce.date().nullish(),
+}).omit({
+  id: true,
+  status: true,
+  completedAt: true,
+  createdAt: true
+});
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use the HH:MM format");
+
+const availabilityRuleFieldsSchema = createInsertSchema(availabilityRules, {
+  weekday: z.number().int().min(0).max(6),
+  startTime: timeOfDaySchema,
+  endTime: timeOfDaySchema,
+}).omit({
+  id: true
 });
 
-export const insertServiceRequestSchema = createInsertSchema(serviceRequests).omit({
+// "HH:MM" strings compare correctly as text
+const endsAfterStart = (rule: { startTime: string; endTime: string }) => rule.startTime < rule.endTime;
+const endTimeError = { message: "End time must be after start time", path: ["endTime"] };
+
+export const insertAvailabilityRuleSchema = availabilityRuleFieldsSchema.refine(endsAfterStart, endTimeError);
+
+// A provider's whole weekly schedule, replaced at once from the profile page
+export const availabilityScheduleSchema = z.object({
+  timezone: timeZoneSchema,
+  slotMinutes: slotMinutesSchema,
+  rules: z.array(availabilityRuleFieldsSchema.omit({ providerId: true }).refine(endsAfterStart, endTimeError)).max(50),
+});
+
+export const insertAvailabilityExceptionSchema = createInsertSchema(availabilityExceptions, {
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  reason: z.string().max(200, "Reason must not exceed 200 characters").nullish(),
+}).omit({
   id: true,
   createdAt: true
+}).refine((exception) => exception.endsAt > exception.startsAt, {
+  message: "The block must end after it starts",
+  path: ["endsAt"]
 });
 
-export const insertReviewSchema = createInsertSchema(reviews).omit({
+const quoteFieldsSchema = createInsertSchema(quotes, {
+  amount: z.number().positive("Amount must be greater than 0"),
+  pricingType: z.enum([quotePricingTypes.FIXED, quotePricingTypes.HOURLY]),
+  estimatedHours: z.number().positive("Estimated hours must be greater than 0").nullish(),
+  earliestStartAt: z.coerce.date().nullish(),
+  expiresAt: z.coerce.date().nullish(),
+}).omit({
   id: true,
   createdAt: true
 });
 
+// Hourly quotes need an hour estimate so clients can compare them with fixed prices
+const hasHourEstimate = (quote: { pricingType: string; estimatedHours?: number | null }) =>
+  quote.pricingType !== quotePricingTypes.HOURLY || !!quote.estimatedHours;
+const hourEstimateError = { message: "Hourly quotes need an estimate of the hours", path: ["estimatedHours"] };
+
+export const insertQuoteSchema = quoteFieldsSchema.refine(hasHourEstimate, hourEstimateError);
+
+// A quote as submitted by a provider alongside their offer
+export const quoteDetailsSchema = quoteFieldsSchema
+  .omit({ serviceRequestId: true })
+  .refine(hasHourEstimate, hourEstimateError)
+  .refine((quote) => !quote.expiresAt || quote.expiresAt > new Date(), {
+    message: "Expiry must be in the future",
+    path: ["expiresAt"]
+  });
+
+export const insertBookingSchema = createInsertSchema(bookings).omit({
+  id: true,
+  status: true,
+  sequence: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+// A time (and optionally a place) either party proposes when scheduling or rescheduling
+export const bookingTimeSchema = z.object({
+  startsAt: z.coerce.date(),
+  endsAt: z.coerce.date(),
+  address: z.string().trim().max(200, "Address must not exceed 200 characters").nullish(),
+}).refine((time) => time.endsAt > time.startsAt, {
+  message: "The appointment must end after it starts",
+  path: ["endsAt"]
+}).refine((time) => time.startsAt > new Date(), {
+  message: "The appointment must be in the future",
+  path: ["startsAt"]
+});
+
+export const insertLedgerAccountSchema = createInsertSchema(ledgerAccounts).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertJournalEntrySchema = createInsertSchema(journalEntries).omit({
+  id: true,
+  createdAt: true
+});
+
+export const insertLedgerPostingSchema = createInsertSchema(ledgerPostings).omit({
+  id: true,
+  entryId: true
+});
+
+export const insertPaymentHoldSchema = createInsertSchema(paymentHolds).omit({
+  id: true,
+  status: true,
+  createdAt: true,
+  settledAt: true
+});
+
+const starRating = z.number().int().min(1).max(5);
+
+export const insertReviewSchema = createInsertSchema(reviews, {
+  rating: starRating,
+  punctualityRating: starRating.nullish(),
+  qualityRating: starRating.nullish(),
+  communicationRating: starRating.nullish(),
+  valueRating: starRating.nullish(),
+}).omit({
+  id: true,
+  publishedAt: true,
+  reply: true,
+  repliedAt: true,
+  hiddenAt: true,
+  createdAt: true
+});
+
+export const insertReviewReportSchema = createInsertSchema(reviewReports).omit({
+  id: true,
+  resolvedAt: true,
+  createdAt: true
+});
+
+export const insertReviewModerationEventSchema = createInsertSchema(reviewModerationEvents).omit({
+  id: true,
+  createdAt: true
+});
+
+export const reviewReplySchema = z.object({
+  reply: z.string().trim().min(1, "Write a reply").max(1000),
+});
+
+export const reviewReportRequestSchema = z.object({
+  reason: z.enum([
+    reviewReportReasons.SPAM,
+    reviewReportReasons.OFFENSIVE,
+    reviewReportReasons.FAKE,
+    reviewReportReasons.PERSONAL_INFO,
+    reviewReportReasons.OFF_TOPIC,
+    reviewReportReasons.OTHER,
+  ]),
+  details: z.string().trim().max(1000).optional(),
+}).refine((report) => report.reason !== reviewReportReasons.OTHER || !!report.details, {
+  message: "Tell us what is wrong with the review",
+  path: ["details"]
+});
+
+export const reviewModerationRequestSchema = z.object({
+  action: z.enum([reviewModerationActions.HIDE, reviewModerationActions.RESTORE, reviewModerationActions.DISMISS]),
+  note: z.string().trim().max(1000).optional(),
+});
+
+// What either party sends to review a completed request
+export const reviewRequestSchema = z.object({
+  serviceRequestId: z.number().int().positive(),
+  rating: starRating,
+  // Only clients rate these, and each is optional
+  subRatings: z.object({
+    punctuality: starRating.optional(),
+    quality: starRating.optional(),
+    communication: starRating.optional(),
+    value: starRating.optional(),
+  }).optional(),
+  comment: z.string().trim().max(2000).optional(),
+});
+
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertNotificationPreferenceSchema = createInsertSchema(notificationPreferences, {
+  type: z.enum(Object.values(notificationTypes) as [NotificationType, ...NotificationType[]]),
+  channel: z.enum(Object.values(notificationChannels) as [NotificationChannel, ...NotificationChannel[]]),
+}).omit({
+  id: true,
+  updatedAt: true,
+});
+
+export const insertConversationSchema = createInsertSchema(conversations).omit({
+  id: true,
+  lastMessageAt: true,
+  createdAt: true,
+});
+
+export const insertMessageSchema = createInsertSchema(messages, {
+  body: z.string().trim().min(1, "Message cannot be empty").max(2000, "Message must not exceed 2000 characters"),
+}).omit({
+  id: true,
+  readAt: true,
+  createdAt: true,
+});
+
 // Types
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type UserSuspensionRequest = z.infer<typeof userSuspensionRequestSchema>;
+export type ProviderVerificationRequest = z.infer<typeof providerVerificationRequestSchema>;
+
+export type InsertPasswordResetToken = z.infer<typeof insertPasswordResetTokenSchema>;
+export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
+export type PasswordResetRequest = z.infer<typeof passwordResetRequestSchema>;
+export type PasswordResetConfirm = z.infer<typeof passwordResetConfirmSchema>;
+export type PasswordChange = z.infer<typeof passwordChangeSchema>;
+
+export type InsertLoginToken = z.infer<typeof insertLoginTokenSchema>;
+export type LoginToken = typeof loginTokens.$inferSelect;
+export type MagicLinkRequest = z.infer<typeof magicLinkRequestSchema>;
+
+export type InsertTwoFactorCredential = z.infer<typeof insertTwoFactorCredentialSchema>;
+export type TwoFactorCredential = typeof twoFactorCredentials.$inferSelect;
+export type TwoFactorRecoveryCode = typeof twoFactorRecoveryCodes.$inferSelect;
+export type TwoFactorCode = z.infer<typeof twoFactorCodeSchema>;
+export type TwoFactorDisable = z.infer<typeof twoFactorDisableSchema>;
 
 export type InsertServiceCategory = z.infer<typeof insertServiceCategorySchema>;
 export type ServiceCategory = typeof serviceCategories.$inferSelect;
@@ -246,23 +1237,316 @@ export type ServiceProvider = typeof serviceProviders.$inferSelect;
 export type InsertTask = z.infer<typeof insertTaskSchema>;
 export type Task = typeof tasks.$inferSelect;
 
+export type InsertTaskStatusHistory = z.infer<typeof insertTaskStatusHistorySchema>;
+export type TaskStatusHistory = typeof taskStatusHistory.$inferSelect;
+
 export type InsertServiceRequest = z.infer<typeof insertServiceRequestSchema>;
 export type ServiceRequest = typeof serviceRequests.$inferSelect;
 
+export type InsertAvailabilityRule = z.infer<typeof insertAvailabilityRuleSchema>;
+export type AvailabilityRule = typeof availabilityRules.$inferSelect;
+export type AvailabilitySchedule = z.infer<typeof availabilityScheduleSchema>;
+
+export type InsertAvailabilityException = z.infer<typeof insertAvailabilityExceptionSchema>;
+export type AvailabilityException = typeof availabilityExceptions.$inferSelect;
+
+export type InsertQuote = z.infer<typeof insertQuoteSchema>;
+export type Quote = typeof quotes.$inferSelect;
+export type QuoteDetails = z.infer<typeof quoteDetailsSchema>;
+
+export type InsertBooking = z.infer<typeof insertBookingSchema>;
+export type Booking = typeof bookings.$inferSelect;
+export type BookingTime = z.infer<typeof bookingTimeSchema>;
+
+export const insertPayoutSchema = createInsertSchema(payouts).omit({
+  id: true,
+  createdAt: true
+});
+
+export const payoutScheduleSchema = z.object({
+  schedule: z.enum([payoutSchedules.WEEKLY, payoutSchedules.ON_DEMAND]),
+});
+
+export const insertInvoiceSchema = createInsertSchema(invoices, {
+  lineItems: z.array(z.object({
+    description: z.string(),
+    quantity: z.number(),
+    unitPriceCents: z.number().int(),
+    amountCents: z.number().int(),
+  })),
+}).omit({
+  id: true,
+  issuedAt: true
+});
+
+// What a provider submits to correct an invoice; leaving out the amount credits it in full
+export const creditNoteRequestSchema = z.object({
+  reason: z.string().trim().min(1, "Give a reason for the credit note").max(500),
+  amountCents: z.number().int().positive().optional(),
+});
+
+export type InsertLedgerAccount = z.infer<typeof insertLedgerAccountSchema>;
+export type LedgerAccount = typeof ledgerAccounts.$inferSelect;
+
+export type InsertJournalEntry = z.infer<typeof insertJournalEntrySchema>;
+export type JournalEntry = typeof journalEntries.$inferSelect;
+
+export type InsertLedgerPosting = z.infer<typeof insertLedgerPostingSchema>;
+export type LedgerPosting = typeof ledgerPostings.$inferSelect;
+
+export type InsertPaymentHold = z.infer<typeof insertPaymentHoldSchema>;
+export type PaymentHold = typeof paymentHolds.$inferSelect;
+
+export type InsertPayout = z.infer<typeof insertPayoutSchema>;
+export type Payout = typeof payouts.$inferSelect;
+
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+export type Invoice = typeof invoices.$inferSelect;
+export type CreditNoteRequest = z.infer<typeof creditNoteRequestSchema>;
+
 export type InsertReview = z.infer<typeof insertReviewSchema>;
 export type Review = typeof reviews.$inferSelect;
+export type ReviewRequest = z.infer<typeof reviewRequestSchema>;
+export type ProviderRatingAggregate = typeof providerRatingAggregates.$inferSelect;
+export type InsertReviewReport = z.infer<typeof insertReviewReportSchema>;
+export type ReviewReport = typeof reviewReports.$inferSelect;
+export type ReviewReportRequest = z.infer<typeof reviewReportRequestSchema>;
+export type InsertReviewModerationEvent = z.infer<typeof insertReviewModerationEventSchema>;
+export type ReviewModerationEvent = typeof reviewModerationEvents.$inferSelect;
+export type ReviewModerationRequest = z.infer<typeof reviewModerationRequestSchema>;
 
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 export type Notification = typeof notifications.$inferSelect;
 
+export type InsertNotificationPreference = z.infer<typeof insertNotificationPreferenceSchema>;
+export type NotificationPreference = typeof notificationPreferences.$inferSelect;
+
+export type InsertConversation = z.infer<typeof insertConversationSchema>;
+export type Conversation = typeof conversations.$inferSelect;
+
+export type InsertMessage = z.infer<typeof insertMessageSchema>;
+export type Message = typeof messages.$inferSelect;
+
 // Extended provider type with user info
 export type ServiceProviderWithUser = ServiceProvider & {
   user: User;
   category: ServiceCategory;
 };
 
+// Provider fields anyone may see; the provider's address and exact location stay private
+export type PublicServiceProvider = Omit<ServiceProvider, "address" | "latitude" | "longitude">;
+
+// Provider as listed publicly, with only the user fields safe to expose
+export type ProviderListing = PublicServiceProvider & {
+  user: Pick<User, "id" | "firstName" | "lastName" | "profilePicture" | "username">;
+  category: ServiceCategory;
+};
+
+export function toProviderListing(
+  { address: _address, latitude: _latitude, longitude: _longitude, ...provider }: ServiceProvider,
+  { id, firstName, lastName, profilePicture, username }: ProviderListing["user"],
+  category: ServiceCategory
+): ProviderListing {
+  return { ...provider, user: { id, firstName, lastName, profilePicture, username }, category };
+}
+
+// Orderings offered by provider search
+export const providerSortOptions = {
+  RATING: 'rating',
+  PRICE: 'price',
+  COMPLETED_JOBS: 'completedJobs',
+  NEWEST: 'newest',
+} as const;
+
+export type ProviderSort = typeof providerSortOptions[keyof typeof providerSortOptions];
+
+export type ProviderSearchPage = {
+  providers: ProviderListing[];
+  nextCursor: string | null;
+};
+
+// A run of search snippet text; highlighted runs matched the query
+export type SnippetSegment = {
+  text: string;
+  highlighted: boolean;
+};
+
+// Task matched by full-text search, best match first
+export type TaskSearchHit = Task & {
+  rank: number;
+  snippet: SnippetSegment[];
+};
+
+// A quote as shown to the task owner when comparing offers
+export type QuoteComparison = Quote & {
+  serviceRequest: ServiceRequest;
+  provider: ProviderListing;
+  // Price of the whole job; for hourly quotes, rate times estimated hours
+  estimatedTotal: number;
+  expired: boolean;
+};
+
+// A provider's schedule as shown publicly and on their profile page
+export type ProviderAvailability = {
+  timezone: string;
+  slotMinutes: number;
+  rules: AvailabilityRule[];
+  exceptions: AvailabilityException[];
+};
+
+// A bookable stretch of a provider's time
+export type TimeSlot = {
+  start: Date;
+  end: Date;
+};
+
+// Where a user's money stands, in cents. Provider figures are null for users who are not providers
+export type PaymentBalances = {
+  client: {
+    heldCents: number;
+    paidCents: number;
+    refundedCents: number;
+  };
+  provider: {
+    // Net of fees, for jobs still in progress
+    pendingCents: number;
+    // Released to the provider and not yet paid out
+    availableCents: number;
+  } | null;
+};
+
+export type EarningsPeriodLength = 'week' | 'month';
+
+// A provider's released job payments in one week or month, in their timezone
+export type EarningsPeriod = {
+  // First day of the period, e.g. "2026-03-02"
+  start: string;
+  jobs: number;
+  grossCents: number;
+  feeCents: number;
+  netCents: number;
+};
+
+export type EarningsSummary = {
+  period: EarningsPeriodLength;
+  // Oldest first, including periods without jobs
+  periods: EarningsPeriod[];
+  totals: Omit<EarningsPeriod, 'start'>;
+};
+
+export type PayoutOverview = {
+  schedule: PayoutSchedule;
+  availableCents: number;
+  minimumPayoutCents: number;
+  // When the next weekly payout may go out; null for on-demand providers
+  nextScheduledAt: Date | null;
+  payouts: Payout[];
+};
+
+// A provider's ratings as shown on their profile
+export type ProviderRatingSummary = {
+  reviewCount: number;
+  // Null until the provider has a published review
+  average: number | null;
+  bayesianScore: number;
+  // Review counts by star, index 0 holding the 1-star reviews
+  distribution: number[];
+  // Average per sub-rating, null where nobody has rated it
+  dimensions: Record<RatingDimension, number | null>;
+};
+
+// How a client has been rated by the providers they hired
+export type ClientReputation = {
+  // Average of published reviews, null until there is one
+  rating: number | null;
+  reviewCount: number;
+};
+
+// Where one party stands on reviewing a completed request
+export type ReviewState = {
+  // The party's own review, which they can always see
+  review: Review | null;
+  // The other party's review, only once published
+  counterpartReview: Review | null;
+  counterpartSubmitted: boolean;
+  // Null until the request is completed
+  windowClosesAt: Date | null;
+  canReview: boolean;
+};
+
+// A review awaiting or past moderation, with everything a moderator needs to decide
+export type ModerationQueueItem = {
+  review: Review;
+  reports: ReviewReport[];
+  // Oldest first
+  history: ReviewModerationEvent[];
+};
+
+// A journal entry as it affects one user; positive amounts are money coming to them
+export type PaymentTransaction = {
+  id: number;
+  kind: JournalEntryKind;
+  description: string;
+  // Null for payouts, which cover many jobs
+  serviceRequestId: number | null;
+  amountCents: number;
+  createdAt: Date | null;
+};
+
 // Extended task type with user and category info
 export type TaskWithDetails = Task & {
   client: User;
   category: ServiceCategory;
 };
+
+// What the account settings page shows about 2FA; the secret never leaves the server after enrollment
+export type TwoFactorStatus = {
+  enabled: boolean;
+  enabledAt: Date | null;
+  recoveryCodesRemaining: number;
+};
+
+export type TwoFactorEnrollment = {
+  secret: string;
+  otpauthUrl: string;
+  // PNG data URL of otpauthUrl
+  qrCode: string;
+};
+
+// Answer to a password or login-link check when the account still needs its second factor
+export type TwoFactorChallenge = {
+  twoFactorRequired: true;
+};
+
+// A signed-in session as its owner sees it. The id stands in for the session id, which never leaves the cookie
+export type ActiveSession = {
+  id: string;
+  device: string;
+  ip: string | null;
+  createdAt: Date | null;
+  lastSeenAt: Date | null;
+  expiresAt: Date | null;
+  current: boolean;
+};
+
+// Admin console listings. Users never carry their credentials or tokens here
+export type AdminUser = Omit<User, 'password' | 'verificationToken' | 'verificationTokenExpires' | 'calendarToken'> & {
+  providerId: number | null;
+};
+
+export type AdminUserSummary = Pick<User, 'id' | 'firstName' | 'lastName' | 'email' | 'suspendedAt'>;
+
+export type AdminProvider = ServiceProvider & {
+  user: AdminUserSummary | null;
+  category: ServiceCategory | null;
+};
+
+export type AdminTask = Task & {
+  client: AdminUserSummary | null;
+  category: ServiceCategory | null;
+};
+
+export type AdminServiceRequest = ServiceRequest & {
+  client: AdminUserSummary | null;
+  provider: AdminUserSummary | null;
+};
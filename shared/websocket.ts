@@ -0,0 +1,35 @@
+import type { Notification, NotificationType, ServiceRequestStatus, TaskStatus } from "./schema";
+
+// The only path the server accepts WebSocket upgrades on
+export const WS_PATH = "/api/ws";
+
+// Close code for a socket whose session was revoked or whose user was suspended
+export const WS_SESSION_ENDED = 4001;
+
+// A live notification; id is null when the user has muted the in-app copy
+export type LiveNotification = {
+  id: number | null;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data: Notification["data"];
+  read: boolean;
+  createdAt: Date;
+};
+
+/**
+ * Messages the server pushes to the browser; Date fields arrive as ISO strings.
+ * Updates carry ids rather than whole rows: they cross instances over Postgres
+ * NOTIFY, which caps payloads at 8000 bytes, and the browser refetches anyway.
+ */
+export type ServerMessage =
+  | { type: "notification"; notification: LiveNotification }
+  | { type: "task_updated"; taskId: number; status: TaskStatus }
+  | { type: "service_request_updated"; serviceRequestId: number; taskId: number | null; status: ServiceRequestStatus }
+  | { type: "message"; conversationId: number; messageId: number }
+  | { type: "messages_read"; conversationId: number; readerId: number; readAt: Date }
+  | { type: "pong" };
+
+// Messages the browser sends to the server
+export type ClientMessage = { type: "ping" };
+